@@ -4,8 +4,9 @@ export const dynamic = 'force-dynamic'
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { prisma } from '@/lib/db'
+import { getFilingLockError } from '@/lib/filing-lock'
 import { FORM_TEMPLATES } from '@/lib/form-templates'
-import { validateFormData, convertToIncomeEntries } from '@/lib/data-processing'
+import { validateFormData, convertToIncomeEntries, convertToCapitalTransactions, convertToBrokerIncomeEntries, convertToEducationStudents } from '@/lib/data-processing'
 import { readFile } from 'fs/promises'
 import path from 'path'
 import * as XLSX from 'xlsx'
@@ -40,6 +41,11 @@ export async function POST(req: NextRequest, { params }: Props) {
       }, { status: 400 })
     }
 
+    const filingLockError = await getFilingLockError(taxReturnId)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
     // Get mapping with related data
     const mapping = await prisma.dataMapping.findFirst({
       where: {
@@ -127,13 +133,6 @@ export async function POST(req: NextRequest, { params }: Props) {
       })
     }
 
-    // Convert to income entries
-    const incomeEntries = convertToIncomeEntries(
-      validationResult.data!,
-      mapping.template.formType,
-      taxReturnId
-    )
-
     // Save processed form data records
     const processedForms = await Promise.all(
       validationResult.data!.map(async (formData, index) => {
@@ -152,16 +151,81 @@ export async function POST(req: NextRequest, { params }: Props) {
       })
     )
 
-    // Create income entries in batches
     let createdEntries = 0
+    let createdTransactions = 0
+    let createdStudents = 0
     const batchSize = 100
 
-    for (let i = 0; i < incomeEntries.length; i += batchSize) {
-      const batch = incomeEntries.slice(i, i + batchSize)
-      await prisma.incomeEntry.createMany({
-        data: batch
+    if (mapping.template.formType === 'FORM_1099_B') {
+      // Broker rows are individual sales reported on Form 8949; only market discount and withholding become income entries
+      const transactions = convertToCapitalTransactions(
+        validationResult.data!,
+        taxReturnId,
+        mapping.uploadId
+      )
+
+      for (let i = 0; i < transactions.length; i += batchSize) {
+        const batch = transactions.slice(i, i + batchSize)
+        await prisma.capitalTransaction.createMany({
+          data: batch
+        })
+        createdTransactions += batch.length
+      }
+
+      const brokerEntries = convertToBrokerIncomeEntries(validationResult.data!, taxReturnId)
+      if (brokerEntries.length > 0) {
+        await prisma.incomeEntry.createMany({
+          data: brokerEntries
+        })
+        createdEntries += brokerEntries.length
+      }
+    } else if (mapping.template.formType === 'FORM_1098_T') {
+      // Tuition statements become Form 8863 students rather than income
+      const dependents = await prisma.dependent.findMany({
+        where: { taxReturnId }
+      })
+      const students = convertToEducationStudents(
+        validationResult.data!,
+        taxReturnId,
+        mapping.uploadId,
+        dependents
+      )
+
+      await prisma.educationStudent.createMany({
+        data: students
       })
-      createdEntries += batch.length
+      createdStudents = students.length
+    } else {
+      // Convert to income entries
+      const incomeEntries = convertToIncomeEntries(
+        validationResult.data!,
+        mapping.template.formType,
+        taxReturnId
+      )
+
+      // W-2 state lines are child rows, so entries that have them are created one at a time
+      const entries = incomeEntries.map(({ stateLines, ...entry }: any) => ({ entry, stateLines: stateLines || [] }))
+      for (const { entry, stateLines } of entries.filter(({ stateLines }) => stateLines.length > 0)) {
+        await prisma.incomeEntry.create({
+          data: {
+            ...entry,
+            stateLines: { create: stateLines }
+          }
+        })
+        createdEntries++
+      }
+
+      // Create the remaining income entries in batches
+      const entriesWithoutStateLines = entries
+        .filter(({ stateLines }) => stateLines.length === 0)
+        .map(({ entry }) => entry)
+      for (let i = 0; i < entriesWithoutStateLines.length; i += batchSize) {
+        const batch = entriesWithoutStateLines.slice(i, i + batchSize)
+        await prisma.incomeEntry.createMany({
+          data: batch
+        })
+        createdEntries += batch.length
+      }
     }
 
     // Update mapping status
@@ -176,17 +240,19 @@ export async function POST(req: NextRequest, { params }: Props) {
     await prisma.dataUpload.update({
       where: { id: mapping.uploadId! },
       data: {
-        processedRows: createdEntries,
+        processedRows: createdEntries + createdTransactions + createdStudents,
         status: 'COMPLETED'
       }
     })
 
     return NextResponse.json({
       success: true,
-      processed: createdEntries,
+      processed: createdEntries + createdTransactions + createdStudents,
       errors: [],
       processedForms: processedForms.length,
-      incomeEntries: createdEntries
+      incomeEntries: createdEntries,
+      capitalTransactions: createdTransactions,
+      educationStudents: createdStudents
     })
 
   } catch (error) {
@@ -130,6 +130,12 @@ function determineDocumentType(fileName: string): string {
   if (lowerName.includes('1099-g')) {
     return 'FORM_1099_G'
   }
+  if (lowerName.includes('ssa-1099') || lowerName.includes('ssa1099')) {
+    return 'SSA_1099'
+  }
+  if (lowerName.includes('1098-t') || lowerName.includes('1098t')) {
+    return 'FORM_1098_T'
+  }
   if (lowerName.includes('1099')) {
     return 'OTHER_TAX_DOCUMENT'
   }
@@ -2,6 +2,7 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
 
 export const dynamic = "force-dynamic"
 
@@ -37,6 +38,11 @@ export async function POST(
       return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
     }
 
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
     // Update with auto-save data and timestamp
     const updatedTaxReturn = await prisma.taxReturn.update({
       where: { id: params.id },
@@ -46,9 +52,19 @@ export async function POST(
         updatedAt: new Date()
       },
       include: {
-        incomeEntries: true,
+        incomeEntries: {
+          include: { stateLines: true }
+        },
         deductionEntries: true,
-        dependents: true
+        dependents: true,
+        businesses: {
+          include: { expenses: true }
+        },
+        capitalTransactions: true,
+        educationStudents: true,
+        careProviders: true,
+        residencyPeriods: true,
+        estimatedPayments: true
       }
     })
 
@@ -0,0 +1,188 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
+import { BUSINESS_RECEIPT_INCOME_TYPES, validateBusinessExpenses } from "@/lib/schedule-c"
+
+export const dynamic = "force-dynamic"
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string, businessId: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    const existing = await prisma.business.findFirst({
+      where: {
+        id: params.businessId,
+        taxReturnId: params.id
+      }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: "Business not found" }, { status: 404 })
+    }
+
+    const data = await request.json()
+
+    if (data.expenses !== undefined) {
+      const expenseError = validateBusinessExpenses(data.expenses)
+      if (expenseError) {
+        return NextResponse.json({ error: expenseError }, { status: 400 })
+      }
+    }
+
+    const business = await prisma.$transaction(async (tx) => {
+      await tx.business.update({
+        where: { id: params.businessId },
+        data: {
+          name: data.name ?? existing.name,
+          ein: data.ein !== undefined ? (data.ein || null) : existing.ein,
+          activityCode: data.activityCode !== undefined ? (data.activityCode || null) : existing.activityCode,
+          description: data.description !== undefined ? (data.description || null) : existing.description,
+          accountingMethod: data.accountingMethod ?? existing.accountingMethod,
+          forSpouse: data.forSpouse !== undefined
+            ? taxReturn.filingStatus === "MARRIED_FILING_JOINTLY" && Boolean(data.forSpouse)
+            : existing.forSpouse,
+          homeOfficeSquareFeet: data.homeOfficeSquareFeet !== undefined
+            ? Number(data.homeOfficeSquareFeet) || 0
+            : existing.homeOfficeSquareFeet,
+          businessMiles: data.businessMiles !== undefined
+            ? Number(data.businessMiles) || 0
+            : existing.businessMiles,
+        }
+      })
+
+      // A submitted expense list replaces the existing one
+      if (data.expenses !== undefined) {
+        await tx.businessExpense.deleteMany({
+          where: { businessId: params.businessId }
+        })
+        await tx.businessExpense.createMany({
+          data: data.expenses.map((expense: any) => ({
+            businessId: params.businessId,
+            category: expense.category,
+            description: expense.description || null,
+            amount: parseFloat(expense.amount)
+          }))
+        })
+      }
+
+      if (Array.isArray(data.incomeEntryIds)) {
+        await tx.incomeEntry.updateMany({
+          where: {
+            businessId: params.businessId,
+            id: { notIn: data.incomeEntryIds }
+          },
+          data: { businessId: null }
+        })
+        await tx.incomeEntry.updateMany({
+          where: {
+            id: { in: data.incomeEntryIds },
+            taxReturnId: params.id,
+            incomeType: { in: BUSINESS_RECEIPT_INCOME_TYPES }
+          },
+          data: { businessId: params.businessId }
+        })
+      }
+
+      return tx.business.findUnique({
+        where: { id: params.businessId },
+        include: {
+          expenses: true,
+          incomeEntries: true
+        }
+      })
+    })
+
+    return NextResponse.json({ business })
+  } catch (error) {
+    console.error("Error updating business:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string, businessId: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    // Linked income entries are kept and simply unlinked (onDelete: SetNull)
+    await prisma.business.delete({
+      where: {
+        id: params.businessId,
+        taxReturnId: params.id
+      }
+    })
+
+    return NextResponse.json({ message: "Business deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting business:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
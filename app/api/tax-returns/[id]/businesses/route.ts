@@ -0,0 +1,156 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
+import { BUSINESS_RECEIPT_INCOME_TYPES, validateBusinessExpenses } from "@/lib/schedule-c"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const businesses = await prisma.business.findMany({
+      where: { taxReturnId: params.id },
+      include: {
+        expenses: true,
+        incomeEntries: true
+      },
+      orderBy: { createdAt: "asc" }
+    })
+
+    return NextResponse.json({ businesses })
+  } catch (error) {
+    console.error("Error fetching businesses:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    const data = await request.json()
+
+    if (!data.name) {
+      return NextResponse.json({ error: "Business name is required" }, { status: 400 })
+    }
+
+    const expenses = data.expenses || []
+    const expenseError = validateBusinessExpenses(expenses)
+    if (expenseError) {
+      return NextResponse.json({ error: expenseError }, { status: 400 })
+    }
+
+    const business = await prisma.$transaction(async (tx) => {
+      const created = await tx.business.create({
+        data: {
+          taxReturnId: params.id,
+          name: data.name,
+          ein: data.ein || null,
+          activityCode: data.activityCode || null,
+          description: data.description || null,
+          accountingMethod: data.accountingMethod || "CASH",
+          forSpouse: taxReturn.filingStatus === "MARRIED_FILING_JOINTLY" && Boolean(data.forSpouse),
+          homeOfficeSquareFeet: Number(data.homeOfficeSquareFeet) || 0,
+          businessMiles: Number(data.businessMiles) || 0,
+          expenses: {
+            create: expenses.map((expense: any) => ({
+              category: expense.category,
+              description: expense.description || null,
+              amount: parseFloat(expense.amount)
+            }))
+          }
+        }
+      })
+
+      // Only self-employment income on this return can be reported on Schedule C
+      if (Array.isArray(data.incomeEntryIds) && data.incomeEntryIds.length > 0) {
+        await tx.incomeEntry.updateMany({
+          where: {
+            id: { in: data.incomeEntryIds },
+            taxReturnId: params.id,
+            incomeType: { in: BUSINESS_RECEIPT_INCOME_TYPES }
+          },
+          data: { businessId: created.id }
+        })
+      }
+
+      return tx.business.findUnique({
+        where: { id: created.id },
+        include: {
+          expenses: true,
+          incomeEntries: true
+        }
+      })
+    })
+
+    return NextResponse.json({ business })
+  } catch (error) {
+    console.error("Error creating business:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
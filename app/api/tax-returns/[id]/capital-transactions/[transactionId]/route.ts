@@ -0,0 +1,151 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
+import { determineHoldingPeriod, validateCapitalTransaction } from "@/lib/schedule-d"
+
+export const dynamic = "force-dynamic"
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string, transactionId: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    const existing = await prisma.capitalTransaction.findFirst({
+      where: {
+        id: params.transactionId,
+        taxReturnId: params.id
+      }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: "Transaction not found" }, { status: 404 })
+    }
+
+    const data = await request.json()
+    const merged = {
+      description: data.description ?? existing.description,
+      dateAcquired: data.dateAcquired !== undefined ? (data.dateAcquired || null) : existing.dateAcquired,
+      dateSold: data.dateSold ?? existing.dateSold,
+      proceeds: data.proceeds ?? existing.proceeds.toString(),
+      costBasis: data.costBasis ?? existing.costBasis.toString(),
+      washSaleAdjustment: data.washSaleAdjustment ?? existing.washSaleAdjustment.toString(),
+      accruedMarketDiscount: data.accruedMarketDiscount ?? existing.accruedMarketDiscount.toString(),
+      holdingPeriod: data.holdingPeriod,
+    }
+
+    const validationError = validateCapitalTransaction(merged)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const transaction = await prisma.capitalTransaction.update({
+      where: { id: params.transactionId },
+      data: {
+        brokerName: data.brokerName !== undefined ? (data.brokerName || null) : existing.brokerName,
+        description: merged.description,
+        dateAcquired: merged.dateAcquired ? new Date(merged.dateAcquired) : null,
+        dateSold: new Date(merged.dateSold),
+        proceeds: parseFloat(merged.proceeds),
+        costBasis: parseFloat(merged.costBasis),
+        washSaleAdjustment: parseFloat(merged.washSaleAdjustment) || 0,
+        accruedMarketDiscount: parseFloat(merged.accruedMarketDiscount) || 0,
+        holdingPeriod: merged.holdingPeriod || (merged.dateAcquired
+          ? determineHoldingPeriod(merged.dateAcquired, merged.dateSold)
+          : existing.holdingPeriod),
+        isCovered: data.isCovered ?? existing.isCovered,
+        reportedOn1099B: data.reportedOn1099B ?? existing.reportedOn1099B,
+      }
+    })
+
+    return NextResponse.json({ transaction })
+  } catch (error) {
+    console.error("Error updating capital transaction:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string, transactionId: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    await prisma.capitalTransaction.delete({
+      where: {
+        id: params.transactionId,
+        taxReturnId: params.id
+      }
+    })
+
+    return NextResponse.json({ message: "Transaction deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting capital transaction:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
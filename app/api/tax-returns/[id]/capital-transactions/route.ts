@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
+import { determineHoldingPeriod, validateCapitalTransaction } from "@/lib/schedule-d"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const transactions = await prisma.capitalTransaction.findMany({
+      where: { taxReturnId: params.id },
+      orderBy: { dateSold: "asc" }
+    })
+
+    return NextResponse.json({ transactions })
+  } catch (error) {
+    console.error("Error fetching capital transactions:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    const data = await request.json()
+
+    const validationError = validateCapitalTransaction(data)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const transaction = await prisma.capitalTransaction.create({
+      data: {
+        taxReturnId: params.id,
+        brokerName: data.brokerName || null,
+        description: data.description,
+        dateAcquired: data.dateAcquired ? new Date(data.dateAcquired) : null,
+        dateSold: new Date(data.dateSold),
+        proceeds: parseFloat(data.proceeds),
+        costBasis: parseFloat(data.costBasis),
+        washSaleAdjustment: parseFloat(data.washSaleAdjustment) || 0,
+        accruedMarketDiscount: parseFloat(data.accruedMarketDiscount) || 0,
+        // Sales without an acquisition date ("various") must state their holding period
+        holdingPeriod: data.holdingPeriod || determineHoldingPeriod(data.dateAcquired, data.dateSold),
+        isCovered: data.isCovered ?? true,
+        reportedOn1099B: data.reportedOn1099B ?? true,
+      }
+    })
+
+    return NextResponse.json({ transaction })
+  } catch (error) {
+    console.error("Error creating capital transaction:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
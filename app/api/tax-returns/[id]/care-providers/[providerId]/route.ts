@@ -0,0 +1,148 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
+import { validateCareProvider } from "@/lib/dependent-care-credit"
+
+export const dynamic = "force-dynamic"
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string, providerId: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    const existing = await prisma.careProvider.findFirst({
+      where: {
+        id: params.providerId,
+        taxReturnId: params.id
+      }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: "Care provider not found" }, { status: 404 })
+    }
+
+    const data = await request.json()
+    const merged = {
+      name: data.name ?? existing.name,
+      amountPaid: data.amountPaid ?? existing.amountPaid.toString(),
+    }
+
+    const validationError = validateCareProvider(merged)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (data.dependentId) {
+      const dependent = await prisma.dependent.findFirst({
+        where: { id: data.dependentId, taxReturnId: params.id }
+      })
+
+      if (!dependent) {
+        return NextResponse.json({ error: "Dependent not found" }, { status: 400 })
+      }
+    }
+
+    const provider = await prisma.careProvider.update({
+      where: { id: params.providerId },
+      data: {
+        dependentId: data.dependentId !== undefined ? (data.dependentId || null) : existing.dependentId,
+        name: merged.name,
+        address: data.address !== undefined ? (data.address || null) : existing.address,
+        identifyingNumber: data.identifyingNumber !== undefined ? (data.identifyingNumber || null) : existing.identifyingNumber,
+        isHouseholdEmployee: data.isHouseholdEmployee ?? existing.isHouseholdEmployee,
+        amountPaid: parseFloat(merged.amountPaid),
+      }
+    })
+
+    return NextResponse.json({ provider })
+  } catch (error) {
+    console.error("Error updating care provider:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string, providerId: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    await prisma.careProvider.delete({
+      where: {
+        id: params.providerId,
+        taxReturnId: params.id
+      }
+    })
+
+    return NextResponse.json({ message: "Care provider deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting care provider:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
+import { validateCareProvider } from "@/lib/dependent-care-credit"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const providers = await prisma.careProvider.findMany({
+      where: { taxReturnId: params.id },
+      orderBy: { createdAt: "asc" }
+    })
+
+    return NextResponse.json({ providers })
+  } catch (error) {
+    console.error("Error fetching care providers:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    const data = await request.json()
+
+    const validationError = validateCareProvider(data)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    // The qualifying person must be a dependent on the same return
+    if (data.dependentId) {
+      const dependent = await prisma.dependent.findFirst({
+        where: { id: data.dependentId, taxReturnId: params.id }
+      })
+
+      if (!dependent) {
+        return NextResponse.json({ error: "Dependent not found" }, { status: 400 })
+      }
+    }
+
+    const provider = await prisma.careProvider.create({
+      data: {
+        taxReturnId: params.id,
+        dependentId: data.dependentId || null,
+        name: data.name,
+        address: data.address || null,
+        identifyingNumber: data.identifyingNumber || null,
+        isHouseholdEmployee: data.isHouseholdEmployee ?? false,
+        amountPaid: parseFloat(data.amountPaid),
+      }
+    })
+
+    return NextResponse.json({ provider })
+  } catch (error) {
+    console.error("Error creating care provider:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
 
 export const dynamic = "force-dynamic"
 
@@ -37,6 +38,12 @@ export async function POST(
       return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
     }
 
+    // Only the step bookkeeping can change on a filed return
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError && Object.keys(data || {}).length > 0) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
     // Add step to completed steps if not already there
     const completedSteps = taxReturn.completedSteps || []
     const updatedCompletedSteps = completedSteps.includes(stepNumber) 
@@ -53,9 +60,19 @@ export async function POST(
         updatedAt: new Date()
       },
       include: {
-        incomeEntries: true,
+        incomeEntries: {
+          include: { stateLines: true }
+        },
         deductionEntries: true,
-        dependents: true
+        dependents: true,
+        businesses: {
+          include: { expenses: true }
+        },
+        capitalTransactions: true,
+        educationStudents: true,
+        careProviders: true,
+        residencyPeriods: true,
+        estimatedPayments: true
       }
     })
 
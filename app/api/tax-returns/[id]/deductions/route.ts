@@ -2,6 +2,7 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
 
 export const dynamic = "force-dynamic"
 
@@ -35,6 +36,11 @@ export async function POST(
       return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
     }
 
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
     const data = await request.json()
 
     const deductionEntry = await prisma.deductionEntry.create({
@@ -43,6 +49,15 @@ export async function POST(
         deductionType: data.deductionType,
         amount: data.amount,
         description: data.description,
+        charitableType: data.deductionType === "CHARITABLE_CONTRIBUTIONS"
+          ? (data.charitableType || "CASH")
+          : null,
+        mortgageBalance: data.deductionType === "MORTGAGE_INTEREST" && data.mortgageBalance
+          ? parseFloat(data.mortgageBalance)
+          : null,
+        isGrandfatheredMortgage: data.deductionType === "MORTGAGE_INTEREST" && Boolean(data.isGrandfatheredMortgage),
+        forSpouse: Boolean(data.forSpouse),
+        hsaFamilyCoverage: data.deductionType === "HSA_CONTRIBUTIONS" && Boolean(data.hsaFamilyCoverage),
       }
     })
 
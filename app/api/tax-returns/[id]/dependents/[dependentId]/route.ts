@@ -0,0 +1,148 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
+import { determineDependentEligibility, validateDependent } from "@/lib/dependent-eligibility"
+
+export const dynamic = "force-dynamic"
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string, dependentId: string } }
+) {
+  try {
+    const session = await getServerSession()
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: { 
+        id: params.id,
+        userId: user.id 
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    const existing = await prisma.dependent.findFirst({
+      where: {
+        id: params.dependentId,
+        taxReturnId: params.id
+      }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: "Dependent not found" }, { status: 404 })
+    }
+
+    const data = await request.json()
+
+    const dependentData = {
+      firstName: data.firstName ?? existing.firstName,
+      lastName: data.lastName ?? existing.lastName,
+      ssn: data.ssn !== undefined ? (data.ssn || null) : existing.ssn,
+      relationship: data.relationship ?? existing.relationship,
+      birthDate: data.birthDate ? new Date(data.birthDate) : existing.birthDate,
+      monthsLivedWithTaxpayer: data.monthsLivedWithTaxpayer !== undefined
+        ? Number(data.monthsLivedWithTaxpayer)
+        : existing.monthsLivedWithTaxpayer,
+      isFullTimeStudent: data.isFullTimeStudent !== undefined ? !!data.isFullTimeStudent : existing.isFullTimeStudent,
+      isPermanentlyDisabled: data.isPermanentlyDisabled !== undefined
+        ? !!data.isPermanentlyDisabled
+        : existing.isPermanentlyDisabled,
+    }
+
+    const validationError = validateDependent(dependentData)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const eligibility = determineDependentEligibility(dependentData, taxReturn.taxYear)
+
+    const dependent = await prisma.dependent.update({
+      where: { id: params.dependentId },
+      data: {
+        ...dependentData,
+        qualifiesForCTC: eligibility.qualifiesForCTC,
+        qualifiesForEITC: eligibility.qualifiesForEITC,
+      }
+    })
+
+    return NextResponse.json({ dependent, eligibility })
+  } catch (error) {
+    console.error("Error updating dependent:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string, dependentId: string } }
+) {
+  try {
+    const session = await getServerSession()
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: { 
+        id: params.id,
+        userId: user.id 
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    await prisma.dependent.delete({
+      where: {
+        id: params.dependentId,
+        taxReturnId: params.id
+      }
+    })
+
+    return NextResponse.json({ message: "Dependent deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting dependent:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
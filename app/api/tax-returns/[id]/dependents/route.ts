@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
+import { determineDependentEligibility, validateDependent } from "@/lib/dependent-eligibility"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: { 
+        id: params.id,
+        userId: user.id 
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const dependents = await prisma.dependent.findMany({
+      where: { taxReturnId: params.id },
+      orderBy: { createdAt: "asc" }
+    })
+
+    return NextResponse.json({ dependents })
+  } catch (error) {
+    console.error("Error fetching dependents:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: { 
+        id: params.id,
+        userId: user.id 
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    const data = await request.json()
+
+    const validationError = validateDependent(data)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const dependentData = {
+      firstName: data.firstName,
+      lastName: data.lastName,
+      ssn: data.ssn || null,
+      relationship: data.relationship,
+      birthDate: new Date(data.birthDate),
+      monthsLivedWithTaxpayer: Number(data.monthsLivedWithTaxpayer ?? 12),
+      isFullTimeStudent: !!data.isFullTimeStudent,
+      isPermanentlyDisabled: !!data.isPermanentlyDisabled,
+    }
+
+    // Credit eligibility is always derived server-side, never taken from the request
+    const eligibility = determineDependentEligibility(dependentData, taxReturn.taxYear)
+
+    const dependent = await prisma.dependent.create({
+      data: {
+        taxReturnId: params.id,
+        ...dependentData,
+        qualifiesForCTC: eligibility.qualifiesForCTC,
+        qualifiesForEITC: eligibility.qualifiesForEITC,
+      }
+    })
+
+    return NextResponse.json({ dependent, eligibility })
+  } catch (error) {
+    console.error("Error creating dependent:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
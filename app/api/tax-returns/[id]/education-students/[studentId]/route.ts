@@ -0,0 +1,159 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
+import { validateEducationStudent } from "@/lib/education-credits"
+
+export const dynamic = "force-dynamic"
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string, studentId: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    const existing = await prisma.educationStudent.findFirst({
+      where: {
+        id: params.studentId,
+        taxReturnId: params.id
+      }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 })
+    }
+
+    const data = await request.json()
+    const merged = {
+      studentName: data.studentName ?? existing.studentName,
+      institutionName: data.institutionName ?? existing.institutionName,
+      qualifiedExpenses: data.qualifiedExpenses ?? existing.qualifiedExpenses.toString(),
+      scholarships: data.scholarships ?? existing.scholarships.toString(),
+      creditType: data.creditType ?? existing.creditType,
+      aotcYearsClaimed: data.aotcYearsClaimed ?? existing.aotcYearsClaimed,
+    }
+
+    const validationError = validateEducationStudent(merged)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (data.dependentId) {
+      const dependent = await prisma.dependent.findFirst({
+        where: { id: data.dependentId, taxReturnId: params.id }
+      })
+
+      if (!dependent) {
+        return NextResponse.json({ error: "Dependent not found" }, { status: 400 })
+      }
+    }
+
+    const student = await prisma.educationStudent.update({
+      where: { id: params.studentId },
+      data: {
+        dependentId: data.dependentId !== undefined ? (data.dependentId || null) : existing.dependentId,
+        studentName: merged.studentName,
+        studentSsn: data.studentSsn !== undefined ? (data.studentSsn || null) : existing.studentSsn,
+        institutionName: merged.institutionName,
+        institutionEin: data.institutionEin !== undefined ? (data.institutionEin || null) : existing.institutionEin,
+        qualifiedExpenses: parseFloat(merged.qualifiedExpenses),
+        scholarships: parseFloat(merged.scholarships) || 0,
+        creditType: merged.creditType,
+        aotcYearsClaimed: parseInt(merged.aotcYearsClaimed) || 0,
+        completedFirstFourYears: data.completedFirstFourYears ?? existing.completedFirstFourYears,
+        isHalfTimeStudent: data.isHalfTimeStudent ?? existing.isHalfTimeStudent,
+        isGraduateStudent: data.isGraduateStudent ?? existing.isGraduateStudent,
+        hasFelonyDrugConviction: data.hasFelonyDrugConviction ?? existing.hasFelonyDrugConviction,
+      }
+    })
+
+    return NextResponse.json({ student })
+  } catch (error) {
+    console.error("Error updating education student:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string, studentId: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    await prisma.educationStudent.delete({
+      where: {
+        id: params.studentId,
+        taxReturnId: params.id
+      }
+    })
+
+    return NextResponse.json({ message: "Student deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting education student:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
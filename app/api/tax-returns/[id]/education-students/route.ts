@@ -0,0 +1,134 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
+import { validateEducationStudent } from "@/lib/education-credits"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const students = await prisma.educationStudent.findMany({
+      where: { taxReturnId: params.id },
+      orderBy: { createdAt: "asc" }
+    })
+
+    return NextResponse.json({ students })
+  } catch (error) {
+    console.error("Error fetching education students:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    const data = await request.json()
+
+    const validationError = validateEducationStudent(data)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    // A linked dependent must belong to the same return
+    if (data.dependentId) {
+      const dependent = await prisma.dependent.findFirst({
+        where: { id: data.dependentId, taxReturnId: params.id }
+      })
+
+      if (!dependent) {
+        return NextResponse.json({ error: "Dependent not found" }, { status: 400 })
+      }
+    }
+
+    const student = await prisma.educationStudent.create({
+      data: {
+        taxReturnId: params.id,
+        dependentId: data.dependentId || null,
+        studentName: data.studentName,
+        studentSsn: data.studentSsn || null,
+        institutionName: data.institutionName,
+        institutionEin: data.institutionEin || null,
+        qualifiedExpenses: parseFloat(data.qualifiedExpenses),
+        scholarships: parseFloat(data.scholarships) || 0,
+        creditType: data.creditType || "AMERICAN_OPPORTUNITY",
+        aotcYearsClaimed: parseInt(data.aotcYearsClaimed) || 0,
+        completedFirstFourYears: data.completedFirstFourYears ?? false,
+        isHalfTimeStudent: data.isHalfTimeStudent ?? true,
+        isGraduateStudent: data.isGraduateStudent ?? false,
+        hasFelonyDrugConviction: data.hasFelonyDrugConviction ?? false,
+      }
+    })
+
+    return NextResponse.json({ student })
+  } catch (error) {
+    console.error("Error creating education student:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
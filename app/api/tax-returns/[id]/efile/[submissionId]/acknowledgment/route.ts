@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { buildMockAcknowledgment } from "@/lib/mef-export"
+import { buildRejectionError, REJECT_CODES } from "@/lib/mef-reject-codes"
+
+export const dynamic = "force-dynamic"
+
+// Only for testing: outside production, and only when MEF_MOCK_ACKNOWLEDGMENTS is set
+const MOCK_ACKNOWLEDGMENTS_ENABLED =
+  process.env.NODE_ENV !== "production" && process.env.MEF_MOCK_ACKNOWLEDGMENTS === "true"
+
+// Local stand-in for the IRS acknowledgment of a transmitted submission. It accepts the return unless `rejectCodes`
+// in the body simulates rejections, including the duplicate-SSN ones.
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string, submissionId: string } }
+) {
+  if (!MOCK_ACKNOWLEDGMENTS_ENABLED) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const filingSubmission = await prisma.filingSubmission.findFirst({
+      where: {
+        submissionId: params.submissionId,
+        taxReturn: {
+          id: params.id,
+          userId: user.id
+        }
+      },
+      include: { taxReturn: true }
+    })
+
+    if (!filingSubmission) {
+      return NextResponse.json({ error: "Submission not found" }, { status: 404 })
+    }
+
+    if (filingSubmission.status !== "TRANSMITTED") {
+      return NextResponse.json(
+        {
+          error: ["PREPARED", "SUPERSEDED"].includes(filingSubmission.status)
+            ? "Submission has not been transmitted"
+            : "Submission has already been acknowledged"
+        },
+        { status: 400 }
+      )
+    }
+
+    const data = await request.json().catch(() => ({}))
+    const rejectCodes: string[] = Array.isArray(data.rejectCodes) ? data.rejectCodes : []
+    const unknownCode = rejectCodes.find((ruleNumber) => !REJECT_CODES[ruleNumber])
+    if (unknownCode) {
+      return NextResponse.json({ error: `Unknown reject code: ${unknownCode}` }, { status: 400 })
+    }
+
+    const { taxReturn } = filingSubmission
+    const errors = rejectCodes
+      .filter((ruleNumber, index) => rejectCodes.indexOf(ruleNumber) === index)
+      .map(buildRejectionError)
+
+    const acknowledgedAt = new Date()
+    const accepted = errors.length === 0
+
+    const acknowledged = await prisma.$transaction(async (tx) => {
+      await tx.taxReturn.update({
+        where: { id: taxReturn.id },
+        data: { isFiled: accepted }
+      })
+
+      return tx.filingSubmission.update({
+        where: { id: filingSubmission.id },
+        data: {
+          status: accepted ? "ACCEPTED" : "REJECTED",
+          acknowledgmentXml: buildMockAcknowledgment(filingSubmission.submissionId, taxReturn.taxYear, errors, acknowledgedAt),
+          acknowledgedAt,
+          rejections: {
+            create: errors
+          }
+        },
+        select: {
+          submissionId: true,
+          status: true,
+          transmittedAt: true,
+          acknowledgedAt: true,
+          rejections: true
+        }
+      })
+    })
+
+    return NextResponse.json({ submission: acknowledged })
+  } catch (error) {
+    console.error("Error acknowledging filing submission:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+
+export const dynamic = "force-dynamic"
+
+// Downloads the return XML, or the submission manifest with ?document=manifest
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string, submissionId: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const filingSubmission = await prisma.filingSubmission.findFirst({
+      where: {
+        submissionId: params.submissionId,
+        taxReturn: {
+          id: params.id,
+          userId: user.id
+        }
+      }
+    })
+
+    if (!filingSubmission) {
+      return NextResponse.json({ error: "Submission not found" }, { status: 404 })
+    }
+
+    const manifest = new URL(request.url).searchParams.get("document") === "manifest"
+
+    return new NextResponse(manifest ? filingSubmission.manifestXml : filingSubmission.returnXml, {
+      headers: {
+        "Content-Type": "application/xml",
+        "Content-Disposition": `attachment; filename="${filingSubmission.submissionId}${manifest ? "-manifest" : ""}.xml"`,
+        "Cache-Control": "no-store"
+      }
+    })
+  } catch (error) {
+    console.error("Error downloading filing submission:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
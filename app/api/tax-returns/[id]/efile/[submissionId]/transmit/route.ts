@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+
+export const dynamic = "force-dynamic"
+
+// Records that a prepared submission was sent to the IRS. The return counts as filed from here unless the
+// submission is rejected.
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string, submissionId: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const filingSubmission = await prisma.filingSubmission.findFirst({
+      where: {
+        submissionId: params.submissionId,
+        taxReturn: {
+          id: params.id,
+          userId: user.id
+        }
+      }
+    })
+
+    if (!filingSubmission) {
+      return NextResponse.json({ error: "Submission not found" }, { status: 404 })
+    }
+
+    if (filingSubmission.status !== "PREPARED") {
+      return NextResponse.json(
+        {
+          error: filingSubmission.status === "SUPERSEDED"
+            ? "Submission has been replaced by a newer one"
+            : "Submission has already been transmitted"
+        },
+        { status: 400 }
+      )
+    }
+
+    const transmitted = await prisma.$transaction(async (tx) => {
+      // A return is filed once; another submission that is in flight or accepted blocks this one
+      const filedSubmission = await tx.filingSubmission.findFirst({
+        where: {
+          taxReturnId: params.id,
+          id: { not: filingSubmission.id },
+          status: { in: ["TRANSMITTED", "ACCEPTED"] }
+        }
+      })
+
+      if (filedSubmission) {
+        return null
+      }
+
+      // Guards against the submission being transmitted or superseded since it was read
+      const { count } = await tx.filingSubmission.updateMany({
+        where: { id: filingSubmission.id, status: "PREPARED" },
+        data: {
+          status: "TRANSMITTED",
+          transmittedAt: new Date()
+        }
+      })
+
+      if (count === 0) {
+        return null
+      }
+
+      await tx.taxReturn.update({
+        where: { id: params.id },
+        data: { isFiled: true }
+      })
+
+      return tx.filingSubmission.findUniqueOrThrow({
+        where: { id: filingSubmission.id },
+        select: {
+          submissionId: true,
+          status: true,
+          transmittedAt: true
+        }
+      })
+    })
+
+    if (!transmitted) {
+      return NextResponse.json(
+        { error: "Another submission for this return has already been transmitted" },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ submission: transmitted })
+  } catch (error) {
+    console.error("Error transmitting filing submission:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,185 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { buildMefSubmission, findUnsupportedForms, validateMefSubmission } from "@/lib/mef-export"
+import { getMefSchemaVersion } from "@/lib/mef-schema-versions"
+
+export const dynamic = "force-dynamic"
+
+// Submission details without the XML, which is downloaded separately
+const SUBMISSION_SUMMARY = {
+  id: true,
+  submissionId: true,
+  status: true,
+  schemaVersion: true,
+  transmittedAt: true,
+  acknowledgedAt: true,
+  createdAt: true,
+  rejections: true
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const submissions = await prisma.filingSubmission.findMany({
+      where: { taxReturnId: params.id },
+      select: SUBMISSION_SUMMARY,
+      orderBy: { createdAt: "desc" }
+    })
+
+    return NextResponse.json({ submissions })
+  } catch (error) {
+    console.error("Error fetching filing submissions:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+// Builds the MeF return from the saved return and stores it as a prepared submission when it passes schema
+// validation. A return can be submitted again only after its last submission was rejected.
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      },
+      include: {
+        incomeEntries: {
+          include: { stateLines: true }
+        },
+        deductionEntries: true,
+        dependents: true,
+        businesses: {
+          include: { expenses: true }
+        },
+        capitalTransactions: true,
+        educationStudents: true,
+        careProviders: true,
+        residencyPeriods: true,
+        estimatedPayments: true
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const pendingSubmission = await prisma.filingSubmission.findFirst({
+      where: {
+        taxReturnId: params.id,
+        status: { in: ["TRANSMITTED", "ACCEPTED"] }
+      }
+    })
+
+    if (pendingSubmission) {
+      return NextResponse.json(
+        {
+          error: pendingSubmission.status === "ACCEPTED"
+            ? "This return has already been accepted by the IRS"
+            : "This return is waiting for an IRS acknowledgment"
+        },
+        { status: 400 }
+      )
+    }
+
+    if (!getMefSchemaVersion(taxReturn.taxYear)) {
+      return NextResponse.json(
+        { error: `E-filing is not available yet for ${taxReturn.taxYear} returns` },
+        { status: 400 }
+      )
+    }
+
+    const unsupportedForms = findUnsupportedForms(taxReturn)
+
+    if (unsupportedForms.length > 0) {
+      return NextResponse.json(
+        { error: "This return needs forms that cannot be e-filed yet", validationErrors: unsupportedForms },
+        { status: 400 }
+      )
+    }
+
+    const submission = buildMefSubmission(taxReturn)
+    const validationErrors = await validateMefSubmission(submission)
+
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        { error: "The return failed e-file schema validation", validationErrors },
+        { status: 400 }
+      )
+    }
+
+    // Only the newest prepared submission can be transmitted
+    const filingSubmission = await prisma.$transaction(async (tx) => {
+      await tx.filingSubmission.updateMany({
+        where: { taxReturnId: params.id, status: "PREPARED" },
+        data: { status: "SUPERSEDED" }
+      })
+
+      return tx.filingSubmission.create({
+        data: {
+          taxReturnId: params.id,
+          submissionId: submission.submissionId,
+          schemaVersion: submission.schemaVersion,
+          returnXml: submission.returnXml,
+          manifestXml: submission.manifestXml,
+        },
+        select: SUBMISSION_SUMMARY
+      })
+    })
+
+    return NextResponse.json({ submission: filingSubmission })
+  } catch (error) {
+    console.error("Error creating filing submission:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
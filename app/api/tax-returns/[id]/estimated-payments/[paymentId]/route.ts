@@ -0,0 +1,136 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
+import { validateEstimatedPayment } from "@/lib/estimated-tax-penalty"
+
+export const dynamic = "force-dynamic"
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string, paymentId: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    const existing = await prisma.estimatedTaxPayment.findFirst({
+      where: {
+        id: params.paymentId,
+        taxReturnId: params.id
+      }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: "Estimated payment not found" }, { status: 404 })
+    }
+
+    const data = await request.json()
+    const merged = {
+      paymentType: data.paymentType ?? existing.paymentType,
+      paymentDate: data.paymentDate ?? existing.paymentDate,
+      amount: data.amount ?? existing.amount,
+    }
+
+    const validationError = validateEstimatedPayment(merged)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const payment = await prisma.estimatedTaxPayment.update({
+      where: { id: params.paymentId },
+      data: {
+        paymentType: merged.paymentType,
+        paymentDate: new Date(merged.paymentDate),
+        amount: parseFloat(merged.amount),
+      }
+    })
+
+    return NextResponse.json({ payment })
+  } catch (error) {
+    console.error("Error updating estimated payment:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string, paymentId: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    await prisma.estimatedTaxPayment.delete({
+      where: {
+        id: params.paymentId,
+        taxReturnId: params.id
+      }
+    })
+
+    return NextResponse.json({ message: "Estimated payment deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting estimated payment:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
 
 export const dynamic = "force-dynamic"
 
@@ -35,6 +36,11 @@ export async function DELETE(
       return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
     }
 
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
     await prisma.incomeEntry.delete({
       where: {
         id: params.entryId,
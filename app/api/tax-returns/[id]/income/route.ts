@@ -4,6 +4,8 @@ export const dynamic = 'force-dynamic'
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { prisma } from '@/lib/db'
+import { getFilingLockError } from '@/lib/filing-lock'
+import { normalizeStateCode } from '@/lib/state-tax'
 
 interface Props {
   params: {
@@ -43,6 +45,9 @@ export async function GET(req: NextRequest, { params }: Props) {
       where: {
         taxReturnId: params.id
       },
+      include: {
+        stateLines: true
+      },
       orderBy: {
         createdAt: 'desc'
       }
@@ -86,15 +91,31 @@ export async function POST(req: NextRequest, { params }: Props) {
       return NextResponse.json({ error: 'Tax return not found' }, { status: 404 })
     }
 
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
     const body = await req.json()
     const {
       incomeType,
       description,
       amount,
+      federalTaxWithheld,
       employerName,
       employerEIN,
+      socialSecurityWages,
+      medicareWages,
+      retirementPlan,
+      socialSecurityTaxWithheld,
+      medicareTaxWithheld,
+      dependentCareBenefits,
+      stateLines,
+      forSpouse,
       payerName,
-      payerTIN
+      payerTIN,
+      qualifiedDividends,
+      taxExemptInterest
     } = body
 
     // Create new income entry
@@ -104,10 +125,33 @@ export async function POST(req: NextRequest, { params }: Props) {
         incomeType,
         description,
         amount,
+        federalTaxWithheld: federalTaxWithheld || 0,
         employerName,
         employerEIN,
+        socialSecurityWages: socialSecurityWages ?? null,
+        medicareWages: medicareWages ?? null,
+        retirementPlan: Boolean(retirementPlan),
+        socialSecurityTaxWithheld: socialSecurityTaxWithheld ?? null,
+        medicareTaxWithheld: medicareTaxWithheld ?? null,
+        dependentCareBenefits: dependentCareBenefits ?? null,
+        forSpouse: Boolean(forSpouse),
         payerName,
-        payerTIN
+        payerTIN,
+        qualifiedDividends: qualifiedDividends ?? null,
+        taxExemptInterest: taxExemptInterest ?? null,
+        // W-2 boxes 15-17, one line per state
+        stateLines: {
+          create: (stateLines || [])
+            .filter((line: any) => line.stateCode)
+            .map((line: any) => ({
+              stateCode: normalizeStateCode(line.stateCode),
+              stateWages: parseFloat(line.stateWages) || 0,
+              stateTaxWithheld: parseFloat(line.stateTaxWithheld) || 0
+            }))
+        }
+      },
+      include: {
+        stateLines: true
       }
     })
 
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { generateTaxReturnPdf } from "@/lib/tax-return-pdf"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      },
+      include: {
+        incomeEntries: {
+          include: { stateLines: true }
+        },
+        deductionEntries: true,
+        dependents: true,
+        businesses: {
+          include: { expenses: true }
+        },
+        capitalTransactions: true,
+        educationStudents: true,
+        careProviders: true,
+        residencyPeriods: true,
+        estimatedPayments: true
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const pdf = await generateTaxReturnPdf(taxReturn)
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="form-1040-${taxReturn.taxYear}.pdf"`,
+        "Cache-Control": "no-store"
+      }
+    })
+  } catch (error) {
+    console.error("Error generating tax return PDF:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
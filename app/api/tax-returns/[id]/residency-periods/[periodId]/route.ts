@@ -0,0 +1,143 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
+import { normalizeStateCode, validateResidencyPeriod } from "@/lib/state-tax"
+
+export const dynamic = "force-dynamic"
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string, periodId: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    const existing = await prisma.residencyPeriod.findFirst({
+      where: {
+        id: params.periodId,
+        taxReturnId: params.id
+      }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: "Residency period not found" }, { status: 404 })
+    }
+
+    const data = await request.json()
+    const merged = {
+      stateCode: data.stateCode ?? existing.stateCode,
+      startDate: data.startDate ?? existing.startDate,
+      endDate: data.endDate ?? existing.endDate,
+    }
+
+    const otherPeriods = await prisma.residencyPeriod.findMany({
+      where: {
+        taxReturnId: params.id,
+        id: { not: params.periodId }
+      }
+    })
+
+    const validationError = validateResidencyPeriod(merged, otherPeriods, taxReturn.taxYear)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const period = await prisma.residencyPeriod.update({
+      where: { id: params.periodId },
+      data: {
+        stateCode: normalizeStateCode(merged.stateCode),
+        startDate: new Date(merged.startDate),
+        endDate: new Date(merged.endDate),
+      }
+    })
+
+    return NextResponse.json({ period })
+  } catch (error) {
+    console.error("Error updating residency period:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string, periodId: string } }
+) {
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
+    await prisma.residencyPeriod.delete({
+      where: {
+        id: params.periodId,
+        taxReturnId: params.id
+      }
+    })
+
+    return NextResponse.json({ message: "Residency period deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting residency period:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
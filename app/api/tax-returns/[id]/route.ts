@@ -2,6 +2,8 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { prisma } from "@/lib/db"
+import { getFilingLockError } from "@/lib/filing-lock"
+import { calculateCarryforwardsToNextYear, getCarryforwardAmounts } from "@/lib/carryforwards"
 
 export const dynamic = "force-dynamic"
 
@@ -30,9 +32,19 @@ export async function GET(
         userId: user.id 
       },
       include: {
-        incomeEntries: true,
+        incomeEntries: {
+          include: { stateLines: true }
+        },
         deductionEntries: true,
-        dependents: true
+        dependents: true,
+        businesses: {
+          include: { expenses: true }
+        },
+        capitalTransactions: true,
+        educationStudents: true,
+        careProviders: true,
+        residencyPeriods: true,
+        estimatedPayments: true
       }
     })
 
@@ -82,8 +94,17 @@ export async function PUT(
       return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
     }
 
+    // Moving between steps is still allowed on a filed return
+    const filingLockError = await getFilingLockError(params.id)
+    if (filingLockError && Object.keys(data).some((field) => field !== "currentStep")) {
+      return NextResponse.json({ error: filingLockError }, { status: 400 })
+    }
+
     // Handle step completion if currentStep is being updated
     let updateData = { ...data, updatedAt: new Date() }
+
+    // Whether the return is filed follows its e-file submissions
+    delete updateData.isFiled
     
     if (data.currentStep && data.currentStep !== taxReturn.currentStep) {
       const completedSteps = taxReturn.completedSteps || []
@@ -101,12 +122,61 @@ export async function PUT(
       where: { id: params.id },
       data: updateData,
       include: {
-        incomeEntries: true,
+        incomeEntries: {
+          include: { stateLines: true }
+        },
         deductionEntries: true,
-        dependents: true
+        dependents: true,
+        businesses: {
+          include: { expenses: true }
+        },
+        capitalTransactions: true,
+        educationStudents: true,
+        careProviders: true,
+        residencyPeriods: true,
+        estimatedPayments: true
       }
     })
 
+    // Finalizing writes what carries into next year to the ledger, replacing anything written the last time
+    // this return was finalized. Next year's return picks it up unless it has already been finalized.
+    if (data.isCompleted === true) {
+      const available = await prisma.carryforward.findMany({
+        where: {
+          userId: user.id,
+          availableTaxYear: updatedTaxReturn.taxYear
+        }
+      })
+      const lines = calculateCarryforwardsToNextYear(updatedTaxReturn, available)
+      const nextTaxYear = updatedTaxReturn.taxYear + 1
+
+      await prisma.$transaction(async (tx) => {
+        await tx.carryforward.deleteMany({
+          where: { sourceReturnId: updatedTaxReturn.id }
+        })
+
+        if (lines.length > 0) {
+          await tx.carryforward.createMany({
+            data: lines.map((line) => ({
+              userId: user.id,
+              sourceReturnId: updatedTaxReturn.id,
+              availableTaxYear: nextTaxYear,
+              ...line
+            }))
+          })
+        }
+
+        await tx.taxReturn.updateMany({
+          where: {
+            userId: user.id,
+            taxYear: nextTaxYear,
+            isCompleted: false
+          },
+          data: getCarryforwardAmounts(lines)
+        })
+      })
+    }
+
     return NextResponse.json(updatedTaxReturn)
   } catch (error) {
     console.error("Error updating tax return:", error)
@@ -2,6 +2,11 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { prisma } from "@/lib/db"
+import { isSupportedTaxYear, SUPPORTED_TAX_YEARS } from "@/lib/tax-year-rules"
+import { getPriorYearTaxSummary } from "@/lib/estimated-tax-penalty"
+import { buildPriorYearRollover } from "@/lib/prior-year-rollover"
+import { getCarryforwardAmounts } from "@/lib/carryforwards"
+import { TAX_FILING_STEP, TAX_FILING_STEP_LAYOUT_VERSION } from "@/lib/tax-filing-steps"
 
 export const dynamic = "force-dynamic"
 
@@ -21,7 +26,17 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "User not found" }, { status: 404 })
     }
 
-    const { taxYear, filingStatus } = await request.json()
+    const { taxYear, filingStatus, startFromPriorYear } = await request.json()
+
+    if (!isSupportedTaxYear(taxYear)) {
+      return NextResponse.json(
+        {
+          error: `Tax year ${taxYear} is not supported. Supported tax years: ${SUPPORTED_TAX_YEARS.join(", ")}`,
+          supportedTaxYears: SUPPORTED_TAX_YEARS
+        },
+        { status: 400 }
+      )
+    }
 
     // Check if user already has a tax return for this year
     const existingReturn = await prisma.taxReturn.findUnique({
@@ -40,13 +55,123 @@ export async function POST(request: Request) {
       })
     }
 
+    // Last year's return sets the prior-year safe harbor for the underpayment penalty (Form 2210 line 8)
+    const priorYearReturn = await prisma.taxReturn.findUnique({
+      where: {
+        userId_taxYear: {
+          userId: user.id,
+          taxYear: taxYear - 1
+        }
+      },
+      include: {
+        incomeEntries: {
+          include: { stateLines: true }
+        },
+        deductionEntries: true,
+        dependents: true,
+        businesses: {
+          include: { expenses: true }
+        },
+        capitalTransactions: true,
+        educationStudents: true,
+        careProviders: true,
+        residencyPeriods: true,
+        estimatedPayments: true
+      }
+    })
+
+    // Carryforwards written to the ledger when earlier returns were finalized
+    const ledger = await prisma.carryforward.findMany({
+      where: {
+        userId: user.id,
+        availableTaxYear: taxYear
+      }
+    })
+    const carryforwards = ledger.length > 0 ? getCarryforwardAmounts(ledger) : {}
+
+    if (startFromPriorYear) {
+      if (!priorYearReturn) {
+        return NextResponse.json(
+          { error: `There is no ${taxYear - 1} tax return to start from` },
+          { status: 400 }
+        )
+      }
+
+      const rollover = buildPriorYearRollover(priorYearReturn, taxYear)
+
+      // Copied records are created one at a time so income entries and care providers can be linked
+      // to the new businesses and dependents
+      const taxReturn = await prisma.$transaction(async (tx) => {
+        const created = await tx.taxReturn.create({
+          data: {
+            userId: user.id,
+            taxYear: taxYear,
+            currentStep: TAX_FILING_STEP.GETTING_STARTED,
+            stepLayoutVersion: TAX_FILING_STEP_LAYOUT_VERSION,
+            ...rollover.taxReturn,
+            ...carryforwards
+          }
+        })
+
+        const dependentIds: Record<string, string> = {}
+        for (const dependent of rollover.dependents) {
+          const { id } = await tx.dependent.create({
+            data: { taxReturnId: created.id, ...dependent.data }
+          })
+          dependentIds[dependent.sourceId] = id
+        }
+
+        const businessIds: Record<string, string> = {}
+        for (const business of rollover.businesses) {
+          const { id } = await tx.business.create({
+            data: { taxReturnId: created.id, ...business.data }
+          })
+          businessIds[business.sourceId] = id
+        }
+
+        for (const entry of rollover.incomeEntries) {
+          await tx.incomeEntry.create({
+            data: {
+              taxReturnId: created.id,
+              ...entry.data,
+              businessId: entry.businessSourceId ? businessIds[entry.businessSourceId] || null : null,
+              stateLines: {
+                create: entry.stateCodes.map((stateCode) => ({ stateCode }))
+              }
+            }
+          })
+        }
+
+        for (const provider of rollover.careProviders) {
+          await tx.careProvider.create({
+            data: {
+              taxReturnId: created.id,
+              ...provider.data,
+              dependentId: provider.dependentSourceId ? dependentIds[provider.dependentSourceId] || null : null
+            }
+          })
+        }
+
+        return created
+      })
+
+      return NextResponse.json(taxReturn)
+    }
+
+    const priorYear = getPriorYearTaxSummary(priorYearReturn)
+
     // Create new tax return
     const taxReturn = await prisma.taxReturn.create({
       data: {
         userId: user.id,
         taxYear: taxYear,
         filingStatus: filingStatus,
-        currentStep: 1
+        currentStep: TAX_FILING_STEP.GETTING_STARTED,
+        stepLayoutVersion: TAX_FILING_STEP_LAYOUT_VERSION,
+        priorYearTax: priorYear?.tax ?? null,
+        priorYearAdjustedGrossIncome: priorYear?.adjustedGrossIncome ?? null,
+        priorYearReturnId: priorYearReturn?.id ?? null,
+        ...carryforwards
       }
     })
 
@@ -80,9 +205,19 @@ export async function GET(request: Request) {
       where: { userId: user.id },
       orderBy: { createdAt: "desc" },
       include: {
-        incomeEntries: true,
+        incomeEntries: {
+          include: { stateLines: true }
+        },
         deductionEntries: true,
-        dependents: true
+        dependents: true,
+        businesses: {
+          include: { expenses: true }
+        },
+        capitalTransactions: true,
+        educationStudents: true,
+        careProviders: true,
+        residencyPeriods: true,
+        estimatedPayments: true
       }
     })
 
@@ -19,7 +19,23 @@ export default async function DashboardPage() {
     include: {
       taxReturns: {
         orderBy: { createdAt: "desc" },
-        take: 5
+        take: 5,
+        include: {
+          // Latest e-file submission, without its XML
+          filingSubmissions: {
+            orderBy: { createdAt: "desc" },
+            take: 1,
+            select: {
+              submissionId: true,
+              status: true,
+              transmittedAt: true,
+              acknowledgedAt: true,
+              rejections: {
+                select: { id: true, ruleNumber: true, errorMessage: true }
+              }
+            }
+          }
+        }
       }
     }
   })
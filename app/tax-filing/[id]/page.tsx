@@ -4,6 +4,7 @@ import { getServerSession } from "next-auth"
 import { redirect } from "next/navigation"
 import { prisma } from "@/lib/db"
 import { TaxFilingInterface } from "@/components/tax-filing-interface"
+import { getPriorYearTaxSummary } from "@/lib/estimated-tax-penalty"
 
 export default async function TaxFilingPage({ params }: { params: { id: string } }) {
   const session = await getServerSession()
@@ -26,9 +27,19 @@ export default async function TaxFilingPage({ params }: { params: { id: string }
       userId: user.id 
     },
     include: {
-      incomeEntries: true,
+      incomeEntries: {
+        include: { stateLines: true }
+      },
       deductionEntries: true,
-      dependents: true
+      dependents: true,
+      businesses: {
+        include: { expenses: true }
+      },
+      capitalTransactions: true,
+      educationStudents: true,
+      careProviders: true,
+      residencyPeriods: true,
+      estimatedPayments: true
     }
   })
 
@@ -36,5 +47,33 @@ export default async function TaxFilingPage({ params }: { params: { id: string }
     redirect("/dashboard")
   }
 
-  return <TaxFilingInterface taxReturn={taxReturn} />
+  // The return this one was started from, or last year's return when it was started from scratch
+  const priorYearReturn = await prisma.taxReturn.findFirst({
+    where: taxReturn.priorYearReturnId
+      ? { id: taxReturn.priorYearReturnId, userId: user.id }
+      : { userId: user.id, taxYear: taxReturn.taxYear - 1 },
+    include: {
+      incomeEntries: {
+        include: { stateLines: true }
+      },
+      deductionEntries: true,
+      dependents: true,
+      businesses: {
+        include: { expenses: true }
+      },
+      capitalTransactions: true,
+      educationStudents: true,
+      careProviders: true,
+      residencyPeriods: true,
+      estimatedPayments: true
+    }
+  })
+
+  return (
+    <TaxFilingInterface
+      taxReturn={taxReturn}
+      priorYear={getPriorYearTaxSummary(priorYearReturn)}
+      priorYearReturn={priorYearReturn}
+    />
+  )
 }
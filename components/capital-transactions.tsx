@@ -0,0 +1,424 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Checkbox } from "@/components/ui/checkbox"
+import { LineChart, Plus, Trash2, Edit } from "lucide-react"
+import {
+  FORM_8949_CATEGORIES,
+  ScheduleDResult,
+  calculateTransactionGainOrLoss,
+  getForm8949Category,
+} from "@/lib/schedule-d"
+
+interface CapitalTransactionsProps {
+  taxReturn: any
+  transactions: any[]
+  onTransactionsChange: (transactions: any[]) => void
+  lossCarryover: { shortTerm: string, longTerm: string }
+  onLossCarryoverChange: (carryover: { shortTerm: string, longTerm: string }) => void
+  scheduleD: ScheduleDResult
+  onMarkUnsaved: () => void
+}
+
+const emptyTransaction = {
+  brokerName: "",
+  description: "",
+  dateAcquired: "",
+  dateSold: "",
+  proceeds: "",
+  costBasis: "",
+  washSaleAdjustment: "",
+  holdingPeriod: "",
+  isCovered: true,
+  reportedOn1099B: true,
+}
+
+const toDateInput = (value: any) => value ? new Date(value).toISOString().split("T")[0] : ""
+
+export function CapitalTransactions({
+  taxReturn,
+  transactions,
+  onTransactionsChange,
+  lossCarryover,
+  onLossCarryoverChange,
+  scheduleD,
+  onMarkUnsaved
+}: CapitalTransactionsProps) {
+  const [formData, setFormData] = useState(emptyTransaction)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const resetForm = () => {
+    setFormData(emptyTransaction)
+    setEditingId(null)
+    setShowForm(false)
+    setError(null)
+  }
+
+  const handleEditTransaction = (transaction: any) => {
+    setEditingId(transaction.id)
+    setFormData({
+      brokerName: transaction.brokerName || "",
+      description: transaction.description,
+      dateAcquired: toDateInput(transaction.dateAcquired),
+      dateSold: toDateInput(transaction.dateSold),
+      proceeds: String(Number(transaction.proceeds)),
+      costBasis: String(Number(transaction.costBasis)),
+      washSaleAdjustment: Number(transaction.washSaleAdjustment) ? String(Number(transaction.washSaleAdjustment)) : "",
+      holdingPeriod: transaction.dateAcquired ? "" : transaction.holdingPeriod,
+      isCovered: transaction.isCovered,
+      reportedOn1099B: transaction.reportedOn1099B,
+    })
+    setShowForm(true)
+  }
+
+  const handleSaveTransaction = async () => {
+    setError(null)
+
+    const payload = {
+      ...formData,
+      dateAcquired: formData.dateAcquired || null,
+      holdingPeriod: formData.holdingPeriod || undefined,
+      washSaleAdjustment: parseFloat(formData.washSaleAdjustment) || 0,
+    }
+
+    try {
+      const url = editingId
+        ? `/api/tax-returns/${taxReturn.id}/capital-transactions/${editingId}`
+        : `/api/tax-returns/${taxReturn.id}/capital-transactions`
+      const response = await fetch(url, {
+        method: editingId ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(result.error || "Failed to save transaction")
+        return
+      }
+
+      onTransactionsChange(editingId
+        ? transactions.map((transaction: any) => transaction.id === editingId ? result.transaction : transaction)
+        : [...transactions, result.transaction]
+      )
+      onMarkUnsaved()
+      resetForm()
+    } catch (error) {
+      console.error("Error saving capital transaction:", error)
+      setError("Failed to save transaction")
+    }
+  }
+
+  const handleDeleteTransaction = async (transactionId: string) => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/capital-transactions/${transactionId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        onTransactionsChange(transactions.filter((transaction: any) => transaction.id !== transactionId))
+        if (editingId === transactionId) resetForm()
+        onMarkUnsaved()
+      }
+    } catch (error) {
+      console.error("Error deleting capital transaction:", error)
+    }
+  }
+
+  const handleCarryoverChange = (field: "shortTerm" | "longTerm", value: string) => {
+    onLossCarryoverChange({ ...lossCarryover, [field]: value })
+    onMarkUnsaved()
+  }
+
+  const formatAmount = (amount: number) =>
+    `${amount < 0 ? "-" : ""}$${Math.abs(amount).toLocaleString()}`
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <LineChart className="h-5 w-5" />
+          <span>Investment Sales (Form 8949 / Schedule D)</span>
+        </CardTitle>
+        <CardDescription>
+          Enter each sale from your 1099-B, or import a broker CSV from Data Import. Sales are grouped into Form 8949 categories and totaled on Schedule D.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {transactions.map((transaction: any) => {
+          const gainOrLoss = calculateTransactionGainOrLoss(transaction)
+          return (
+            <div key={transaction.id} className="flex items-start justify-between p-4 bg-gray-50 rounded-lg">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium">{transaction.description}</span>
+                  <Badge variant="outline">Box {getForm8949Category(transaction)}</Badge>
+                  <Badge variant="secondary">
+                    {transaction.holdingPeriod === "LONG_TERM" ? "Long-term" : "Short-term"}
+                  </Badge>
+                </div>
+                <div className="text-sm text-gray-600 mt-2 space-y-1">
+                  <p>
+                    Acquired {transaction.dateAcquired ? new Date(transaction.dateAcquired).toLocaleDateString() : "various"}
+                    {" · "}Sold {new Date(transaction.dateSold).toLocaleDateString()}
+                    {transaction.brokerName && ` · ${transaction.brokerName}`}
+                  </p>
+                  <p>
+                    Proceeds ${Number(transaction.proceeds).toLocaleString()} · Basis ${Number(transaction.costBasis).toLocaleString()}
+                    {Number(transaction.washSaleAdjustment) > 0 && ` · Wash sale +$${Number(transaction.washSaleAdjustment).toLocaleString()}`}
+                    {Number(transaction.accruedMarketDiscount) > 0 && ` · Market discount -$${Number(transaction.accruedMarketDiscount).toLocaleString()}`}
+                  </p>
+                  <p className={`font-medium ${gainOrLoss < 0 ? "text-red-600" : "text-gray-900"}`}>
+                    {gainOrLoss < 0 ? "Loss" : "Gain"}: ${Math.abs(gainOrLoss).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+              <div className="flex space-x-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleEditTransaction(transaction)}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDeleteTransaction(transaction.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+
+        {!showForm ? (
+          <Button type="button" variant="outline" onClick={() => setShowForm(true)} className="w-full">
+            <Plus className="mr-2 h-4 w-4" />
+            Add a Sale
+          </Button>
+        ) : (
+          <div className="space-y-4 border rounded-lg p-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="saleDescription">Description of Property *</Label>
+                <Input
+                  id="saleDescription"
+                  value={formData.description}
+                  onChange={(e) => setFormData({...formData, description: e.target.value})}
+                  placeholder="e.g. 100 sh. XYZ Co."
+                />
+              </div>
+              <div>
+                <Label htmlFor="brokerName">Broker</Label>
+                <Input
+                  id="brokerName"
+                  value={formData.brokerName}
+                  onChange={(e) => setFormData({...formData, brokerName: e.target.value})}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="dateAcquired">Date Acquired</Label>
+                <Input
+                  id="dateAcquired"
+                  type="date"
+                  value={formData.dateAcquired}
+                  onChange={(e) => setFormData({...formData, dateAcquired: e.target.value})}
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave blank for various</p>
+              </div>
+              <div>
+                <Label htmlFor="dateSold">Date Sold *</Label>
+                <Input
+                  id="dateSold"
+                  type="date"
+                  value={formData.dateSold}
+                  onChange={(e) => setFormData({...formData, dateSold: e.target.value})}
+                />
+              </div>
+              <div>
+                <Label htmlFor="holdingPeriod">Holding Period</Label>
+                <Select
+                  value={formData.holdingPeriod || "AUTO"}
+                  onValueChange={(value) => setFormData({...formData, holdingPeriod: value === "AUTO" ? "" : value})}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="AUTO">From dates</SelectItem>
+                    <SelectItem value="SHORT_TERM">Short-term</SelectItem>
+                    <SelectItem value="LONG_TERM">Long-term</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="proceeds">Proceeds *</Label>
+                <Input
+                  id="proceeds"
+                  type="number"
+                  step="0.01"
+                  value={formData.proceeds}
+                  onChange={(e) => setFormData({...formData, proceeds: e.target.value})}
+                  placeholder="0.00"
+                />
+              </div>
+              <div>
+                <Label htmlFor="costBasis">Cost Basis *</Label>
+                <Input
+                  id="costBasis"
+                  type="number"
+                  step="0.01"
+                  value={formData.costBasis}
+                  onChange={(e) => setFormData({...formData, costBasis: e.target.value})}
+                  placeholder="0.00"
+                />
+              </div>
+              <div>
+                <Label htmlFor="washSaleAdjustment">Wash Sale Loss Disallowed</Label>
+                <Input
+                  id="washSaleAdjustment"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.washSaleAdjustment}
+                  onChange={(e) => setFormData({...formData, washSaleAdjustment: e.target.value})}
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-6">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="reportedOn1099B"
+                  checked={formData.reportedOn1099B}
+                  onCheckedChange={(checked) => setFormData({...formData, reportedOn1099B: checked === true})}
+                />
+                <Label htmlFor="reportedOn1099B" className="font-normal">Reported on Form 1099-B</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="isCovered"
+                  checked={formData.isCovered}
+                  disabled={!formData.reportedOn1099B}
+                  onCheckedChange={(checked) => setFormData({...formData, isCovered: checked === true})}
+                />
+                <Label htmlFor="isCovered" className="font-normal">Basis reported to the IRS</Label>
+              </div>
+            </div>
+
+            <div className="flex space-x-2">
+              <Button
+                type="button"
+                onClick={handleSaveTransaction}
+                disabled={!formData.description || !formData.dateSold || !formData.proceeds || !formData.costBasis}
+                className="flex-1"
+              >
+                {editingId ? "Update Sale" : "Save Sale"}
+              </Button>
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="shortTermLossCarryover">Short-Term Loss Carryover From Last Year</Label>
+            <Input
+              id="shortTermLossCarryover"
+              type="number"
+              step="0.01"
+              min="0"
+              value={lossCarryover.shortTerm}
+              onChange={(e) => handleCarryoverChange("shortTerm", e.target.value)}
+              placeholder="0.00"
+            />
+          </div>
+          <div>
+            <Label htmlFor="longTermLossCarryover">Long-Term Loss Carryover From Last Year</Label>
+            <Input
+              id="longTermLossCarryover"
+              type="number"
+              step="0.01"
+              min="0"
+              value={lossCarryover.longTerm}
+              onChange={(e) => handleCarryoverChange("longTerm", e.target.value)}
+              placeholder="0.00"
+            />
+          </div>
+        </div>
+
+        {(transactions.length > 0 || scheduleD.capitalGainDistributions !== 0 || scheduleD.shortTermCarryover > 0 || scheduleD.longTermCarryover > 0) && (
+          <div className="p-4 border rounded-lg space-y-2 text-sm">
+            <p className="font-medium">Schedule D Summary</p>
+            {scheduleD.form8949
+              .filter(totals => totals.transactionCount > 0)
+              .map(totals => (
+                <div key={totals.category} className="flex justify-between text-gray-600">
+                  <span>
+                    Box {totals.category}: {FORM_8949_CATEGORIES.find(category => category.value === totals.category)?.label} ({totals.transactionCount})
+                  </span>
+                  <span>{formatAmount(totals.gainOrLoss)}</span>
+                </div>
+              ))}
+            {scheduleD.capitalGainDistributions !== 0 && (
+              <div className="flex justify-between text-gray-600">
+                <span>Capital gain distributions</span>
+                <span>{formatAmount(scheduleD.capitalGainDistributions)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span>Net short-term gain or loss</span>
+              <span>{formatAmount(scheduleD.netShortTermGainOrLoss)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Net long-term gain or loss</span>
+              <span>{formatAmount(scheduleD.netLongTermGainOrLoss)}</span>
+            </div>
+            <div className="flex justify-between font-medium border-t pt-2">
+              <span>Capital gain or loss on Form 1040</span>
+              <span>{formatAmount(scheduleD.capitalGainOrLoss)}</span>
+            </div>
+            {scheduleD.netGainOrLoss < scheduleD.capitalGainOrLoss && (
+              <p className="text-xs text-gray-500">
+                Net losses are limited to ${Math.abs(scheduleD.capitalGainOrLoss).toLocaleString()} this year.
+                Carryover to next year: ${scheduleD.shortTermCarryoverToNextYear.toLocaleString()} short-term,
+                ${scheduleD.longTermCarryoverToNextYear.toLocaleString()} long-term.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
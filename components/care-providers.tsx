@@ -0,0 +1,283 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Baby, Plus, Trash2, Edit } from "lucide-react"
+import { isQualifyingPerson } from "@/lib/dependent-care-credit"
+
+interface CareProvidersProps {
+  taxReturn: any
+  dependents: any[]
+  providers: any[]
+  onProvidersChange: (providers: any[]) => void
+  onMarkUnsaved: () => void
+}
+
+const emptyProvider = {
+  dependentId: "",
+  name: "",
+  address: "",
+  identifyingNumber: "",
+  isHouseholdEmployee: false,
+  amountPaid: "",
+}
+
+export function CareProviders({
+  taxReturn,
+  dependents,
+  providers,
+  onProvidersChange,
+  onMarkUnsaved
+}: CareProvidersProps) {
+  const [formData, setFormData] = useState(emptyProvider)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const qualifyingPersons = dependents.filter((dependent: any) => isQualifyingPerson(dependent, taxReturn.taxYear))
+
+  const resetForm = () => {
+    setFormData(emptyProvider)
+    setEditingId(null)
+    setShowForm(false)
+    setError(null)
+  }
+
+  const handleEditProvider = (provider: any) => {
+    setEditingId(provider.id)
+    setFormData({
+      dependentId: provider.dependentId || "",
+      name: provider.name,
+      address: provider.address || "",
+      identifyingNumber: provider.identifyingNumber || "",
+      isHouseholdEmployee: provider.isHouseholdEmployee,
+      amountPaid: String(Number(provider.amountPaid)),
+    })
+    setShowForm(true)
+  }
+
+  const handleSaveProvider = async () => {
+    setError(null)
+
+    const payload = {
+      ...formData,
+      dependentId: formData.dependentId || null,
+    }
+
+    try {
+      const url = editingId
+        ? `/api/tax-returns/${taxReturn.id}/care-providers/${editingId}`
+        : `/api/tax-returns/${taxReturn.id}/care-providers`
+      const response = await fetch(url, {
+        method: editingId ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(result.error || "Failed to save care provider")
+        return
+      }
+
+      onProvidersChange(editingId
+        ? providers.map((provider: any) => provider.id === editingId ? result.provider : provider)
+        : [...providers, result.provider]
+      )
+      onMarkUnsaved()
+      resetForm()
+    } catch (error) {
+      console.error("Error saving care provider:", error)
+      setError("Failed to save care provider")
+    }
+  }
+
+  const handleDeleteProvider = async (providerId: string) => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/care-providers/${providerId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        onProvidersChange(providers.filter((provider: any) => provider.id !== providerId))
+        if (editingId === providerId) resetForm()
+        onMarkUnsaved()
+      }
+    } catch (error) {
+      console.error("Error deleting care provider:", error)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Baby className="h-5 w-5" />
+          <span>Child and Dependent Care (Form 2441)</span>
+        </CardTitle>
+        <CardDescription>
+          Enter what you paid each care provider so you could work or look for work. Care counts for dependents under 13 and for dependents who cannot care for themselves.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {providers.map((provider: any) => {
+          const qualifyingPerson = qualifyingPersons.find((dependent: any) => dependent.id === provider.dependentId)
+          return (
+            <div key={provider.id} className="flex items-start justify-between p-4 bg-gray-50 rounded-lg">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium">{provider.name}</span>
+                  {provider.isHouseholdEmployee && <Badge variant="outline">Household employee</Badge>}
+                </div>
+                <div className="text-sm text-gray-600 mt-2 space-y-1">
+                  <p>
+                    Paid ${Number(provider.amountPaid).toLocaleString()}
+                    {provider.identifyingNumber && ` · ID ${provider.identifyingNumber}`}
+                  </p>
+                  {qualifyingPerson ? (
+                    <p>Care for {qualifyingPerson.firstName} {qualifyingPerson.lastName}</p>
+                  ) : (
+                    <p className="text-xs text-amber-700">
+                      Not linked to a qualifying person, so these expenses don't count toward the credit.
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="flex space-x-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleEditProvider(provider)}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDeleteProvider(provider.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+
+        {!showForm ? (
+          <Button type="button" variant="outline" onClick={() => setShowForm(true)} className="w-full">
+            <Plus className="mr-2 h-4 w-4" />
+            Add a Care Provider
+          </Button>
+        ) : (
+          <div className="space-y-4 border rounded-lg p-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="providerName">Provider Name *</Label>
+                <Input
+                  id="providerName"
+                  value={formData.name}
+                  onChange={(e) => setFormData({...formData, name: e.target.value})}
+                />
+              </div>
+              <div>
+                <Label htmlFor="providerIdentifyingNumber">SSN or EIN</Label>
+                <Input
+                  id="providerIdentifyingNumber"
+                  value={formData.identifyingNumber}
+                  onChange={(e) => setFormData({...formData, identifyingNumber: e.target.value})}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="providerAddress">Address</Label>
+              <Input
+                id="providerAddress"
+                value={formData.address}
+                onChange={(e) => setFormData({...formData, address: e.target.value})}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="careDependent">Care Provided For</Label>
+                <Select
+                  value={formData.dependentId || "NONE"}
+                  onValueChange={(value) => setFormData({...formData, dependentId: value === "NONE" ? "" : value})}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="NONE">Select a qualifying person</SelectItem>
+                    {qualifyingPersons.map((dependent: any) => (
+                      <SelectItem key={dependent.id} value={dependent.id}>
+                        {dependent.firstName} {dependent.lastName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {qualifyingPersons.length === 0 && (
+                  <p className="text-xs text-gray-500 mt-1">Add a dependent under 13 or one who is permanently disabled first</p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="amountPaid">Amount Paid *</Label>
+                <Input
+                  id="amountPaid"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.amountPaid}
+                  onChange={(e) => setFormData({...formData, amountPaid: e.target.value})}
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="isHouseholdEmployee"
+                checked={formData.isHouseholdEmployee}
+                onCheckedChange={(checked) => setFormData({...formData, isHouseholdEmployee: checked === true})}
+              />
+              <Label htmlFor="isHouseholdEmployee" className="font-normal">The provider is my household employee</Label>
+            </div>
+
+            <div className="flex space-x-2">
+              <Button
+                type="button"
+                onClick={handleSaveProvider}
+                disabled={!formData.name || !formData.amountPaid}
+                className="flex-1"
+              >
+                {editingId ? "Update Provider" : "Save Provider"}
+              </Button>
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
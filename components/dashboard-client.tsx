@@ -17,10 +17,16 @@ import {
   User,
   LogOut,
   Upload,
-  FolderOpen
+  FolderOpen,
+  Copy,
+  XCircle
 } from "lucide-react"
 import { signOut } from "next-auth/react"
 import { DashboardDocumentUpload } from "@/components/dashboard-document-upload"
+import { getFilingSeasonTaxYear, getTaxYearRules } from "@/lib/tax-year-rules"
+import { getRejectionFix } from "@/lib/mef-reject-codes"
+import { FilingSubmissionStatus } from "@/lib/types"
+import { TAX_FILING_STEP_COUNT } from "@/lib/tax-filing-steps"
 
 interface DashboardClientProps {
   user: {
@@ -38,6 +44,13 @@ interface DashboardClientProps {
       amountOwed: any
       createdAt: Date
       updatedAt: Date
+      filingSubmissions: {
+        submissionId: string
+        status: FilingSubmissionStatus
+        transmittedAt: Date | null
+        acknowledgedAt: Date | null
+        rejections: { id: string, ruleNumber: string, errorMessage: string }[]
+      }[]
     }[]
   }
 }
@@ -49,6 +62,12 @@ export function DashboardClient({ user }: DashboardClientProps) {
   const [showDocumentUpload, setShowDocumentUpload] = useState(false)
   const [documentsLoading, setDocumentsLoading] = useState(false)
 
+  const taxYear = getFilingSeasonTaxYear()
+  const currentTaxReturn = user.taxReturns.find(tr => tr.taxYear === taxYear)
+  const priorYearReturn = user.taxReturns.find(tr => tr.taxYear === taxYear - 1)
+  const filingDeadline = new Date(getTaxYearRules(taxYear).estimatedTax.filingDeadline)
+    .toLocaleDateString(undefined, { timeZone: "UTC", month: "long", day: "numeric", year: "numeric" })
+
   useEffect(() => {
     fetchDocuments()
   }, [])
@@ -57,7 +76,6 @@ export function DashboardClient({ user }: DashboardClientProps) {
     setDocumentsLoading(true)
     try {
       // Fetch documents from the current tax return or all user documents
-      const currentTaxReturn = user.taxReturns.find(tr => tr.taxYear === 2024)
       if (currentTaxReturn) {
         const response = await fetch(`/api/tax-returns/${currentTaxReturn.id}/documents`)
         if (response.ok) {
@@ -76,7 +94,8 @@ export function DashboardClient({ user }: DashboardClientProps) {
     fetchDocuments() // Refresh documents after processing
   }
 
-  const handleNewReturn = async () => {
+  // Starting from last year copies its personal info, dependents, employers, payers and carryforwards
+  const createReturn = async (startFromPriorYear: boolean) => {
     setLoading(true)
     try {
       const response = await fetch("/api/tax-returns", {
@@ -85,8 +104,9 @@ export function DashboardClient({ user }: DashboardClientProps) {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          taxYear: 2024,
+          taxYear,
           filingStatus: "SINGLE", // Default, will be updated in first step
+          startFromPriorYear,
         }),
       })
 
@@ -101,12 +121,16 @@ export function DashboardClient({ user }: DashboardClientProps) {
     }
   }
 
+  const handleNewReturn = () => createReturn(false)
+
+  const handleStartFromPriorYear = () => createReturn(true)
+
   const handleSignOut = () => {
     signOut({ callbackUrl: "/" })
   }
 
-  const currentTaxReturn = user.taxReturns.find(tr => tr.taxYear === 2024)
-  const progressPercentage = currentTaxReturn ? (currentTaxReturn.currentStep / 7) * 100 : 0
+  const progressPercentage = currentTaxReturn ? (currentTaxReturn.currentStep / TAX_FILING_STEP_COUNT) * 100 : 0
+  const currentSubmission = currentTaxReturn?.filingSubmissions[0] || null
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -146,7 +170,7 @@ export function DashboardClient({ user }: DashboardClientProps) {
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Tax Year 2024</CardTitle>
+              <CardTitle className="text-sm font-medium">Tax Year {taxYear}</CardTitle>
               <Calendar className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
@@ -157,7 +181,7 @@ export function DashboardClient({ user }: DashboardClientProps) {
                 }
               </div>
               <p className="text-xs text-muted-foreground">
-                Filing deadline: April 15, 2025
+                Filing deadline: {filingDeadline}
               </p>
             </CardContent>
           </Card>
@@ -353,7 +377,7 @@ export function DashboardClient({ user }: DashboardClientProps) {
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center justify-between">
-                    <span>2024 Tax Return</span>
+                    <span>{taxYear} Tax Return</span>
                     <Badge variant={currentTaxReturn.isCompleted ? "default" : "secondary"}>
                       {currentTaxReturn.isCompleted ? "Completed" : "In Progress"}
                     </Badge>
@@ -366,18 +390,39 @@ export function DashboardClient({ user }: DashboardClientProps) {
                   <div className="space-y-4">
                     <div>
                       <div className="flex justify-between text-sm text-gray-600 mb-1">
-                        <span>Step {currentTaxReturn.currentStep} of 7</span>
+                        <span>Step {currentTaxReturn.currentStep} of {TAX_FILING_STEP_COUNT}</span>
                         <span>{Math.round(progressPercentage)}%</span>
                       </div>
                       <Progress value={progressPercentage} />
                     </div>
                     
+                    {currentSubmission?.status === "REJECTED" && (
+                      <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+                        <div className="flex items-center space-x-2 text-sm font-medium text-red-700 mb-2">
+                          <XCircle className="h-4 w-4" />
+                          <span>Rejected by the IRS. Fix these items and resubmit:</span>
+                        </div>
+                        <ul className="text-sm space-y-1 text-red-700">
+                          {currentSubmission.rejections.map((rejection) => {
+                            const fix = getRejectionFix(rejection.ruleNumber)
+                            return (
+                              <li key={rejection.id}>
+                                • {fix.fieldLabel} ({fix.stepTitle}) - {rejection.ruleNumber}
+                              </li>
+                            )
+                          })}
+                        </ul>
+                      </div>
+                    )}
+                    
                     <div className="pt-4">
                       <Button 
                         onClick={() => router.push(`/tax-filing/${currentTaxReturn.id}`)}
                         className="w-full"
                       >
-                        {currentTaxReturn.isCompleted ? "Review Return" : "Continue Filing"}
+                        {currentSubmission?.status === "REJECTED"
+                          ? "Fix and Resubmit"
+                          : currentTaxReturn.isCompleted ? "Review Return" : "Continue Filing"}
                       </Button>
                     </div>
                   </div>
@@ -386,7 +431,7 @@ export function DashboardClient({ user }: DashboardClientProps) {
             ) : (
               <Card>
                 <CardHeader>
-                  <CardTitle>Start Your 2024 Tax Return</CardTitle>
+                  <CardTitle>Start Your {taxYear} Tax Return</CardTitle>
                   <CardDescription>
                     Get started with a simple step-by-step process
                   </CardDescription>
@@ -395,12 +440,31 @@ export function DashboardClient({ user }: DashboardClientProps) {
                   <div className="text-center py-8">
                     <FileText className="h-16 w-16 text-gray-400 mx-auto mb-4" />
                     <p className="text-gray-600 mb-6">
-                      Ready to file your 2024 tax return? We'll guide you through each step.
+                      Ready to file your {taxYear} tax return? We'll guide you through each step.
                     </p>
-                    <Button onClick={handleNewReturn} disabled={loading} size="lg">
-                      <Plus className="mr-2 h-4 w-4" />
-                      {loading ? "Creating..." : "Start New Return"}
-                    </Button>
+                    <div className="flex flex-col items-center space-y-3">
+                      {priorYearReturn && (
+                        <Button onClick={handleStartFromPriorYear} disabled={loading} size="lg">
+                          <Copy className="mr-2 h-4 w-4" />
+                          {loading ? "Creating..." : `Start From My ${taxYear - 1} Return`}
+                        </Button>
+                      )}
+                      <Button
+                        onClick={handleNewReturn}
+                        disabled={loading}
+                        size="lg"
+                        variant={priorYearReturn ? "outline" : "default"}
+                      >
+                        <Plus className="mr-2 h-4 w-4" />
+                        {loading ? "Creating..." : "Start New Return"}
+                      </Button>
+                    </div>
+                    {priorYearReturn && (
+                      <p className="text-xs text-gray-500 mt-4">
+                        Starting from last year copies your personal info, dependents, employers, payers and
+                        carryforwards. You'll enter this year's amounts from your new forms.
+                      </p>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -419,7 +483,22 @@ export function DashboardClient({ user }: DashboardClientProps) {
                       <CardTitle className="flex items-center justify-between">
                         <span>{taxReturn.taxYear} Tax Return</span>
                         <div className="flex items-center space-x-2">
-                          {taxReturn.isFiled ? (
+                          {taxReturn.filingSubmissions[0]?.status === "ACCEPTED" ? (
+                            <Badge variant="default">
+                              <CheckCircle className="w-3 h-3 mr-1" />
+                              Accepted
+                            </Badge>
+                          ) : taxReturn.filingSubmissions[0]?.status === "REJECTED" ? (
+                            <Badge variant="destructive">
+                              <XCircle className="w-3 h-3 mr-1" />
+                              Rejected
+                            </Badge>
+                          ) : taxReturn.filingSubmissions[0]?.status === "TRANSMITTED" ? (
+                            <Badge variant="secondary">
+                              <Clock className="w-3 h-3 mr-1" />
+                              Awaiting IRS
+                            </Badge>
+                          ) : taxReturn.isFiled ? (
                             <Badge variant="default">
                               <CheckCircle className="w-3 h-3 mr-1" />
                               Filed
@@ -447,6 +526,11 @@ export function DashboardClient({ user }: DashboardClientProps) {
                           <p className="text-sm text-gray-600">
                             Created: {new Date(taxReturn.createdAt).toLocaleDateString()}
                           </p>
+                          {taxReturn.filingSubmissions[0]?.transmittedAt && (
+                            <p className="text-sm text-gray-600">
+                              Transmitted: {new Date(taxReturn.filingSubmissions[0].transmittedAt).toLocaleDateString()}
+                            </p>
+                          )}
                         </div>
                         <Button 
                           variant="outline" 
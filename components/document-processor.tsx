@@ -199,6 +199,8 @@ const processDocument = async () => {
       'FORM_1099_NEC': '1099-NEC Form',
       'FORM_1099_R': '1099-R Form',
       'FORM_1099_G': '1099-G Form',
+      'SSA_1099': 'SSA-1099 Form',
+      'FORM_1098_T': '1098-T Form',
       'OTHER_TAX_DOCUMENT': 'Other Tax Document'
     }
     return labels[documentType] || documentType
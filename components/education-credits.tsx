@@ -0,0 +1,391 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Checkbox } from "@/components/ui/checkbox"
+import { GraduationCap, Plus, Trash2, Edit } from "lucide-react"
+import { EDUCATION_CREDIT_TYPES, getAotcIneligibleReason } from "@/lib/education-credits"
+
+interface EducationCreditsProps {
+  taxReturn: any
+  students: any[]
+  onStudentsChange: (students: any[]) => void
+  onMarkUnsaved: () => void
+}
+
+const emptyStudent = {
+  dependentId: "",
+  studentName: "",
+  studentSsn: "",
+  institutionName: "",
+  institutionEin: "",
+  qualifiedExpenses: "",
+  scholarships: "",
+  creditType: "AMERICAN_OPPORTUNITY",
+  aotcYearsClaimed: "0",
+  completedFirstFourYears: false,
+  isHalfTimeStudent: true,
+  isGraduateStudent: false,
+  hasFelonyDrugConviction: false,
+}
+
+export function EducationCredits({
+  taxReturn,
+  students,
+  onStudentsChange,
+  onMarkUnsaved
+}: EducationCreditsProps) {
+  const [formData, setFormData] = useState(emptyStudent)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const dependents = taxReturn.dependents || []
+
+  const resetForm = () => {
+    setFormData(emptyStudent)
+    setEditingId(null)
+    setShowForm(false)
+    setError(null)
+  }
+
+  const handleEditStudent = (student: any) => {
+    setEditingId(student.id)
+    setFormData({
+      dependentId: student.dependentId || "",
+      studentName: student.studentName,
+      studentSsn: student.studentSsn || "",
+      institutionName: student.institutionName,
+      institutionEin: student.institutionEin || "",
+      qualifiedExpenses: String(Number(student.qualifiedExpenses)),
+      scholarships: Number(student.scholarships) ? String(Number(student.scholarships)) : "",
+      creditType: student.creditType,
+      aotcYearsClaimed: String(student.aotcYearsClaimed),
+      completedFirstFourYears: student.completedFirstFourYears,
+      isHalfTimeStudent: student.isHalfTimeStudent,
+      isGraduateStudent: student.isGraduateStudent,
+      hasFelonyDrugConviction: student.hasFelonyDrugConviction,
+    })
+    setShowForm(true)
+  }
+
+  // Picking a dependent fills in the student's name and SSN
+  const handleDependentChange = (value: string) => {
+    const dependent = dependents.find((dependent: any) => dependent.id === value)
+    setFormData({
+      ...formData,
+      dependentId: dependent ? dependent.id : "",
+      studentName: dependent ? `${dependent.firstName} ${dependent.lastName}` : formData.studentName,
+      studentSsn: dependent ? dependent.ssn || "" : formData.studentSsn,
+    })
+  }
+
+  const handleSaveStudent = async () => {
+    setError(null)
+
+    const payload = {
+      ...formData,
+      dependentId: formData.dependentId || null,
+      scholarships: parseFloat(formData.scholarships) || 0,
+      aotcYearsClaimed: parseInt(formData.aotcYearsClaimed) || 0,
+    }
+
+    try {
+      const url = editingId
+        ? `/api/tax-returns/${taxReturn.id}/education-students/${editingId}`
+        : `/api/tax-returns/${taxReturn.id}/education-students`
+      const response = await fetch(url, {
+        method: editingId ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(result.error || "Failed to save student")
+        return
+      }
+
+      onStudentsChange(editingId
+        ? students.map((student: any) => student.id === editingId ? result.student : student)
+        : [...students, result.student]
+      )
+      onMarkUnsaved()
+      resetForm()
+    } catch (error) {
+      console.error("Error saving education student:", error)
+      setError("Failed to save student")
+    }
+  }
+
+  const handleDeleteStudent = async (studentId: string) => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/education-students/${studentId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        onStudentsChange(students.filter((student: any) => student.id !== studentId))
+        if (editingId === studentId) resetForm()
+        onMarkUnsaved()
+      }
+    } catch (error) {
+      console.error("Error deleting education student:", error)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <GraduationCap className="h-5 w-5" />
+          <span>Education Credits (Form 8863)</span>
+        </CardTitle>
+        <CardDescription>
+          Enter each student's Form 1098-T, or upload it above to fill it in. Each student can claim either the American opportunity credit or the lifetime learning credit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {students.map((student: any) => {
+          const ineligibleReason = student.creditType === "AMERICAN_OPPORTUNITY" ? getAotcIneligibleReason(student) : null
+          const dependent = dependents.find((dependent: any) => dependent.id === student.dependentId)
+          return (
+            <div key={student.id} className="flex items-start justify-between p-4 bg-gray-50 rounded-lg">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium">{student.studentName}</span>
+                  <Badge variant="secondary">
+                    {student.creditType === "LIFETIME_LEARNING" || ineligibleReason ? "Lifetime learning" : "American opportunity"}
+                  </Badge>
+                  {dependent && <Badge variant="outline">Dependent</Badge>}
+                </div>
+                <div className="text-sm text-gray-600 mt-2 space-y-1">
+                  <p>{student.institutionName}</p>
+                  <p>
+                    Qualified expenses ${Number(student.qualifiedExpenses).toLocaleString()}
+                    {Number(student.scholarships) > 0 && ` · Scholarships $${Number(student.scholarships).toLocaleString()}`}
+                  </p>
+                  {ineligibleReason && (
+                    <p className="text-xs text-amber-700">
+                      Not eligible for the American opportunity credit: {ineligibleReason}. Claimed as the lifetime learning credit instead.
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="flex space-x-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleEditStudent(student)}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDeleteStudent(student.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+
+        {!showForm ? (
+          <Button type="button" variant="outline" onClick={() => setShowForm(true)} className="w-full">
+            <Plus className="mr-2 h-4 w-4" />
+            Add a Student
+          </Button>
+        ) : (
+          <div className="space-y-4 border rounded-lg p-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="studentDependent">Student</Label>
+                <Select
+                  value={formData.dependentId || "SELF"}
+                  onValueChange={(value) => handleDependentChange(value === "SELF" ? "" : value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="SELF">You or your spouse</SelectItem>
+                    {dependents.map((dependent: any) => (
+                      <SelectItem key={dependent.id} value={dependent.id}>
+                        {dependent.firstName} {dependent.lastName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="studentName">Student Name *</Label>
+                <Input
+                  id="studentName"
+                  value={formData.studentName}
+                  onChange={(e) => setFormData({...formData, studentName: e.target.value})}
+                />
+              </div>
+              <div>
+                <Label htmlFor="studentSsn">Student SSN</Label>
+                <Input
+                  id="studentSsn"
+                  value={formData.studentSsn}
+                  onChange={(e) => setFormData({...formData, studentSsn: e.target.value})}
+                  placeholder="XXX-XX-XXXX"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="institutionName">Educational Institution *</Label>
+                <Input
+                  id="institutionName"
+                  value={formData.institutionName}
+                  onChange={(e) => setFormData({...formData, institutionName: e.target.value})}
+                />
+              </div>
+              <div>
+                <Label htmlFor="institutionEin">Institution EIN</Label>
+                <Input
+                  id="institutionEin"
+                  value={formData.institutionEin}
+                  onChange={(e) => setFormData({...formData, institutionEin: e.target.value})}
+                  placeholder="XX-XXXXXXX"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="qualifiedExpenses">Qualified Expenses *</Label>
+                <Input
+                  id="qualifiedExpenses"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.qualifiedExpenses}
+                  onChange={(e) => setFormData({...formData, qualifiedExpenses: e.target.value})}
+                  placeholder="0.00"
+                />
+                <p className="text-xs text-gray-500 mt-1">1098-T box 1 plus required books and supplies</p>
+              </div>
+              <div>
+                <Label htmlFor="scholarships">Scholarships or Grants</Label>
+                <Input
+                  id="scholarships"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.scholarships}
+                  onChange={(e) => setFormData({...formData, scholarships: e.target.value})}
+                  placeholder="0.00"
+                />
+                <p className="text-xs text-gray-500 mt-1">1098-T box 5</p>
+              </div>
+              <div>
+                <Label htmlFor="creditType">Credit</Label>
+                <Select
+                  value={formData.creditType}
+                  onValueChange={(value) => setFormData({...formData, creditType: value})}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EDUCATION_CREDIT_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {formData.creditType === "AMERICAN_OPPORTUNITY" && (
+              <div className="space-y-3">
+                <div className="w-1/3">
+                  <Label htmlFor="aotcYearsClaimed">Prior Years the AOTC Was Claimed</Label>
+                  <Input
+                    id="aotcYearsClaimed"
+                    type="number"
+                    min="0"
+                    max="4"
+                    value={formData.aotcYearsClaimed}
+                    onChange={(e) => setFormData({...formData, aotcYearsClaimed: e.target.value})}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="isHalfTimeStudent"
+                      checked={formData.isHalfTimeStudent}
+                      onCheckedChange={(checked) => setFormData({...formData, isHalfTimeStudent: checked === true})}
+                    />
+                    <Label htmlFor="isHalfTimeStudent" className="font-normal">At least half-time in a degree program</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="isGraduateStudent"
+                      checked={formData.isGraduateStudent}
+                      onCheckedChange={(checked) => setFormData({...formData, isGraduateStudent: checked === true})}
+                    />
+                    <Label htmlFor="isGraduateStudent" className="font-normal">Graduate student</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="completedFirstFourYears"
+                      checked={formData.completedFirstFourYears}
+                      onCheckedChange={(checked) => setFormData({...formData, completedFirstFourYears: checked === true})}
+                    />
+                    <Label htmlFor="completedFirstFourYears" className="font-normal">Completed the first four years of college before this year</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="hasFelonyDrugConviction"
+                      checked={formData.hasFelonyDrugConviction}
+                      onCheckedChange={(checked) => setFormData({...formData, hasFelonyDrugConviction: checked === true})}
+                    />
+                    <Label htmlFor="hasFelonyDrugConviction" className="font-normal">Felony drug conviction</Label>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="flex space-x-2">
+              <Button
+                type="button"
+                onClick={handleSaveStudent}
+                disabled={!formData.studentName || !formData.institutionName || !formData.qualifiedExpenses}
+                className="flex-1"
+              >
+                {editingId ? "Update Student" : "Save Student"}
+              </Button>
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,248 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { CalendarClock, Plus, Trash2, Edit } from "lucide-react"
+import { calculateEstimatedTaxPayments } from "@/lib/estimated-tax-penalty"
+import { getTaxYearRules } from "@/lib/tax-year-rules"
+
+interface EstimatedPaymentsProps {
+  taxReturn: any
+  payments: any[]
+  onPaymentsChange: (payments: any[]) => void
+  onMarkUnsaved: () => void
+}
+
+const paymentTypeLabels: Record<string, string> = {
+  ESTIMATED_PAYMENT: "1040-ES payment",
+  PRIOR_YEAR_OVERPAYMENT: "Prior-year overpayment applied",
+}
+
+const emptyPayment = {
+  paymentType: "ESTIMATED_PAYMENT",
+  paymentDate: "",
+  amount: "",
+}
+
+const toDateInputValue = (value: any) => value ? new Date(value).toISOString().split("T")[0] : ""
+
+export function EstimatedPayments({
+  taxReturn,
+  payments,
+  onPaymentsChange,
+  onMarkUnsaved
+}: EstimatedPaymentsProps) {
+  const [formData, setFormData] = useState(emptyPayment)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const { dueDates } = getTaxYearRules(taxReturn.taxYear).estimatedTax
+
+  const resetForm = () => {
+    setFormData(emptyPayment)
+    setEditingId(null)
+    setShowForm(false)
+    setError(null)
+  }
+
+  const handleEditPayment = (payment: any) => {
+    setEditingId(payment.id)
+    setFormData({
+      paymentType: payment.paymentType,
+      paymentDate: toDateInputValue(payment.paymentDate),
+      amount: String(Number(payment.amount)),
+    })
+    setShowForm(true)
+  }
+
+  // An overpayment applied from last year's return counts as paid on the first due date
+  const handlePaymentTypeChange = (paymentType: string) => {
+    setFormData({
+      ...formData,
+      paymentType,
+      paymentDate: paymentType === "PRIOR_YEAR_OVERPAYMENT" ? dueDates[0] : formData.paymentDate,
+    })
+  }
+
+  const handleSavePayment = async () => {
+    setError(null)
+
+    try {
+      const url = editingId
+        ? `/api/tax-returns/${taxReturn.id}/estimated-payments/${editingId}`
+        : `/api/tax-returns/${taxReturn.id}/estimated-payments`
+      const response = await fetch(url, {
+        method: editingId ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(formData),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(result.error || "Failed to save estimated payment")
+        return
+      }
+
+      const updated = editingId
+        ? payments.map((payment: any) => payment.id === editingId ? result.payment : payment)
+        : [...payments, result.payment]
+      onPaymentsChange(updated.sort((a: any, b: any) => new Date(a.paymentDate).getTime() - new Date(b.paymentDate).getTime()))
+      onMarkUnsaved()
+      resetForm()
+    } catch (error) {
+      console.error("Error saving estimated payment:", error)
+      setError("Failed to save estimated payment")
+    }
+  }
+
+  const handleDeletePayment = async (paymentId: string) => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/estimated-payments/${paymentId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        onPaymentsChange(payments.filter((payment: any) => payment.id !== paymentId))
+        if (editingId === paymentId) resetForm()
+        onMarkUnsaved()
+      }
+    } catch (error) {
+      console.error("Error deleting estimated payment:", error)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarClock className="h-5 w-5" />
+          <span>Estimated Tax Payments</span>
+        </CardTitle>
+        <CardDescription>
+          Enter each 1040-ES payment you made toward your {taxReturn.taxYear} taxes and any overpayment from
+          your {taxReturn.taxYear - 1} return applied to them. Payment dates are used to figure any underpayment penalty.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {payments.map((payment: any) => (
+          <div key={payment.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+            <div className="flex items-center space-x-3">
+              <span className="font-medium">${Number(payment.amount).toLocaleString()}</span>
+              <span className="text-sm text-gray-600">
+                {new Date(payment.paymentDate).toLocaleDateString(undefined, { timeZone: "UTC" })}
+              </span>
+              <Badge variant="outline">{paymentTypeLabels[payment.paymentType]}</Badge>
+            </div>
+            <div className="flex space-x-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleEditPayment(payment)}
+              >
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDeletePayment(payment.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {payments.length > 0 && (
+          <div className="flex justify-between font-medium">
+            <span>Total Estimated Payments</span>
+            <span>${calculateEstimatedTaxPayments(payments).toLocaleString()}</span>
+          </div>
+        )}
+
+        {!showForm ? (
+          <Button type="button" variant="outline" onClick={() => setShowForm(true)} className="w-full">
+            <Plus className="mr-2 h-4 w-4" />
+            Add a Payment
+          </Button>
+        ) : (
+          <div className="space-y-4 border rounded-lg p-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="paymentType">Payment Type *</Label>
+                <Select value={formData.paymentType} onValueChange={handlePaymentTypeChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(paymentTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="paymentDate">Date Paid *</Label>
+                <Input
+                  id="paymentDate"
+                  type="date"
+                  value={formData.paymentDate}
+                  onChange={(e) => setFormData({...formData, paymentDate: e.target.value})}
+                />
+              </div>
+              <div>
+                <Label htmlFor="paymentAmount">Amount *</Label>
+                <Input
+                  id="paymentAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({...formData, amount: e.target.value})}
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              {taxReturn.taxYear} installments were due {dueDates.map((dueDate) =>
+                new Date(dueDate).toLocaleDateString(undefined, { timeZone: "UTC", month: "short", day: "numeric", year: "numeric" })
+              ).join(", ")}.
+            </p>
+
+            <div className="flex space-x-2">
+              <Button
+                type="button"
+                onClick={handleSavePayment}
+                disabled={!formData.paymentDate || !formData.amount}
+                className="flex-1"
+              >
+                {editingId ? "Update Payment" : "Save Payment"}
+              </Button>
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -99,9 +99,6 @@ export function InteractiveWhatIfScenarios({
     { value: "MORTGAGE_INTEREST", label: "Mortgage Interest" },
     { value: "STATE_LOCAL_TAXES", label: "State & Local Taxes" },
     { value: "MEDICAL_EXPENSES", label: "Medical Expenses" },
-    { value: "BUSINESS_EXPENSES", label: "Business Expenses" },
-    { value: "STUDENT_LOAN_INTEREST", label: "Student Loan Interest" },
-    { value: "IRA_CONTRIBUTIONS", label: "Retirement Contributions" },
     { value: "OTHER_DEDUCTIONS", label: "Other Deductions" }
   ]
 
@@ -121,7 +118,8 @@ export function InteractiveWhatIfScenarios({
       minIncomeForCalculation,
       safeFilingStatus,
       safeCurrentItemizedDeductions,
-      safeDependents
+      safeDependents,
+      taxReturn?.taxYear
     )
 
     // Add custom scenarios
@@ -130,7 +128,8 @@ export function InteractiveWhatIfScenarios({
         minIncomeForCalculation,
         safeFilingStatus,
         safeCurrentItemizedDeductions + scenario.additionalAmount,
-        safeDependents
+        safeDependents,
+        taxReturn?.taxYear
       )
       
       const baseTaxLiability = baseScenarios[0]?.taxLiability || 0
@@ -151,7 +150,7 @@ export function InteractiveWhatIfScenarios({
 
     console.log('📊 Calculated scenarios:', [...baseScenarios, ...customCalculations])
     setCalculations([...baseScenarios, ...customCalculations])
-  }, [safeAdjustedGrossIncome, safeFilingStatus, safeCurrentItemizedDeductions, safeDependents, customScenarios])
+  }, [safeAdjustedGrossIncome, safeFilingStatus, safeCurrentItemizedDeductions, safeDependents, customScenarios, taxReturn?.taxYear])
 
   const handleAddCustomScenario = () => {
     if (!newScenario.name || !newScenario.additionalAmount) return
@@ -0,0 +1,237 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CalendarRange, Info } from "lucide-react"
+import { TaxCalculationInput } from "@/lib/tax-calculations"
+import { calculateNextYearPlan, DEFAULT_NEXT_YEAR_CHANGES, PlanningGoal } from "@/lib/next-year-planner"
+
+interface NextYearPlannerProps {
+  calculationInput: TaxCalculationInput
+  calculation: any
+}
+
+const changeFields = [
+  { key: "wageChange", label: "Change in Wages", hint: "Raises, a new job or fewer hours; use a negative amount for a decrease" },
+  { key: "selfEmploymentIncomeChange", label: "Change in Self-Employment Profit", hint: "Net profit after business expenses" },
+  { key: "otherIncomeChange", label: "Change in Other Income", hint: "Interest, dividends, capital gains or retirement income" },
+  { key: "additionalDeductions", label: "Additional Itemized Deductions", hint: "Such as a new mortgage or larger charitable gifts" },
+] as const
+
+type ChangeKey = typeof changeFields[number]["key"]
+
+export function NextYearPlanner({ calculationInput, calculation }: NextYearPlannerProps) {
+  const [changes, setChanges] = useState<Record<ChangeKey, string>>({
+    wageChange: "",
+    selfEmploymentIncomeChange: "",
+    otherIncomeChange: "",
+    additionalDeductions: "",
+  })
+  const [expectedWithholding, setExpectedWithholding] = useState("")
+  const [payPeriods, setPayPeriods] = useState(String(DEFAULT_NEXT_YEAR_CHANGES.payPeriods))
+  const [goal, setGoal] = useState<PlanningGoal>(DEFAULT_NEXT_YEAR_CHANGES.goal)
+  const [activeTab, setActiveTab] = useState("changes")
+
+  const plan = useMemo(() => calculateNextYearPlan(calculationInput, calculation, {
+    wageChange: parseFloat(changes.wageChange) || 0,
+    selfEmploymentIncomeChange: parseFloat(changes.selfEmploymentIncomeChange) || 0,
+    otherIncomeChange: parseFloat(changes.otherIncomeChange) || 0,
+    additionalDeductions: parseFloat(changes.additionalDeductions) || 0,
+    expectedWithholding: expectedWithholding === "" ? null : parseFloat(expectedWithholding) || 0,
+    payPeriods: parseInt(payPeriods) || DEFAULT_NEXT_YEAR_CHANGES.payPeriods,
+    goal,
+  }), [calculationInput, calculation, changes, expectedWithholding, payPeriods, goal])
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString(undefined, { timeZone: "UTC", month: "short", day: "numeric", year: "numeric" })
+
+  return (
+    <Card className="border-2 border-blue-200 bg-blue-50/50">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarRange className="h-5 w-5 text-blue-600" />
+          <span>Plan for {plan.taxYear}</span>
+        </CardTitle>
+        <CardDescription>
+          Project next year's tax from this return and see how much to pay each quarter or withhold from each paycheck
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div className="p-4 bg-white rounded-lg">
+            <div className="text-2xl font-bold">${plan.projectedTax.toLocaleString()}</div>
+            <div className="text-sm text-gray-600">Projected {plan.taxYear} Tax</div>
+          </div>
+          <div className="p-4 bg-white rounded-lg">
+            <div className="text-2xl font-bold">${plan.targetPayments.toLocaleString()}</div>
+            <div className="text-sm text-gray-600">{goal === "FULL_TAX" ? "Tax to Prepay" : "Safe Harbor Payments"}</div>
+          </div>
+          <div className="p-4 bg-white rounded-lg">
+            <div className="text-2xl font-bold text-blue-600">${plan.estimatedPaymentsNeeded.toLocaleString()}</div>
+            <div className="text-sm text-gray-600">Beyond Withholding</div>
+          </div>
+        </div>
+
+        {plan.rulesYear !== plan.taxYear && (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>
+              {plan.taxYear} brackets and limits aren't available yet, so the projection uses {plan.rulesYear} amounts.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="changes">Changes</TabsTrigger>
+            <TabsTrigger value="quarterly">Quarterly Payments</TabsTrigger>
+            <TabsTrigger value="w4">Form W-4</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="changes" className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {changeFields.map((field) => (
+                <div key={field.key}>
+                  <Label htmlFor={field.key}>{field.label}</Label>
+                  <Input
+                    id={field.key}
+                    type="number"
+                    step="0.01"
+                    min={field.key === "additionalDeductions" ? "0" : undefined}
+                    value={changes[field.key]}
+                    onChange={(e) => setChanges({...changes, [field.key]: e.target.value})}
+                    placeholder="0.00"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{field.hint}</p>
+                </div>
+              ))}
+              <div>
+                <Label htmlFor="expectedWithholding">Expected {plan.taxYear} Withholding</Label>
+                <Input
+                  id="expectedWithholding"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={expectedWithholding}
+                  onChange={(e) => setExpectedWithholding(e.target.value)}
+                  placeholder={String(calculation.federalWithholding)}
+                />
+                <p className="text-xs text-gray-500 mt-1">Federal tax your current W-4 will withhold; defaults to this year's</p>
+              </div>
+              <div>
+                <Label htmlFor="planningGoal">Goal</Label>
+                <Select value={goal} onValueChange={(value) => setGoal(value as PlanningGoal)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="SAFE_HARBOR">Avoid the underpayment penalty</SelectItem>
+                    <SelectItem value="FULL_TAX">Owe nothing at filing</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex justify-between items-center py-2 border-b">
+                <span className="text-gray-600">Projected Adjusted Gross Income</span>
+                <span className="font-medium">${plan.projection.adjustedGrossIncome.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between items-center py-2 border-b">
+                <span className="text-gray-600">90% of Projected {plan.taxYear} Tax</span>
+                <span className="font-medium">${(Math.round(plan.projectedTax * 90) / 100).toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between items-center py-2 border-b">
+                <span className="text-gray-600">
+                  {calculation.adjustedGrossIncome > 150000 ? "110%" : "100%"} of {plan.taxYear - 1} Tax
+                </span>
+                <span className="font-medium">${plan.currentYearTax.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between items-center py-2 border-b font-medium">
+                <span>Safe Harbor</span>
+                <span className="flex items-center space-x-2">
+                  <Badge variant="outline">{plan.safeHarborBasis === "CURRENT_YEAR" ? `Based on ${plan.taxYear - 1}` : `Based on ${plan.taxYear}`}</Badge>
+                  <span>${plan.safeHarborAmount.toLocaleString()}</span>
+                </span>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="quarterly" className="space-y-4">
+            {plan.quarterlyPayments.length === 0 ? (
+              <Alert>
+                <AlertDescription>
+                  Your expected withholding of ${plan.expectedWithholding.toLocaleString()} covers your goal, so you don't need to make estimated payments.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <div className="space-y-1">
+                {plan.quarterlyPayments.map((payment, index) => (
+                  <div key={payment.dueDate} className="flex justify-between items-center py-2 border-b">
+                    <span className="text-gray-600">Payment {index + 1} due {formatDate(payment.dueDate)}</span>
+                    <span className="font-medium">${payment.amount.toLocaleString()}</span>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500 pt-2">
+                  Pay with Form 1040-ES vouchers, IRS Direct Pay or EFTPS. Applying this year's refund to next year's
+                  estimated tax counts toward the first payment.
+                </p>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="w4" className="space-y-4">
+            {!plan.formW4 ? (
+              <Alert>
+                <AlertDescription>
+                  You have no wages to withhold from, so use the quarterly payment schedule instead.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <>
+                <div>
+                  <Label htmlFor="payPeriods">Pay Periods Left in {plan.taxYear}</Label>
+                  <Input
+                    id="payPeriods"
+                    type="number"
+                    min="1"
+                    value={payPeriods}
+                    onChange={(e) => setPayPeriods(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <div className="flex justify-between items-center py-2 border-b">
+                    <span className="text-gray-600">Step 3: Claim Dependent and Other Credits</span>
+                    <span className="font-medium">${plan.formW4.step3Credits.toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between items-center py-2 border-b">
+                    <span className="text-gray-600">Step 4(a): Other Income</span>
+                    <span className="font-medium">${plan.formW4.step4aOtherIncome.toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between items-center py-2 border-b">
+                    <span className="text-gray-600">Step 4(b): Deductions</span>
+                    <span className="font-medium">${plan.formW4.step4bDeductions.toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between items-center py-2 border-b font-medium">
+                    <span>Step 4(c): Extra Withholding per Pay Period</span>
+                    <span>${plan.formW4.step4cExtraWithholding.toLocaleString()}</span>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Give your employer a new W-4 with these amounts instead of making quarterly payments. If you or your
+                  spouse have more than one job, enter them on the W-4 for the highest-paying job only.
+                </p>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
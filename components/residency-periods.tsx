@@ -0,0 +1,222 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { MapPin, Plus, Trash2, Edit } from "lucide-react"
+import { getResidencyDays } from "@/lib/state-tax"
+
+interface ResidencyPeriodsProps {
+  taxReturn: any
+  homeState: string
+  periods: any[]
+  onPeriodsChange: (periods: any[]) => void
+  onMarkUnsaved: () => void
+}
+
+const emptyPeriod = {
+  stateCode: "",
+  startDate: "",
+  endDate: "",
+}
+
+const toDateInputValue = (value: any) => value ? new Date(value).toISOString().split("T")[0] : ""
+
+export function ResidencyPeriods({
+  taxReturn,
+  homeState,
+  periods,
+  onPeriodsChange,
+  onMarkUnsaved
+}: ResidencyPeriodsProps) {
+  const [formData, setFormData] = useState(emptyPeriod)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const residencyDays = getResidencyDays(periods, homeState, taxReturn.taxYear)
+
+  const resetForm = () => {
+    setFormData(emptyPeriod)
+    setEditingId(null)
+    setShowForm(false)
+    setError(null)
+  }
+
+  const handleEditPeriod = (period: any) => {
+    setEditingId(period.id)
+    setFormData({
+      stateCode: period.stateCode,
+      startDate: toDateInputValue(period.startDate),
+      endDate: toDateInputValue(period.endDate),
+    })
+    setShowForm(true)
+  }
+
+  const handleSavePeriod = async () => {
+    setError(null)
+
+    try {
+      const url = editingId
+        ? `/api/tax-returns/${taxReturn.id}/residency-periods/${editingId}`
+        : `/api/tax-returns/${taxReturn.id}/residency-periods`
+      const response = await fetch(url, {
+        method: editingId ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(formData),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(result.error || "Failed to save residency period")
+        return
+      }
+
+      const updated = editingId
+        ? periods.map((period: any) => period.id === editingId ? result.period : period)
+        : [...periods, result.period]
+      onPeriodsChange(updated.sort((a: any, b: any) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()))
+      onMarkUnsaved()
+      resetForm()
+    } catch (error) {
+      console.error("Error saving residency period:", error)
+      setError("Failed to save residency period")
+    }
+  }
+
+  const handleDeletePeriod = async (periodId: string) => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/residency-periods/${periodId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        onPeriodsChange(periods.filter((period: any) => period.id !== periodId))
+        if (editingId === periodId) resetForm()
+        onMarkUnsaved()
+      }
+    } catch (error) {
+      console.error("Error deleting residency period:", error)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <MapPin className="h-5 w-5" />
+          <span>State Residency</span>
+        </CardTitle>
+        <CardDescription>
+          If you moved to another state during {taxReturn.taxYear}, enter the dates you lived in each state.
+          Days you don't enter count as living in {homeState || "the state in your address"}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {periods.map((period: any) => (
+          <div key={period.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+            <div className="flex items-center space-x-3">
+              <Badge variant="outline">{period.stateCode}</Badge>
+              <span className="text-sm text-gray-600">
+                {new Date(period.startDate).toLocaleDateString(undefined, { timeZone: "UTC" })} – {new Date(period.endDate).toLocaleDateString(undefined, { timeZone: "UTC" })}
+              </span>
+            </div>
+            <div className="flex space-x-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleEditPeriod(period)}
+              >
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDeletePeriod(period.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {periods.length > 0 && (
+          <div className="flex flex-wrap gap-2 text-sm text-gray-600">
+            {Object.entries(residencyDays).map(([stateCode, days]) => (
+              <span key={stateCode}>{stateCode}: {days} days</span>
+            ))}
+          </div>
+        )}
+
+        {!showForm ? (
+          <Button type="button" variant="outline" onClick={() => setShowForm(true)} className="w-full">
+            <Plus className="mr-2 h-4 w-4" />
+            Add a Residency Period
+          </Button>
+        ) : (
+          <div className="space-y-4 border rounded-lg p-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="residencyState">State *</Label>
+                <Input
+                  id="residencyState"
+                  value={formData.stateCode}
+                  onChange={(e) => setFormData({...formData, stateCode: e.target.value.toUpperCase()})}
+                  maxLength={2}
+                  placeholder="CA"
+                />
+              </div>
+              <div>
+                <Label htmlFor="residencyStart">Moved In *</Label>
+                <Input
+                  id="residencyStart"
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({...formData, startDate: e.target.value})}
+                />
+              </div>
+              <div>
+                <Label htmlFor="residencyEnd">Moved Out *</Label>
+                <Input
+                  id="residencyEnd"
+                  type="date"
+                  value={formData.endDate}
+                  onChange={(e) => setFormData({...formData, endDate: e.target.value})}
+                />
+              </div>
+            </div>
+
+            <div className="flex space-x-2">
+              <Button
+                type="button"
+                onClick={handleSavePeriod}
+                disabled={!formData.stateCode || !formData.startDate || !formData.endDate}
+                className="flex-1"
+              >
+                {editingId ? "Update Period" : "Save Period"}
+              </Button>
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,455 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Briefcase, Plus, Trash2, Edit } from "lucide-react"
+import {
+  ACCOUNTING_METHODS,
+  BUSINESS_EXPENSE_CATEGORIES,
+  BUSINESS_RECEIPT_INCOME_TYPES,
+  calculateScheduleC,
+} from "@/lib/schedule-c"
+
+interface ScheduleCBusinessesProps {
+  taxReturn: any
+  incomeEntries: any[]
+  onIncomeEntriesChange: (entries: any[]) => void
+  onMarkUnsaved: () => void
+}
+
+interface ExpenseRow {
+  category: string
+  description: string
+  amount: string
+}
+
+const emptyBusiness = {
+  name: "",
+  ein: "",
+  activityCode: "",
+  description: "",
+  accountingMethod: "CASH",
+  forSpouse: false,
+  homeOfficeSquareFeet: "",
+  businessMiles: "",
+}
+
+export function ScheduleCBusinesses({
+  taxReturn,
+  incomeEntries,
+  onIncomeEntriesChange,
+  onMarkUnsaved
+}: ScheduleCBusinessesProps) {
+  const [businesses, setBusinesses] = useState<any[]>(taxReturn.businesses || [])
+  const [formData, setFormData] = useState(emptyBusiness)
+  const [expenses, setExpenses] = useState<ExpenseRow[]>([])
+  const [linkedEntryIds, setLinkedEntryIds] = useState<string[]>([])
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isJointReturn = taxReturn.filingStatus === "MARRIED_FILING_JOINTLY"
+
+  // Receipts that are unlinked or already belong to the business being edited
+  const linkableEntries = incomeEntries.filter((entry: any) =>
+    BUSINESS_RECEIPT_INCOME_TYPES.includes(entry.incomeType) &&
+    (!entry.businessId || entry.businessId === editingId)
+  )
+
+  const resetForm = () => {
+    setFormData(emptyBusiness)
+    setExpenses([])
+    setLinkedEntryIds([])
+    setEditingId(null)
+    setShowForm(false)
+    setError(null)
+  }
+
+  const handleEditBusiness = (business: any) => {
+    setEditingId(business.id)
+    setFormData({
+      name: business.name,
+      ein: business.ein || "",
+      activityCode: business.activityCode || "",
+      description: business.description || "",
+      accountingMethod: business.accountingMethod,
+      forSpouse: Boolean(business.forSpouse),
+      homeOfficeSquareFeet: business.homeOfficeSquareFeet ? String(business.homeOfficeSquareFeet) : "",
+      businessMiles: business.businessMiles ? String(business.businessMiles) : "",
+    })
+    setExpenses((business.expenses || []).map((expense: any) => ({
+      category: expense.category,
+      description: expense.description || "",
+      amount: String(Number(expense.amount)),
+    })))
+    setLinkedEntryIds(incomeEntries
+      .filter((entry: any) => entry.businessId === business.id)
+      .map((entry: any) => entry.id)
+    )
+    setShowForm(true)
+  }
+
+  const handleSaveBusiness = async () => {
+    if (!formData.name) return
+    setError(null)
+
+    const payload = {
+      ...formData,
+      forSpouse: isJointReturn && formData.forSpouse,
+      homeOfficeSquareFeet: parseInt(formData.homeOfficeSquareFeet) || 0,
+      businessMiles: parseInt(formData.businessMiles) || 0,
+      expenses: expenses
+        .filter(expense => expense.category && expense.amount)
+        .map(expense => ({ ...expense, amount: parseFloat(expense.amount) })),
+      incomeEntryIds: linkedEntryIds,
+    }
+
+    try {
+      const url = editingId
+        ? `/api/tax-returns/${taxReturn.id}/businesses/${editingId}`
+        : `/api/tax-returns/${taxReturn.id}/businesses`
+      const response = await fetch(url, {
+        method: editingId ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(result.error || "Failed to save business")
+        return
+      }
+
+      const saved = result.business
+      const savedEntryIds = (saved.incomeEntries || []).map((entry: any) => entry.id)
+
+      setBusinesses(editingId
+        ? businesses.map((business: any) => business.id === editingId ? saved : business)
+        : [...businesses, saved]
+      )
+      onIncomeEntriesChange(incomeEntries.map((entry: any) => {
+        if (savedEntryIds.includes(entry.id)) return { ...entry, businessId: saved.id }
+        if (entry.businessId === saved.id) return { ...entry, businessId: null }
+        return entry
+      }))
+      onMarkUnsaved()
+      resetForm()
+    } catch (error) {
+      console.error("Error saving business:", error)
+      setError("Failed to save business")
+    }
+  }
+
+  const handleDeleteBusiness = async (businessId: string) => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/businesses/${businessId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        setBusinesses(businesses.filter((business: any) => business.id !== businessId))
+        onIncomeEntriesChange(incomeEntries.map((entry: any) =>
+          entry.businessId === businessId ? { ...entry, businessId: null } : entry
+        ))
+        if (editingId === businessId) resetForm()
+        onMarkUnsaved()
+      }
+    } catch (error) {
+      console.error("Error deleting business:", error)
+    }
+  }
+
+  const updateExpense = (index: number, field: keyof ExpenseRow, value: string) => {
+    setExpenses(expenses.map((expense, i) => i === index ? { ...expense, [field]: value } : expense))
+  }
+
+  const toggleLinkedEntry = (entryId: string, checked: boolean) => {
+    setLinkedEntryIds(checked
+      ? [...linkedEntryIds, entryId]
+      : linkedEntryIds.filter(id => id !== entryId)
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Briefcase className="h-5 w-5" />
+          <span>Self-Employment (Schedule C)</span>
+        </CardTitle>
+        <CardDescription>
+          Report each business you run as a sole proprietor. Link your 1099-NEC and 1099-K income and enter business expenses to calculate net profit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {businesses.map((business: any) => {
+          const result = calculateScheduleC(business, incomeEntries, taxReturn.taxYear)
+          return (
+            <div key={business.id} className="p-4 bg-gray-50 rounded-lg">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{business.name}</span>
+                    {business.activityCode && (
+                      <Badge variant="outline">Code {business.activityCode}</Badge>
+                    )}
+                    {isJointReturn && business.forSpouse && (
+                      <Badge variant="secondary">Spouse</Badge>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-600 mt-2 space-y-1">
+                    <p>Gross receipts: ${result.grossReceipts.toLocaleString()}</p>
+                    <p>Expenses: ${result.totalExpenses.toLocaleString()}</p>
+                    {result.vehicleExpense > 0 && (
+                      <p className="text-xs text-gray-500">
+                        Includes {business.businessMiles.toLocaleString()} business miles (${result.vehicleExpense.toLocaleString()})
+                      </p>
+                    )}
+                    {result.homeOfficeDeduction > 0 && (
+                      <p>Home office: ${result.homeOfficeDeduction.toLocaleString()}</p>
+                    )}
+                    <p className={`font-medium ${result.netProfit < 0 ? "text-red-600" : "text-gray-900"}`}>
+                      Net {result.netProfit < 0 ? "loss" : "profit"}: ${Math.abs(result.netProfit).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex space-x-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleEditBusiness(business)}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteBusiness(business.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )
+        })}
+
+        {!showForm ? (
+          <Button type="button" variant="outline" onClick={() => setShowForm(true)} className="w-full">
+            <Plus className="mr-2 h-4 w-4" />
+            Add a Business
+          </Button>
+        ) : (
+          <div className="space-y-4 border rounded-lg p-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="businessName">Business Name *</Label>
+                <Input
+                  id="businessName"
+                  value={formData.name}
+                  onChange={(e) => setFormData({...formData, name: e.target.value})}
+                />
+              </div>
+              <div>
+                <Label htmlFor="businessEin">EIN</Label>
+                <Input
+                  id="businessEin"
+                  value={formData.ein}
+                  onChange={(e) => setFormData({...formData, ein: e.target.value})}
+                  placeholder="00-0000000"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="activityCode">Principal Business Code</Label>
+                <Input
+                  id="activityCode"
+                  value={formData.activityCode}
+                  onChange={(e) => setFormData({...formData, activityCode: e.target.value})}
+                  placeholder="6-digit code"
+                  maxLength={6}
+                />
+              </div>
+              <div>
+                <Label htmlFor="accountingMethod">Accounting Method</Label>
+                <Select value={formData.accountingMethod} onValueChange={(value) => setFormData({...formData, accountingMethod: value})}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ACCOUNTING_METHODS.map((method) => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {isJointReturn && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="businessForSpouse"
+                  checked={formData.forSpouse}
+                  onCheckedChange={(checked) => setFormData({...formData, forSpouse: checked === true})}
+                />
+                <Label htmlFor="businessForSpouse" className="font-normal">
+                  This is my spouse's business
+                </Label>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="businessDescription">Principal Business or Profession</Label>
+              <Input
+                id="businessDescription"
+                value={formData.description}
+                onChange={(e) => setFormData({...formData, description: e.target.value})}
+                placeholder="e.g. Freelance graphic design"
+              />
+            </div>
+
+            <div>
+              <Label>Income Reported on This Business</Label>
+              {linkableEntries.length === 0 ? (
+                <p className="text-sm text-gray-500 mt-1">
+                  Add 1099-NEC, 1099-K or business income above to link it here.
+                </p>
+              ) : (
+                <div className="space-y-2 mt-2">
+                  {linkableEntries.map((entry: any) => (
+                    <div key={entry.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`link-${entry.id}`}
+                        checked={linkedEntryIds.includes(entry.id)}
+                        onCheckedChange={(checked) => toggleLinkedEntry(entry.id, checked === true)}
+                      />
+                      <Label htmlFor={`link-${entry.id}`} className="font-normal">
+                        {entry.payerName || entry.description || entry.incomeType}: ${parseFloat(entry.amount).toLocaleString()}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Expenses</Label>
+              {expenses.map((expense, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2">
+                  <div className="col-span-5">
+                    <Select value={expense.category} onValueChange={(value) => updateExpense(index, "category", value)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BUSINESS_EXPENSE_CATEGORIES.map((category) => (
+                          <SelectItem key={category.value} value={category.value}>
+                            {category.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="col-span-4"
+                    value={expense.description}
+                    onChange={(e) => updateExpense(index, "description", e.target.value)}
+                    placeholder="Description"
+                  />
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    step="0.01"
+                    value={expense.amount}
+                    onChange={(e) => updateExpense(index, "amount", e.target.value)}
+                    placeholder="0.00"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setExpenses(expenses.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setExpenses([...expenses, { category: "", description: "", amount: "" }])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Expense
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="homeOfficeSquareFeet">Home Office Square Feet</Label>
+                <Input
+                  id="homeOfficeSquareFeet"
+                  type="number"
+                  min="0"
+                  value={formData.homeOfficeSquareFeet}
+                  onChange={(e) => setFormData({...formData, homeOfficeSquareFeet: e.target.value})}
+                  placeholder="0"
+                />
+                <p className="text-xs text-gray-500 mt-1">Simplified method: $5 per sq. ft., up to 300 sq. ft.</p>
+              </div>
+              <div>
+                <Label htmlFor="businessMiles">Business Miles Driven</Label>
+                <Input
+                  id="businessMiles"
+                  type="number"
+                  min="0"
+                  value={formData.businessMiles}
+                  onChange={(e) => setFormData({...formData, businessMiles: e.target.value})}
+                  placeholder="0"
+                />
+                <p className="text-xs text-gray-500 mt-1">Deducted at the IRS standard mileage rate</p>
+              </div>
+            </div>
+
+            <div className="flex space-x-2">
+              <Button
+                type="button"
+                onClick={handleSaveBusiness}
+                disabled={!formData.name}
+                className="flex-1"
+              >
+                {editingId ? "Update Business" : "Save Business"}
+              </Button>
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -11,9 +11,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Receipt, Plus, Trash2, ArrowRight, ArrowLeft, Info, Calculator, TrendingUp, DollarSign } from "lucide-react"
-import { getStandardDeduction } from "@/lib/tax-calculations"
+import { getStandardDeduction, getStandardDeductionOptions, calculateTaxReturn, buildTaxCalculationInput } from "@/lib/tax-calculations"
 import { calculateDeductionComparison, generateTaxOptimizationSuggestions } from "@/lib/enhanced-tax-calculations"
+import { CHARITABLE_CONTRIBUTION_TYPES } from "@/lib/schedule-a"
+import { ADJUSTMENT_DEDUCTION_TYPES } from "@/lib/adjustments-to-income"
 import { InteractiveWhatIfScenarios } from "@/components/interactive-what-if-scenarios"
 
 interface DeductionsStepProps {
@@ -36,12 +39,17 @@ const deductionTypes = [
   { value: "STATE_LOCAL_TAXES", label: "State & Local Taxes" },
   { value: "CHARITABLE_CONTRIBUTIONS", label: "Charitable Contributions" },
   { value: "MEDICAL_EXPENSES", label: "Medical & Dental Expenses" },
-  { value: "BUSINESS_EXPENSES", label: "Business Expenses" },
-  { value: "STUDENT_LOAN_INTEREST", label: "Student Loan Interest" },
-  { value: "IRA_CONTRIBUTIONS", label: "IRA Contributions" },
   { value: "OTHER_DEDUCTIONS", label: "Other Deductions" },
+  { value: "EDUCATOR_EXPENSES", label: "Educator Expenses" },
+  { value: "HSA_CONTRIBUTIONS", label: "HSA Contributions" },
+  { value: "SELF_EMPLOYED_HEALTH_INSURANCE", label: "Self-Employed Health Insurance" },
+  { value: "IRA_CONTRIBUTIONS", label: "Traditional IRA Contributions" },
+  { value: "STUDENT_LOAN_INTEREST", label: "Student Loan Interest" },
 ]
 
+// Adjustments with a separate limit for each spouse on a joint return
+const perSpouseDeductionTypes = ["EDUCATOR_EXPENSES", "HSA_CONTRIBUTIONS", "IRA_CONTRIBUTIONS"]
+
 export function DeductionsStep({ 
   taxReturn, 
   onUpdate, 
@@ -64,37 +72,58 @@ export function DeductionsStep({
     deductionType: "",
     amount: "",
     description: "",
+    charitableType: "CASH",
+    mortgageBalance: "",
+    isGrandfatheredMortgage: false,
+    forSpouse: false,
+    hsaFamilyCoverage: false,
   })
-
-  const standardDeduction = getStandardDeduction(taxReturn.filingStatus)
-  const totalItemizedDeductions = deductionEntries.reduce((sum: number, entry: any) => 
-    sum + parseFloat(entry.amount || 0), 0
+  const [charitableCarryforward, setCharitableCarryforward] = useState(
+    Number(taxReturn.charitableCarryforward) ? String(Number(taxReturn.charitableCarryforward)) : ""
   )
 
+  const standardDeductionOptions = getStandardDeductionOptions(taxReturn)
+  const standardDeduction = getStandardDeduction(taxReturn.filingStatus, taxReturn.taxYear, standardDeductionOptions)
+  // Adjustments reduce AGI, which in turn sets the Schedule A limits; business expenses belong on Schedule C and are ignored
+  const calculation = calculateTaxReturn(buildTaxCalculationInput({
+    ...taxReturn,
+    deductionEntries,
+    charitableCarryforward: parseFloat(charitableCarryforward) || 0,
+  }).input)
+  const adjustedGrossIncome = calculation.adjustedGrossIncome
+  const adjustments = calculation.adjustments
+  const scheduleA = calculation.scheduleA!
+  const totalItemizedDeductions = scheduleA.totalAllowed
+  const isJointReturn = taxReturn.filingStatus === "MARRIED_FILING_JOINTLY"
+
+  const deductionStepData = {
+    standardDeduction: deductionMethod === "standard" ? standardDeduction : 0,
+    itemizedDeduction: deductionMethod === "itemized" ? totalItemizedDeductions : 0,
+    charitableCarryforward: parseFloat(charitableCarryforward) || 0,
+  }
+
   // Auto-save functionality with debouncing
   useEffect(() => {
     const timer = setTimeout(() => {
       if (hasUnsavedChanges && !autoSaving) {
-        onAutoSave({ 
-          standardDeduction: deductionMethod === "standard" ? standardDeduction : 0,
-          itemizedDeduction: deductionMethod === "itemized" ? totalItemizedDeductions : 0,
-        })
+        onAutoSave(deductionStepData)
       }
     }, 3000) // Auto-save after 3 seconds of inactivity
 
     return () => clearTimeout(timer)
-  }, [deductionEntries, deductionMethod, totalItemizedDeductions, standardDeduction, hasUnsavedChanges, autoSaving, onAutoSave])
+  }, [deductionEntries, deductionMethod, totalItemizedDeductions, standardDeduction, charitableCarryforward, hasUnsavedChanges, autoSaving, onAutoSave])
 
   useEffect(() => {
     // Calculate enhanced comparison
-    const adjustedGrossIncome = parseFloat(taxReturn.adjustedGrossIncome || taxReturn.totalIncome || 0)
     const dependents = taxReturn.dependents || []
     
     const newComparison = calculateDeductionComparison(
       adjustedGrossIncome,
       taxReturn.filingStatus,
       totalItemizedDeductions,
-      dependents
+      dependents,
+      taxReturn.taxYear,
+      getStandardDeductionOptions(taxReturn)
     )
     
     setComparison(newComparison)
@@ -107,10 +136,11 @@ export function DeductionsStep({
       newComparison,
       adjustedGrossIncome,
       taxReturn.filingStatus,
-      dependents
+      dependents,
+      taxReturn.taxYear
     )
     setSuggestions(newSuggestions)
-  }, [totalItemizedDeductions, taxReturn.filingStatus, taxReturn.adjustedGrossIncome, taxReturn.totalIncome, taxReturn.dependents])
+  }, [totalItemizedDeductions, adjustedGrossIncome, taxReturn, taxReturn.filingStatus, taxReturn.dependents])
 
   const handleAddDeduction = async () => {
     if (!newEntry.deductionType || !newEntry.amount) return
@@ -119,6 +149,11 @@ export function DeductionsStep({
       deductionType: newEntry.deductionType,
       amount: parseFloat(newEntry.amount),
       description: newEntry.description,
+      charitableType: newEntry.charitableType,
+      mortgageBalance: parseFloat(newEntry.mortgageBalance) || null,
+      isGrandfatheredMortgage: newEntry.isGrandfatheredMortgage,
+      forSpouse: isJointReturn && perSpouseDeductionTypes.includes(newEntry.deductionType) && newEntry.forSpouse,
+      hsaFamilyCoverage: newEntry.hsaFamilyCoverage,
     }
 
     try {
@@ -138,6 +173,11 @@ export function DeductionsStep({
           deductionType: "",
           amount: "",
           description: "",
+          charitableType: "CASH",
+          mortgageBalance: "",
+          isGrandfatheredMortgage: false,
+          forSpouse: false,
+          hsaFamilyCoverage: false,
         })
       }
     } catch (error) {
@@ -163,29 +203,18 @@ export function DeductionsStep({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
-    const finalDeduction = deductionMethod === "standard" ? standardDeduction : totalItemizedDeductions
-    
-    await onUpdate({ 
-      standardDeduction: deductionMethod === "standard" ? standardDeduction : 0,
-      itemizedDeduction: deductionMethod === "itemized" ? totalItemizedDeductions : 0,
-    })
+    await onUpdate(deductionStepData)
     onNext()
   }
 
   const handleSaveAndContinue = async (e: React.FormEvent) => {
     e.preventDefault()
-    await onCompleteStep({ 
-      standardDeduction: deductionMethod === "standard" ? standardDeduction : 0,
-      itemizedDeduction: deductionMethod === "itemized" ? totalItemizedDeductions : 0,
-    })
+    await onCompleteStep(deductionStepData)
     onNext()
   }
 
   const handleSaveOnly = async () => {
-    await onAutoSave({ 
-      standardDeduction: deductionMethod === "standard" ? standardDeduction : 0,
-      itemizedDeduction: deductionMethod === "itemized" ? totalItemizedDeductions : 0,
-    })
+    await onAutoSave(deductionStepData)
   }
 
   const finalDeduction = deductionMethod === "standard" ? standardDeduction : totalItemizedDeductions
@@ -305,7 +334,7 @@ export function DeductionsStep({
         {/* Interactive What-If Scenarios */}
         <InteractiveWhatIfScenarios
           taxReturn={taxReturn}
-          adjustedGrossIncome={parseFloat(taxReturn.adjustedGrossIncome || taxReturn.totalIncome || 0)}
+          adjustedGrossIncome={adjustedGrossIncome}
           currentItemizedDeductions={totalItemizedDeductions}
           filingStatus={taxReturn.filingStatus}
           dependents={taxReturn.dependents || []}
@@ -340,9 +369,9 @@ export function DeductionsStep({
         {/* Itemized Deductions Section */}
         <Card>
           <CardHeader>
-            <CardTitle>Itemized Deductions</CardTitle>
+            <CardTitle>Deductions & Adjustments</CardTitle>
             <CardDescription>
-              Add your deductible expenses to see if itemizing is beneficial
+              Add your deductible expenses to see if itemizing is beneficial. Adjustments to income reduce your AGI whether or not you itemize
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -355,13 +384,31 @@ export function DeductionsStep({
                     <div className="flex-1">
                       <div className="flex items-center space-x-2">
                         <Badge variant="secondary">
-                          {deductionTypes.find(t => t.value === entry.deductionType)?.label}
+                          {deductionTypes.find(t => t.value === entry.deductionType)?.label || entry.deductionType}
                         </Badge>
                         <span className="font-medium">${parseFloat(entry.amount).toLocaleString()}</span>
                       </div>
                       {entry.description && (
                         <p className="text-sm text-gray-600 mt-1">{entry.description}</p>
                       )}
+                      {entry.deductionType === "CHARITABLE_CONTRIBUTIONS" && entry.charitableType && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {CHARITABLE_CONTRIBUTION_TYPES.find(t => t.value === entry.charitableType)?.label}
+                        </p>
+                      )}
+                      {entry.deductionType === "MORTGAGE_INTEREST" && Number(entry.mortgageBalance) > 0 && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Average balance ${Number(entry.mortgageBalance).toLocaleString()}
+                          {entry.isGrandfatheredMortgage && " (before Dec. 16, 2017)"}
+                        </p>
+                      )}
+                      {ADJUSTMENT_DEDUCTION_TYPES.includes(entry.deductionType) && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Adjustment to income
+                          {entry.forSpouse && " · Spouse"}
+                          {entry.deductionType === "HSA_CONTRIBUTIONS" && (entry.hsaFamilyCoverage ? " · Family coverage" : " · Self-only coverage")}
+                        </p>
+                      )}
                     </div>
                     <Button
                       type="button"
@@ -376,6 +423,98 @@ export function DeductionsStep({
               </div>
             )}
 
+            {/* Schedule 1 Part II Limits */}
+            {adjustments.total > 0 && (
+              <div className="p-4 border rounded-lg space-y-2 text-sm">
+                <h4 className="font-medium">Adjustments to Income</h4>
+                {[
+                  { label: "Educator expenses", line: adjustments.educatorExpenses, note: "Limited per eligible educator" },
+                  { label: "HSA deduction", line: adjustments.hsaDeduction, note: "Limited to the annual contribution limit for your coverage" },
+                  { label: "Deductible part of self-employment tax", line: { entered: adjustments.selfEmploymentTaxDeduction, allowed: adjustments.selfEmploymentTaxDeduction }, note: "" },
+                  { label: "Self-employed health insurance", line: adjustments.selfEmployedHealthInsurance, note: "Limited to business profit less the deductible part of self-employment tax" },
+                  { label: "IRA deduction", line: adjustments.iraDeduction, note: "Limited by the contribution limit, compensation and workplace retirement plan phase-out" },
+                  { label: "Student loan interest", line: adjustments.studentLoanInterest, note: "Limited to $2,500 and phased out at higher incomes" },
+                ]
+                  .filter(({ line }) => line.entered > 0 || line.allowed > 0)
+                  .map(({ label, line, note }) => (
+                    <div key={label}>
+                      <div className="flex justify-between">
+                        <span>{label}</span>
+                        <span>
+                          {line.allowed < line.entered && (
+                            <span className="text-gray-400 line-through mr-2">${line.entered.toLocaleString()}</span>
+                          )}
+                          <span className="font-medium">${line.allowed.toLocaleString()}</span>
+                        </span>
+                      </div>
+                      {line.allowed < line.entered && note && (
+                        <p className="text-xs text-gray-500">{note}</p>
+                      )}
+                    </div>
+                  ))}
+                <div className="flex justify-between font-medium border-t pt-2">
+                  <span>Adjusted gross income</span>
+                  <span>${adjustedGrossIncome.toLocaleString()}</span>
+                </div>
+              </div>
+            )}
+
+            {/* Schedule A Limits */}
+            {scheduleA.totalEntered > 0 && (
+              <div className="p-4 border rounded-lg space-y-2 text-sm">
+                <h4 className="font-medium">Allowed After Schedule A Limits</h4>
+                {[
+                  { label: "Medical & dental expenses", line: scheduleA.medicalExpenses, note: `Only the amount above 7.5% of AGI ($${scheduleA.medicalExpenses.floor.toLocaleString()}) is deductible` },
+                  { label: "State & local taxes", line: scheduleA.taxes, note: `Limited to $${scheduleA.taxes.cap.toLocaleString()} (SALT cap)` },
+                  { label: "Mortgage interest", line: scheduleA.interest, note: "Limited to interest on qualifying home acquisition debt" },
+                  { label: "Charitable contributions", line: scheduleA.charitableContributions, note: "Limited by percentage of AGI" },
+                  { label: "Other deductions", line: scheduleA.otherDeductions, note: "" },
+                ]
+                  .filter(({ line }) => line.entered > 0 || line.allowed > 0)
+                  .map(({ label, line, note }) => (
+                    <div key={label}>
+                      <div className="flex justify-between">
+                        <span>{label}</span>
+                        <span>
+                          {line.allowed < line.entered && (
+                            <span className="text-gray-400 line-through mr-2">${line.entered.toLocaleString()}</span>
+                          )}
+                          <span className="font-medium">${line.allowed.toLocaleString()}</span>
+                        </span>
+                      </div>
+                      {line.allowed < line.entered && note && (
+                        <p className="text-xs text-gray-500">{note}</p>
+                      )}
+                    </div>
+                  ))}
+                {scheduleA.charitableContributions.carryforwardToNextYear > 0 && (
+                  <p className="text-xs text-gray-500">
+                    ${scheduleA.charitableContributions.carryforwardToNextYear.toLocaleString()} of charitable contributions carries forward to next year
+                  </p>
+                )}
+                <div className="flex justify-between font-medium border-t pt-2">
+                  <span>Total itemized deductions</span>
+                  <span>${scheduleA.totalAllowed.toLocaleString()}</span>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="charitableCarryforward">Charitable Contribution Carryover From Prior Years</Label>
+              <Input
+                id="charitableCarryforward"
+                type="number"
+                step="0.01"
+                min="0"
+                value={charitableCarryforward}
+                onChange={(e) => {
+                  setCharitableCarryforward(e.target.value)
+                  onMarkUnsaved()
+                }}
+                placeholder="0.00"
+              />
+            </div>
+
             {/* Add New Deduction */}
             <div className="border-t pt-4">
               <h4 className="font-medium mb-3">Add Deduction</h4>
@@ -407,6 +546,76 @@ export function DeductionsStep({
                   />
                 </div>
               </div>
+              {newEntry.deductionType === "CHARITABLE_CONTRIBUTIONS" && (
+                <div className="mt-3">
+                  <Label htmlFor="charitableType">Type of Contribution</Label>
+                  <Select value={newEntry.charitableType} onValueChange={(value) => setNewEntry({...newEntry, charitableType: value})}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHARITABLE_CONTRIBUTION_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {(newEntry.deductionType === "HSA_CONTRIBUTIONS" || (isJointReturn && perSpouseDeductionTypes.includes(newEntry.deductionType))) && (
+                <div className="flex items-center space-x-6 mt-3">
+                  {isJointReturn && perSpouseDeductionTypes.includes(newEntry.deductionType) && (
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="forSpouse"
+                        checked={newEntry.forSpouse}
+                        onCheckedChange={(checked) => setNewEntry({...newEntry, forSpouse: checked === true})}
+                      />
+                      <Label htmlFor="forSpouse" className="font-normal">
+                        For my spouse
+                      </Label>
+                    </div>
+                  )}
+                  {newEntry.deductionType === "HSA_CONTRIBUTIONS" && (
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="hsaFamilyCoverage"
+                        checked={newEntry.hsaFamilyCoverage}
+                        onCheckedChange={(checked) => setNewEntry({...newEntry, hsaFamilyCoverage: checked === true})}
+                      />
+                      <Label htmlFor="hsaFamilyCoverage" className="font-normal">
+                        Family HDHP coverage
+                      </Label>
+                    </div>
+                  )}
+                </div>
+              )}
+              {newEntry.deductionType === "MORTGAGE_INTEREST" && (
+                <div className="grid grid-cols-2 gap-4 mt-3">
+                  <div>
+                    <Label htmlFor="mortgageBalance">Average Mortgage Balance</Label>
+                    <Input
+                      id="mortgageBalance"
+                      type="number"
+                      step="0.01"
+                      value={newEntry.mortgageBalance}
+                      onChange={(e) => setNewEntry({...newEntry, mortgageBalance: e.target.value})}
+                      placeholder="Only needed above $750,000"
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2 pt-6">
+                    <Checkbox
+                      id="isGrandfatheredMortgage"
+                      checked={newEntry.isGrandfatheredMortgage}
+                      onCheckedChange={(checked) => setNewEntry({...newEntry, isGrandfatheredMortgage: checked === true})}
+                    />
+                    <Label htmlFor="isGrandfatheredMortgage" className="font-normal">
+                      Loan taken out before December 16, 2017
+                    </Label>
+                  </div>
+                </div>
+              )}
               <div className="mt-3">
                 <Label htmlFor="deductionDescription">Description (Optional)</Label>
                 <Input
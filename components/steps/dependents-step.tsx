@@ -0,0 +1,388 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Users, Plus, Trash2, Edit, ArrowRight, ArrowLeft, Info } from "lucide-react"
+import { RELATIONSHIP_OPTIONS, determineDependentEligibility } from "@/lib/dependent-eligibility"
+import { CareProviders } from "@/components/care-providers"
+
+interface DependentsStepProps {
+  taxReturn: any
+  onUpdate: (data: any) => Promise<any>
+  onAutoSave: (data: any) => Promise<any>
+  onCompleteStep: (data: any) => Promise<any>
+  onNext: () => void
+  onPrev: () => void
+  onMarkUnsaved: () => void
+  loading: boolean
+  saving: boolean
+  autoSaving: boolean
+  hasUnsavedChanges: boolean
+  lastSaved: Date | null
+}
+
+const emptyDependent = {
+  firstName: "",
+  lastName: "",
+  ssn: "",
+  relationship: "",
+  birthDate: "",
+  monthsLivedWithTaxpayer: "12",
+  isFullTimeStudent: false,
+  isPermanentlyDisabled: false,
+}
+
+export function DependentsStep({
+  taxReturn,
+  onUpdate,
+  onCompleteStep,
+  onNext,
+  onPrev,
+  onMarkUnsaved,
+  saving
+}: DependentsStepProps) {
+  const [dependents, setDependents] = useState<any[]>(taxReturn.dependents || [])
+  const [careProviders, setCareProviders] = useState<any[]>(taxReturn.careProviders || [])
+  const [formData, setFormData] = useState(emptyDependent)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const isFormComplete = formData.firstName && formData.lastName && formData.relationship && formData.birthDate
+
+  const handleSaveDependent = async () => {
+    if (!isFormComplete) return
+    setError(null)
+
+    const payload = {
+      ...formData,
+      monthsLivedWithTaxpayer: parseInt(formData.monthsLivedWithTaxpayer) || 0,
+    }
+
+    try {
+      const url = editingId
+        ? `/api/tax-returns/${taxReturn.id}/dependents/${editingId}`
+        : `/api/tax-returns/${taxReturn.id}/dependents`
+      const response = await fetch(url, {
+        method: editingId ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      })
+
+      const result = await response.json()
+
+      if (response.ok) {
+        setDependents(editingId
+          ? dependents.map((dep: any) => dep.id === editingId ? result.dependent : dep)
+          : [...dependents, result.dependent]
+        )
+        onMarkUnsaved()
+        setFormData(emptyDependent)
+        setEditingId(null)
+      } else {
+        setError(result.error || "Failed to save dependent")
+      }
+    } catch (error) {
+      console.error("Error saving dependent:", error)
+      setError("Failed to save dependent")
+    }
+  }
+
+  const handleEditDependent = (dependent: any) => {
+    setEditingId(dependent.id)
+    setFormData({
+      firstName: dependent.firstName,
+      lastName: dependent.lastName,
+      ssn: dependent.ssn || "",
+      relationship: dependent.relationship,
+      birthDate: new Date(dependent.birthDate).toISOString().slice(0, 10),
+      monthsLivedWithTaxpayer: String(dependent.monthsLivedWithTaxpayer ?? 12),
+      isFullTimeStudent: !!dependent.isFullTimeStudent,
+      isPermanentlyDisabled: !!dependent.isPermanentlyDisabled,
+    })
+  }
+
+  const handleCancelEdit = () => {
+    setEditingId(null)
+    setFormData(emptyDependent)
+  }
+
+  const handleDeleteDependent = async (dependentId: string) => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/dependents/${dependentId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        setDependents(dependents.filter((dep: any) => dep.id !== dependentId))
+        // Providers linked to the deleted dependent are kept but no longer count toward the credit
+        setCareProviders(careProviders.map((provider: any) =>
+          provider.dependentId === dependentId ? { ...provider, dependentId: null } : provider
+        ))
+        if (editingId === dependentId) handleCancelEdit()
+        onMarkUnsaved()
+      }
+    } catch (error) {
+      console.error("Error deleting dependent:", error)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    // Refresh the tax return so later steps see the saved dependents
+    await onUpdate({})
+    onNext()
+  }
+
+  const handleSaveAndContinue = async (e: React.FormEvent) => {
+    e.preventDefault()
+    await onCompleteStep({})
+    onNext()
+  }
+
+  const relationshipLabel = (value: string) =>
+    RELATIONSHIP_OPTIONS.find(option => option.value === value)?.label || value
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-6">
+        <Alert>
+          <Info className="h-4 w-4" />
+          <AlertDescription>
+            Add the children and relatives you support. We determine Child Tax Credit and Earned Income Credit eligibility from their age, relationship, residency and Social Security number.
+          </AlertDescription>
+        </Alert>
+
+        {dependents.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Users className="h-5 w-5" />
+                <span>Your Dependents</span>
+              </CardTitle>
+              <CardDescription>
+                {dependents.length} dependent{dependents.length === 1 ? "" : "s"} on this return
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {dependents.map((dependent: any) => {
+                const eligibility = determineDependentEligibility(dependent, taxReturn.taxYear)
+                return (
+                  <div key={dependent.id} className="flex items-start justify-between p-4 bg-gray-50 rounded-lg">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium">{dependent.firstName} {dependent.lastName}</span>
+                        <Badge variant="secondary">{relationshipLabel(dependent.relationship)}</Badge>
+                        {eligibility.age !== null && (
+                          <span className="text-sm text-gray-600">Age {eligibility.age} at year end</span>
+                        )}
+                      </div>
+                      <div className="flex space-x-2 mt-2">
+                        {dependent.qualifiesForCTC && (
+                          <Badge variant="default">Child Tax Credit</Badge>
+                        )}
+                        {dependent.qualifiesForEITC && (
+                          <Badge variant="default">Earned Income Credit</Badge>
+                        )}
+                      </div>
+                      {eligibility.reasons.length > 0 && (
+                        <ul className="text-xs text-gray-500 mt-2 space-y-1">
+                          {eligibility.reasons.map((reason, index) => (
+                            <li key={index}>• {reason}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                    <div className="flex space-x-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleEditDependent(dependent)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteDependent(dependent.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              {editingId ? <Edit className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+              <span>{editingId ? "Edit Dependent" : "Add a Dependent"}</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="dependentFirstName">First Name *</Label>
+                <Input
+                  id="dependentFirstName"
+                  value={formData.firstName}
+                  onChange={(e) => setFormData({...formData, firstName: e.target.value})}
+                />
+              </div>
+              <div>
+                <Label htmlFor="dependentLastName">Last Name *</Label>
+                <Input
+                  id="dependentLastName"
+                  value={formData.lastName}
+                  onChange={(e) => setFormData({...formData, lastName: e.target.value})}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="relationship">Relationship *</Label>
+                <Select value={formData.relationship} onValueChange={(value) => setFormData({...formData, relationship: value})}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select relationship" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RELATIONSHIP_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="birthDate">Date of Birth *</Label>
+                <Input
+                  id="birthDate"
+                  type="date"
+                  value={formData.birthDate}
+                  onChange={(e) => setFormData({...formData, birthDate: e.target.value})}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="dependentSsn">Social Security Number</Label>
+                <Input
+                  id="dependentSsn"
+                  value={formData.ssn}
+                  onChange={(e) => setFormData({...formData, ssn: e.target.value})}
+                  placeholder="000-00-0000"
+                  maxLength={11}
+                />
+              </div>
+              <div>
+                <Label htmlFor="monthsLivedWithTaxpayer">Months Lived With You in {taxReturn.taxYear}</Label>
+                <Input
+                  id="monthsLivedWithTaxpayer"
+                  type="number"
+                  min="0"
+                  max="12"
+                  value={formData.monthsLivedWithTaxpayer}
+                  onChange={(e) => setFormData({...formData, monthsLivedWithTaxpayer: e.target.value})}
+                />
+              </div>
+            </div>
+
+            <div className="flex space-x-6">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="isFullTimeStudent"
+                  checked={formData.isFullTimeStudent}
+                  onCheckedChange={(checked) => setFormData({...formData, isFullTimeStudent: checked === true})}
+                />
+                <Label htmlFor="isFullTimeStudent">Full-time student</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="isPermanentlyDisabled"
+                  checked={formData.isPermanentlyDisabled}
+                  onCheckedChange={(checked) => setFormData({...formData, isPermanentlyDisabled: checked === true})}
+                />
+                <Label htmlFor="isPermanentlyDisabled">Permanently and totally disabled</Label>
+              </div>
+            </div>
+
+            <div className="flex space-x-2">
+              <Button
+                type="button"
+                onClick={handleSaveDependent}
+                disabled={!isFormComplete}
+                className="flex-1"
+              >
+                {editingId ? "Update Dependent" : (
+                  <>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Dependent
+                  </>
+                )}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <CareProviders
+          taxReturn={taxReturn}
+          dependents={dependents}
+          providers={careProviders}
+          onProvidersChange={setCareProviders}
+          onMarkUnsaved={onMarkUnsaved}
+        />
+
+        <div className="flex justify-between items-center">
+          <Button type="button" variant="outline" onClick={onPrev}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+
+          <div className="flex space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleSaveAndContinue}
+              disabled={saving}
+            >
+              {saving ? "Saving..." : "Save & Continue"}
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Saving..." : "Continue"}
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    </form>
+  )
+}
@@ -9,8 +9,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Checkbox } from "@/components/ui/checkbox"
 import { DocumentProcessor } from "@/components/document-processor"
 import { NameValidationDialog } from "@/components/name-validation-dialog"
+import { ScheduleCBusinesses } from "@/components/schedule-c-businesses"
+import { CapitalTransactions } from "@/components/capital-transactions"
+import { EducationCredits } from "@/components/education-credits"
 import { 
   DollarSign, 
   Plus, 
@@ -23,6 +27,9 @@ import {
   Upload,
   Sparkles
 } from "lucide-react"
+import { calculateCapitalGainDistributions, calculateTotalIncome } from "@/lib/tax-calculations"
+import { calculateScheduleD } from "@/lib/schedule-d"
+import { findStudentDependent } from "@/lib/education-credits"
 import { validateNames, extractNamesFromDocument, type NameValidationResult } from "@/lib/name-validation"
 
 interface EnhancedIncomeStepProps {
@@ -44,15 +51,37 @@ const incomeTypes = [
   { value: "W2_WAGES", label: "W-2 Wages" },
   { value: "INTEREST", label: "Interest Income" },
   { value: "DIVIDENDS", label: "Dividends" },
+  { value: "NONEMPLOYEE_COMPENSATION", label: "1099-NEC Nonemployee Compensation" },
+  { value: "THIRD_PARTY_NETWORK_PAYMENTS", label: "1099-K Payment Card / Third Party Network" },
+  { value: "BUSINESS_INCOME", label: "Self-Employment / Business Income" },
   { value: "UNEMPLOYMENT", label: "Unemployment Compensation" },
   { value: "RETIREMENT_DISTRIBUTIONS", label: "Retirement Distributions" },
   { value: "SOCIAL_SECURITY", label: "Social Security Benefits" },
   { value: "OTHER_INCOME", label: "Other Income" },
 ]
 
+// One W-2 box 15-17 line
+interface StateLineInput {
+  stateCode: string
+  stateWages: string
+  stateTaxWithheld: string
+}
+
+const emptyStateLine: StateLineInput = { stateCode: "", stateWages: "", stateTaxWithheld: "" }
+
 interface AutoPopulatedEntry {
   incomeType: string
   amount: string
+  federalTaxWithheld: string
+  socialSecurityWages?: string
+  medicareWages?: string
+  retirementPlan?: boolean
+  socialSecurityTaxWithheld?: string
+  medicareTaxWithheld?: string
+  dependentCareBenefits?: string
+  stateLines?: StateLineInput[]
+  qualifiedDividends?: string
+  taxExemptInterest?: string
   description: string
   employerName: string
   employerEIN: string
@@ -83,6 +112,17 @@ export function EnhancedIncomeStep({
   const [newEntry, setNewEntry] = useState({
     incomeType: "",
     amount: "",
+    federalTaxWithheld: "",
+    socialSecurityWages: "",
+    medicareWages: "",
+    retirementPlan: false,
+    socialSecurityTaxWithheld: "",
+    medicareTaxWithheld: "",
+    dependentCareBenefits: "",
+    stateLines: [emptyStateLine],
+    forSpouse: false,
+    qualifiedDividends: "",
+    taxExemptInterest: "",
     description: "",
     employerName: "",
     employerEIN: "",
@@ -103,27 +143,50 @@ export function EnhancedIncomeStep({
     extractedData: null
   })
 
-  const totalIncome = incomeEntries.reduce((sum: number, entry: any) => 
-    sum + parseFloat(entry.amount || 0), 0
-  )
+  const [capitalTransactions, setCapitalTransactions] = useState<any[]>(taxReturn.capitalTransactions || [])
+  const [educationStudents, setEducationStudents] = useState<any[]>(taxReturn.educationStudents || [])
+  const [lossCarryover, setLossCarryover] = useState({
+    shortTerm: Number(taxReturn.shortTermLossCarryover) ? String(Number(taxReturn.shortTermLossCarryover)) : "",
+    longTerm: Number(taxReturn.longTermLossCarryover) ? String(Number(taxReturn.longTermLossCarryover)) : "",
+  })
+
+  const scheduleD = calculateScheduleD({
+    transactions: capitalTransactions,
+    filingStatus: taxReturn.filingStatus,
+    capitalGainDistributions: calculateCapitalGainDistributions(incomeEntries),
+    shortTermLossCarryover: parseFloat(lossCarryover.shortTerm) || 0,
+    longTermLossCarryover: parseFloat(lossCarryover.longTerm) || 0,
+  })
+
+  const totalIncome = calculateTotalIncome(incomeEntries, scheduleD.capitalGainOrLoss)
+
+  const incomeStepData = {
+    totalIncome: totalIncome,
+    adjustedGrossIncome: totalIncome, // For Stage 1, AGI = Total Income
+    shortTermLossCarryover: parseFloat(lossCarryover.shortTerm) || 0,
+    longTermLossCarryover: parseFloat(lossCarryover.longTerm) || 0,
+  }
 
   // Auto-save functionality with debouncing
   useEffect(() => {
     const timer = setTimeout(() => {
-      if (hasUnsavedChanges && !autoSaving && incomeEntries.length > 0) {
-        onAutoSave({ 
-          totalIncome: totalIncome,
-          adjustedGrossIncome: totalIncome 
-        })
+      if (hasUnsavedChanges && !autoSaving && (incomeEntries.length > 0 || capitalTransactions.length > 0)) {
+        onAutoSave(incomeStepData)
       }
     }, 3000) // Auto-save after 3 seconds of inactivity
 
     return () => clearTimeout(timer)
-  }, [incomeEntries, totalIncome, hasUnsavedChanges, autoSaving, onAutoSave])
+  }, [incomeEntries, capitalTransactions, totalIncome, lossCarryover, hasUnsavedChanges, autoSaving, onAutoSave])
 
   const handleDocumentProcessed = async (extractedData: any) => {
     console.log('Document processing completed:', extractedData)
     
+    // A 1098-T is often in a dependent's name, so it is added as a student without name validation
+    if (extractedData?.documentType === 'FORM_1098_T') {
+      await handleTuitionStatement(extractedData)
+      return
+    }
+    
     // Extract names for validation
     const extractedNames = extractNamesFromDocument(extractedData?.extractedData || extractedData)
     const profileNames = {
@@ -162,6 +225,46 @@ export function EnhancedIncomeStep({
     setNameValidationDialog((prev: typeof nameValidationDialog) => ({ ...prev, isOpen: false }))
   }
 
+  const handleTuitionStatement = async (extractedData: any) => {
+    const data = extractedData?.extractedData || extractedData
+    const studentName = data.studentName || `${taxReturn.firstName || ''} ${taxReturn.lastName || ''}`.trim()
+    const dependent = findStudentDependent(studentName, taxReturn.dependents || [])
+
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/education-students`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          dependentId: dependent?.id || null,
+          studentName,
+          studentSsn: data.studentTIN || null,
+          institutionName: data.filerName || data.employerName || '',
+          institutionEin: data.filerEIN || data.employerEIN || null,
+          qualifiedExpenses: parseFloat(cleanAmount(data.paymentsReceived)),
+          scholarships: parseFloat(cleanAmount(data.scholarshipsOrGrants)),
+          // Graduate students can only claim the lifetime learning credit
+          creditType: data.graduateStudent ? 'LIFETIME_LEARNING' : 'AMERICAN_OPPORTUNITY',
+          isHalfTimeStudent: data.atLeastHalfTime ?? true,
+          isGraduateStudent: Boolean(data.graduateStudent),
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        console.error("Error adding 1098-T student:", result.error)
+        return
+      }
+
+      setEducationStudents((prev: any[]) => [...prev, result.student])
+      onMarkUnsaved()
+    } catch (error) {
+      console.error("Error adding 1098-T student:", error)
+    }
+  }
+
   const convertExtractedDataToIncomeEntries = (extractedData: any): AutoPopulatedEntry[] => {  
     const entries: AutoPopulatedEntry[] = []
     const data = extractedData?.extractedData || extractedData
@@ -171,6 +274,18 @@ export function EnhancedIncomeStep({
       entries.push({
         incomeType: 'W2_WAGES',
         amount: cleanAmount(data.wages || '0'),
+        federalTaxWithheld: cleanAmount(data.federalTaxWithheld || '0'),
+        socialSecurityWages: data.socialSecurityWages ? cleanAmount(data.socialSecurityWages) : '',
+        medicareWages: data.medicareWages ? cleanAmount(data.medicareWages) : '',
+        retirementPlan: data.retirementPlan === true || String(data.retirementPlan).toLowerCase() === 'true',
+        socialSecurityTaxWithheld: data.socialSecurityTaxWithheld ? cleanAmount(data.socialSecurityTaxWithheld) : '',
+        medicareTaxWithheld: data.medicareTaxWithheld ? cleanAmount(data.medicareTaxWithheld) : '',
+        dependentCareBenefits: data.dependentCareBenefits ? cleanAmount(data.dependentCareBenefits) : '',
+        stateLines: (data.stateCode || data.state) ? [{
+          stateCode: data.stateCode || data.state,
+          stateWages: data.stateWages ? cleanAmount(data.stateWages) : '',
+          stateTaxWithheld: (data.stateTaxWithheld || data.stateIncomeTax) ? cleanAmount(data.stateTaxWithheld || data.stateIncomeTax) : '',
+        }] : [],
         description: `W-2 Wages from ${data.employerName || 'Employer'}`,
         employerName: data.employerName || '',
         employerEIN: data.employerEIN || '',
@@ -187,6 +302,8 @@ export function EnhancedIncomeStep({
       entries.push({
         incomeType: 'INTEREST',
         amount: cleanAmount(data.interestIncome || '0'),
+        federalTaxWithheld: cleanAmount(data.federalTaxWithheld || '0'),
+        taxExemptInterest: data.taxExemptInterest ? cleanAmount(data.taxExemptInterest) : '',
         description: `Interest Income from ${data.payerName || 'Financial Institution'}`,
         employerName: '',
         employerEIN: '',
@@ -203,6 +320,8 @@ export function EnhancedIncomeStep({
       entries.push({
         incomeType: 'DIVIDENDS',
         amount: cleanAmount(data.ordinaryDividends || '0'),
+        federalTaxWithheld: cleanAmount(data.federalTaxWithheld || '0'),
+        qualifiedDividends: data.qualifiedDividends ? cleanAmount(data.qualifiedDividends) : '',
         description: `Dividend Income from ${data.payerName || 'Investment Account'}`,
         employerName: '',
         employerEIN: '',
@@ -221,6 +340,7 @@ export function EnhancedIncomeStep({
         entries.push({
           incomeType: 'OTHER_INCOME',
           amount: cleanAmount(miscAmount),
+          federalTaxWithheld: cleanAmount(data.federalTaxWithheld || '0'),
           description: `1099-MISC Income from ${data.payerName || 'Payer'}`,
           employerName: '',
           employerEIN: '',
@@ -236,8 +356,9 @@ export function EnhancedIncomeStep({
     // Handle 1099-NEC data
     if (extractedData?.documentType === 'FORM_1099_NEC' || data?.nonemployeeCompensation) {
       entries.push({
-        incomeType: 'OTHER_INCOME',
+        incomeType: 'NONEMPLOYEE_COMPENSATION',
         amount: cleanAmount(data.nonemployeeCompensation || '0'),
+        federalTaxWithheld: cleanAmount(data.federalTaxWithheld || '0'),
         description: `1099-NEC Nonemployee Compensation from ${data.payerName || 'Payer'}`,
         employerName: '',
         employerEIN: '',
@@ -249,6 +370,23 @@ export function EnhancedIncomeStep({
       })
     }
 
+    // Handle SSA-1099 data
+    if (extractedData?.documentType === 'SSA_1099' || data?.netBenefits) {
+      entries.push({
+        incomeType: 'SOCIAL_SECURITY',
+        amount: cleanAmount(data.netBenefits || '0'),
+        federalTaxWithheld: cleanAmount(data.voluntaryFederalIncomeTaxWithheld || data.federalTaxWithheld || '0'),
+        description: 'Social Security Benefits (SSA-1099)',
+        employerName: '',
+        employerEIN: '',
+        payerName: 'Social Security Administration',
+        payerTIN: '',
+        isAutoPopulated: true,
+        documentType: 'SSA_1099',
+        confidence: extractedData?.confidence || 0.85
+      })
+    }
+
     return entries.filter(entry => parseFloat(entry.amount) > 0)
   }
 
@@ -258,11 +396,36 @@ export function EnhancedIncomeStep({
     return amount.toString().replace(/[$,\s]/g, '').replace(/[^\d.-]/g, '') || '0'
   }
 
+  const toStateLines = (lines: StateLineInput[] = []) => lines
+    .filter((line) => line.stateCode)
+    .map((line) => ({
+      stateCode: line.stateCode.toUpperCase(),
+      stateWages: parseFloat(line.stateWages) || 0,
+      stateTaxWithheld: parseFloat(line.stateTaxWithheld) || 0,
+    }))
+
+  const updateStateLine = (index: number, field: keyof StateLineInput, value: string) => {
+    setNewEntry({
+      ...newEntry,
+      stateLines: newEntry.stateLines.map((line, i) => i === index ? { ...line, [field]: value } : line),
+    })
+  }
+
   const handleAcceptAutoEntry = async (entry: AutoPopulatedEntry, index: number) => {
     try {
       const entryData = {
         incomeType: entry.incomeType,
         amount: parseFloat(entry.amount),
+        federalTaxWithheld: parseFloat(entry.federalTaxWithheld) || 0,
+        socialSecurityWages: entry.socialSecurityWages ? parseFloat(entry.socialSecurityWages) : null,
+        medicareWages: entry.medicareWages ? parseFloat(entry.medicareWages) : null,
+        retirementPlan: Boolean(entry.retirementPlan),
+        socialSecurityTaxWithheld: entry.socialSecurityTaxWithheld ? parseFloat(entry.socialSecurityTaxWithheld) : null,
+        medicareTaxWithheld: entry.medicareTaxWithheld ? parseFloat(entry.medicareTaxWithheld) : null,
+        dependentCareBenefits: entry.dependentCareBenefits ? parseFloat(entry.dependentCareBenefits) : null,
+        stateLines: toStateLines(entry.stateLines),
+        qualifiedDividends: entry.qualifiedDividends ? parseFloat(entry.qualifiedDividends) : null,
+        taxExemptInterest: entry.taxExemptInterest ? parseFloat(entry.taxExemptInterest) : null,
         description: entry.description,
         employerName: entry.employerName,
         employerEIN: entry.employerEIN,
@@ -308,6 +471,17 @@ export function EnhancedIncomeStep({
     const entry = {
       incomeType: newEntry.incomeType,
       amount: parseFloat(newEntry.amount),
+      federalTaxWithheld: parseFloat(newEntry.federalTaxWithheld) || 0,
+      socialSecurityWages: newEntry.socialSecurityWages ? parseFloat(newEntry.socialSecurityWages) : null,
+      medicareWages: newEntry.medicareWages ? parseFloat(newEntry.medicareWages) : null,
+      retirementPlan: newEntry.incomeType === "W2_WAGES" && newEntry.retirementPlan,
+      socialSecurityTaxWithheld: newEntry.socialSecurityTaxWithheld ? parseFloat(newEntry.socialSecurityTaxWithheld) : null,
+      medicareTaxWithheld: newEntry.medicareTaxWithheld ? parseFloat(newEntry.medicareTaxWithheld) : null,
+      dependentCareBenefits: newEntry.dependentCareBenefits ? parseFloat(newEntry.dependentCareBenefits) : null,
+      stateLines: newEntry.incomeType === "W2_WAGES" ? toStateLines(newEntry.stateLines) : [],
+      forSpouse: newEntry.incomeType === "W2_WAGES" && taxReturn.filingStatus === "MARRIED_FILING_JOINTLY" && newEntry.forSpouse,
+      qualifiedDividends: newEntry.qualifiedDividends ? parseFloat(newEntry.qualifiedDividends) : null,
+      taxExemptInterest: newEntry.incomeType === "INTEREST" && newEntry.taxExemptInterest ? parseFloat(newEntry.taxExemptInterest) : null,
       description: newEntry.description,
       employerName: newEntry.employerName,
       employerEIN: newEntry.employerEIN,
@@ -331,6 +505,17 @@ export function EnhancedIncomeStep({
         setNewEntry({
           incomeType: "",
           amount: "",
+          federalTaxWithheld: "",
+          socialSecurityWages: "",
+          medicareWages: "",
+          retirementPlan: false,
+          socialSecurityTaxWithheld: "",
+          medicareTaxWithheld: "",
+          dependentCareBenefits: "",
+          stateLines: [emptyStateLine],
+          forSpouse: false,
+          qualifiedDividends: "",
+          taxExemptInterest: "",
           description: "",
           employerName: "",
           employerEIN: "",
@@ -360,27 +545,18 @@ export function EnhancedIncomeStep({
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    await onUpdate({ 
-      totalIncome: totalIncome,
-      adjustedGrossIncome: totalIncome // For Stage 1, AGI = Total Income
-    })
+    await onUpdate(incomeStepData)
     onNext()
   }
 
   const handleSaveAndContinue = async (e: React.FormEvent) => {
     e.preventDefault()
-    await onCompleteStep({ 
-      totalIncome: totalIncome,
-      adjustedGrossIncome: totalIncome
-    })
+    await onCompleteStep(incomeStepData)
     onNext()
   }
 
   const handleSaveOnly = async () => {
-    await onAutoSave({ 
-      totalIncome: totalIncome,
-      adjustedGrossIncome: totalIncome
-    })
+    await onAutoSave(incomeStepData)
   }
 
   return (
@@ -461,6 +637,9 @@ export function EnhancedIncomeStep({
                         <p className="text-sm text-gray-600 mb-2">{entry.description}</p>
                       )}
                       <div className="text-xs text-gray-500 space-y-1">
+                        {parseFloat(entry.federalTaxWithheld) > 0 && (
+                          <p>Federal tax withheld: ${parseFloat(entry.federalTaxWithheld).toLocaleString()}</p>
+                        )}
                         {entry.employerName && <p>Employer: {entry.employerName}</p>}
                         {entry.employerEIN && <p>Employer EIN: {entry.employerEIN}</p>}
                         {entry.payerName && <p>Payer: {entry.payerName}</p>}
@@ -520,8 +699,15 @@ export function EnhancedIncomeStep({
                     {entry.description && (
                       <p className="text-sm text-gray-600 mt-1">{entry.description}</p>
                     )}
+                    {Number(entry.federalTaxWithheld) > 0 && (
+                      <p className="text-sm text-gray-600 mt-1">
+                        Federal tax withheld: ${Number(entry.federalTaxWithheld).toLocaleString()}
+                      </p>
+                    )}
                     {entry.employerName && (
-                      <p className="text-sm text-gray-600 mt-1">Employer: {entry.employerName}</p>
+                      <p className="text-sm text-gray-600 mt-1">
+                        Employer: {entry.employerName}{entry.forSpouse && " (spouse)"}
+                      </p>
                     )}
                     {entry.payerName && (
                       <p className="text-sm text-gray-600 mt-1">Payer: {entry.payerName}</p>
@@ -586,6 +772,23 @@ export function EnhancedIncomeStep({
               </div>
             </div>
 
+            <div>
+              <Label htmlFor="federalTaxWithheld">Federal Income Tax Withheld</Label>
+              <div className="relative">
+                <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                <Input
+                  id="federalTaxWithheld"
+                  type="number"
+                  step="0.01"
+                  value={newEntry.federalTaxWithheld}
+                  onChange={(e) => setNewEntry({...newEntry, federalTaxWithheld: e.target.value})}
+                  className="pl-10"
+                  placeholder="0.00"
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">W-2 box 2 or 1099 box 4</p>
+            </div>
+
             <div>
               <Label htmlFor="description">Description (Optional)</Label>
               <Input
@@ -616,10 +819,185 @@ export function EnhancedIncomeStep({
                     placeholder="00-0000000"
                   />
                 </div>
+                <div>
+                  <Label htmlFor="socialSecurityWages">Social Security Wages</Label>
+                  <div className="relative">
+                    <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="socialSecurityWages"
+                      type="number"
+                      step="0.01"
+                      value={newEntry.socialSecurityWages}
+                      onChange={(e) => setNewEntry({...newEntry, socialSecurityWages: e.target.value})}
+                      className="pl-10"
+                      placeholder="Same as wages"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">W-2 box 3</p>
+                </div>
+                <div>
+                  <Label htmlFor="medicareWages">Medicare Wages</Label>
+                  <div className="relative">
+                    <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="medicareWages"
+                      type="number"
+                      step="0.01"
+                      value={newEntry.medicareWages}
+                      onChange={(e) => setNewEntry({...newEntry, medicareWages: e.target.value})}
+                      className="pl-10"
+                      placeholder="Same as wages"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">W-2 box 5</p>
+                </div>
+                <div>
+                  <Label htmlFor="socialSecurityTaxWithheld">Social Security Tax Withheld</Label>
+                  <div className="relative">
+                    <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="socialSecurityTaxWithheld"
+                      type="number"
+                      step="0.01"
+                      value={newEntry.socialSecurityTaxWithheld}
+                      onChange={(e) => setNewEntry({...newEntry, socialSecurityTaxWithheld: e.target.value})}
+                      className="pl-10"
+                      placeholder="0.00"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">W-2 box 4</p>
+                </div>
+                <div>
+                  <Label htmlFor="medicareTaxWithheld">Medicare Tax Withheld</Label>
+                  <div className="relative">
+                    <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="medicareTaxWithheld"
+                      type="number"
+                      step="0.01"
+                      value={newEntry.medicareTaxWithheld}
+                      onChange={(e) => setNewEntry({...newEntry, medicareTaxWithheld: e.target.value})}
+                      className="pl-10"
+                      placeholder="0.00"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">W-2 box 6</p>
+                </div>
+                <div>
+                  <Label htmlFor="dependentCareBenefits">Dependent Care Benefits</Label>
+                  <div className="relative">
+                    <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="dependentCareBenefits"
+                      type="number"
+                      step="0.01"
+                      value={newEntry.dependentCareBenefits}
+                      onChange={(e) => setNewEntry({...newEntry, dependentCareBenefits: e.target.value})}
+                      className="pl-10"
+                      placeholder="0.00"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">W-2 box 10. Reduces the expenses eligible for the child care credit</p>
+                </div>
+                <div className="col-span-2 space-y-2">
+                  {newEntry.stateLines.map((line, index) => (
+                    <div key={index} className="grid grid-cols-3 gap-4 items-end">
+                      <div>
+                        <Label htmlFor={`stateCode-${index}`}>State</Label>
+                        <Input
+                          id={`stateCode-${index}`}
+                          value={line.stateCode}
+                          onChange={(e) => updateStateLine(index, "stateCode", e.target.value.toUpperCase())}
+                          maxLength={2}
+                          placeholder={taxReturn.state || "CA"}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor={`stateWages-${index}`}>State Wages</Label>
+                        <div className="relative">
+                          <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                          <Input
+                            id={`stateWages-${index}`}
+                            type="number"
+                            step="0.01"
+                            value={line.stateWages}
+                            onChange={(e) => updateStateLine(index, "stateWages", e.target.value)}
+                            className="pl-10"
+                            placeholder="0.00"
+                          />
+                        </div>
+                      </div>
+                      <div className="flex items-end space-x-1">
+                        <div className="flex-1">
+                          <Label htmlFor={`stateTaxWithheld-${index}`}>State Income Tax</Label>
+                          <div className="relative">
+                            <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                            <Input
+                              id={`stateTaxWithheld-${index}`}
+                              type="number"
+                              step="0.01"
+                              value={line.stateTaxWithheld}
+                              onChange={(e) => updateStateLine(index, "stateTaxWithheld", e.target.value)}
+                              className="pl-10"
+                              placeholder="0.00"
+                            />
+                          </div>
+                        </div>
+                        {index > 0 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setNewEntry({
+                              ...newEntry,
+                              stateLines: newEntry.stateLines.filter((_, i) => i !== index),
+                            })}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-gray-500">W-2 boxes 15, 16 and 17, one line for each state</p>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setNewEntry({ ...newEntry, stateLines: [...newEntry.stateLines, emptyStateLine] })}
+                    >
+                      <Plus className="mr-1 h-4 w-4" />
+                      Add Another State
+                    </Button>
+                  </div>
+                </div>
+                <div className="col-span-2 flex items-center space-x-2">
+                  <Checkbox
+                    id="retirementPlan"
+                    checked={newEntry.retirementPlan}
+                    onCheckedChange={(checked) => setNewEntry({...newEntry, retirementPlan: checked === true})}
+                  />
+                  <Label htmlFor="retirementPlan" className="font-normal">
+                    Retirement plan box is checked (W-2 box 13)
+                  </Label>
+                </div>
+                {taxReturn.filingStatus === "MARRIED_FILING_JOINTLY" && (
+                  <div className="col-span-2 flex items-center space-x-2">
+                    <Checkbox
+                      id="w2ForSpouse"
+                      checked={newEntry.forSpouse}
+                      onCheckedChange={(checked) => setNewEntry({...newEntry, forSpouse: checked === true})}
+                    />
+                    <Label htmlFor="w2ForSpouse" className="font-normal">
+                      This is my spouse's W-2
+                    </Label>
+                  </div>
+                )}
               </div>
             )}
 
-            {(newEntry.incomeType === "INTEREST" || newEntry.incomeType === "DIVIDENDS") && (
+            {["INTEREST", "DIVIDENDS", "NONEMPLOYEE_COMPENSATION", "THIRD_PARTY_NETWORK_PAYMENTS", "BUSINESS_INCOME"].includes(newEntry.incomeType) && (
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="payerName">Payer Name</Label>
@@ -627,7 +1005,7 @@ export function EnhancedIncomeStep({
                     id="payerName"
                     value={newEntry.payerName}
                     onChange={(e) => setNewEntry({...newEntry, payerName: e.target.value})}
-                    placeholder="Bank or institution name"
+                    placeholder="Bank, client or institution name"
                   />
                 </div>
                 <div>
@@ -642,6 +1020,50 @@ export function EnhancedIncomeStep({
               </div>
             )}
 
+            {newEntry.incomeType === "DIVIDENDS" && (
+              <div>
+                <Label htmlFor="qualifiedDividends">Qualified Dividends</Label>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="qualifiedDividends"
+                    type="number"
+                    step="0.01"
+                    value={newEntry.qualifiedDividends}
+                    onChange={(e) => setNewEntry({...newEntry, qualifiedDividends: e.target.value})}
+                    className="pl-10"
+                    placeholder="0.00"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">1099-DIV box 1b, the part of your dividends taxed at capital gain rates</p>
+              </div>
+            )}
+
+            {newEntry.incomeType === "INTEREST" && (
+              <div>
+                <Label htmlFor="taxExemptInterest">Tax-Exempt Interest</Label>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="taxExemptInterest"
+                    type="number"
+                    step="0.01"
+                    value={newEntry.taxExemptInterest}
+                    onChange={(e) => setNewEntry({...newEntry, taxExemptInterest: e.target.value})}
+                    className="pl-10"
+                    placeholder="0.00"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">1099-INT box 8. Not taxed, but counted when figuring taxable Social Security benefits</p>
+              </div>
+            )}
+
+            {newEntry.incomeType === "SOCIAL_SECURITY" && (
+              <p className="text-xs text-gray-500">
+                Enter the net benefits from SSA-1099 box 5. Up to 85% of your benefits are taxable depending on your other income; the taxable part is figured in the tax calculation step.
+              </p>
+            )}
+
             <Button
               type="button"
               onClick={handleAddEntry}
@@ -654,6 +1076,33 @@ export function EnhancedIncomeStep({
           </CardContent>
         </Card>
 
+        {/* Schedule C Businesses */}
+        <ScheduleCBusinesses
+          taxReturn={taxReturn}
+          incomeEntries={incomeEntries}
+          onIncomeEntriesChange={setIncomeEntries}
+          onMarkUnsaved={onMarkUnsaved}
+        />
+
+        {/* Form 8949 / Schedule D */}
+        <CapitalTransactions
+          taxReturn={taxReturn}
+          transactions={capitalTransactions}
+          onTransactionsChange={setCapitalTransactions}
+          lossCarryover={lossCarryover}
+          onLossCarryoverChange={setLossCarryover}
+          scheduleD={scheduleD}
+          onMarkUnsaved={onMarkUnsaved}
+        />
+
+        {/* Form 8863 */}
+        <EducationCredits
+          taxReturn={taxReturn}
+          students={educationStudents}
+          onStudentsChange={setEducationStudents}
+          onMarkUnsaved={onMarkUnsaved}
+        />
+
         {/* Total Income Summary */}
         <Card>
           <CardHeader>
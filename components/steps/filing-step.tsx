@@ -1,14 +1,18 @@
 
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
-import { Send, ArrowLeft, CheckCircle, FileText, Shield, Clock } from "lucide-react"
+import { Send, ArrowLeft, ArrowRight, CheckCircle, FileText, Shield, Clock, Download, AlertTriangle, XCircle } from "lucide-react"
+import { getRejectionFix } from "@/lib/mef-reject-codes"
+import { getMefSchemaVersion } from "@/lib/mef-schema-versions"
+import { FilingSubmissionStatus } from "@/lib/types"
+import { TAX_FILING_STEP } from "@/lib/tax-filing-steps"
 
 interface FilingStepProps {
   taxReturn: any
@@ -19,43 +23,161 @@ interface FilingStepProps {
   saving: boolean
 }
 
+// Steps shown while the return is filed, in order
+const FILING_PHASES = [
+  { key: "VALIDATING", label: "Checking the return for e-file errors" },
+  { key: "TRANSMITTING", label: "Transmitting to IRS" },
+] as const
+
+// How often a transmitted return is checked for its IRS acknowledgment
+const ACKNOWLEDGMENT_POLL_INTERVAL = 60 * 1000
+
+type FilingPhase = typeof FILING_PHASES[number]["key"]
+
+interface ValidationError {
+  document: string
+  line: number | null
+  message: string
+}
+
+interface FilingSubmission {
+  id: string
+  submissionId: string
+  status: FilingSubmissionStatus
+  transmittedAt: string | null
+  acknowledgedAt: string | null
+  createdAt: string
+  rejections: { id: string, ruleNumber: string, errorMessage: string }[]
+}
+
 export function FilingStep({ taxReturn, onUpdate, onNext, onPrev, loading, saving }: FilingStepProps) {
   const [isAgreed, setIsAgreed] = useState(false)
   const [isFiling, setIsFiling] = useState(false)
-  const [isComplete, setIsComplete] = useState(false)
+  const [filingPhase, setFilingPhase] = useState<FilingPhase>("VALIDATING")
+  const [filingError, setFilingError] = useState<string | null>(null)
+  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([])
+  const [submissions, setSubmissions] = useState<FilingSubmission[]>([])
+
+  // E-file opens for a tax year once its IRS schema package is bundled; until then the return is filed by mail
+  const canEFile = getMefSchemaVersion(taxReturn.taxYear) !== null
+
+  useEffect(() => {
+    loadSubmissions()
+  }, [taxReturn.id])
+
+  // Most recent first
+  const loadSubmissions = async (): Promise<FilingSubmission[]> => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/efile`)
+      if (response.ok) {
+        const result = await response.json()
+        setSubmissions(result.submissions)
+        return result.submissions
+      }
+    } catch (error) {
+      console.error("Error fetching filing submissions:", error)
+    }
+    return []
+  }
+
+  // The transmitter records the acknowledgment; this only reads it back, reloading the return once the IRS has
+  // answered so the wizard sees whether it is filed
+  const checkAcknowledgment = async () => {
+    const [latest] = await loadSubmissions()
+    if (latest && latest.status !== "TRANSMITTED") {
+      await onUpdate({ currentStep: TAX_FILING_STEP.FILING })
+    }
+  }
+
+  const isAwaitingAcknowledgment = submissions[0]?.status === "TRANSMITTED"
+
+  useEffect(() => {
+    if (!isAwaitingAcknowledgment) return
+    const interval = setInterval(checkAcknowledgment, ACKNOWLEDGMENT_POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [isAwaitingAcknowledgment, taxReturn.id])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
-    if (!isAgreed) return
+    if (!canEFile || !isAgreed) return
     
     setIsFiling(true)
-    
-    // Simulate filing process
-    await new Promise(resolve => setTimeout(resolve, 3000))
-    
-    await onUpdate({
-      isFiled: true,
-      currentStep: 7
-    })
-    
-    setIsFiling(false)
-    setIsComplete(true)
+    setFilingError(null)
+    setValidationErrors([])
+
+    try {
+      // Build the MeF return and check it for e-file errors; nothing is stored when it fails
+      setFilingPhase("VALIDATING")
+      const prepareResponse = await fetch(`/api/tax-returns/${taxReturn.id}/efile`, {
+        method: "POST",
+      })
+      const prepared = await prepareResponse.json()
+
+      if (!prepareResponse.ok) {
+        setFilingError(prepared.error || "The return could not be prepared for e-filing")
+        setValidationErrors(prepared.validationErrors || [])
+        return
+      }
+
+      const { submissionId } = prepared.submission
+
+      setFilingPhase("TRANSMITTING")
+      const transmitResponse = await fetch(
+        `/api/tax-returns/${taxReturn.id}/efile/${submissionId}/transmit`,
+        { method: "POST" }
+      )
+
+      if (!transmitResponse.ok) {
+        const transmitted = await transmitResponse.json()
+        setFilingError(transmitted.error || "The return could not be transmitted")
+        await loadSubmissions()
+        return
+      }
+
+      // The return now waits for its acknowledgment; reload it so the wizard sees it is filed
+      await onUpdate({ currentStep: TAX_FILING_STEP.FILING })
+      await loadSubmissions()
+      setIsAgreed(false)
+    } catch (error) {
+      console.error("Error filing tax return:", error)
+      setFilingError("Something went wrong while filing. Please try again.")
+    } finally {
+      setIsFiling(false)
+    }
   }
 
+  const handleCheckStatus = async () => {
+    setFilingError(null)
+    try {
+      await checkAcknowledgment()
+    } catch (error) {
+      console.error("Error checking submission status:", error)
+      setFilingError("Something went wrong while checking the status. Please try again.")
+    }
+  }
+
+  const latestSubmission = submissions[0] || null
+  const rejectedSubmission = latestSubmission?.status === "REJECTED" ? latestSubmission : null
+
   const isRefund = Number(taxReturn.refundAmount) > 0
   const amount = isRefund ? Number(taxReturn.refundAmount) : Number(taxReturn.amountOwed)
+  const pdfUrl = `/api/tax-returns/${taxReturn.id}/pdf`
 
-  if (isComplete) {
+  if (latestSubmission?.status === "ACCEPTED" && !isFiling) {
     return (
       <div className="space-y-6">
         <div className="text-center py-8">
           <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
           <h2 className="text-2xl font-bold text-gray-900 mb-2">
-            Tax Return Filed Successfully!
+            Tax Return Accepted!
           </h2>
-          <p className="text-gray-600 mb-6">
-            Your {taxReturn.taxYear} tax return has been submitted to the IRS.
+          <p className="text-gray-600 mb-2">
+            The IRS accepted your {taxReturn.taxYear} tax return
+            {latestSubmission.acknowledgedAt && ` on ${new Date(latestSubmission.acknowledgedAt).toLocaleDateString()}`}.
+          </p>
+          <p className="text-sm text-gray-500 mb-6">
+            Submission ID: <span className="font-mono">{latestSubmission.submissionId}</span>
           </p>
           
           <div className="bg-green-50 p-6 rounded-lg mb-6">
@@ -105,9 +227,52 @@ export function FilingStep({ taxReturn, onUpdate, onNext, onPrev, loading, savin
             </Card>
           </div>
           
-          <Button onClick={() => window.location.href = '/dashboard'} size="lg">
-            Return to Dashboard
-          </Button>
+          <div className="flex justify-center space-x-4">
+            <Button asChild variant="outline" size="lg">
+              <a href={pdfUrl} download>
+                <Download className="mr-2 h-4 w-4" />
+                Download a Copy
+              </a>
+            </Button>
+            <Button onClick={() => window.location.href = '/dashboard'} size="lg">
+              Return to Dashboard
+            </Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (latestSubmission?.status === "TRANSMITTED" && !isFiling) {
+    return (
+      <div className="space-y-6">
+        <div className="text-center py-8">
+          <Clock className="h-16 w-16 text-blue-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            Waiting for the IRS
+          </h2>
+          <p className="text-gray-600 mb-2">
+            Your {taxReturn.taxYear} tax return was transmitted
+            {latestSubmission.transmittedAt && ` on ${new Date(latestSubmission.transmittedAt).toLocaleDateString()}`}.
+            The IRS usually acknowledges a return within 48 hours.
+          </p>
+          <p className="text-sm text-gray-500 mb-6">
+            Submission ID: <span className="font-mono">{latestSubmission.submissionId}</span>
+          </p>
+          {filingError && (
+            <Alert variant="destructive" className="mb-6 text-left">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{filingError}</AlertDescription>
+            </Alert>
+          )}
+          <div className="flex justify-center space-x-4">
+            <Button variant="outline" size="lg" onClick={() => window.location.href = '/dashboard'}>
+              Return to Dashboard
+            </Button>
+            <Button size="lg" onClick={handleCheckStatus}>
+              Check Status
+            </Button>
+          </div>
         </div>
       </div>
     )
@@ -127,18 +292,21 @@ export function FilingStep({ taxReturn, onUpdate, onNext, onPrev, loading, savin
           
           <div className="bg-blue-50 p-6 rounded-lg">
             <div className="space-y-2">
-              <div className="flex items-center justify-center space-x-2">
-                <CheckCircle className="h-5 w-5 text-green-500" />
-                <span className="text-sm">Validating return data</span>
-              </div>
-              <div className="flex items-center justify-center space-x-2">
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
-                <span className="text-sm">Transmitting to IRS</span>
-              </div>
-              <div className="flex items-center justify-center space-x-2">
-                <Clock className="h-5 w-5 text-gray-400" />
-                <span className="text-sm text-gray-500">Awaiting confirmation</span>
-              </div>
+              {FILING_PHASES.map((phase, index) => {
+                const currentIndex = FILING_PHASES.findIndex(({ key }) => key === filingPhase)
+                return (
+                  <div key={phase.key} className="flex items-center justify-center space-x-2">
+                    {index < currentIndex ? (
+                      <CheckCircle className="h-5 w-5 text-green-500" />
+                    ) : index === currentIndex ? (
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+                    ) : (
+                      <Clock className="h-5 w-5 text-gray-400" />
+                    )}
+                    <span className={`text-sm ${index > currentIndex ? 'text-gray-500' : ''}`}>{phase.label}</span>
+                  </div>
+                )
+              })}
             </div>
           </div>
         </div>
@@ -149,12 +317,75 @@ export function FilingStep({ taxReturn, onUpdate, onNext, onPrev, loading, savin
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <div className="space-y-6">
-        <Alert>
-          <Send className="h-4 w-4" />
-          <AlertDescription>
-            You're ready to file your tax return! Please review the information below and confirm your submission.
-          </AlertDescription>
-        </Alert>
+        {filingError && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <p>{filingError}</p>
+              {validationErrors.length > 0 && (
+                <ul className="mt-2 space-y-1 text-sm">
+                  {validationErrors.map((error, index) => (
+                    <li key={index}>• {error.message}</li>
+                  ))}
+                </ul>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {rejectedSubmission ? (
+          <Card className="border-red-200">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2 text-red-700">
+                <XCircle className="h-5 w-5" />
+                <span>Your Return Was Rejected</span>
+              </CardTitle>
+              <CardDescription>
+                The IRS rejected submission {rejectedSubmission.submissionId}
+                {rejectedSubmission.acknowledgedAt && ` on ${new Date(rejectedSubmission.acknowledgedAt).toLocaleDateString()}`}.
+                Fix the items below, then resubmit. A rejected return is not filed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {rejectedSubmission.rejections.map((rejection) => {
+                  const fix = getRejectionFix(rejection.ruleNumber)
+                  return (
+                    <div key={rejection.id} className="flex justify-between items-center py-2 border-b">
+                      <div className="pr-4">
+                        <div className="text-sm font-medium">
+                          <Badge variant="destructive" className="mr-2">{rejection.ruleNumber}</Badge>
+                          {rejection.errorMessage}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Check: {fix.fieldLabel} ({fix.stepTitle})
+                        </p>
+                      </div>
+                      <Button type="button" variant="outline" size="sm" onClick={() => onUpdate({ currentStep: fix.step })}>
+                        Fix
+                        <ArrowRight className="ml-2 h-4 w-4" />
+                      </Button>
+                    </div>
+                  )
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        ) : canEFile ? (
+          <Alert>
+            <Send className="h-4 w-4" />
+            <AlertDescription>
+              You're ready to file your tax return! Please review the information below and confirm your submission.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Alert>
+            <Clock className="h-4 w-4" />
+            <AlertDescription>
+              E-filing is not available yet for {taxReturn.taxYear} returns. Download your return below to file it by mail.
+            </AlertDescription>
+          </Alert>
+        )}
 
         {/* Filing Summary */}
         <Card>
@@ -179,6 +410,17 @@ export function FilingStep({ taxReturn, onUpdate, onNext, onPrev, loading, savin
                 Filing Status: {taxReturn.filingStatus.replace(/_/g, ' ')}
               </p>
             </div>
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-sm text-gray-600">
+                Prefer to file by mail? Print Form 1040 and its schedules, then sign and mail them to the IRS.
+              </p>
+              <Button asChild type="button" variant="outline">
+                <a href={pdfUrl} download>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download PDF
+                </a>
+              </Button>
+            </div>
           </CardContent>
         </Card>
 
@@ -216,7 +458,7 @@ export function FilingStep({ taxReturn, onUpdate, onNext, onPrev, loading, savin
           <CardContent>
             <div className="space-y-3 text-sm">
               <p>
-                <strong>Filing Deadline:</strong> Your {taxReturn.taxYear} tax return must be filed by April 15, 2025.
+                <strong>Filing Deadline:</strong> Your {taxReturn.taxYear} tax return must be filed by April 15, {taxReturn.taxYear + 1}.
               </p>
               {isRefund ? (
                 <p>
@@ -264,8 +506,8 @@ export function FilingStep({ taxReturn, onUpdate, onNext, onPrev, loading, savin
             <ArrowLeft className="mr-2 h-4 w-4" />
             Back
           </Button>
-          <Button type="submit" disabled={!isAgreed || isFiling} size="lg">
-            {isFiling ? "Filing..." : "File Tax Return"}
+          <Button type="submit" disabled={!canEFile || !isAgreed || isFiling} size="lg">
+            {isFiling ? "Filing..." : rejectedSubmission ? "Resubmit Tax Return" : "File Tax Return"}
             <Send className="ml-2 h-4 w-4" />
           </Button>
         </div>
@@ -8,7 +8,9 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
+import { Checkbox } from "@/components/ui/checkbox"
 import { User, Users, ArrowRight } from "lucide-react"
+import { ResidencyPeriods } from "@/components/residency-periods"
 
 interface PersonalInfoStepProps {
   taxReturn: any
@@ -25,6 +27,12 @@ interface PersonalInfoStepProps {
   lastSaved: Date | null
 }
 
+const toDateInputValue = (value: any): string => {
+  if (!value) return ""
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? "" : date.toISOString().slice(0, 10)
+}
+
 const filingStatusOptions = [
   { value: "SINGLE", label: "Single" },
   { value: "MARRIED_FILING_JOINTLY", label: "Married Filing Jointly" },
@@ -55,42 +63,55 @@ export function PersonalInfoStep({
     spouseFirstName: taxReturn.spouseFirstName || "",
     spouseLastName: taxReturn.spouseLastName || "",
     spouseSsn: taxReturn.spouseSsn || "",
+    dateOfBirth: toDateInputValue(taxReturn.dateOfBirth),
+    isBlind: taxReturn.isBlind || false,
+    spouseDateOfBirth: toDateInputValue(taxReturn.spouseDateOfBirth),
+    spouseIsBlind: taxReturn.spouseIsBlind || false,
+    livedWithSpouse: taxReturn.livedWithSpouse || false,
     address: taxReturn.address || "",
     city: taxReturn.city || "",
     state: taxReturn.state || "",
     zipCode: taxReturn.zipCode || "",
   })
+  const [residencyPeriods, setResidencyPeriods] = useState<any[]>(taxReturn.residencyPeriods || [])
+
+  // Dates are stored as DateTime, so convert the yyyy-mm-dd input values before saving
+  const getSaveData = useCallback(() => ({
+    ...formData,
+    dateOfBirth: formData.dateOfBirth ? new Date(formData.dateOfBirth).toISOString() : null,
+    spouseDateOfBirth: formData.spouseDateOfBirth ? new Date(formData.spouseDateOfBirth).toISOString() : null,
+  }), [formData])
 
   // Auto-save functionality with debouncing
   useEffect(() => {
     const timer = setTimeout(() => {
       if (hasUnsavedChanges && !autoSaving) {
-        onAutoSave(formData)
+        onAutoSave(getSaveData())
       }
     }, 2000) // Auto-save after 2 seconds of inactivity
 
     return () => clearTimeout(timer)
-  }, [formData, hasUnsavedChanges, autoSaving, onAutoSave])
+  }, [formData, hasUnsavedChanges, autoSaving, onAutoSave, getSaveData])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    await onUpdate(formData)
+    await onUpdate(getSaveData())
     onNext()
   }
 
   const handleSaveAndContinue = async (e: React.FormEvent) => {
     e.preventDefault()
-    await onCompleteStep(formData)
+    await onCompleteStep(getSaveData())
     onNext()
   }
 
-  const handleChange = (field: string, value: string) => {
+  const handleChange = (field: string, value: string | boolean) => {
     setFormData(prev => ({ ...prev, [field]: value }))
     onMarkUnsaved()
   }
 
   const handleSaveOnly = async () => {
-    await onAutoSave(formData)
+    await onAutoSave(getSaveData())
   }
 
   const isMarried = formData.filingStatus === "MARRIED_FILING_JOINTLY" || formData.filingStatus === "MARRIED_FILING_SEPARATELY"
@@ -242,6 +263,26 @@ export function PersonalInfoStep({
               />
             </div>
             
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <div>
+                <Label htmlFor="dateOfBirth">Date of Birth</Label>
+                <Input
+                  id="dateOfBirth"
+                  type="date"
+                  value={formData.dateOfBirth}
+                  onChange={(e) => handleChange("dateOfBirth", e.target.value)}
+                />
+              </div>
+              <div className="flex items-center space-x-2 pb-2">
+                <Checkbox
+                  id="isBlind"
+                  checked={formData.isBlind}
+                  onCheckedChange={(checked) => handleChange("isBlind", checked === true)}
+                />
+                <Label htmlFor="isBlind">I am legally blind</Label>
+              </div>
+            </div>
+            
             <div>
               <Label htmlFor="filingStatus">Filing Status *</Label>
               <Select value={formData.filingStatus} onValueChange={(value) => handleChange("filingStatus", value)}>
@@ -304,6 +345,37 @@ export function PersonalInfoStep({
                   required
                 />
               </div>
+              
+              <div className="grid grid-cols-2 gap-4 items-end">
+                <div>
+                  <Label htmlFor="spouseDateOfBirth">Spouse Date of Birth</Label>
+                  <Input
+                    id="spouseDateOfBirth"
+                    type="date"
+                    value={formData.spouseDateOfBirth}
+                    onChange={(e) => handleChange("spouseDateOfBirth", e.target.value)}
+                  />
+                </div>
+                <div className="flex items-center space-x-2 pb-2">
+                  <Checkbox
+                    id="spouseIsBlind"
+                    checked={formData.spouseIsBlind}
+                    onCheckedChange={(checked) => handleChange("spouseIsBlind", checked === true)}
+                  />
+                  <Label htmlFor="spouseIsBlind">Spouse is legally blind</Label>
+                </div>
+              </div>
+
+              {formData.filingStatus === "MARRIED_FILING_SEPARATELY" && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="livedWithSpouse"
+                    checked={formData.livedWithSpouse}
+                    onCheckedChange={(checked) => handleChange("livedWithSpouse", checked === true)}
+                  />
+                  <Label htmlFor="livedWithSpouse">I lived with my spouse at some time during the year</Label>
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -363,6 +435,14 @@ export function PersonalInfoStep({
           </CardContent>
         </Card>
 
+        <ResidencyPeriods
+          taxReturn={taxReturn}
+          homeState={formData.state}
+          periods={residencyPeriods}
+          onPeriodsChange={setResidencyPeriods}
+          onMarkUnsaved={onMarkUnsaved}
+        />
+
         <div className="flex justify-between items-center">
           <div className="flex items-center space-x-2">
             <Button type="button" variant="outline" onClick={onPrev} disabled={taxReturn.currentStep === 1}>
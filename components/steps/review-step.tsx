@@ -7,10 +7,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Separator } from "@/components/ui/separator"
-import { Eye, ArrowRight, ArrowLeft, Edit, FileText, User, DollarSign, Receipt, Calculator } from "lucide-react"
+import { Eye, ArrowRight, ArrowLeft, Edit, FileText, User, DollarSign, Receipt, Calculator, MapPin } from "lucide-react"
+import { calculateTaxReturn, buildTaxCalculationInput } from "@/lib/tax-calculations"
+import { YearOverYearComparison } from "@/components/year-over-year-comparison"
+import { TAX_FILING_STEP } from "@/lib/tax-filing-steps"
 
 interface ReviewStepProps {
   taxReturn: any
+  priorYearReturn?: any | null
   onUpdate: (data: any) => Promise<any>
   onNext: () => void
   onPrev: () => void
@@ -18,7 +22,7 @@ interface ReviewStepProps {
   saving: boolean
 }
 
-export function ReviewStep({ taxReturn, onUpdate, onNext, onPrev, loading, saving }: ReviewStepProps) {
+export function ReviewStep({ taxReturn, priorYearReturn = null, onUpdate, onNext, onPrev, loading, saving }: ReviewStepProps) {
   const [isReviewing, setIsReviewing] = useState(false)
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -27,7 +31,7 @@ export function ReviewStep({ taxReturn, onUpdate, onNext, onPrev, loading, savin
     
     await onUpdate({
       isCompleted: true,
-      currentStep: 7
+      currentStep: TAX_FILING_STEP.FILING
     })
     
     setIsReviewing(false)
@@ -37,6 +41,9 @@ export function ReviewStep({ taxReturn, onUpdate, onNext, onPrev, loading, savin
   const isRefund = Number(taxReturn.refundAmount) > 0
   const amount = isRefund ? Number(taxReturn.refundAmount) : Number(taxReturn.amountOwed)
 
+  // Per-state figures aren't stored, so they're recalculated from the saved entries
+  const stateReturns = calculateTaxReturn(buildTaxCalculationInput(taxReturn).input).stateReturns
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <div className="space-y-6">
@@ -201,11 +208,27 @@ export function ReviewStep({ taxReturn, onUpdate, onNext, onPrev, loading, savin
                 <span className="text-gray-600">Tax Liability:</span>
                 <span className="font-medium">${Number(taxReturn.taxLiability).toLocaleString()}</span>
               </div>
-              {Number(taxReturn.totalCredits) > 0 && (
+              {Number(taxReturn.totalCredits) - Number(taxReturn.refundableCredits || 0) > 0 && (
                 <div className="flex justify-between">
                   <span className="text-gray-600">Tax Credits:</span>
                   <span className="font-medium text-green-600">
-                    -${Number(taxReturn.totalCredits).toLocaleString()}
+                    -${(Number(taxReturn.totalCredits) - Number(taxReturn.refundableCredits || 0)).toLocaleString()}
+                  </span>
+                </div>
+              )}
+              {Number(taxReturn.totalPayments) > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Payments & Refundable Credits:</span>
+                  <span className="font-medium text-green-600">
+                    -${Number(taxReturn.totalPayments).toLocaleString()}
+                  </span>
+                </div>
+              )}
+              {Number(taxReturn.estimatedTaxPenalty) > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Estimated Tax Penalty:</span>
+                  <span className="font-medium text-red-600">
+                    +${Number(taxReturn.estimatedTaxPenalty).toLocaleString()}
                   </span>
                 </div>
               )}
@@ -220,6 +243,58 @@ export function ReviewStep({ taxReturn, onUpdate, onNext, onPrev, loading, savin
           </CardContent>
         </Card>
 
+        {/* State Returns */}
+        {stateReturns.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <MapPin className="h-5 w-5" />
+                <span>State Returns</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {stateReturns.map((stateReturn) => (
+                  <div key={stateReturn.stateCode} className="flex justify-between items-center">
+                    <div>
+                      <span className="font-medium">{stateReturn.stateName}</span>
+                      <span className="text-gray-600 ml-2">({stateReturn.residency.replace(/_/g, ' ').toLowerCase()})</span>
+                    </div>
+                    {stateReturn.unsupportedReason ? (
+                      <span className="text-sm text-gray-600">File separately</span>
+                    ) : !stateReturn.hasIncomeTax ? (
+                      <span className="text-sm text-gray-600">No income tax</span>
+                    ) : (
+                      <span className={`font-medium ${stateReturn.refundAmount > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {stateReturn.refundAmount > 0 ? "Refund" : "Owed"} ${(stateReturn.refundAmount || stateReturn.amountOwed).toLocaleString()}
+                      </span>
+                    )}
+                  </div>
+                ))}
+                {(Number(taxReturn.stateAdditions) > 0 || Number(taxReturn.stateSubtractions) > 0) && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">{taxReturn.state} Modifications:</span>
+                    <span className="font-medium">
+                      +${Number(taxReturn.stateAdditions).toLocaleString()} / -${Number(taxReturn.stateSubtractions).toLocaleString()}
+                    </span>
+                  </div>
+                )}
+                <Separator />
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Total State Tax:</span>
+                  <span className="font-medium">${Number(taxReturn.stateTaxLiability).toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Total State Tax Withheld:</span>
+                  <span className="font-medium text-green-600">
+                    -${Number(taxReturn.stateWithholding).toLocaleString()}
+                  </span>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Dependents (if any) */}
         {taxReturn.dependents && taxReturn.dependents.length > 0 && (
           <Card>
@@ -249,6 +324,11 @@ export function ReviewStep({ taxReturn, onUpdate, onNext, onPrev, loading, savin
           </Card>
         )}
 
+        {/* Year-Over-Year Comparison */}
+        {priorYearReturn && (
+          <YearOverYearComparison taxReturn={taxReturn} priorYearReturn={priorYearReturn} />
+        )}
+
         <div className="flex justify-between">
           <Button type="button" variant="outline" onClick={onPrev}>
             <ArrowLeft className="mr-2 h-4 w-4" />
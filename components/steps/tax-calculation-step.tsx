@@ -6,46 +6,93 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Calculator, ArrowRight, ArrowLeft, TrendingUp, TrendingDown, Minus } from "lucide-react"
-import { calculateTaxReturn } from "@/lib/tax-calculations"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Calculator, ArrowRight, ArrowLeft, TrendingUp, TrendingDown, Minus, DollarSign, MapPin } from "lucide-react"
+import { calculateTaxReturn, buildTaxCalculationInput, TaxCalculationInput } from "@/lib/tax-calculations"
+import { normalizeStateCode } from "@/lib/state-tax"
+import { PriorYearTaxSummary } from "@/lib/estimated-tax-penalty"
+import { EstimatedPayments } from "@/components/estimated-payments"
+import { NextYearPlanner } from "@/components/next-year-planner"
 
 interface TaxCalculationStepProps {
   taxReturn: any
+  priorYear?: PriorYearTaxSummary | null
   onUpdate: (data: any) => Promise<any>
   onNext: () => void
   onPrev: () => void
+  onMarkUnsaved: () => void
   loading: boolean
   saving: boolean
 }
 
-export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loading, saving }: TaxCalculationStepProps) {
+const residencyLabels: Record<string, string> = {
+  RESIDENT: "Full-year resident",
+  PART_YEAR_RESIDENT: "Part-year resident",
+  NONRESIDENT: "Nonresident",
+}
+
+export function TaxCalculationStep({ taxReturn, priorYear = null, onUpdate, onNext, onPrev, onMarkUnsaved, loading, saving }: TaxCalculationStepProps) {
   const [calculation, setCalculation] = useState<any>(null)
+  const [calculationInput, setCalculationInput] = useState<TaxCalculationInput | null>(null)
+  const [estimatedPayments, setEstimatedPayments] = useState<any[]>(taxReturn.estimatedPayments || [])
+  // Prior-year figures saved on the return win over last year's return, which fills them in when they're blank
+  const [priorYearTax, setPriorYearTax] = useState(
+    taxReturn.priorYearTax != null ? String(Number(taxReturn.priorYearTax)) : priorYear ? String(priorYear.tax) : ""
+  )
+  const [priorYearAdjustedGrossIncome, setPriorYearAdjustedGrossIncome] = useState(
+    taxReturn.priorYearAdjustedGrossIncome != null
+      ? String(Number(taxReturn.priorYearAdjustedGrossIncome))
+      : priorYear ? String(priorYear.adjustedGrossIncome) : ""
+  )
+  const [incentiveStockOptions, setIncentiveStockOptions] = useState(
+    Number(taxReturn.incentiveStockOptions) ? String(Number(taxReturn.incentiveStockOptions)) : ""
+  )
+  const [netOperatingLossCarryforward, setNetOperatingLossCarryforward] = useState(
+    Number(taxReturn.netOperatingLossCarryforward) ? String(Number(taxReturn.netOperatingLossCarryforward)) : ""
+  )
+  const [minimumTaxCreditCarryforward, setMinimumTaxCreditCarryforward] = useState(
+    Number(taxReturn.minimumTaxCreditCarryforward) ? String(Number(taxReturn.minimumTaxCreditCarryforward)) : ""
+  )
+  const [stateAdditions, setStateAdditions] = useState(
+    Number(taxReturn.stateAdditions) ? String(Number(taxReturn.stateAdditions)) : ""
+  )
+  const [stateSubtractions, setStateSubtractions] = useState(
+    Number(taxReturn.stateSubtractions) ? String(Number(taxReturn.stateSubtractions)) : ""
+  )
 
   useEffect(() => {
     // Calculate tax return based on current data
-    const totalIncome = Number(taxReturn.totalIncome) || 0
-    const itemizedDeductions = taxReturn.deductionEntries?.reduce((sum: number, entry: any) => 
-      sum + parseFloat(entry.amount || 0), 0
-    ) || 0
-    
-    const result = calculateTaxReturn({
-      totalIncome,
-      filingStatus: taxReturn.filingStatus,
-      dependents: taxReturn.dependents || [],
-      itemizedDeductions,
+    const { input, scheduleD } = buildTaxCalculationInput({
+      ...taxReturn,
+      estimatedPayments,
+      priorYearTax: priorYearTax === "" ? null : parseFloat(priorYearTax) || 0,
+      priorYearAdjustedGrossIncome: priorYearAdjustedGrossIncome === "" ? null : parseFloat(priorYearAdjustedGrossIncome) || 0,
     })
+    const calculationInput = {
+      ...input,
+      incentiveStockOptions: parseFloat(incentiveStockOptions) || 0,
+      netOperatingLossCarryforward: parseFloat(netOperatingLossCarryforward) || 0,
+      minimumTaxCreditCarryforward: parseFloat(minimumTaxCreditCarryforward) || 0,
+      stateAdditions: parseFloat(stateAdditions) || 0,
+      stateSubtractions: parseFloat(stateSubtractions) || 0,
+    }
+    const result = calculateTaxReturn(calculationInput)
     
-    setCalculation(result)
-  }, [taxReturn])
+    setCalculationInput(calculationInput)
+    setCalculation({ ...result, scheduleD })
+  }, [taxReturn, estimatedPayments, priorYearTax, priorYearAdjustedGrossIncome, incentiveStockOptions, netOperatingLossCarryforward, minimumTaxCreditCarryforward, stateAdditions, stateSubtractions])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
     if (!calculation) return
 
-    const refundAmount = calculation.finalTax < 0 ? Math.abs(calculation.finalTax) : 0
-    const amountOwed = calculation.finalTax > 0 ? calculation.finalTax : 0
-    
+    // The return keeps totals across every state return; each state's figures are recalculated from the entries
+    const sumStateReturns = (field: string) => Math.round(
+      calculation.stateReturns.reduce((sum: number, stateReturn: any) => sum + stateReturn[field], 0) * 100
+    ) / 100
+
     await onUpdate({
       totalIncome: calculation.grossIncome,
       adjustedGrossIncome: calculation.adjustedGrossIncome,
@@ -54,8 +101,26 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
       taxableIncome: calculation.taxableIncome,
       taxLiability: calculation.taxLiability,
       totalCredits: calculation.totalCredits,
-      refundAmount,
-      amountOwed,
+      refundableCredits: calculation.refundableCredits,
+      selfEmploymentTax: calculation.selfEmploymentTax,
+      alternativeMinimumTax: calculation.alternativeMinimumTax,
+      incentiveStockOptions: parseFloat(incentiveStockOptions) || 0,
+      netOperatingLossCarryforward: parseFloat(netOperatingLossCarryforward) || 0,
+      minimumTaxCreditCarryforward: parseFloat(minimumTaxCreditCarryforward) || 0,
+      federalWithholding: calculation.federalWithholding,
+      estimatedTaxPayments: calculation.estimatedTaxPayments,
+      totalPayments: calculation.totalPayments,
+      priorYearTax: calculation.form2210.priorYearTax,
+      priorYearAdjustedGrossIncome: priorYearAdjustedGrossIncome === "" ? null : parseFloat(priorYearAdjustedGrossIncome) || 0,
+      estimatedTaxPenalty: calculation.estimatedTaxPenalty,
+      refundAmount: calculation.refundAmount,
+      amountOwed: calculation.amountOwed,
+      stateAdditions: parseFloat(stateAdditions) || 0,
+      stateSubtractions: parseFloat(stateSubtractions) || 0,
+      stateTaxLiability: sumStateReturns("taxAfterCredits"),
+      stateWithholding: sumStateReturns("stateWithholding"),
+      stateRefundAmount: sumStateReturns("refundAmount"),
+      stateAmountOwed: sumStateReturns("amountOwed"),
     })
     onNext()
   }
@@ -71,8 +136,9 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
     )
   }
 
-  const isRefund = calculation.finalTax <= 0
-  const amount = Math.abs(calculation.finalTax)
+  const isRefund = calculation.refundAmount > 0
+  const amount = isRefund ? calculation.refundAmount : calculation.amountOwed
+  const homeStateReturn = calculation.stateReturns.find((stateReturn: any) => stateReturn.stateCode === normalizeStateCode(taxReturn.state))
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
@@ -117,7 +183,7 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
                   ? "You've overpaid your taxes and should receive a refund"
                   : amount > 0
                   ? "You owe additional taxes"
-                  : "Your tax liability is exactly covered by withholdings"
+                  : "Your tax liability is exactly covered by your payments"
                 }
               </p>
             </div>
@@ -138,6 +204,76 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
                 <span className="text-gray-600">Gross Income</span>
                 <span className="font-medium">${calculation.grossIncome.toLocaleString()}</span>
               </div>
+
+              {calculation.socialSecurity.benefits > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <div>
+                    <span className="text-gray-600">Includes Taxable Social Security Benefits</span>
+                    <p className="text-xs text-gray-500">
+                      ${calculation.socialSecurity.taxableBenefits.toLocaleString()} of ${calculation.socialSecurity.benefits.toLocaleString()} in benefits is taxable
+                      (provisional income ${calculation.socialSecurity.provisionalIncome.toLocaleString()})
+                    </p>
+                  </div>
+                  <span className="font-medium">${calculation.socialSecurity.taxableBenefits.toLocaleString()}</span>
+                </div>
+              )}
+
+              {calculation.scheduleD.capitalGainOrLoss !== 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <div>
+                    <span className="text-gray-600">Includes Capital Gain or Loss (Schedule D)</span>
+                    {calculation.scheduleD.netGainOrLoss < calculation.scheduleD.capitalGainOrLoss && (
+                      <p className="text-xs text-gray-500">
+                        Net loss of ${Math.abs(calculation.scheduleD.netGainOrLoss).toLocaleString()} limited;
+                        ${(calculation.scheduleD.shortTermCarryoverToNextYear + calculation.scheduleD.longTermCarryoverToNextYear).toLocaleString()} carries over to next year
+                      </p>
+                    )}
+                  </div>
+                  <span className="font-medium">
+                    {calculation.scheduleD.capitalGainOrLoss < 0 ? "-" : ""}${Math.abs(calculation.scheduleD.capitalGainOrLoss).toLocaleString()}
+                  </span>
+                </div>
+              )}
+
+              {calculation.taxableDependentCareBenefits > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <div>
+                    <span className="text-gray-600">Includes Taxable Dependent Care Benefits</span>
+                    <p className="text-xs text-gray-500">
+                      Employer-provided benefits above your qualified care expenses or the Form 2441 exclusion limit
+                    </p>
+                  </div>
+                  <span className="font-medium">${calculation.taxableDependentCareBenefits.toLocaleString()}</span>
+                </div>
+              )}
+
+              {calculation.netOperatingLossDeduction > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <div>
+                    <span className="text-gray-600">Includes Net Operating Loss Deduction</span>
+                    <p className="text-xs text-gray-500">
+                      Carried forward from earlier years, limited to 80% of taxable income before the deduction
+                    </p>
+                  </div>
+                  <span className="font-medium">-${calculation.netOperatingLossDeduction.toLocaleString()}</span>
+                </div>
+              )}
+
+              {[
+                { label: "Educator Expenses", amount: calculation.adjustments.educatorExpenses.allowed },
+                { label: "HSA Deduction", amount: calculation.adjustments.hsaDeduction.allowed },
+                { label: "Deductible Part of Self-Employment Tax", amount: calculation.adjustments.selfEmploymentTaxDeduction },
+                { label: "Self-Employed Health Insurance", amount: calculation.adjustments.selfEmployedHealthInsurance.allowed },
+                { label: "IRA Deduction", amount: calculation.adjustments.iraDeduction.allowed },
+                { label: "Student Loan Interest Deduction", amount: calculation.adjustments.studentLoanInterest.allowed },
+              ]
+                .filter(({ amount }) => amount > 0)
+                .map(({ label, amount }) => (
+                  <div key={label} className="flex justify-between items-center py-2 border-b">
+                    <span className="text-gray-600">{label}</span>
+                    <span className="font-medium">-${amount.toLocaleString()}</span>
+                  </div>
+                ))}
               
               <div className="flex justify-between items-center py-2 border-b">
                 <span className="text-gray-600">Adjusted Gross Income</span>
@@ -145,9 +281,17 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
               </div>
               
               <div className="flex justify-between items-center py-2 border-b">
-                <span className="text-gray-600">
-                  {calculation.itemizedDeduction > 0 ? "Itemized" : "Standard"} Deduction
-                </span>
+                <div>
+                  <span className="text-gray-600">
+                    {calculation.itemizedDeduction > calculation.standardDeduction ? "Itemized" : "Standard"} Deduction
+                  </span>
+                  {calculation.scheduleA && calculation.scheduleA.totalAllowed < calculation.scheduleA.totalEntered && (
+                    <p className="text-xs text-gray-500">
+                      ${calculation.scheduleA.totalEntered.toLocaleString()} of itemized deductions entered,
+                      ${calculation.scheduleA.totalAllowed.toLocaleString()} allowed after Schedule A limits
+                    </p>
+                  )}
+                </div>
                 <span className="font-medium">
                   -${Math.max(calculation.standardDeduction, calculation.itemizedDeduction).toLocaleString()}
                 </span>
@@ -159,19 +303,171 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
               </div>
               
               <div className="flex justify-between items-center py-2 border-b">
-                <span className="text-gray-600">Tax Liability</span>
+                <div>
+                  <span className="text-gray-600">Tax Liability</span>
+                  {calculation.capitalGainTax && (
+                    <p className="text-xs text-gray-500">
+                      ${calculation.capitalGainTax.preferentialIncome.toLocaleString()} of qualified dividends and capital gains
+                      taxed at 0%/15%/20%
+                    </p>
+                  )}
+                </div>
                 <span className="font-medium">${calculation.taxLiability.toLocaleString()}</span>
               </div>
               
+              {calculation.alternativeMinimumTax > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <div>
+                    <span className="text-gray-600">Alternative Minimum Tax</span>
+                    <p className="text-xs text-gray-500">
+                      Form 6251 tentative minimum tax of ${calculation.form6251.tentativeMinimumTax.toLocaleString()}
+                      on ${calculation.form6251.alternativeMinimumTaxableIncome.toLocaleString()} AMTI
+                      exceeds your regular tax
+                    </p>
+                  </div>
+                  <span className="font-medium">
+                    +${calculation.alternativeMinimumTax.toLocaleString()}
+                  </span>
+                </div>
+              )}
+
+              {calculation.minimumTaxCredit > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <div>
+                    <span className="text-gray-600">Prior-Year Minimum Tax Credit</span>
+                    <p className="text-xs text-gray-500">
+                      Form 8801: AMT paid in earlier years on timing items such as incentive stock options
+                    </p>
+                  </div>
+                  <span className="font-medium text-green-600">
+                    -${calculation.minimumTaxCredit.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              
+              {calculation.dependentCareCredit > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <div>
+                    <span className="text-gray-600">Child and Dependent Care Credit</span>
+                    <p className="text-xs text-gray-500">
+                      Form 2441: {Math.round(calculation.form2441.creditRate * 100)}% of ${calculation.form2441.allowedExpenses.toLocaleString()} in care expenses
+                    </p>
+                  </div>
+                  <span className="font-medium text-green-600">
+                    -${calculation.dependentCareCredit.toLocaleString()}
+                  </span>
+                </div>
+              )}
+
+              {calculation.educationCredit > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <div>
+                    <span className="text-gray-600">Education Credits</span>
+                    <p className="text-xs text-gray-500">
+                      Form 8863: lifetime learning credit and the nonrefundable 60% of the American opportunity credit
+                    </p>
+                  </div>
+                  <span className="font-medium text-green-600">
+                    -${calculation.educationCredit.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              
               {calculation.childTaxCredit > 0 && (
                 <div className="flex justify-between items-center py-2 border-b">
-                  <span className="text-gray-600">Child Tax Credit</span>
+                  <span className="text-gray-600">Child Tax Credit / Credit for Other Dependents</span>
                   <span className="font-medium text-green-600">
                     -${calculation.childTaxCredit.toLocaleString()}
                   </span>
                 </div>
               )}
               
+              {calculation.schedule8812.phaseOutReduction > 0 && (
+                <div className="flex justify-between items-center py-2 border-b text-sm">
+                  <span className="text-gray-500">Credit reduced by income phase-out</span>
+                  <span className="text-gray-500">
+                    ${calculation.schedule8812.phaseOutReduction.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              
+              {calculation.selfEmploymentTax > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <div>
+                    <span className="text-gray-600">Self-Employment Tax</span>
+                    <p className="text-xs text-gray-500">
+                      Schedule SE on ${calculation.scheduleSE.netEarnings.toLocaleString()} net earnings
+                      (social security ${calculation.scheduleSE.socialSecurityTax.toLocaleString()},
+                      Medicare ${calculation.scheduleSE.medicareTax.toLocaleString()})
+                    </p>
+                  </div>
+                  <span className="font-medium">
+                    +${calculation.selfEmploymentTax.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              
+              {calculation.additionalMedicareTax > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <div>
+                    <span className="text-gray-600">Additional Medicare Tax</span>
+                    <p className="text-xs text-gray-500">
+                      Form 8959: 0.9% on wages (${calculation.form8959.additionalTaxOnWages.toLocaleString()})
+                      and self-employment income (${calculation.form8959.additionalTaxOnSelfEmployment.toLocaleString()}) over the threshold
+                    </p>
+                  </div>
+                  <span className="font-medium">
+                    +${calculation.additionalMedicareTax.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              
+              {calculation.netInvestmentIncomeTax > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <span className="text-gray-600">Net Investment Income Tax</span>
+                  <span className="font-medium">
+                    +${calculation.netInvestmentIncomeTax.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              
+              <div className="flex justify-between items-center py-2 border-b font-medium">
+                <span>Total Tax</span>
+                <span>${calculation.finalTax.toLocaleString()}</span>
+              </div>
+              
+              {calculation.federalWithholding > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <span className="text-gray-600">Federal Income Tax Withheld</span>
+                  <span className="font-medium text-green-600">
+                    -${calculation.federalWithholding.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              
+              {calculation.form8959.additionalMedicareTaxWithheld > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <div>
+                    <span className="text-gray-600">Additional Medicare Tax Withheld</span>
+                    <p className="text-xs text-gray-500">
+                      W-2 Medicare tax withheld above the regular 1.45% rate
+                    </p>
+                  </div>
+                  <span className="font-medium text-green-600">
+                    -${calculation.form8959.additionalMedicareTaxWithheld.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              
+              {calculation.estimatedTaxPayments > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <span className="text-gray-600">Estimated Tax Payments</span>
+                  <span className="font-medium text-green-600">
+                    -${calculation.estimatedTaxPayments.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              
               {calculation.earnedIncomeCredit > 0 && (
                 <div className="flex justify-between items-center py-2 border-b">
                   <span className="text-gray-600">Earned Income Credit</span>
@@ -181,23 +477,458 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
                 </div>
               )}
               
+              {calculation.excessSocialSecurityTax > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <div>
+                    <span className="text-gray-600">Excess Social Security Tax Withheld</span>
+                    <p className="text-xs text-gray-500">
+                      More than one employer withheld social security tax above the annual maximum
+                    </p>
+                  </div>
+                  <span className="font-medium text-green-600">
+                    -${calculation.excessSocialSecurityTax.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              
+              {calculation.additionalChildTaxCredit > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <span className="text-gray-600">Additional Child Tax Credit</span>
+                  <span className="font-medium text-green-600">
+                    -${calculation.additionalChildTaxCredit.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              
+              {calculation.refundableEducationCredit > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <div>
+                    <span className="text-gray-600">American Opportunity Credit (Refundable)</span>
+                    <p className="text-xs text-gray-500">
+                      40% of the credit is refundable even if you owe no tax
+                    </p>
+                  </div>
+                  <span className="font-medium text-green-600">
+                    -${calculation.refundableEducationCredit.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              
               <div className="flex justify-between items-center py-2 border-b font-medium">
-                <span>Total Credits</span>
+                <span>Total Payments</span>
                 <span className="text-green-600">
-                  -${calculation.totalCredits.toLocaleString()}
+                  -${calculation.totalPayments.toLocaleString()}
                 </span>
               </div>
               
+              {calculation.estimatedTaxPenalty > 0 && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <div>
+                    <span className="text-gray-600">Estimated Tax Penalty</span>
+                    <p className="text-xs text-gray-500">Form 2210, for paying too little tax during the year</p>
+                  </div>
+                  <span className="font-medium text-red-600">
+                    +${calculation.estimatedTaxPenalty.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              
               <div className="flex justify-between items-center py-3 bg-gray-50 rounded-lg px-4 font-bold text-lg">
-                <span>Final Tax</span>
+                <span>{isRefund ? "Refund" : "Amount You Owe"}</span>
                 <span className={isRefund ? 'text-green-600' : 'text-red-600'}>
-                  {isRefund ? '-' : ''}${amount.toLocaleString()}
+                  ${amount.toLocaleString()}
                 </span>
               </div>
             </div>
           </CardContent>
         </Card>
 
+        {/* Payments */}
+        <EstimatedPayments
+          taxReturn={taxReturn}
+          payments={estimatedPayments}
+          onPaymentsChange={setEstimatedPayments}
+          onMarkUnsaved={onMarkUnsaved}
+        />
+
+        {/* Underpayment Penalty */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Underpayment Penalty (Form 2210)</CardTitle>
+            <CardDescription>
+              You avoid the penalty if withholding and estimated payments covered 90% of this year's tax or 100% of
+              last year's (110% if last year's AGI was over $150,000), paid evenly through the year
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="priorYearTax">{taxReturn.taxYear - 1} Total Tax</Label>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="priorYearTax"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={priorYearTax}
+                    onChange={(e) => setPriorYearTax(e.target.value)}
+                    className="pl-10"
+                    placeholder="0.00"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {priorYear
+                    ? `From your ${priorYear.taxYear} return: $${priorYear.tax.toLocaleString()}`
+                    : "Total tax from last year's Form 1040, less refundable credits. Leave blank if you didn't file."}
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="priorYearAdjustedGrossIncome">{taxReturn.taxYear - 1} Adjusted Gross Income</Label>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="priorYearAdjustedGrossIncome"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={priorYearAdjustedGrossIncome}
+                    onChange={(e) => setPriorYearAdjustedGrossIncome(e.target.value)}
+                    className="pl-10"
+                    placeholder="0.00"
+                  />
+                </div>
+                {priorYear && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    From your {priorYear.taxYear} return: ${priorYear.adjustedGrossIncome.toLocaleString()}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex justify-between items-center py-2 border-b">
+                <span className="text-gray-600">90% of {taxReturn.taxYear} Tax</span>
+                <span className="font-medium">${calculation.form2210.currentYearRequirement.toLocaleString()}</span>
+              </div>
+              {calculation.form2210.priorYearRequirement !== null && (
+                <div className="flex justify-between items-center py-2 border-b">
+                  <span className="text-gray-600">
+                    {calculation.form2210.priorYearRequirement > calculation.form2210.priorYearTax ? "110%" : "100%"} of {taxReturn.taxYear - 1} Tax
+                  </span>
+                  <span className="font-medium">${calculation.form2210.priorYearRequirement.toLocaleString()}</span>
+                </div>
+              )}
+              <div className="flex justify-between items-center py-2 border-b font-medium">
+                <span>Required Annual Payment</span>
+                <span>${calculation.form2210.requiredAnnualPayment.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between items-center py-2 border-b">
+                <span className="text-gray-600">Withholding and Estimated Payments</span>
+                <span className="font-medium">
+                  ${(calculation.form2210.withholding + calculation.form2210.estimatedPayments).toLocaleString()}
+                </span>
+              </div>
+            </div>
+
+            {calculation.form2210.safeHarbor === "UNDER_MINIMUM" ? (
+              <Alert>
+                <AlertDescription>
+                  No penalty: you owe less than $1,000 after withholding.
+                </AlertDescription>
+              </Alert>
+            ) : calculation.form2210.safeHarbor === "NO_PRIOR_YEAR_TAX" ? (
+              <Alert>
+                <AlertDescription>
+                  No penalty: you had no tax liability for {taxReturn.taxYear - 1}.
+                </AlertDescription>
+              </Alert>
+            ) : calculation.form2210.safeHarbor === "PAYMENTS_MET_REQUIREMENT" ? (
+              <Alert>
+                <AlertDescription>
+                  No penalty: each quarterly installment was paid in full by its due date.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <div className="space-y-1">
+                {calculation.form2210.installments.map((installment: any) => (
+                  <div key={installment.dueDate} className="flex justify-between items-center py-2 border-b text-sm">
+                    <span className="text-gray-600">
+                      Due {new Date(installment.dueDate).toLocaleDateString(undefined, { timeZone: "UTC" })}:
+                      {" "}${installment.requiredInstallment.toLocaleString()} required, ${installment.paid.toLocaleString()} paid on time
+                    </span>
+                    <span className="font-medium">${installment.penalty.toLocaleString()}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between items-center py-3 bg-gray-50 rounded-lg px-4 font-bold">
+                  <span>Estimated Tax Penalty</span>
+                  <span className="text-red-600">${calculation.estimatedTaxPenalty.toLocaleString()}</span>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Alternative Minimum Tax */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Alternative Minimum Tax</CardTitle>
+            <CardDescription>
+              Large state and local tax deductions or exercising incentive stock options can trigger the AMT
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Label htmlFor="incentiveStockOptions">Incentive Stock Options Exercised and Held</Label>
+            <div className="relative">
+              <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                id="incentiveStockOptions"
+                type="number"
+                step="0.01"
+                min="0"
+                value={incentiveStockOptions}
+                onChange={(e) => setIncentiveStockOptions(e.target.value)}
+                className="pl-10"
+                placeholder="0.00"
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Fair market value minus exercise price for ISO shares you still held at year end (Form 3921)
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Carryforwards */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Carryforwards</CardTitle>
+            <CardDescription>
+              Losses and credits from earlier years, filled in from your last finalized return
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="netOperatingLossCarryforward">Net Operating Loss Carryforward</Label>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="netOperatingLossCarryforward"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={netOperatingLossCarryforward}
+                    onChange={(e) => setNetOperatingLossCarryforward(e.target.value)}
+                    className="pl-10"
+                    placeholder="0.00"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="minimumTaxCreditCarryforward">Minimum Tax Credit Carryforward</Label>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="minimumTaxCreditCarryforward"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={minimumTaxCreditCarryforward}
+                    onChange={(e) => setMinimumTaxCreditCarryforward(e.target.value)}
+                    className="pl-10"
+                    placeholder="0.00"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Form 8801 line 26 from last year
+                </p>
+              </div>
+            </div>
+
+            {[
+              { label: "Short-Term Capital Loss", amount: calculation.scheduleD.shortTermCarryoverToNextYear },
+              { label: "Long-Term Capital Loss", amount: calculation.scheduleD.longTermCarryoverToNextYear },
+              {
+                label: "Charitable Contributions",
+                amount: calculation.scheduleA ? calculation.scheduleA.charitableContributions.carryforwardToNextYear : 0,
+              },
+              { label: "Net Operating Loss", amount: calculation.netOperatingLossToNextYear },
+              { label: "Minimum Tax Credit", amount: calculation.minimumTaxCreditToNextYear },
+            ]
+              .filter(({ amount }) => amount > 0)
+              .map(({ label, amount }) => (
+                <div key={label} className="flex justify-between items-center py-2 border-b">
+                  <span className="text-gray-600">{label} Carrying to {taxReturn.taxYear + 1}</span>
+                  <span className="font-medium">${amount.toLocaleString()}</span>
+                </div>
+              ))}
+          </CardContent>
+        </Card>
+
+        {/* State Income Tax */}
+        {calculation.stateReturns.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <MapPin className="h-5 w-5" />
+                <span>State Income Tax</span>
+              </CardTitle>
+              <CardDescription>
+                A return for each state you lived in or earned wages in, figured from your federal adjusted gross income
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {calculation.stateReturns.map((stateReturn: any) => (
+                <div key={stateReturn.stateCode} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold">{stateReturn.stateName}</span>
+                    <Badge variant="outline">{residencyLabels[stateReturn.residency]}</Badge>
+                  </div>
+
+                  {stateReturn.unsupportedReason ? (
+                    <Alert>
+                      <AlertDescription>
+                        {stateReturn.unsupportedReason}, so you'll need to file this state return separately.
+                        {stateReturn.stateWithholding > 0 && ` Your W-2s show $${stateReturn.stateWithholding.toLocaleString()} of state tax withheld.`}
+                      </AlertDescription>
+                    </Alert>
+                  ) : !stateReturn.hasIncomeTax ? (
+                    <Alert>
+                      <AlertDescription>
+                        {stateReturn.stateName} does not tax wages or other income, so you don't need to file a state income tax return.
+                        {stateReturn.stateWithholding > 0 && " State tax withheld on your W-2 was probably reported in error; ask your employer for a refund."}
+                      </AlertDescription>
+                    </Alert>
+                  ) : (
+                    <div className="space-y-1">
+                      <div className="flex justify-between items-center py-2 border-b">
+                        <span className="text-gray-600">Federal Adjusted Gross Income</span>
+                        <span className="font-medium">${calculation.adjustedGrossIncome.toLocaleString()}</span>
+                      </div>
+                      {stateReturn.stateAdjustedGrossIncome !== calculation.adjustedGrossIncome && (
+                        <div className="flex justify-between items-center py-2 border-b">
+                          <div>
+                            <span className="text-gray-600">State Modifications</span>
+                            {calculation.socialSecurity.taxableBenefits > 0 && (
+                              <p className="text-xs text-gray-500">
+                                Includes the ${calculation.socialSecurity.taxableBenefits.toLocaleString()} of Social Security benefits the state doesn't tax
+                              </p>
+                            )}
+                          </div>
+                          <span className="font-medium">
+                            {stateReturn.stateAdjustedGrossIncome < calculation.adjustedGrossIncome ? "-" : "+"}
+                            ${Math.abs(stateReturn.stateAdjustedGrossIncome - calculation.adjustedGrossIncome).toLocaleString()}
+                          </span>
+                        </div>
+                      )}
+                      {stateReturn.deduction + stateReturn.exemptions > 0 && (
+                        <div className="flex justify-between items-center py-2 border-b">
+                          <span className="text-gray-600">
+                            {stateReturn.deduction > 0 ? "Standard Deduction" : "Exemptions"}
+                          </span>
+                          <span className="font-medium">
+                            -${(stateReturn.deduction + stateReturn.exemptions).toLocaleString()}
+                          </span>
+                        </div>
+                      )}
+                      <div className="flex justify-between items-center py-2 border-b font-medium">
+                        <span>State Taxable Income</span>
+                        <span>${stateReturn.taxableIncome.toLocaleString()}</span>
+                      </div>
+                      <div className="flex justify-between items-center py-2 border-b">
+                        <span className="text-gray-600">
+                          {stateReturn.allocationRatio < 1 ? "Tax as a Full-Year Resident" : "State Tax"}
+                        </span>
+                        <span className="font-medium">${stateReturn.tax.toLocaleString()}</span>
+                      </div>
+                      {stateReturn.credits > 0 && (
+                        <div className="flex justify-between items-center py-2 border-b">
+                          <span className="text-gray-600">Exemption Credits</span>
+                          <span className="font-medium text-green-600">-${stateReturn.credits.toLocaleString()}</span>
+                        </div>
+                      )}
+                      {stateReturn.allocationRatio < 1 && (
+                        <div className="flex justify-between items-center py-2 border-b">
+                          <div>
+                            <span className="text-gray-600">Tax on {stateReturn.stateCode} Income</span>
+                            <p className="text-xs text-gray-500">
+                              ${stateReturn.sourceIncome.toLocaleString()} of income is taxed by {stateReturn.stateName} ({(stateReturn.allocationRatio * 100).toFixed(2)}%)
+                              {stateReturn.residentDays > 0 && `; you lived there ${stateReturn.residentDays} days`}
+                            </p>
+                          </div>
+                          <span className="font-medium">${stateReturn.allocatedTax.toLocaleString()}</span>
+                        </div>
+                      )}
+                      {stateReturn.otherStateCredit > 0 && (
+                        <div className="flex justify-between items-center py-2 border-b">
+                          <span className="text-gray-600">Credit for Taxes Paid to Other States</span>
+                          <span className="font-medium text-green-600">-${stateReturn.otherStateCredit.toLocaleString()}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between items-center py-2 border-b">
+                        <div>
+                          <span className="text-gray-600">State Tax Withheld</span>
+                          <p className="text-xs text-gray-500">W-2 box 17</p>
+                        </div>
+                        <span className="font-medium text-green-600">-${stateReturn.stateWithholding.toLocaleString()}</span>
+                      </div>
+                      <div className="flex justify-between items-center py-3 bg-gray-50 rounded-lg px-4 font-bold">
+                        <span>{stateReturn.refundAmount > 0 ? "State Refund" : "State Amount You Owe"}</span>
+                        <span className={stateReturn.refundAmount > 0 ? "text-green-600" : "text-red-600"}>
+                          ${(stateReturn.refundAmount || stateReturn.amountOwed).toLocaleString()}
+                        </span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {homeStateReturn && homeStateReturn.hasIncomeTax && !homeStateReturn.unsupportedReason && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="stateAdditions">{homeStateReturn.stateCode} Additions</Label>
+                    <div className="relative">
+                      <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                      <Input
+                        id="stateAdditions"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={stateAdditions}
+                        onChange={(e) => setStateAdditions(e.target.value)}
+                        className="pl-10"
+                        placeholder="0.00"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Income the state taxes but the federal return doesn't, such as other states' municipal bond interest
+                    </p>
+                  </div>
+                  <div>
+                    <Label htmlFor="stateSubtractions">{homeStateReturn.stateCode} Subtractions</Label>
+                    <div className="relative">
+                      <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                      <Input
+                        id="stateSubtractions"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={stateSubtractions}
+                        onChange={(e) => setStateSubtractions(e.target.value)}
+                        className="pl-10"
+                        placeholder="0.00"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Income the state exempts, such as U.S. Treasury interest or retirement income. Social Security is subtracted for you.
+                    </p>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Tax Rates */}
         <Card>
           <CardHeader>
@@ -227,6 +958,11 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
           </CardContent>
         </Card>
 
+        {/* Next-Year Planning */}
+        {calculationInput && (
+          <NextYearPlanner calculationInput={calculationInput} calculation={calculation} />
+        )}
+
         <div className="flex justify-between">
           <Button type="button" variant="outline" onClick={onPrev}>
             <ArrowLeft className="mr-2 h-4 w-4" />
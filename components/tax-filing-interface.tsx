@@ -18,16 +18,20 @@ import {
   Calculator,
   Eye,
   Send,
-  Home
+  Home,
+  Users
 } from "lucide-react"
 
 // Import step components
 import { PersonalInfoStep } from "@/components/steps/personal-info-step"
+import { DependentsStep } from "@/components/steps/dependents-step"
 import { EnhancedIncomeStep } from "@/components/steps/enhanced-income-step"
 import { DeductionsStep } from "@/components/steps/deductions-step"
 import { TaxCalculationStep } from "@/components/steps/tax-calculation-step"
 import { ReviewStep } from "@/components/steps/review-step"
 import { FilingStep } from "@/components/steps/filing-step"
+import { PriorYearTaxSummary } from "@/lib/estimated-tax-penalty"
+import { TAX_FILING_STEP, TAX_FILING_STEPS } from "@/lib/tax-filing-steps"
 
 interface TaxFilingInterfaceProps {
   taxReturn: {
@@ -37,9 +41,13 @@ interface TaxFilingInterfaceProps {
     firstName: string | null
     lastName: string | null
     ssn: string | null
+    dateOfBirth: Date | null
+    isBlind: boolean
     spouseFirstName: string | null
     spouseLastName: string | null
     spouseSsn: string | null
+    spouseDateOfBirth: Date | null
+    spouseIsBlind: boolean
     address: string | null
     city: string | null
     state: string | null
@@ -64,61 +72,24 @@ interface TaxFilingInterfaceProps {
     createdAt: Date
     updatedAt: Date
   }
+  priorYear?: PriorYearTaxSummary | null
+  priorYearReturn?: any | null
 }
 
-const steps = [
-  {
-    id: 1,
-    title: "Getting Started",
-    description: "Basic information and filing status",
-    icon: User,
-    component: PersonalInfoStep
-  },
-  {
-    id: 2,
-    title: "Personal Information",
-    description: "Your details and contact information",
-    icon: User,
-    component: PersonalInfoStep
-  },
-  {
-    id: 3,
-    title: "Income",
-    description: "W-2s, 1099s, and other income sources",
-    icon: DollarSign,
-    component: EnhancedIncomeStep
-  },
-  {
-    id: 4,
-    title: "Deductions",
-    description: "Standard or itemized deductions",
-    icon: Receipt,
-    component: DeductionsStep
-  },
-  {
-    id: 5,
-    title: "Tax Calculation",
-    description: "Calculate your tax liability and credits",
-    icon: Calculator,
-    component: TaxCalculationStep
-  },
-  {
-    id: 6,
-    title: "Review",
-    description: "Review your complete tax return",
-    icon: Eye,
-    component: ReviewStep
-  },
-  {
-    id: 7,
-    title: "Filing",
-    description: "Submit your tax return",
-    icon: Send,
-    component: FilingStep
-  }
-]
+const stepDisplay: Record<number, { icon: typeof User, component: any }> = {
+  [TAX_FILING_STEP.GETTING_STARTED]: { icon: User, component: PersonalInfoStep },
+  [TAX_FILING_STEP.PERSONAL_INFORMATION]: { icon: User, component: PersonalInfoStep },
+  [TAX_FILING_STEP.DEPENDENTS]: { icon: Users, component: DependentsStep },
+  [TAX_FILING_STEP.INCOME]: { icon: DollarSign, component: EnhancedIncomeStep },
+  [TAX_FILING_STEP.DEDUCTIONS]: { icon: Receipt, component: DeductionsStep },
+  [TAX_FILING_STEP.CALCULATION]: { icon: Calculator, component: TaxCalculationStep },
+  [TAX_FILING_STEP.REVIEW]: { icon: Eye, component: ReviewStep },
+  [TAX_FILING_STEP.FILING]: { icon: Send, component: FilingStep }
+}
+
+const steps = TAX_FILING_STEPS.map(step => ({ ...step, ...stepDisplay[step.id] }))
 
-export function TaxFilingInterface({ taxReturn: initialTaxReturn }: TaxFilingInterfaceProps) {
+export function TaxFilingInterface({ taxReturn: initialTaxReturn, priorYear = null, priorYearReturn = null }: TaxFilingInterfaceProps) {
   const [taxReturn, setTaxReturn] = useState(initialTaxReturn)
   const [loading, setLoading] = useState(false)
   const [saving, setSaving] = useState(false)
@@ -386,6 +357,8 @@ export function TaxFilingInterface({ taxReturn: initialTaxReturn }: TaxFilingInt
               <CardContent>
                 <CurrentStepComponent
                   taxReturn={taxReturn}
+                  priorYear={priorYear}
+                  priorYearReturn={priorYearReturn}
                   onUpdate={updateTaxReturn}
                   onAutoSave={autoSave}
                   onCompleteStep={(data: any) => completeStepAndContinue(taxReturn.currentStep, data)}
@@ -0,0 +1,62 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import { BarChart3 } from "lucide-react"
+import { compareTaxReturns } from "@/lib/year-over-year"
+
+interface YearOverYearComparisonProps {
+  taxReturn: any
+  priorYearReturn: any
+}
+
+export function YearOverYearComparison({ taxReturn, priorYearReturn }: YearOverYearComparisonProps) {
+  const comparison = compareTaxReturns(taxReturn, priorYearReturn)
+
+  const formatAmount = (amount: number) =>
+    `${amount < 0 ? "-" : ""}$${Math.abs(amount).toLocaleString()}`
+
+  const formatChange = (change: number) =>
+    change === 0 ? "—" : `${change > 0 ? "+" : "-"}$${Math.abs(change).toLocaleString()}`
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <BarChart3 className="h-5 w-5" />
+          <span>Compared With {comparison.priorTaxYear}</span>
+        </CardTitle>
+        <CardDescription>
+          How this return differs from your {comparison.priorTaxYear} return, line by line
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="grid grid-cols-4 gap-2 text-sm font-medium text-gray-600">
+            <span />
+            <span className="text-right">{comparison.priorTaxYear}</span>
+            <span className="text-right">{comparison.taxYear}</span>
+            <span className="text-right">Change</span>
+          </div>
+          {comparison.sections.map((section, index) => (
+            <div key={section.title} className="space-y-2">
+              {index > 0 && <Separator />}
+              <h4 className="font-medium">{section.title}</h4>
+              {section.lines.map((line) => (
+                <div
+                  key={line.label}
+                  className={`grid grid-cols-4 gap-2 text-sm ${line.isTotal ? "font-medium" : ""}`}
+                >
+                  <span className={line.isTotal ? "" : "text-gray-600"}>{line.label}</span>
+                  <span className="text-right">{formatAmount(line.prior)}</span>
+                  <span className="text-right">{formatAmount(line.current)}</span>
+                  <span className="text-right text-gray-600">{formatChange(line.change)}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
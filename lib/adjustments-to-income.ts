@@ -0,0 +1,169 @@
+// Schedule 1 Part II adjustments to income, subtracted from total income to arrive at AGI
+
+import { DEFAULT_TAX_YEAR, getTaxYearRules, normalizeFilingStatus } from './tax-year-rules'
+
+// Deduction types entered in the deductions step that are adjustments rather than itemized deductions
+export const ADJUSTMENT_DEDUCTION_TYPES = [
+  'EDUCATOR_EXPENSES',
+  'HSA_CONTRIBUTIONS',
+  'SELF_EMPLOYED_HEALTH_INSURANCE',
+  'IRA_CONTRIBUTIONS',
+  'STUDENT_LOAN_INTEREST',
+]
+
+// Ages at which IRA and HSA catch-up contributions are allowed
+const IRA_CATCH_UP_AGE = 50
+const HSA_CATCH_UP_AGE = 55
+
+// Married filing separately filers covered by a workplace plan lose the IRA deduction over $0-$10,000 MAGI
+const IRA_PHASE_OUT_MARRIED_SEPARATE_END = 10000
+
+// A partially phased-out IRA deduction is rounded up to $10 and is never less than $200
+const IRA_PHASE_OUT_ROUNDING = 10
+const IRA_PHASE_OUT_MINIMUM = 200
+
+export interface AdjustmentLine {
+  entered: number
+  allowed: number
+}
+
+export interface AdjustmentsToIncomeInput {
+  deductionEntries: any[]
+  totalIncome: number // Income before adjustments, used for MAGI
+  filingStatus: string
+  taxYear?: number
+  selfEmploymentTaxDeduction: number // Deductible part of SE tax from Schedule SE
+  selfEmploymentIncome: number // Net profit, which limits the SE health insurance deduction
+  compensation: number // Wages and self-employment earnings, which limit IRA contributions
+  coveredByRetirementPlan: boolean // Any W-2 with box 13 retirement plan checked
+  taxpayerAge?: number | null
+  spouseAge?: number | null
+}
+
+export interface AdjustmentsToIncomeResult {
+  educatorExpenses: AdjustmentLine // Line 11
+  hsaDeduction: AdjustmentLine // Line 13
+  selfEmploymentTaxDeduction: number // Line 15
+  selfEmployedHealthInsurance: AdjustmentLine // Line 17
+  iraDeduction: AdjustmentLine // Line 20
+  studentLoanInterest: AdjustmentLine // Line 21
+  total: number // Line 26
+}
+
+export function calculateAdjustmentsToIncome(input: AdjustmentsToIncomeInput): AdjustmentsToIncomeResult {
+  const taxYear = input.taxYear || DEFAULT_TAX_YEAR
+  const rules = getTaxYearRules(taxYear)
+  const limits = rules.contributionLimits
+  const status = normalizeFilingStatus(input.filingStatus)
+  const joint = status === 'marriedfilingjointly'
+  const entries = input.deductionEntries || []
+
+  const sumEntries = (deductionType: string, forSpouse?: boolean) => roundToCents(entries
+    .filter((entry: any) => entry.deductionType === deductionType)
+    .filter((entry: any) => forSpouse === undefined || Boolean(entry.forSpouse) === forSpouse)
+    .reduce((sum: number, entry: any) => sum + (parseFloat(entry.amount) || 0), 0))
+
+  // Limits that apply to each spouse separately; spouse entries only count on joint returns
+  const perPerson = (deductionType: string, limitFor: (age: number | null | undefined, forSpouse: boolean) => number) => {
+    const taxpayer = Math.min(sumEntries(deductionType, false), limitFor(input.taxpayerAge, false))
+    const spouse = joint ? Math.min(sumEntries(deductionType, true), limitFor(input.spouseAge, true)) : 0
+    return roundToCents(taxpayer + spouse)
+  }
+
+  // Educator expenses up to the limit per eligible educator
+  const educatorEntered = sumEntries('EDUCATOR_EXPENSES')
+  const educatorAllowed = perPerson('EDUCATOR_EXPENSES', () => limits.educatorExpenses)
+
+  // HSA contributions up to the self-only or family limit, plus catch-up at 55
+  const hsaEntered = sumEntries('HSA_CONTRIBUTIONS')
+  const hsaAllowed = perPerson('HSA_CONTRIBUTIONS', (age, forSpouse) => {
+    const familyCoverage = entries.some((entry: any) =>
+      entry.deductionType === 'HSA_CONTRIBUTIONS' && Boolean(entry.forSpouse) === forSpouse && entry.hsaFamilyCoverage
+    )
+    const catchUp = (age ?? 0) >= HSA_CATCH_UP_AGE ? limits.hsaCatchUp : 0
+    return (familyCoverage ? limits.hsaFamily : limits.hsaSelfOnly) + catchUp
+  })
+
+  const selfEmploymentTaxDeduction = roundToCents(input.selfEmploymentTaxDeduction)
+
+  // Self-employed health insurance cannot exceed net profit less the deductible part of SE tax
+  const healthInsuranceEntered = sumEntries('SELF_EMPLOYED_HEALTH_INSURANCE')
+  const healthInsuranceAllowed = roundToCents(Math.min(
+    healthInsuranceEntered,
+    Math.max(0, input.selfEmploymentIncome - selfEmploymentTaxDeduction)
+  ))
+
+  const otherAdjustments = educatorAllowed + hsaAllowed + selfEmploymentTaxDeduction + healthInsuranceAllowed
+
+  // Traditional IRA: MAGI excludes the IRA and student loan interest deductions
+  const iraMagi = input.totalIncome - otherAdjustments
+  const iraEntered = sumEntries('IRA_CONTRIBUTIONS')
+  let remainingCompensation = Math.max(0, input.compensation)
+  const iraAllowed = perPerson('IRA_CONTRIBUTIONS', (age) => {
+    const contributionLimit = Math.min(
+      limits.ira + ((age ?? 0) >= IRA_CATCH_UP_AGE ? limits.iraCatchUp : 0),
+      remainingCompensation
+    )
+    remainingCompensation = Math.max(0, remainingCompensation - contributionLimit)
+    return getIraDeductionLimit(contributionLimit, iraMagi, status, input.coveredByRetirementPlan, taxYear)
+  })
+
+  // Student loan interest: not allowed when married filing separately
+  const studentLoanEntered = sumEntries('STUDENT_LOAN_INTEREST')
+  let studentLoanAllowed = 0
+  if (status !== 'marriedfilingseparately') {
+    const capped = Math.min(studentLoanEntered, limits.studentLoanInterest)
+    const phaseOut = rules.studentLoanInterestPhaseOut
+    const start = joint ? phaseOut.jointStart : phaseOut.start
+    const end = joint ? phaseOut.jointEnd : phaseOut.end
+    const magi = iraMagi - iraAllowed
+    const fraction = Math.min(1, Math.max(0, (magi - start) / (end - start)))
+    studentLoanAllowed = roundToCents(capped - capped * fraction)
+  }
+
+  return {
+    educatorExpenses: { entered: educatorEntered, allowed: educatorAllowed },
+    hsaDeduction: { entered: hsaEntered, allowed: hsaAllowed },
+    selfEmploymentTaxDeduction,
+    selfEmployedHealthInsurance: { entered: healthInsuranceEntered, allowed: healthInsuranceAllowed },
+    iraDeduction: { entered: iraEntered, allowed: iraAllowed },
+    studentLoanInterest: { entered: studentLoanEntered, allowed: studentLoanAllowed },
+    total: roundToCents(otherAdjustments + iraAllowed + studentLoanAllowed),
+  }
+}
+
+// Deductible IRA contribution limit after the workplace-plan phase-out.
+// Box 13 coverage on any W-2 is applied to both spouses; the higher range for a spouse who is not covered is not used.
+export function getIraDeductionLimit(
+  contributionLimit: number,
+  modifiedAGI: number,
+  filingStatus: string,
+  coveredByRetirementPlan: boolean,
+  taxYear: number = DEFAULT_TAX_YEAR
+): number {
+  if (!coveredByRetirementPlan || contributionLimit <= 0) {
+    return Math.max(0, contributionLimit)
+  }
+
+  const phaseOut = getTaxYearRules(taxYear).iraDeductionPhaseOut
+  const status = normalizeFilingStatus(filingStatus)
+  const [start, end] = status === 'marriedfilingjointly' || status === 'qualifyingsurvivingspouse'
+    ? [phaseOut.jointStart, phaseOut.jointEnd]
+    : status === 'marriedfilingseparately'
+      ? [0, IRA_PHASE_OUT_MARRIED_SEPARATE_END]
+      : [phaseOut.start, phaseOut.end]
+
+  if (modifiedAGI <= start) {
+    return contributionLimit
+  }
+  if (modifiedAGI >= end) {
+    return 0
+  }
+
+  const reduced = Math.ceil(contributionLimit * (end - modifiedAGI) / (end - start) / IRA_PHASE_OUT_ROUNDING) * IRA_PHASE_OUT_ROUNDING
+  return Math.min(contributionLimit, Math.max(IRA_PHASE_OUT_MINIMUM, reduced))
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
@@ -0,0 +1,131 @@
+// Form 6251 (Alternative Minimum Tax—Individuals)
+
+import { DEFAULT_TAX_YEAR, getTaxYearRules, normalizeFilingStatus } from './tax-year-rules'
+
+// The exemption is reduced by 25 cents for each dollar of AMTI over the phase-out threshold
+const EXEMPTION_PHASE_OUT_RATE = 0.25
+
+const LOWER_AMT_RATE = 0.26
+const HIGHER_AMT_RATE = 0.28
+
+export interface AlternativeMinimumTaxInput {
+  taxableIncomeBeforeLimit: number // Form 1040 line 11 minus line 14, which may be negative
+  itemized: boolean
+  standardDeduction: number
+  stateAndLocalTaxes: number // Schedule A line 7 when itemizing
+  incentiveStockOptions: number // Line 2i: bargain element of ISOs exercised and held at year end
+  regularTax: number // Form 1040 line 16
+  taxableIncome: number // Form 1040 line 15, used by Part III
+  qualifiedDividends: number
+  netCapitalGain: number
+  filingStatus: string
+  taxYear?: number
+}
+
+export interface AlternativeMinimumTaxResult {
+  adjustments: number // Lines 2a-3
+  alternativeMinimumTaxableIncome: number // Line 4
+  exemption: number // Line 5
+  amtBase: number // Line 6
+  tentativeMinimumTax: number // Line 9
+  regularTax: number // Line 10
+  alternativeMinimumTax: number // Line 11, Schedule 2 line 1
+}
+
+export function calculateAlternativeMinimumTax(input: AlternativeMinimumTaxInput): AlternativeMinimumTaxResult {
+  const taxYear = input.taxYear || DEFAULT_TAX_YEAR
+  const rules = getTaxYearRules(taxYear).alternativeMinimumTax
+  const status = normalizeFilingStatus(input.filingStatus)
+
+  if (rules.exemption[status] === undefined) {
+    throw new Error(`Invalid filing status: ${input.filingStatus}`)
+  }
+
+  // Part I: taxes (or the standard deduction) are not deductible for AMT
+  const adjustments = roundToCents(
+    (input.itemized ? Math.max(0, input.stateAndLocalTaxes) : Math.max(0, input.standardDeduction))
+    + Math.max(0, input.incentiveStockOptions)
+  )
+  let alternativeMinimumTaxableIncome = roundToCents(input.taxableIncomeBeforeLimit + adjustments)
+
+  // Part II: exemption, reduced above the phase-out threshold
+  const exemptionAmount = rules.exemption[status]
+  const threshold = rules.phaseOutThreshold[status]
+
+  // Married filing separately adds back part of the exemption once it is fully phased out (line 4 instructions)
+  if (status === 'marriedfilingseparately') {
+    const fullyPhasedOut = threshold + exemptionAmount / EXEMPTION_PHASE_OUT_RATE
+    if (alternativeMinimumTaxableIncome > fullyPhasedOut) {
+      alternativeMinimumTaxableIncome = roundToCents(alternativeMinimumTaxableIncome + Math.min(
+        exemptionAmount,
+        (alternativeMinimumTaxableIncome - fullyPhasedOut) * EXEMPTION_PHASE_OUT_RATE
+      ))
+    }
+  }
+
+  const exemption = roundToCents(Math.max(0,
+    exemptionAmount - Math.max(0, alternativeMinimumTaxableIncome - threshold) * EXEMPTION_PHASE_OUT_RATE
+  ))
+  const amtBase = roundToCents(Math.max(0, alternativeMinimumTaxableIncome - exemption))
+
+  const higherRateThreshold = status === 'marriedfilingseparately'
+    ? rules.higherRateThresholdMarriedSeparate
+    : rules.higherRateThreshold
+  const preferentialIncome = Math.max(0, input.qualifiedDividends) + Math.max(0, input.netCapitalGain)
+
+  const tentativeMinimumTax = roundToCents(preferentialIncome > 0 && amtBase > 0
+    ? calculatePartIII(amtBase, preferentialIncome, input, higherRateThreshold, taxYear)
+    : calculateAmtAtRegularRates(amtBase, higherRateThreshold))
+  const regularTax = roundToCents(Math.max(0, input.regularTax))
+
+  return {
+    adjustments,
+    alternativeMinimumTaxableIncome,
+    exemption,
+    amtBase,
+    tentativeMinimumTax,
+    regularTax,
+    alternativeMinimumTax: roundToCents(Math.max(0, tentativeMinimumTax - regularTax)),
+  }
+}
+
+// 26% of the AMT base up to the threshold and 28% above it (line 7)
+function calculateAmtAtRegularRates(amount: number, higherRateThreshold: number): number {
+  if (amount <= higherRateThreshold) {
+    return amount * LOWER_AMT_RATE
+  }
+  return amount * HIGHER_AMT_RATE - higherRateThreshold * (HIGHER_AMT_RATE - LOWER_AMT_RATE)
+}
+
+// Part III: qualified dividends and net capital gain keep their 0/15/20% rates under the AMT
+function calculatePartIII(
+  amtBase: number,
+  preferentialIncome: number,
+  input: AlternativeMinimumTaxInput,
+  higherRateThreshold: number,
+  taxYear: number
+): number {
+  const status = normalizeFilingStatus(input.filingStatus)
+  const { zeroRateMax, fifteenRateMax } = getTaxYearRules(taxYear).capitalGains
+
+  const preferential = Math.min(preferentialIncome, amtBase) // Line 13
+  const ordinaryTax = calculateAmtAtRegularRates(amtBase - preferential, higherRateThreshold) // Line 18
+
+  // Regular-tax ordinary income (Qualified Dividends and Capital Gain Tax Worksheet line 5) fills the lower brackets first
+  const regularOrdinaryIncome = Math.max(0, input.taxableIncome - preferentialIncome)
+  const zeroRateRoom = Math.max(0, zeroRateMax[status] - regularOrdinaryIncome) // Line 21
+  const taxedAtZero = Math.min(zeroRateRoom, preferential) // Line 23
+  const fifteenRateRoom = Math.max(0, fifteenRateMax[status] - (zeroRateRoom + regularOrdinaryIncome)) // Line 29
+  const taxedAtFifteen = Math.min(preferential - taxedAtZero, fifteenRateRoom) // Line 30
+  const taxedAtTwenty = preferential - taxedAtZero - taxedAtFifteen // Line 33
+
+  // Line 42: never more than the tax at AMT rates on the whole base
+  return Math.min(
+    ordinaryTax + taxedAtFifteen * 0.15 + taxedAtTwenty * 0.20,
+    calculateAmtAtRegularRates(amtBase, higherRateThreshold)
+  )
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
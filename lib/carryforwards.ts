@@ -0,0 +1,116 @@
+// Carryforward ledger: capital losses, charitable contributions, net operating losses and the minimum tax
+// credit that a finalized return carries into the next year
+
+import { buildTaxCalculationInput, calculateTaxReturn } from './tax-calculations'
+import { CarryforwardType } from './types'
+
+// Contributions over the AGI limits can be deducted in the five following years
+const CHARITABLE_CARRYFORWARD_YEARS = 5
+
+export interface CarryforwardLine {
+  carryforwardType: CarryforwardType
+  originTaxYear: number // Year the loss, excess contribution or credit arose
+  amount: number
+}
+
+// Return field each carryforward is applied through in the year it is available
+export const CARRYFORWARD_FIELDS = {
+  SHORT_TERM_CAPITAL_LOSS: 'shortTermLossCarryover',
+  LONG_TERM_CAPITAL_LOSS: 'longTermLossCarryover',
+  CHARITABLE_CONTRIBUTION: 'charitableCarryforward',
+  NET_OPERATING_LOSS: 'netOperatingLossCarryforward',
+  MINIMUM_TAX_CREDIT: 'minimumTaxCreditCarryforward',
+} as const satisfies Record<CarryforwardType, string>
+
+export type CarryforwardAmounts = Record<typeof CARRYFORWARD_FIELDS[CarryforwardType], number>
+
+const CARRYFORWARD_TYPES = Object.keys(CARRYFORWARD_FIELDS) as CarryforwardType[]
+
+// Totals of the ledger lines available in a year, keyed by the return field that uses them
+export function getCarryforwardAmounts(lines: { carryforwardType: string, amount: any }[]): CarryforwardAmounts {
+  return Object.fromEntries(CARRYFORWARD_TYPES.map((type) => [
+    CARRYFORWARD_FIELDS[type],
+    roundToCents((lines || [])
+      .filter((line) => line.carryforwardType === type)
+      .reduce((sum, line) => sum + (Number(line.amount) || 0), 0)),
+  ])) as CarryforwardAmounts
+}
+
+// Lines a finalized return carries into the next year. `available` holds the ledger lines the return could use;
+// the amounts on the return win when they were edited, with any difference treated as arising the year before.
+// Carryforwards are used oldest first, and charitable contributions more than five years old drop off.
+export function calculateCarryforwardsToNextYear(
+  taxReturn: any,
+  available: { carryforwardType: string, originTaxYear: number, amount: any }[] = []
+): CarryforwardLine[] {
+  const taxYear = taxReturn.taxYear
+  const { input, scheduleD } = buildTaxCalculationInput(taxReturn)
+  const result = calculateTaxReturn(input)
+  const charitable = result.scheduleA ? result.scheduleA.charitableContributions : null
+
+  // Amount each carryforward leaves for next year, and how much of this year's carryforward was used
+  const carried: Record<CarryforwardType, { toNextYear: number, used: number | null }> = {
+    SHORT_TERM_CAPITAL_LOSS: { toNextYear: scheduleD.shortTermCarryoverToNextYear, used: null },
+    LONG_TERM_CAPITAL_LOSS: { toNextYear: scheduleD.longTermCarryoverToNextYear, used: null },
+    CHARITABLE_CONTRIBUTION: {
+      toNextYear: charitable ? charitable.carryforwardToNextYear : 0,
+      used: charitable ? charitable.carryforwardUsed : null,
+    },
+    NET_OPERATING_LOSS: { toNextYear: result.netOperatingLossToNextYear, used: result.netOperatingLossDeduction },
+    MINIMUM_TAX_CREDIT: { toNextYear: result.minimumTaxCreditToNextYear, used: result.minimumTaxCredit },
+  }
+
+  return CARRYFORWARD_TYPES.flatMap((type) => {
+    const amountAvailable = Math.max(0, Number(taxReturn[CARRYFORWARD_FIELDS[type]]) || 0)
+    const lines = reconcileLines(
+      available.filter((line) => line.carryforwardType === type),
+      amountAvailable,
+      taxYear - 1
+    )
+
+    // Without a separate figure for the amount used (Schedule D combines last year's carryover with this year's
+    // loss), only the net change is known
+    const { toNextYear } = carried[type]
+    const used = carried[type].used ?? Math.max(0, amountAvailable - toNextYear)
+    const arising = roundToCents(Math.max(0, toNextYear - (amountAvailable - used)))
+
+    let remainingUse = used
+    const next: CarryforwardLine[] = []
+    lines.forEach((line) => {
+      const applied = Math.min(line.amount, remainingUse)
+      remainingUse -= applied
+      next.push({ carryforwardType: type, originTaxYear: line.originTaxYear, amount: roundToCents(line.amount - applied) })
+    })
+    next.push({ carryforwardType: type, originTaxYear: taxYear, amount: arising })
+
+    return next.filter((line) => line.amount > 0 && !(
+      type === 'CHARITABLE_CONTRIBUTION' && line.originTaxYear + CHARITABLE_CARRYFORWARD_YEARS < taxYear + 1
+    ))
+  })
+}
+
+// Ledger lines matched to the amount on the return, oldest first. Older lines are dropped first when the
+// return has less; any extra is added as arising in the fallback year.
+function reconcileLines(
+  lines: { originTaxYear: number, amount: any }[],
+  amount: number,
+  fallbackOriginTaxYear: number
+): { originTaxYear: number, amount: number }[] {
+  let remaining = amount
+  const matched: { originTaxYear: number, amount: number }[] = []
+  ;[...lines]
+    .sort((a, b) => b.originTaxYear - a.originTaxYear)
+    .forEach((line) => {
+      const kept = Math.min(Number(line.amount) || 0, remaining)
+      remaining -= kept
+      if (kept > 0) matched.push({ originTaxYear: line.originTaxYear, amount: kept })
+    })
+  if (remaining > 0) {
+    matched.push({ originTaxYear: fallbackOriginTaxYear, amount: roundToCents(remaining) })
+  }
+  return matched.sort((a, b) => a.originTaxYear - b.originTaxYear)
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
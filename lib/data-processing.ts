@@ -1,7 +1,10 @@
 
 import * as XLSX from 'xlsx'
 import Papa from 'papaparse'
-import { CsvRowData, ExcelRowData, FileProcessingResult, IncomeType, DocumentType } from './types'
+import { CsvRowData, ExcelRowData, FileProcessingResult, IncomeType, DocumentType, HoldingPeriod } from './types'
+import { determineHoldingPeriod } from './schedule-d'
+import { findStudentDependent } from './education-credits'
+import { normalizeStateCode } from './state-tax'
 
 export interface UploadResult extends FileProcessingResult {
   preview?: CsvRowData[] | ExcelRowData[]
@@ -318,17 +321,45 @@ export function mapOCRFieldsToStandard(data: any): any {
     'dividendIncome': 'dividendIncome',
     'dividend_income': 'dividendIncome',
     'dividends': 'dividendIncome',
+    'qualifiedDividends': 'qualifiedDividends',
+    'qualified_dividends': 'qualifiedDividends',
+    'taxExemptInterest': 'taxExemptInterest',
+    'tax_exempt_interest': 'taxExemptInterest',
+    'netBenefits': 'netBenefits',
+    'net_benefits': 'netBenefits',
+    'paymentsReceived': 'paymentsReceived',
+    'payments_received': 'paymentsReceived',
+    'scholarshipsOrGrants': 'scholarshipsOrGrants',
+    'scholarships_or_grants': 'scholarshipsOrGrants',
     'nonemployeeCompensation': 'nonemployeeCompensation',
     'nonemployee_compensation': 'nonemployeeCompensation',
+    'socialSecurityWages': 'socialSecurityWages',
+    'social_security_wages': 'socialSecurityWages',
+    'medicareWages': 'medicareWages',
+    'medicare_wages': 'medicareWages',
+    'retirementPlan': 'retirementPlan',
+    'retirement_plan': 'retirementPlan',
     
     // Tax withholdings
     'federalTaxWithheld': 'federalTaxWithheld',
     'federal_tax_withheld': 'federalTaxWithheld',
     'federal_withholding': 'federalTaxWithheld',
+    'federalIncomeTaxWithheld': 'federalTaxWithheld',
+    'federal_income_tax_withheld': 'federalTaxWithheld',
     'socialSecurityTaxWithheld': 'socialSecurityTaxWithheld',
     'social_security_tax_withheld': 'socialSecurityTaxWithheld',
     'medicareTaxWithheld': 'medicareTaxWithheld',
-    'medicare_tax_withheld': 'medicareTaxWithheld'
+    'medicare_tax_withheld': 'medicareTaxWithheld',
+    'dependentCareBenefits': 'dependentCareBenefits',
+    'dependent_care_benefits': 'dependentCareBenefits',
+    'stateCode': 'stateCode',
+    'state_code': 'stateCode',
+    'stateWages': 'stateWages',
+    'state_wages': 'stateWages',
+    'stateTaxWithheld': 'stateTaxWithheld',
+    'state_tax_withheld': 'stateTaxWithheld',
+    'stateIncomeTax': 'stateTaxWithheld',
+    'state_income_tax': 'stateTaxWithheld'
   }
   
   const mappedData: any = {}
@@ -409,10 +440,9 @@ export function validateFormData(
               break
               
             case 'boolean':
-              processedValue = Boolean(value) || 
-                String(value).toLowerCase() === 'true' || 
-                String(value).toLowerCase() === 'yes' || 
-                String(value) === '1'
+              // Broker exports use "No"/"False" for unchecked boxes, so only explicit values count as true
+              processedValue = value === true || 
+                ['true', 'yes', 'y', 'x', '1'].includes(String(value).trim().toLowerCase())
               break
               
             case 'text':
@@ -467,6 +497,7 @@ export function convertToIncomeEntries(
       incomeType: getIncomeTypeFromForm(formType),
       description: `Imported from ${formType}`,
       amount: 0,
+      federalTaxWithheld: Number(data.federalIncomeTaxWithheld) || 0,
       payerName: (data.payerName as string) || (data.employerName as string) || '',
       payerTIN: (data.payerTIN as string) || (data.employerEIN as string) || '',
       employerName: (data.employerName as string) || '',
@@ -480,6 +511,19 @@ export function convertToIncomeEntries(
           ...baseEntry,
           incomeType: 'W2_WAGES' as IncomeType,
           amount: Number(data.wages) || 0,
+          socialSecurityWages: data.socialSecurityWages ? Number(data.socialSecurityWages) : null,
+          medicareWages: data.medicareWages ? Number(data.medicareWages) : null,
+          retirementPlan: Boolean(data.retirementPlan),
+          socialSecurityTaxWithheld: data.socialSecurityTaxWithheld ? Number(data.socialSecurityTaxWithheld) : null,
+          medicareTaxWithheld: data.medicareTaxWithheld ? Number(data.medicareTaxWithheld) : null,
+          dependentCareBenefits: data.dependentCareBenefits ? Number(data.dependentCareBenefits) : null,
+          stateLines: data.stateCode
+            ? [{
+                stateCode: normalizeStateCode(String(data.stateCode)),
+                stateWages: Number(data.stateWages) || 0,
+                stateTaxWithheld: Number(data.stateIncomeTax) || 0
+              }]
+            : [],
           employerName: (data.employerName as string) || '',
           employerEIN: (data.employerEIN as string) || ''
         }
@@ -498,6 +542,7 @@ export function convertToIncomeEntries(
           ...baseEntry,
           incomeType: 'INTEREST' as IncomeType,
           amount: Number(data.interestIncome) || 0,
+          taxExemptInterest: data.taxExemptInterest ? Number(data.taxExemptInterest) : null,
           payerName: (data.payerName as string) || '',
           payerTIN: (data.payerTIN as string) || ''
         }
@@ -507,10 +552,21 @@ export function convertToIncomeEntries(
           ...baseEntry,
           incomeType: 'DIVIDENDS' as IncomeType,
           amount: Number(data.totalOrdinaryDividends) || 0,
+          qualifiedDividends: data.qualifiedDividends ? Number(data.qualifiedDividends) : null,
           payerName: (data.payerName as string) || '',
           payerTIN: (data.payerTIN as string) || ''
         }
         
+      case 'SSA_1099':
+        return {
+          ...baseEntry,
+          incomeType: 'SOCIAL_SECURITY' as IncomeType,
+          description: 'Social Security benefits (SSA-1099)',
+          amount: Number(data.netBenefits) || 0,
+          federalTaxWithheld: Number(data.voluntaryFederalIncomeTaxWithheld) || 0,
+          payerName: 'Social Security Administration'
+        }
+        
       default:
         return {
           ...baseEntry,
@@ -520,6 +576,117 @@ export function convertToIncomeEntries(
   })
 }
 
+// Convert 1099-B rows to Form 8949 capital transactions
+export function convertToCapitalTransactions(
+  processedData: (CsvRowData | ExcelRowData)[],
+  taxReturnId: string,
+  uploadId?: string | null
+) {
+  return processedData.map(data => {
+    const dateAcquired = data.dateAcquired ? toDate(data.dateAcquired) : null
+    const dateSold = toDate(data.dateSold)
+    const termType = String(data.termType || '').toLowerCase()
+    const holdingPeriod: HoldingPeriod = termType.includes('long')
+      ? 'LONG_TERM'
+      : termType.includes('short')
+        ? 'SHORT_TERM'
+        : determineHoldingPeriod(dateAcquired, dateSold)
+
+    // Box 12 marks covered securities; box 5 marks noncovered ones
+    const isCovered = data.basisReportedToIRS !== undefined && data.basisReportedToIRS !== null
+      ? Boolean(data.basisReportedToIRS)
+      : !data.noncoveredSecurity
+
+    return {
+      taxReturnId,
+      uploadId: uploadId || null,
+      brokerName: (data.payerName as string) || null,
+      description: String(data.description),
+      dateAcquired,
+      dateSold,
+      proceeds: Number(data.proceeds) || 0,
+      costBasis: Number(data.costBasis) || 0,
+      washSaleAdjustment: Number(data.washSaleLossDisallowed) || 0,
+      accruedMarketDiscount: Number(data.accruedMarketDiscount) || 0,
+      holdingPeriod,
+      isCovered,
+      reportedOn1099B: true
+    }
+  })
+}
+
+// Income entries for the parts of 1099-B rows that are not capital gains, one per broker: accrued market discount
+// (box 1f) is interest income, and federal income tax withheld (box 4) is a payment on the return
+export function convertToBrokerIncomeEntries(
+  processedData: (CsvRowData | ExcelRowData)[],
+  taxReturnId: string
+) {
+  const brokers = new Map<string, { payerName: string, payerTIN: string, marketDiscount: number, withheld: number }>()
+  for (const data of processedData) {
+    const marketDiscount = Number(data.accruedMarketDiscount) || 0
+    const withheld = Number(data.federalIncomeTaxWithheld) || 0
+    if (marketDiscount === 0 && withheld === 0) continue
+
+    const payerName = (data.payerName as string) || ''
+    const payerTIN = (data.payerTIN as string) || ''
+    const key = payerTIN || payerName
+    const broker = brokers.get(key) || { payerName, payerTIN, marketDiscount: 0, withheld: 0 }
+    broker.marketDiscount += marketDiscount
+    broker.withheld += withheld
+    brokers.set(key, broker)
+  }
+
+  // Withholding on sales without market discount has no income of its own to attach to
+  return Array.from(brokers.values()).map(broker => ({
+    taxReturnId,
+    incomeType: (broker.marketDiscount > 0 ? 'INTEREST' : 'PROCEEDS_FROM_BROKER') as IncomeType,
+    description: broker.marketDiscount > 0
+      ? 'Accrued market discount (1099-B box 1f)'
+      : 'Federal income tax withheld on broker sales (1099-B box 4)',
+    amount: roundToCents(broker.marketDiscount),
+    federalTaxWithheld: roundToCents(broker.withheld),
+    payerName: broker.payerName,
+    payerTIN: broker.payerTIN
+  }))
+}
+
+// Date fields are Date objects once validated; rows that skipped validation still hold the original text
+function toDate(value: string | number | Date): Date {
+  return value instanceof Date ? value : new Date(value)
+}
+
+// Convert 1098-T rows to Form 8863 students, linking each to a dependent with the same name
+export function convertToEducationStudents(
+  processedData: (CsvRowData | ExcelRowData)[],
+  taxReturnId: string,
+  uploadId?: string | null,
+  dependents: any[] = []
+) {
+  return processedData.map(data => {
+    const studentName = String(data.studentName)
+    const dependent = findStudentDependent(studentName, dependents)
+
+    // Prior-year adjustments (boxes 4 and 6) belong to the earlier return and are not netted here
+    return {
+      taxReturnId,
+      uploadId: uploadId || null,
+      dependentId: dependent?.id || null,
+      studentName,
+      studentSsn: (data.studentTIN as string) || null,
+      institutionName: String(data.filerName),
+      institutionEin: (data.filerEIN as string) || null,
+      qualifiedExpenses: Number(data.paymentsReceived) || 0,
+      scholarships: Number(data.scholarshipsOrGrants) || 0,
+      // Graduate students are past their first four years and can only claim the lifetime learning credit
+      creditType: data.graduateStudent ? 'LIFETIME_LEARNING' as const : 'AMERICAN_OPPORTUNITY' as const,
+      isHalfTimeStudent: data.atLeastHalfTime !== undefined && data.atLeastHalfTime !== null
+        ? Boolean(data.atLeastHalfTime)
+        : true,
+      isGraduateStudent: Boolean(data.graduateStudent)
+    }
+  })
+}
+
 function getIncomeTypeFromForm(formType: DocumentType): IncomeType {
   const mapping: Record<DocumentType, IncomeType> = {
     'W2': 'W2_WAGES',
@@ -531,7 +698,7 @@ function getIncomeTypeFromForm(formType: DocumentType): IncomeType {
     'FORM_1099_DIV': 'DIVIDENDS',
     'FORM_1099_G': 'UNEMPLOYMENT',
     'FORM_1099_R': 'RETIREMENT_DISTRIBUTIONS',
-    'FORM_1099_K': 'OTHER_INCOME',
+    'FORM_1099_K': 'THIRD_PARTY_NETWORK_PAYMENTS',
     'FORM_1099_B': 'PROCEEDS_FROM_BROKER',
     'FORM_1099_S': 'PROCEEDS_FROM_REAL_ESTATE',
     'FORM_1099_A': 'ACQUISITION_ABANDONMENT_SECURED_PROPERTY',
@@ -544,6 +711,7 @@ function getIncomeTypeFromForm(formType: DocumentType): IncomeType {
     'FORM_1098_E': 'OTHER_INCOME',
     'FORM_1098_T': 'OTHER_INCOME',
     'FORM_5498': 'OTHER_INCOME',
+    'SSA_1099': 'SOCIAL_SECURITY',
     'SCHEDULE_K1': 'BUSINESS_INCOME',
     'OTHER_TAX_DOCUMENT': 'OTHER_INCOME',
     'RECEIPT': 'OTHER_INCOME',
@@ -553,3 +721,7 @@ function getIncomeTypeFromForm(formType: DocumentType): IncomeType {
   
   return mapping[formType] || 'OTHER_INCOME'
 }
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
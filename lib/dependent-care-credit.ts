@@ -0,0 +1,183 @@
+// Form 2441 (Child and Dependent Care Expenses)
+
+import { getAgeAtEndOfYear } from './tax-calculations'
+import { DEFAULT_TAX_YEAR, normalizeFilingStatus } from './tax-year-rules'
+
+// Qualified expenses are limited to $3,000 for one qualifying person and $6,000 for two or more (line 3)
+const EXPENSE_LIMIT_ONE_PERSON = 3000
+const EXPENSE_LIMIT_TWO_OR_MORE = 6000
+
+// Employer-provided benefits excluded from income (line 21)
+const BENEFIT_EXCLUSION_LIMIT = 5000
+const BENEFIT_EXCLUSION_LIMIT_MARRIED_SEPARATE = 2500
+
+// Line 8: 35%, less 1% for each $2,000 (or part) of AGI over $15,000, but not below 20%
+const MAXIMUM_CREDIT_RATE = 0.35
+const MINIMUM_CREDIT_RATE = 0.2
+const RATE_REDUCTION_START = 15000
+const RATE_REDUCTION_STEP = 2000
+const RATE_REDUCTION_PER_STEP = 0.01
+
+// Care for a dependent only counts while they are under 13, unless they cannot care for themselves
+const QUALIFYING_CHILD_AGE_LIMIT = 13
+
+export interface DependentCareBenefitsResult {
+  benefits: number // Line 12, W-2 box 10
+  qualifiedExpenses: number // Line 16
+  earnedIncomeLimit: number // Line 20
+  exclusionLimit: number // Line 21
+  excludedBenefits: number // Line 25
+  taxableBenefits: number // Line 26, Form 1040 line 1e
+}
+
+export interface QualifyingPersonExpenses {
+  dependentId: string
+  name: string
+  expenses: number // Line 2(d)
+}
+
+export interface DependentCareCreditResult extends DependentCareBenefitsResult {
+  qualifyingPersons: QualifyingPersonExpenses[] // Line 2
+  expenseLimit: number // Line 27
+  creditableExpenses: number // Line 3
+  allowedExpenses: number // Line 6
+  creditRate: number // Line 8
+  tentativeCredit: number // Line 9a
+  creditLimit: number // Line 10
+  credit: number // Line 11, Schedule 3 line 2
+}
+
+export interface DependentCareInput {
+  providers: any[]
+  dependents: any[]
+  dependentCareBenefits: number // W-2 box 10
+  taxpayerEarnedIncome: number
+  spouseEarnedIncome: number // Used only on joint returns
+  filingStatus: string
+  taxYear?: number
+}
+
+// Returns a validation message for a submitted care provider, or null if it is valid
+export function validateCareProvider(provider: any): string | null {
+  if (!provider?.name) {
+    return 'Care provider name is required'
+  }
+  if (isNaN(parseFloat(provider.amountPaid)) || parseFloat(provider.amountPaid) < 0) {
+    return 'Amount paid must be zero or more'
+  }
+  return null
+}
+
+// A dependent for whom care expenses qualify: under 13 or unable to care for themselves, living with
+// the taxpayer for more than half the year. A child who turned 13 during the year still counts, and only
+// the expenses paid before the birthday should be entered for them.
+export function isQualifyingPerson(dependent: any, taxYear: number = DEFAULT_TAX_YEAR): boolean {
+  const age = getAgeAtEndOfYear(dependent.birthDate, taxYear)
+  const bornDuringYear = new Date(dependent.birthDate).getUTCFullYear() === taxYear
+  const months = bornDuringYear ? 12 : (dependent.monthsLivedWithTaxpayer ?? 12)
+
+  const meetsAgeTest = (age !== null && age >= 0 && age <= QUALIFYING_CHILD_AGE_LIMIT) || !!dependent.isPermanentlyDisabled
+  return meetsAgeTest && months > 6
+}
+
+// Part III: employer-provided dependent care benefits excluded from income
+export function calculateDependentCareBenefits(input: DependentCareInput): DependentCareBenefitsResult {
+  const status = normalizeFilingStatus(input.filingStatus)
+  const benefits = roundToCents(Math.max(0, input.dependentCareBenefits))
+  const qualifiedExpenses = calculateQualifyingPersonExpenses(input)
+    .reduce((sum, person) => roundToCents(sum + person.expenses), 0)
+
+  const taxpayerEarnedIncome = Math.max(0, input.taxpayerEarnedIncome)
+  const spouseEarnedIncome = status === 'marriedfilingjointly' ? Math.max(0, input.spouseEarnedIncome) : taxpayerEarnedIncome
+
+  const earnedIncomeLimit = roundToCents(Math.min(benefits, qualifiedExpenses, taxpayerEarnedIncome, spouseEarnedIncome))
+  const exclusionLimit = status === 'marriedfilingseparately'
+    ? BENEFIT_EXCLUSION_LIMIT_MARRIED_SEPARATE
+    : BENEFIT_EXCLUSION_LIMIT
+  const excludedBenefits = roundToCents(Math.min(earnedIncomeLimit, exclusionLimit))
+
+  return {
+    benefits,
+    qualifiedExpenses,
+    earnedIncomeLimit,
+    exclusionLimit,
+    excludedBenefits,
+    taxableBenefits: roundToCents(benefits - excludedBenefits),
+  }
+}
+
+export function calculateDependentCareCredit(data: DependentCareInput & {
+  adjustedGrossIncome: number
+  taxLiability: number // Form 1040 line 18 less the foreign tax credit
+}): DependentCareCreditResult {
+  const status = normalizeFilingStatus(data.filingStatus)
+  const taxYear = data.taxYear || DEFAULT_TAX_YEAR
+  const qualifyingPersons = calculateQualifyingPersonExpenses(data)
+  const partIII = calculateDependentCareBenefits(data)
+
+  // The higher limit applies with two or more qualifying persons, even if expenses were paid for only one
+  const qualifyingCount = (data.dependents || []).filter((dependent: any) => isQualifyingPerson(dependent, taxYear)).length
+  const limit = qualifyingCount >= 2 ? EXPENSE_LIMIT_TWO_OR_MORE : EXPENSE_LIMIT_ONE_PERSON
+
+  // Lines 27-31: excluded benefits reduce the expenses eligible for the credit
+  const expenseLimit = roundToCents(Math.max(0, limit - partIII.excludedBenefits))
+  const creditableExpenses = roundToCents(Math.min(partIII.qualifiedExpenses, expenseLimit))
+
+  const taxpayerEarnedIncome = Math.max(0, data.taxpayerEarnedIncome)
+  const spouseEarnedIncome = status === 'marriedfilingjointly' ? Math.max(0, data.spouseEarnedIncome) : taxpayerEarnedIncome
+  const allowedExpenses = roundToCents(Math.min(creditableExpenses, taxpayerEarnedIncome, spouseEarnedIncome))
+
+  const creditRate = getDependentCareCreditRate(data.adjustedGrossIncome)
+  const tentativeCredit = roundToCents(allowedExpenses * creditRate)
+  const creditLimit = roundToCents(Math.max(0, data.taxLiability))
+
+  // Married filing separately filers cannot take the credit; the exception for spouses living apart is not supported
+  const credit = status === 'marriedfilingseparately' ? 0 : roundToCents(Math.min(tentativeCredit, creditLimit))
+
+  return {
+    ...partIII,
+    qualifyingPersons,
+    expenseLimit,
+    creditableExpenses,
+    allowedExpenses,
+    creditRate,
+    tentativeCredit,
+    creditLimit,
+    credit,
+  }
+}
+
+// W-2 box 10 benefits over $5,000 are already included in box 1 wages by the employer
+export function calculateDependentCareBenefitsInWages(incomeEntries: any[]): number {
+  const total = (incomeEntries || [])
+    .filter((entry: any) => entry.incomeType === 'W2_WAGES')
+    .reduce((sum: number, entry: any) =>
+      sum + Math.max(0, (parseFloat(entry.dependentCareBenefits) || 0) - BENEFIT_EXCLUSION_LIMIT), 0
+    )
+  return roundToCents(total)
+}
+
+// Line 8 decimal amount from the AGI table
+export function getDependentCareCreditRate(adjustedGrossIncome: number): number {
+  const steps = Math.ceil(Math.max(0, adjustedGrossIncome - RATE_REDUCTION_START) / RATE_REDUCTION_STEP)
+  return Math.max(MINIMUM_CREDIT_RATE, Math.round((MAXIMUM_CREDIT_RATE - steps * RATE_REDUCTION_PER_STEP) * 100) / 100)
+}
+
+// Line 2: amounts paid to providers for each qualifying person; payments not linked to one do not count
+function calculateQualifyingPersonExpenses(input: DependentCareInput): QualifyingPersonExpenses[] {
+  const taxYear = input.taxYear || DEFAULT_TAX_YEAR
+  return (input.dependents || [])
+    .filter((dependent: any) => isQualifyingPerson(dependent, taxYear))
+    .map((dependent: any) => ({
+      dependentId: dependent.id,
+      name: `${dependent.firstName} ${dependent.lastName}`,
+      expenses: roundToCents((input.providers || [])
+        .filter((provider: any) => provider.dependentId === dependent.id)
+        .reduce((sum: number, provider: any) => sum + (parseFloat(provider.amountPaid) || 0), 0)),
+    }))
+    .filter((person) => person.expenses > 0)
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
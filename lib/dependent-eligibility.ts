@@ -0,0 +1,134 @@
+// Derives Child Tax Credit and Earned Income Credit eligibility for a dependent
+// from birth date, relationship, residency and SSN rather than user-entered flags
+
+import { getAgeAtEndOfYear } from './tax-calculations'
+
+export const RELATIONSHIP_OPTIONS = [
+  { value: 'SON', label: 'Son' },
+  { value: 'DAUGHTER', label: 'Daughter' },
+  { value: 'STEPCHILD', label: 'Stepchild' },
+  { value: 'FOSTER_CHILD', label: 'Foster Child' },
+  { value: 'BROTHER', label: 'Brother' },
+  { value: 'SISTER', label: 'Sister' },
+  { value: 'HALF_SIBLING', label: 'Half Brother / Half Sister' },
+  { value: 'STEPSIBLING', label: 'Stepbrother / Stepsister' },
+  { value: 'GRANDCHILD', label: 'Grandchild' },
+  { value: 'NIECE', label: 'Niece' },
+  { value: 'NEPHEW', label: 'Nephew' },
+  { value: 'PARENT', label: 'Parent' },
+  { value: 'OTHER_RELATIVE', label: 'Other Relative' },
+]
+
+// Relationships that satisfy the qualifying child relationship test
+const QUALIFYING_CHILD_RELATIONSHIPS = [
+  'CHILD',
+  'SON',
+  'DAUGHTER',
+  'STEPCHILD',
+  'FOSTER_CHILD',
+  'BROTHER',
+  'SISTER',
+  'HALF_SIBLING',
+  'STEPSIBLING',
+  'GRANDCHILD',
+  'NIECE',
+  'NEPHEW',
+]
+
+export interface DependentEligibilityInput {
+  birthDate: Date | string
+  relationship: string
+  ssn?: string | null
+  monthsLivedWithTaxpayer?: number | null
+  isFullTimeStudent?: boolean | null
+  isPermanentlyDisabled?: boolean | null
+}
+
+export interface DependentEligibility {
+  age: number | null
+  isQualifyingChild: boolean
+  qualifiesForCTC: boolean
+  qualifiesForEITC: boolean
+  reasons: string[]
+}
+
+export function normalizeRelationship(relationship: string): string {
+  return (relationship || '').trim().toUpperCase().replace(/[\s-]+/g, '_')
+}
+
+export function hasValidSSN(ssn?: string | null): boolean {
+  const digits = (ssn || '').replace(/\D/g, '')
+  return digits.length === 9 && !digits.startsWith('000') && !digits.startsWith('9')
+}
+
+// Error for a dependent the routes should not save, or null when it is valid
+export function validateDependent(dependent: any): string | null {
+  if (!dependent?.firstName || !dependent.lastName || !dependent.relationship || !dependent.birthDate) {
+    return 'First name, last name, relationship and birth date are required'
+  }
+  const birthDate = new Date(dependent.birthDate)
+  if (isNaN(birthDate.getTime())) {
+    return 'Birth date must be a valid date'
+  }
+  if (birthDate > new Date()) {
+    return 'Birth date cannot be in the future'
+  }
+  const months = Number(dependent.monthsLivedWithTaxpayer ?? 12)
+  if (!Number.isInteger(months) || months < 0 || months > 12) {
+    return 'Months lived with you must be a whole number from 0 to 12'
+  }
+  return null
+}
+
+export function determineDependentEligibility(
+  dependent: DependentEligibilityInput,
+  taxYear: number
+): DependentEligibility {
+  const reasons: string[] = []
+  const age = getAgeAtEndOfYear(dependent.birthDate, taxYear)
+  const relationship = normalizeRelationship(dependent.relationship)
+  const birthYear = new Date(dependent.birthDate).getUTCFullYear()
+
+  // A child born during the year is treated as living with the taxpayer all year
+  const bornDuringYear = birthYear === taxYear
+  const months = bornDuringYear ? 12 : (dependent.monthsLivedWithTaxpayer ?? 12)
+
+  const meetsRelationshipTest = QUALIFYING_CHILD_RELATIONSHIPS.includes(relationship)
+  if (!meetsRelationshipTest) {
+    reasons.push('Relationship does not meet the qualifying child test')
+  }
+
+  const meetsAgeTest = age !== null && age >= 0 && (
+    age < 19 ||
+    (age < 24 && !!dependent.isFullTimeStudent) ||
+    !!dependent.isPermanentlyDisabled
+  )
+  if (!meetsAgeTest) {
+    reasons.push('Must be under 19, under 24 and a full-time student, or permanently disabled')
+  }
+
+  const meetsResidencyTest = months > 6
+  if (!meetsResidencyTest) {
+    reasons.push('Must have lived with you for more than half the year')
+  }
+
+  const ssnValid = hasValidSSN(dependent.ssn)
+  if (!ssnValid) {
+    reasons.push('A valid Social Security number is required for the Child Tax Credit and Earned Income Credit')
+  }
+
+  const isQualifyingChild = meetsRelationshipTest && meetsAgeTest && meetsResidencyTest
+
+  const under17 = age !== null && age < 17
+  if (isQualifyingChild && !under17) {
+    reasons.push('Child Tax Credit requires the child to be under 17 at the end of the year')
+  }
+
+  return {
+    age,
+    isQualifyingChild,
+    qualifiesForCTC: isQualifyingChild && under17 && ssnValid,
+    qualifiesForEITC: isQualifyingChild && ssnValid,
+    reasons,
+  }
+}
@@ -0,0 +1,190 @@
+// Form 8863 (Education Credits: American Opportunity and Lifetime Learning Credits)
+
+import { normalizeFilingStatus } from './tax-year-rules'
+
+export const EDUCATION_CREDIT_TYPES = [
+  { value: 'AMERICAN_OPPORTUNITY', label: 'American opportunity credit (first four years)' },
+  { value: 'LIFETIME_LEARNING', label: 'Lifetime learning credit' },
+]
+
+// American opportunity credit: 100% of the first $2,000 and 25% of the next $2,000 per student
+const AOTC_FULL_RATE_EXPENSES = 2000
+const AOTC_MAX_EXPENSES = 4000
+const AOTC_PARTIAL_RATE = 0.25
+const AOTC_REFUNDABLE_RATE = 0.4
+const AOTC_MAX_YEARS = 4
+
+// Lifetime learning credit: 20% of up to $10,000 of expenses per return
+const LLC_MAX_EXPENSES = 10000
+const LLC_RATE = 0.2
+
+// MAGI phase-out ranges shared by both credits; not indexed for inflation since 2021
+const PHASE_OUT_START = 80000
+const PHASE_OUT_START_JOINT = 160000
+const PHASE_OUT_RANGE = 10000
+const PHASE_OUT_RANGE_JOINT = 20000
+
+export interface EducationStudentResult {
+  id?: string
+  studentName: string
+  creditType: 'AMERICAN_OPPORTUNITY' | 'LIFETIME_LEARNING'
+  adjustedQualifiedExpenses: number // Line 27 (AOTC) or line 31 (LLC)
+  tentativeCredit: number // Line 30 for the AOTC
+  aotcIneligibleReason: string | null // Why an AOTC student was moved to the lifetime learning credit
+}
+
+export interface EducationCreditsResult {
+  students: EducationStudentResult[]
+  tentativeAotc: number // Line 1
+  phaseOutFraction: number // Line 6 and line 17
+  aotc: number // Line 7
+  refundableAotc: number // Line 8, Form 1040 line 29
+  nonrefundableAotc: number // Line 9
+  llcExpenses: number // Line 11
+  tentativeLlc: number // Line 12
+  llc: number // Line 18
+  creditLimit: number // Credit Limit Worksheet line 6
+  nonrefundableCredit: number // Line 19, Schedule 3 line 3
+}
+
+// Returns a validation message for a submitted student, or null if it is valid
+export function validateEducationStudent(student: any): string | null {
+  if (!student?.studentName) {
+    return 'Student name is required'
+  }
+  if (!student.institutionName) {
+    return 'Educational institution is required'
+  }
+  if (isNaN(parseFloat(student.qualifiedExpenses)) || parseFloat(student.qualifiedExpenses) < 0) {
+    return 'Qualified expenses must be zero or more'
+  }
+  if (student.scholarships && (isNaN(parseFloat(student.scholarships)) || parseFloat(student.scholarships) < 0)) {
+    return 'Scholarships and grants must be zero or more'
+  }
+  if (student.creditType && !['AMERICAN_OPPORTUNITY', 'LIFETIME_LEARNING'].includes(student.creditType)) {
+    return `Invalid education credit: ${student.creditType}`
+  }
+  const yearsClaimed = parseInt(student.aotcYearsClaimed ?? 0)
+  if (isNaN(yearsClaimed) || yearsClaimed < 0) {
+    return 'Years the AOTC was claimed must be zero or more'
+  }
+  return null
+}
+
+// The dependent named on a 1098-T, matching "First Last" and "Last, First" forms of the student's name
+export function findStudentDependent(studentName: string, dependents: any[]): any | null {
+  const normalize = (name: string) => (name || '').toLowerCase().replace(/[^a-z]/g, '')
+  const target = normalize(studentName)
+  if (!target) {
+    return null
+  }
+  return (dependents || []).find((dependent: any) =>
+    normalize(`${dependent.firstName}${dependent.lastName}`) === target ||
+    normalize(`${dependent.lastName}${dependent.firstName}`) === target
+  ) || null
+}
+
+// Why a student marked for the AOTC cannot claim it, or null when eligible (Part III lines 23-26)
+export function getAotcIneligibleReason(student: any): string | null {
+  if ((parseInt(student.aotcYearsClaimed) || 0) >= AOTC_MAX_YEARS) {
+    return `AOTC already claimed for ${AOTC_MAX_YEARS} tax years`
+  }
+  if (student.completedFirstFourYears || student.isGraduateStudent) {
+    return 'First four years of postsecondary education completed'
+  }
+  if (student.isHalfTimeStudent === false) {
+    return 'Not enrolled at least half-time'
+  }
+  if (student.hasFelonyDrugConviction) {
+    return 'Felony drug conviction'
+  }
+  return null
+}
+
+export function calculateEducationCredits(data: {
+  students: any[]
+  modifiedAGI: number // Form 1040 line 11; foreign income exclusions are not supported
+  filingStatus: string
+  taxLiability: number // Form 1040 line 18 less foreign tax and child care credits
+}): EducationCreditsResult {
+  const status = normalizeFilingStatus(data.filingStatus)
+  const joint = status === 'marriedfilingjointly'
+
+  const students: EducationStudentResult[] = (data.students || []).map((student: any) => {
+    const adjustedQualifiedExpenses = roundToCents(Math.max(0,
+      (parseFloat(student.qualifiedExpenses) || 0) - (parseFloat(student.scholarships) || 0)
+    ))
+    const aotcIneligibleReason = student.creditType === 'LIFETIME_LEARNING' ? null : getAotcIneligibleReason(student)
+    const creditType = student.creditType === 'LIFETIME_LEARNING' || aotcIneligibleReason
+      ? 'LIFETIME_LEARNING'
+      : 'AMERICAN_OPPORTUNITY'
+
+    let tentativeCredit = 0
+    if (creditType === 'AMERICAN_OPPORTUNITY') {
+      const capped = Math.min(adjustedQualifiedExpenses, AOTC_MAX_EXPENSES) // Line 28
+      tentativeCredit = roundToCents(
+        Math.min(capped, AOTC_FULL_RATE_EXPENSES) + Math.max(0, capped - AOTC_FULL_RATE_EXPENSES) * AOTC_PARTIAL_RATE
+      )
+    }
+
+    return {
+      id: student.id,
+      studentName: student.studentName,
+      creditType,
+      adjustedQualifiedExpenses,
+      tentativeCredit,
+      aotcIneligibleReason,
+    }
+  })
+
+  // Married filing separately filers cannot claim either credit
+  const phaseOutFraction = status === 'marriedfilingseparately'
+    ? 0
+    : getPhaseOutFraction(data.modifiedAGI, joint)
+
+  // Part I: refundable American opportunity credit
+  const tentativeAotc = roundToCents(students.reduce((sum, student) => sum + student.tentativeCredit, 0))
+  const aotc = roundToCents(tentativeAotc * phaseOutFraction)
+  const refundableAotc = roundToCents(aotc * AOTC_REFUNDABLE_RATE)
+  const nonrefundableAotc = roundToCents(aotc - refundableAotc)
+
+  // Part II: lifetime learning credit
+  const llcExpenses = roundToCents(Math.min(LLC_MAX_EXPENSES, students
+    .filter((student) => student.creditType === 'LIFETIME_LEARNING')
+    .reduce((sum, student) => sum + student.adjustedQualifiedExpenses, 0)))
+  const tentativeLlc = roundToCents(llcExpenses * LLC_RATE)
+  const llc = roundToCents(tentativeLlc * phaseOutFraction)
+
+  // Credit Limit Worksheet: the nonrefundable credits cannot exceed the tax
+  const creditLimit = roundToCents(Math.max(0, data.taxLiability))
+
+  return {
+    students,
+    tentativeAotc,
+    phaseOutFraction,
+    aotc,
+    refundableAotc,
+    nonrefundableAotc,
+    llcExpenses,
+    tentativeLlc,
+    llc,
+    creditLimit,
+    nonrefundableCredit: roundToCents(Math.min(nonrefundableAotc + llc, creditLimit)),
+  }
+}
+
+// Share of the credit left after the MAGI phase-out (lines 2-6 and 13-17)
+function getPhaseOutFraction(modifiedAGI: number, joint: boolean): number {
+  const start = joint ? PHASE_OUT_START_JOINT : PHASE_OUT_START
+  const range = joint ? PHASE_OUT_RANGE_JOINT : PHASE_OUT_RANGE
+  const remaining = start + range - modifiedAGI // Line 4
+
+  if (remaining <= 0) {
+    return 0
+  }
+  return Math.min(1, Math.round(remaining / range * 1000) / 1000)
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
@@ -1,5 +1,6 @@
 
-import { calculateTaxLiability, getStandardDeduction, TaxCalculationResult, calculateTaxReturn } from './tax-calculations'
+import { calculateTaxLiability, getStandardDeduction, TaxCalculationInput, TaxCalculationResult, calculateTaxReturn, StandardDeductionOptions } from './tax-calculations'
+import { DEFAULT_TAX_YEAR, getTaxYearRules } from './tax-year-rules'
 
 export interface DeductionComparison {
   standardDeduction: number
@@ -21,9 +22,11 @@ export function calculateDeductionComparison(
   adjustedGrossIncome: number,
   filingStatus: string,
   itemizedDeductions: number,
-  dependents: any[] = []
+  dependents: any[] = [],
+  taxYear: number = DEFAULT_TAX_YEAR,
+  standardDeductionOptions: StandardDeductionOptions = {}
 ): DeductionComparison {
-  const standardDeduction = getStandardDeduction(filingStatus)
+  const standardDeduction = getStandardDeduction(filingStatus, taxYear, standardDeductionOptions)
   const itemizedDeduction = itemizedDeductions || 0
 
   // Calculate taxable income for both scenarios
@@ -31,8 +34,8 @@ export function calculateDeductionComparison(
   const itemizedTaxableIncome = Math.max(0, adjustedGrossIncome - itemizedDeduction)
 
   // Calculate tax liability for both scenarios
-  const standardTaxLiability = calculateTaxLiability(standardTaxableIncome, filingStatus)
-  const itemizedTaxLiability = calculateTaxLiability(itemizedTaxableIncome, filingStatus)
+  const standardTaxLiability = calculateTaxLiability(standardTaxableIncome, filingStatus, taxYear)
+  const itemizedTaxLiability = calculateTaxLiability(itemizedTaxableIncome, filingStatus, taxYear)
 
   // Determine which method is better
   const recommendedMethod = itemizedTaxLiability < standardTaxLiability ? 'itemized' : 'standard'
@@ -58,7 +61,8 @@ export function generateTaxOptimizationSuggestions(
   comparison: DeductionComparison,
   adjustedGrossIncome: number,
   filingStatus: string,
-  dependents: any[] = []
+  dependents: any[] = [],
+  taxYear: number = DEFAULT_TAX_YEAR
 ): string[] {
   const suggestions: string[] = []
 
@@ -91,7 +95,7 @@ export function generateTaxOptimizationSuggestions(
     const eicEligible = dependents.filter(dep => dep.qualifiesForEITC).length
     
     if (childTaxCreditEligible > 0) {
-      suggestions.push(`👶 You may qualify for up to $${(childTaxCreditEligible * 2000).toLocaleString()} in Child Tax Credits`)
+      suggestions.push(`👶 You may qualify for up to $${(childTaxCreditEligible * getTaxYearRules(taxYear).childTaxCredit.amountPerChild).toLocaleString()} in Child Tax Credits`)
     }
     
     if (eicEligible > 0) {
@@ -111,23 +115,22 @@ export function generateTaxOptimizationSuggestions(
   return suggestions
 }
 
-export function calculateEnhancedTaxReturn(data: {
-  totalIncome: number
-  filingStatus: string
-  dependents: any[]
-  itemizedDeductions: number
-}): EnhancedTaxCalculationResult {
-  const { totalIncome, filingStatus, dependents, itemizedDeductions } = data
+export function calculateEnhancedTaxReturn(data: TaxCalculationInput): EnhancedTaxCalculationResult {
+  const { filingStatus, dependents } = data
+  const taxYear = data.taxYear || DEFAULT_TAX_YEAR
   
-  // Get basic tax calculation
-  const basicResult = calculateTaxReturn(data) as TaxCalculationResult
+  // Get basic tax calculation (already uses the larger of standard and itemized deductions)
+  const basicResult = calculateTaxReturn(data)
+  const itemizedDeductions = basicResult.scheduleA ? basicResult.scheduleA.totalAllowed : data.itemizedDeductions
   
   // Calculate deduction comparison
   const deductionComparison = calculateDeductionComparison(
     basicResult.adjustedGrossIncome,
     filingStatus,
     itemizedDeductions,
-    dependents
+    dependents,
+    taxYear,
+    data.standardDeductionOptions
   )
   
   // Generate optimization suggestions
@@ -135,23 +138,12 @@ export function calculateEnhancedTaxReturn(data: {
     deductionComparison,
     basicResult.adjustedGrossIncome,
     filingStatus,
-    dependents
+    dependents,
+    taxYear
   )
   
-  // Update the basic result with optimized deduction method
-  const optimizedDeduction = deductionComparison.recommendedMethod === 'itemized' 
-    ? deductionComparison.itemizedDeduction 
-    : deductionComparison.standardDeduction
-  
-  const optimizedTaxableIncome = Math.max(0, basicResult.adjustedGrossIncome - optimizedDeduction)
-  const optimizedTaxLiability = calculateTaxLiability(optimizedTaxableIncome, filingStatus)
-  const optimizedFinalTax = Math.max(0, optimizedTaxLiability - basicResult.totalCredits)
-  
   return {
     ...basicResult,
-    taxableIncome: optimizedTaxableIncome,
-    taxLiability: optimizedTaxLiability,
-    finalTax: optimizedFinalTax,
     standardDeduction: deductionComparison.standardDeduction,
     itemizedDeduction: deductionComparison.itemizedDeduction,
     deductionComparison,
@@ -163,7 +155,8 @@ export function calculateTaxImpactScenarios(
   adjustedGrossIncome: number,
   filingStatus: string,
   currentItemizedDeductions: number,
-  dependents: any[] = []
+  dependents: any[] = [],
+  taxYear: number = DEFAULT_TAX_YEAR
 ): Array<{
   scenario: string
   description: string
@@ -175,7 +168,8 @@ export function calculateTaxImpactScenarios(
     adjustedGrossIncome,
     filingStatus,
     currentItemizedDeductions,
-    dependents
+    dependents,
+    taxYear
   )
   
   const baseTaxLiability = baseComparison.recommendedMethod === 'itemized'
@@ -201,7 +195,8 @@ export function calculateTaxImpactScenarios(
       adjustedGrossIncome,
       filingStatus,
       newItemizedDeductions,
-      dependents
+      dependents,
+      taxYear
     )
     
     const newTaxLiability = newComparison.recommendedMethod === 'itemized'
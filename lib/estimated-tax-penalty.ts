@@ -0,0 +1,262 @@
+// Form 2210 (Underpayment of Estimated Tax by Individuals)
+
+import { DEFAULT_TAX_YEAR, getTaxYearRules, normalizeFilingStatus } from './tax-year-rules'
+import { TAX_FILING_STEP } from './tax-filing-steps'
+
+// Line 5: 90% of the current year's tax
+const CURRENT_YEAR_SAFE_HARBOR_RATE = 0.9
+
+// Line 8: 100% of the prior year's tax, or 110% when prior-year AGI was over $150,000 ($75,000 married filing separately)
+const PRIOR_YEAR_SAFE_HARBOR_RATE = 1
+const HIGH_INCOME_PRIOR_YEAR_SAFE_HARBOR_RATE = 1.1
+const HIGH_INCOME_AGI_THRESHOLD = 150000
+const HIGH_INCOME_AGI_THRESHOLD_MARRIED_SEPARATE = 75000
+
+// Part I: no penalty when the tax still owed after withholding is under $1,000
+const MINIMUM_UNDERPAYMENT = 1000
+
+const INSTALLMENT_COUNT = 4
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000
+
+export type EstimatedTaxSafeHarbor =
+  | 'UNDER_MINIMUM' // Line 7 under $1,000
+  | 'NO_PRIOR_YEAR_TAX' // No tax liability in the prior year
+  | 'PAYMENTS_MET_REQUIREMENT' // Each installment was paid in full and on time
+
+export interface EstimatedPaymentLine {
+  paymentType?: string // PRIOR_YEAR_OVERPAYMENT is credited on the first due date
+  paymentDate: string | Date | null
+  amount: number
+}
+
+export interface EstimatedTaxPenaltyInput {
+  currentYearTax: number // Line 4: total tax less refundable credits
+  withholding: number // Line 6, treated as paid evenly on the four due dates
+  estimatedPayments: EstimatedPaymentLine[]
+  priorYearTax: number | null // Null when neither a prior-year return nor the amount is available
+  priorYearAdjustedGrossIncome: number | null
+  filingStatus: string
+  taxYear?: number
+}
+
+export interface Form2210Installment {
+  dueDate: string
+  requiredInstallment: number // Line 18
+  paid: number // Withholding and estimated payments applied by the due date
+  underpayment: number // Line 25
+  penalty: number // Part IV
+}
+
+export interface PriorYearTaxSummary {
+  taxYear: number
+  tax: number
+  adjustedGrossIncome: number
+}
+
+export interface EstimatedTaxPenaltyResult {
+  currentYearTax: number // Line 4
+  currentYearRequirement: number // Line 5
+  withholding: number // Line 6
+  balanceAfterWithholding: number // Line 7
+  priorYearTax: number | null
+  priorYearRequirement: number | null // Line 8
+  requiredAnnualPayment: number // Line 9
+  estimatedPayments: number
+  safeHarbor: EstimatedTaxSafeHarbor | null
+  installments: Form2210Installment[]
+  penalty: number // Line 19, Form 1040 line 38
+}
+
+// Returns a validation message for a submitted estimated payment, or null if it is valid
+export function validateEstimatedPayment(payment: any): string | null {
+  if (!['ESTIMATED_PAYMENT', 'PRIOR_YEAR_OVERPAYMENT'].includes(payment?.paymentType)) {
+    return 'Payment type is required'
+  }
+  if (!payment.paymentDate || isNaN(new Date(payment.paymentDate).getTime())) {
+    return 'Payment date is required'
+  }
+  if (isNaN(parseFloat(payment.amount)) || parseFloat(payment.amount) <= 0) {
+    return 'Payment amount must be more than zero'
+  }
+  return null
+}
+
+export function calculateEstimatedTaxPayments(payments: any[]): number {
+  return roundToCents((payments || []).reduce((sum: number, payment: any) => sum + (Number(payment.amount) || 0), 0))
+}
+
+// Line 8 amount from a saved prior-year return: total tax (payments less the refund plus the balance due,
+// without that year's penalty) less refundable credits. Returns null until the prior-year return is calculated.
+export function getPriorYearTaxSummary(priorYearReturn: any): PriorYearTaxSummary | null {
+  if (!priorYearReturn || !(priorYearReturn.completedSteps || []).includes(TAX_FILING_STEP.CALCULATION)) {
+    return null
+  }
+  const totalTax = Number(priorYearReturn.totalPayments) - Number(priorYearReturn.refundAmount)
+    + Number(priorYearReturn.amountOwed) - Number(priorYearReturn.estimatedTaxPenalty || 0)
+  return {
+    taxYear: priorYearReturn.taxYear,
+    tax: roundToCents(Math.max(0, totalTax - Number(priorYearReturn.refundableCredits || 0))),
+    adjustedGrossIncome: roundToCents(Number(priorYearReturn.adjustedGrossIncome) || 0),
+  }
+}
+
+// The four 1040-ES installments for a year, each 25% of the required annual payment
+export function getEstimatedTaxInstallments(requiredAnnualPayment: number, taxYear: number = DEFAULT_TAX_YEAR) {
+  const { dueDates } = getTaxYearRules(taxYear).estimatedTax
+  return dueDates.map((dueDate) => ({
+    dueDate,
+    amount: roundToCents(Math.max(0, requiredAnnualPayment) / INSTALLMENT_COUNT),
+  }))
+}
+
+// Part II and the regular method (Part III and the penalty worksheet). The annualized income installment
+// method and penalty waivers are not supported.
+export function calculateEstimatedTaxPenalty(input: EstimatedTaxPenaltyInput): EstimatedTaxPenaltyResult {
+  const taxYear = input.taxYear || DEFAULT_TAX_YEAR
+  const rules = getTaxYearRules(taxYear).estimatedTax
+  const status = normalizeFilingStatus(input.filingStatus)
+
+  const currentYearTax = roundToCents(Math.max(0, input.currentYearTax))
+  const currentYearRequirement = roundToCents(currentYearTax * CURRENT_YEAR_SAFE_HARBOR_RATE)
+  const withholding = roundToCents(Math.max(0, input.withholding))
+  const balanceAfterWithholding = roundToCents(currentYearTax - withholding)
+
+  const priorYearTax = input.priorYearTax === null ? null : roundToCents(Math.max(0, input.priorYearTax))
+  const highIncomeThreshold = status === 'marriedfilingseparately'
+    ? HIGH_INCOME_AGI_THRESHOLD_MARRIED_SEPARATE
+    : HIGH_INCOME_AGI_THRESHOLD
+  const priorYearRate = (input.priorYearAdjustedGrossIncome || 0) > highIncomeThreshold
+    ? HIGH_INCOME_PRIOR_YEAR_SAFE_HARBOR_RATE
+    : PRIOR_YEAR_SAFE_HARBOR_RATE
+  const priorYearRequirement = priorYearTax === null ? null : roundToCents(priorYearTax * priorYearRate)
+
+  const requiredAnnualPayment = priorYearRequirement === null
+    ? currentYearRequirement
+    : Math.min(currentYearRequirement, priorYearRequirement)
+
+  const payments = (input.estimatedPayments || [])
+    .filter((payment) => payment.amount > 0)
+    .map((payment) => ({
+      date: payment.paymentType === 'PRIOR_YEAR_OVERPAYMENT' || !payment.paymentDate
+        ? toUtcDay(rules.dueDates[0])
+        : toUtcDay(payment.paymentDate),
+      amount: payment.amount,
+    }))
+  const estimatedPayments = roundToCents(payments.reduce((sum, payment) => sum + payment.amount, 0))
+
+  const result = {
+    currentYearTax,
+    currentYearRequirement,
+    withholding,
+    balanceAfterWithholding,
+    priorYearTax,
+    priorYearRequirement,
+    requiredAnnualPayment,
+    estimatedPayments,
+  }
+
+  if (balanceAfterWithholding < MINIMUM_UNDERPAYMENT) {
+    return { ...result, safeHarbor: 'UNDER_MINIMUM', installments: [], penalty: 0 }
+  }
+  if (priorYearTax === 0) {
+    return { ...result, safeHarbor: 'NO_PRIOR_YEAR_TAX', installments: [], penalty: 0 }
+  }
+
+  // Withholding is treated as paid in equal amounts on each due date
+  const withholdingPerInstallment = withholding / INSTALLMENT_COUNT
+  const installments: Form2210Installment[] = getEstimatedTaxInstallments(requiredAnnualPayment, taxYear)
+    .map((installment) => ({
+      dueDate: installment.dueDate,
+      requiredInstallment: installment.amount,
+      paid: 0,
+      underpayment: 0,
+      penalty: 0,
+    }))
+
+  // Payments on a due date count toward that installment, so they sort ahead of it
+  const timeline = [
+    ...payments.map((payment) => ({ ...payment, installmentIndex: -1 })),
+    ...rules.dueDates.map((dueDate) => ({ date: toUtcDay(dueDate), amount: withholdingPerInstallment, installmentIndex: -1 })),
+    ...rules.dueDates.map((dueDate, index) => ({ date: toUtcDay(dueDate), amount: 0, installmentIndex: index })),
+  ].sort((a, b) => a.date - b.date || a.installmentIndex - b.installmentIndex)
+
+  // Payments go first to the oldest unpaid installment, then toward later ones. An underpayment accrues
+  // interest from the day after its due date until it is paid or the return is due, whichever is earlier.
+  const filingDeadline = toUtcDay(rules.filingDeadline)
+  const unpaid: { index: number, amount: number }[] = []
+  let credit = 0
+
+  timeline.forEach((entry) => {
+    if (entry.installmentIndex >= 0) {
+      const installment = installments[entry.installmentIndex]
+      const paid = Math.min(credit, installment.requiredInstallment)
+      credit -= paid
+      installment.paid = roundToCents(paid)
+      installment.underpayment = roundToCents(installment.requiredInstallment - paid)
+      if (installment.underpayment > 0) {
+        unpaid.push({ index: entry.installmentIndex, amount: installment.underpayment })
+      }
+      return
+    }
+
+    let available = entry.amount
+    while (available > 0 && unpaid.length > 0) {
+      const oldest = unpaid[0]
+      const applied = Math.min(available, oldest.amount)
+      const installment = installments[oldest.index]
+      installment.penalty += calculateUnderpaymentInterest(
+        applied, toUtcDay(installment.dueDate), Math.min(entry.date, filingDeadline), rules.underpaymentRates
+      )
+      oldest.amount -= applied
+      available -= applied
+      if (oldest.amount <= 0) unpaid.shift()
+    }
+    credit += available
+  })
+
+  unpaid.forEach((underpayment) => {
+    const installment = installments[underpayment.index]
+    installment.penalty += calculateUnderpaymentInterest(
+      underpayment.amount, toUtcDay(installment.dueDate), filingDeadline, rules.underpaymentRates
+    )
+  })
+  installments.forEach((installment) => {
+    installment.penalty = roundToCents(installment.penalty)
+  })
+
+  const penalty = roundToCents(installments.reduce((sum, installment) => sum + installment.penalty, 0))
+
+  return {
+    ...result,
+    safeHarbor: installments.every((installment) => installment.underpayment === 0) ? 'PAYMENTS_MET_REQUIREMENT' : null,
+    installments,
+    penalty,
+  }
+}
+
+// Interest on an underpayment for each day after the due date through the payment date, at the rate in
+// effect on that day divided by the days in that calendar year
+function calculateUnderpaymentInterest(
+  amount: number,
+  dueDate: number,
+  paidDate: number,
+  rates: { from: string, rate: number }[]
+): number {
+  let interest = 0
+  for (let day = dueDate + MILLISECONDS_PER_DAY; day <= paidDate; day += MILLISECONDS_PER_DAY) {
+    const year = new Date(day).getUTCFullYear()
+    const daysInYear = (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / MILLISECONDS_PER_DAY
+    const rate = rates.filter((period) => toUtcDay(period.from) <= day).pop()?.rate || 0
+    interest += amount * rate / daysInYear
+  }
+  return interest
+}
+
+function toUtcDay(value: string | Date): number {
+  const date = new Date(value)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
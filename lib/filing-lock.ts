@@ -0,0 +1,23 @@
+// A return is locked while a submission is waiting on its IRS acknowledgment and once one has been accepted, so the
+// return on file always matches the XML that was sent. Changes after acceptance are made on an amended return.
+
+import { prisma } from './db'
+
+// Why the return cannot be changed, or null when it can
+export async function getFilingLockError(taxReturnId: string): Promise<string | null> {
+  const filedSubmission = await prisma.filingSubmission.findFirst({
+    where: {
+      taxReturnId,
+      status: { in: ['TRANSMITTED', 'ACCEPTED'] }
+    },
+    select: { status: true }
+  })
+
+  if (!filedSubmission) {
+    return null
+  }
+
+  return filedSubmission.status === 'ACCEPTED'
+    ? 'This return has been accepted by the IRS and can no longer be changed'
+    : 'This return is waiting for an IRS acknowledgment and cannot be changed'
+}
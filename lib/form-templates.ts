@@ -35,6 +35,7 @@ export const W2_TEMPLATE: FormField[] = [
   { name: 'statutoryEmployee', label: 'Statutory employee', type: 'boolean', required: false, boxNumber: '13' },
   { name: 'retirementPlan', label: 'Retirement plan', type: 'boolean', required: false, boxNumber: '13' },
   { name: 'thirdPartySickPay', label: 'Third-party sick pay', type: 'boolean', required: false, boxNumber: '13' },
+  { name: 'stateCode', label: 'State', type: 'text', required: false, boxNumber: '15' },
   { name: 'stateWages', label: 'State wages, tips, etc.', type: 'decimal', required: false, boxNumber: '16' },
   { name: 'stateIncomeTax', label: 'State income tax', type: 'decimal', required: false, boxNumber: '17' },
   { name: 'localWages', label: 'Local wages, tips, etc.', type: 'decimal', required: false, boxNumber: '18' },
@@ -158,6 +159,50 @@ export const FORM_1099_R_TEMPLATE: FormField[] = [
   { name: 'amountAllocableToIRR', label: 'Amount allocable to IRR within 5 years', type: 'decimal', required: false, boxNumber: '9b' }
 ]
 
+// 1099-B Form Structure (one row per sale, as exported by most brokers)
+export const FORM_1099_B_TEMPLATE: FormField[] = [
+  { name: 'payerTIN', label: 'Payer\'s TIN', type: 'text', required: false },
+  { name: 'payerName', label: 'Payer\'s Name', type: 'text', required: false },
+  { name: 'description', label: 'Description of property', type: 'text', required: true, boxNumber: '1a' },
+  { name: 'dateAcquired', label: 'Date acquired', type: 'date', required: false, boxNumber: '1b', description: 'Leave blank for various' },
+  { name: 'dateSold', label: 'Date sold or disposed', type: 'date', required: true, boxNumber: '1c' },
+  { name: 'proceeds', label: 'Proceeds', type: 'decimal', required: true, boxNumber: '1d' },
+  { name: 'costBasis', label: 'Cost or other basis', type: 'decimal', required: true, boxNumber: '1e' },
+  { name: 'accruedMarketDiscount', label: 'Accrued market discount', type: 'decimal', required: false, boxNumber: '1f' },
+  { name: 'washSaleLossDisallowed', label: 'Wash sale loss disallowed', type: 'decimal', required: false, boxNumber: '1g' },
+  { name: 'termType', label: 'Short-term or long-term gain or loss', type: 'select', required: false, boxNumber: '2', options: ['Short-term', 'Long-term'] },
+  { name: 'federalIncomeTaxWithheld', label: 'Federal income tax withheld', type: 'decimal', required: false, boxNumber: '4' },
+  { name: 'noncoveredSecurity', label: 'Noncovered security', type: 'boolean', required: false, boxNumber: '5' },
+  { name: 'basisReportedToIRS', label: 'Basis reported to IRS', type: 'boolean', required: false, boxNumber: '12' }
+]
+
+// SSA-1099 Form Structure
+export const SSA_1099_TEMPLATE: FormField[] = [
+  { name: 'beneficiaryName', label: 'Name', type: 'text', required: true, boxNumber: '1' },
+  { name: 'beneficiarySSN', label: 'Beneficiary\'s Social Security Number', type: 'text', required: true, boxNumber: '2' },
+  { name: 'benefitsPaid', label: 'Benefits paid', type: 'decimal', required: false, boxNumber: '3' },
+  { name: 'benefitsRepaid', label: 'Benefits repaid to SSA', type: 'decimal', required: false, boxNumber: '4' },
+  { name: 'netBenefits', label: 'Net benefits', type: 'decimal', required: true, boxNumber: '5', description: 'Box 3 minus box 4' },
+  { name: 'voluntaryFederalIncomeTaxWithheld', label: 'Voluntary federal income tax withheld', type: 'decimal', required: false, boxNumber: '6' },
+  { name: 'claimNumber', label: 'Claim number', type: 'text', required: false, boxNumber: '8' }
+]
+
+// 1098-T Form Structure
+export const FORM_1098_T_TEMPLATE: FormField[] = [
+  { name: 'filerName', label: 'Filer\'s Name (educational institution)', type: 'text', required: true },
+  { name: 'filerEIN', label: 'Filer\'s EIN', type: 'text', required: false },
+  { name: 'studentName', label: 'Student\'s Name', type: 'text', required: true },
+  { name: 'studentTIN', label: 'Student\'s TIN', type: 'text', required: false },
+  { name: 'paymentsReceived', label: 'Payments received for qualified tuition and related expenses', type: 'decimal', required: true, boxNumber: '1' },
+  { name: 'priorYearAdjustments', label: 'Adjustments made for a prior year', type: 'decimal', required: false, boxNumber: '4' },
+  { name: 'scholarshipsOrGrants', label: 'Scholarships or grants', type: 'decimal', required: false, boxNumber: '5' },
+  { name: 'priorYearScholarshipAdjustments', label: 'Adjustments to scholarships or grants for a prior year', type: 'decimal', required: false, boxNumber: '6' },
+  { name: 'includesNextYearTerm', label: 'Box 1 includes amounts for an academic period beginning January-March of next year', type: 'boolean', required: false, boxNumber: '7' },
+  { name: 'atLeastHalfTime', label: 'At least half-time student', type: 'boolean', required: false, boxNumber: '8' },
+  { name: 'graduateStudent', label: 'Graduate student', type: 'boolean', required: false, boxNumber: '9' },
+  { name: 'insuranceReimbursements', label: 'Insurance contract reimbursement/refund', type: 'decimal', required: false, boxNumber: '10' }
+]
+
 // All form templates mapping
 export const FORM_TEMPLATES = {
   W2: W2_TEMPLATE,
@@ -167,6 +212,9 @@ export const FORM_TEMPLATES = {
   FORM_1099_DIV: FORM_1099_DIV_TEMPLATE,
   FORM_1099_G: FORM_1099_G_TEMPLATE,
   FORM_1099_R: FORM_1099_R_TEMPLATE,
+  FORM_1099_B: FORM_1099_B_TEMPLATE,
+  SSA_1099: SSA_1099_TEMPLATE,
+  FORM_1098_T: FORM_1098_T_TEMPLATE,
   // Add more form templates as needed
 }
 
@@ -186,5 +234,7 @@ export const FORM_DESCRIPTIONS = {
   FORM_1099_PATR: 'Taxable Distributions Received From Cooperatives',
   FORM_1099_Q: 'Payments From Qualified Education Programs',
   FORM_1099_SA: 'Distributions From an HSA, Archer MSA, or Medicare Advantage MSA',
-  FORM_1099_K: 'Payment Card and Third Party Network Transactions'
+  FORM_1099_K: 'Payment Card and Third Party Network Transactions',
+  SSA_1099: 'Social Security Benefit Statement',
+  FORM_1098_T: 'Tuition Statement'
 }
@@ -0,0 +1,479 @@
+// IRS Modernized e-File (MeF) Form 1040 return and submission manifest, checked against the bundled schemas. The
+// bundled XSDs only cover the documents built here, so passing them does not mean the return is complete.
+
+import { randomInt } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { validateXML } from 'xmllint-wasm'
+import { SubmissionRejectionError } from './mef-reject-codes'
+import { getMefSchemaVersion } from './mef-schema-versions'
+import { buildReturnFormData, fillReturnForms, FilledReturnForm, ReturnFormData } from './return-form-templates'
+
+const MEF_NAMESPACE = 'http://www.irs.gov/efile'
+
+const SCHEMA_ROOT_DIRECTORY = path.join(process.cwd(), 'lib', 'mef-schemas')
+const SCHEMA_FILES = [
+  'efileTypes.xsd',
+  'ReturnHeader1040x.xsd',
+  'IRS1040.xsd',
+  'IRSW2.xsd',
+  'IRS1040Schedule1.xsd',
+  'IRS1040Schedule2.xsd',
+  'IRS1040Schedule3.xsd',
+  'IRS1040ScheduleA.xsd',
+  'IRS1040ScheduleB.xsd',
+  'IRS1040ScheduleC.xsd',
+  'IRS1040ScheduleD.xsd',
+  'IRS1040ScheduleSE.xsd',
+  'Return1040.xsd',
+  'IRSSubmissionManifest.xsd',
+]
+
+// Electronic Filing Identification Number and Software ID assigned by the IRS; the defaults are test values
+const EFIN = process.env.MEF_EFIN || '000000'
+const SOFTWARE_ID = process.env.MEF_SOFTWARE_ID || '00000000'
+
+// Forms a return can need that are not built here yet, with when the computed return needs each. A return that
+// needs one cannot be e-filed.
+const UNSUPPORTED_FORMS: { form: string, isRequired: (data: ReturnFormData) => boolean }[] = [
+  { form: 'Schedule 8812', isRequired: ({ result }) => result.childTaxCredit > 0 || result.additionalChildTaxCredit > 0 },
+  { form: 'Form 8863', isRequired: ({ result }) => result.educationCredit > 0 || result.refundableEducationCredit > 0 },
+  { form: 'Form 2441', isRequired: ({ result }) => result.dependentCareCredit > 0 || result.form2441.benefits > 0 },
+  { form: 'Form 6251', isRequired: ({ result }) => result.alternativeMinimumTax > 0 },
+  { form: 'Form 8801', isRequired: ({ result }) => result.minimumTaxCredit > 0 },
+  { form: 'Form 8959', isRequired: ({ result }) => result.additionalMedicareTax > 0 },
+  { form: 'Form 8960', isRequired: ({ result }) => result.netInvestmentIncomeTax > 0 },
+  { form: 'Form 8949', isRequired: ({ scheduleD }) => scheduleD.form8949.some((totals) => totals.transactionCount > 0) },
+]
+
+const SUBMISSION_ID_SUFFIX_LENGTH = 7
+const SUBMISSION_ID_CHARACTERS = 'abcdefghijklmnopqrstuvwxyz0123456789'
+
+const FILING_STATUS_CODES: Record<string, string> = {
+  SINGLE: '1',
+  MARRIED_FILING_JOINTLY: '2',
+  MARRIED_FILING_SEPARATELY: '3',
+  HEAD_OF_HOUSEHOLD: '4',
+  QUALIFYING_SURVIVING_SPOUSE: '5',
+}
+
+// Longest values the schema text types allow
+const NAME_LINE_LENGTH = 35
+const PERSON_NAME_LENGTH = 20
+const BUSINESS_NAME_LENGTH = 75
+const STREET_ADDRESS_LENGTH = 35
+const CITY_LENGTH = 22
+const DESCRIPTION_LENGTH = 100
+
+export interface MefSubmission {
+  taxYear: number
+  submissionId: string
+  returnXml: string
+  manifestXml: string
+  schemaVersion: string
+}
+
+export interface MefValidationError {
+  document: 'Return' | 'IRSSubmissionManifest'
+  line: number | null
+  message: string
+}
+
+interface XmlElement {
+  name: string
+  attributes?: Record<string, string | number>
+  text?: string
+  children?: (XmlElement | null)[]
+}
+
+// Forms the return needs that cannot be e-filed yet, as validation errors; an empty list means the export covers
+// the whole return
+export function findUnsupportedForms(taxReturn: any, data: ReturnFormData = buildReturnFormData(taxReturn)): MefValidationError[] {
+  return UNSUPPORTED_FORMS
+    .filter((unsupported) => unsupported.isRequired(data))
+    .map((unsupported) => ({
+      document: 'Return',
+      line: null,
+      message: `${unsupported.form} is required for this return but cannot be e-filed yet`,
+    }))
+}
+
+// Submission IDs are the EFIN, the year and Julian day the return was created, and seven random characters
+export function generateSubmissionId(now: Date = new Date()): string {
+  const startOfYear = Date.UTC(now.getUTCFullYear(), 0, 1)
+  const julianDay = Math.floor((now.getTime() - startOfYear) / 86400000) + 1
+  let suffix = ''
+  for (let i = 0; i < SUBMISSION_ID_SUFFIX_LENGTH; i++) {
+    suffix += SUBMISSION_ID_CHARACTERS[randomInt(SUBMISSION_ID_CHARACTERS.length)]
+  }
+  return `${EFIN}${now.getUTCFullYear()}${String(julianDay).padStart(3, '0')}${suffix}`
+}
+
+// The return must include its income entries (with state lines), dependents, businesses (with expenses) and
+// capital transactions. Amounts are rounded to whole dollars and lines with nothing to report are left out.
+export function buildMefSubmission(taxReturn: any, now: Date = new Date()): MefSubmission {
+  const schemaVersion = getMefSchemaVersion(taxReturn.taxYear)
+  if (!schemaVersion) {
+    throw new Error(`No MeF schema package is bundled for tax year ${taxReturn.taxYear}`)
+  }
+
+  const data = buildReturnFormData(taxReturn)
+  const unsupportedForms = findUnsupportedForms(taxReturn, data)
+  if (unsupportedForms.length > 0) {
+    throw new Error(unsupportedForms.map((error) => error.message).join('; '))
+  }
+
+  const submissionId = generateSubmissionId(now)
+  const forms = fillReturnForms(taxReturn, data)
+
+  const [form1040, ...schedules] = forms.map((form, index) => buildFormDocument(form, data, index))
+  const documents = [form1040, ...buildW2Documents(taxReturn), ...schedules]
+
+  const returnXml = serialize({
+    name: 'Return',
+    attributes: { xmlns: MEF_NAMESPACE, returnVersion: schemaVersion },
+    children: [
+      buildReturnHeader(taxReturn, now),
+      { name: 'ReturnData', attributes: { documentCnt: documents.length }, children: documents },
+    ],
+  })
+
+  const manifestXml = serialize({
+    name: 'IRSSubmissionManifest',
+    attributes: { xmlns: MEF_NAMESPACE },
+    children: [
+      text('SubmissionId', submissionId),
+      text('EFIN', EFIN),
+      text('TaxYr', String(taxReturn.taxYear)),
+      text('GovernmentCd', 'IRS'),
+      text('FederalSubmissionTypeCd', '1040'),
+      text('TaxPeriodBeginDt', `${taxReturn.taxYear}-01-01`),
+      text('TaxPeriodEndDt', `${taxReturn.taxYear}-12-31`),
+      text('TIN', digitsOnly(taxReturn.ssn)),
+      text('PrimaryNameControlTxt', getPersonNameControl(taxReturn.lastName)),
+    ],
+  })
+
+  return { taxYear: taxReturn.taxYear, submissionId, returnXml, manifestXml, schemaVersion }
+}
+
+// Schema errors in the return and manifest, checked against the package for the return's tax year; an empty list
+// means both are valid
+export async function validateMefSubmission(
+  submission: Pick<MefSubmission, 'taxYear' | 'returnXml' | 'manifestXml'>
+): Promise<MefValidationError[]> {
+  if (!getMefSchemaVersion(submission.taxYear)) {
+    throw new Error(`No MeF schema package is bundled for tax year ${submission.taxYear}`)
+  }
+
+  const schemaDirectory = path.join(SCHEMA_ROOT_DIRECTORY, String(submission.taxYear))
+  const schemas = await Promise.all(SCHEMA_FILES.map(async (fileName) => ({
+    fileName,
+    contents: await fs.readFile(path.join(schemaDirectory, fileName), 'utf8'),
+  })))
+
+  const checks: { document: MefValidationError['document'], xml: string, schema: string }[] = [
+    { document: 'Return', xml: submission.returnXml, schema: 'Return1040.xsd' },
+    { document: 'IRSSubmissionManifest', xml: submission.manifestXml, schema: 'IRSSubmissionManifest.xsd' },
+  ]
+
+  const errors: MefValidationError[] = []
+  for (const check of checks) {
+    const result = await validateXML({
+      xml: { fileName: `${check.document}.xml`, contents: check.xml },
+      schema: schemas.find((schema) => schema.fileName === check.schema)!,
+      preload: schemas.filter((schema) => schema.fileName !== check.schema),
+    })
+    errors.push(...result.errors.map((error) => ({
+      document: check.document,
+      line: error.loc?.lineNumber ?? null,
+      message: error.message.replace('Schemas validity error : ', '').replace(`{${MEF_NAMESPACE}}`, '').trim(),
+    })))
+  }
+  return errors
+}
+
+// Stand-in for the acknowledgment the IRS returns once a transmitted submission is processed; the submission is
+// rejected when there are business rule errors
+export function buildMockAcknowledgment(
+  submissionId: string,
+  taxYear: number,
+  errors: SubmissionRejectionError[] = [],
+  now: Date = new Date()
+): string {
+  return serialize({
+    name: 'Acknowledgement',
+    attributes: { xmlns: MEF_NAMESPACE },
+    children: [
+      text('SubmissionId', submissionId),
+      text('EFIN', EFIN),
+      text('TaxYr', String(taxYear)),
+      text('SubmissionCategoryCd', 'IND'),
+      text('AcceptanceStatusTxt', errors.length > 0 ? 'Rejected' : 'Accepted'),
+      text('StatusDt', now.toISOString().slice(0, 10)),
+      text('ErrorCnt', String(errors.length)),
+      ...errors.map((error, index): XmlElement => ({
+        name: 'ValidationErrorGrp',
+        attributes: { errorId: index + 1 },
+        children: [
+          error.documentPath ? text('XpathContentTxt', error.documentPath) : null,
+          text('ErrorCategoryCd', 'Incorrect Data'),
+          text('ErrorMessageTxt', error.errorMessage),
+          text('RuleNum', error.ruleNumber),
+          text('SeverityCd', 'Reject and Stop'),
+        ],
+      })),
+    ],
+  })
+}
+
+function buildReturnHeader(taxReturn: any, now: Date): XmlElement {
+  const joint = taxReturn.filingStatus === 'MARRIED_FILING_JOINTLY'
+  const hasSpouse = joint || taxReturn.filingStatus === 'MARRIED_FILING_SEPARATELY'
+  const signatureDate = now.toISOString().slice(0, 10)
+
+  return {
+    name: 'ReturnHeader',
+    attributes: { binaryAttachmentCnt: 0 },
+    children: [
+      text('ReturnTs', now.toISOString()),
+      text('TaxYr', String(taxReturn.taxYear)),
+      text('TaxPeriodBeginDt', `${taxReturn.taxYear}-01-01`),
+      text('TaxPeriodEndDt', `${taxReturn.taxYear}-12-31`),
+      text('SoftwareId', SOFTWARE_ID),
+      { name: 'OriginatorGrp', children: [text('EFIN', EFIN), text('OriginatorTypeCd', 'OnlineFiler')] },
+      text('ReturnTypeCd', '1040'),
+      {
+        name: 'Filer',
+        children: [
+          text('PrimarySSN', digitsOnly(taxReturn.ssn)),
+          hasSpouse ? text('SpouseSSN', digitsOnly(taxReturn.spouseSsn)) : null,
+          text('NameLine1Txt', getNameLine1(taxReturn, joint)),
+          text('PrimaryNameControlTxt', getPersonNameControl(taxReturn.lastName)),
+          joint ? text('SpouseNameControlTxt', getPersonNameControl(taxReturn.spouseLastName)) : null,
+          {
+            name: 'USAddress',
+            children: [
+              text('AddressLine1Txt', cleanText(taxReturn.address, /[^A-Za-z0-9\-/ ]/g, STREET_ADDRESS_LENGTH)),
+              text('CityNm', cleanText(taxReturn.city, /[^A-Za-z ]/g, CITY_LENGTH)),
+              text('StateAbbreviationCd', (taxReturn.state || '').trim().toUpperCase()),
+              text('ZIPCd', digitsOnly(taxReturn.zipCode)),
+            ],
+          },
+        ],
+      },
+      text('PrimarySignatureDt', signatureDate),
+      joint ? text('SpouseSignatureDt', signatureDate) : null,
+    ],
+  }
+}
+
+// Form 1040 and schedule documents: the form's own groups first, then its lines in form order
+function buildFormDocument(form: FilledReturnForm, data: ReturnFormData, index: number): XmlElement {
+  const amounts = form.sections
+    .flatMap((section) => section.lines)
+    .filter((line) => line.mefElement)
+    .map((line) => amount(line.mefElement!, line.amount))
+
+  return {
+    name: form.mefDocumentName,
+    attributes: { documentId: `${form.mefDocumentName}-${index + 1}` },
+    children: [...buildFormGroups(form, data), ...amounts],
+  }
+}
+
+function buildFormGroups(form: FilledReturnForm, data: ReturnFormData): (XmlElement | null)[] {
+  const { taxReturn } = data
+
+  switch (form.mefDocumentName) {
+    case 'IRS1040':
+      return [
+        text('IndividualReturnFilingStatusCd', FILING_STATUS_CODES[taxReturn.filingStatus] || ''),
+        ...(taxReturn.dependents || []).map((dependent: any): XmlElement => ({
+          name: 'DependentDetail',
+          children: [
+            text('DependentFirstNm', cleanText(dependent.firstName, /[^A-Za-z\- ]/g, PERSON_NAME_LENGTH)),
+            text('DependentLastNm', cleanText(dependent.lastName, /[^A-Za-z\- ]/g, PERSON_NAME_LENGTH)),
+            dependent.ssn ? text('DependentSSN', digitsOnly(dependent.ssn)) : null,
+            text('DependentRelationshipCd', cleanText(dependent.relationship, /[^A-Za-z ]/g, DESCRIPTION_LENGTH).toUpperCase()),
+            text(dependent.qualifiesForCTC ? 'EligibleForChildTaxCreditInd' : 'EligibleForODCInd', 'X'),
+          ],
+        })),
+      ]
+    case 'IRS1040ScheduleB':
+      return [
+        ...getPayerGroups(taxReturn, 'INTEREST', 'InterestPayerGrp'),
+        ...getPayerGroups(taxReturn, 'DIVIDENDS', 'DividendPayerGrp'),
+      ]
+    case 'IRS1040ScheduleC': {
+      const business = (taxReturn.businesses || []).find((candidate: any) => candidate.id === form.businessId) || {}
+      return [
+        text('BusinessNameLine1Txt', getBusinessName(business.name)),
+        business.ein ? text('EIN', digitsOnly(business.ein)) : null,
+        business.activityCode ? text('PrincipalBusinessActivityCd', business.activityCode.trim()) : null,
+        business.description
+          ? text('PrincipalBusinessActivityDesc', cleanText(business.description, /[\r\n]/g, DESCRIPTION_LENGTH))
+          : null,
+        text('AccountingMethodCd', business.accountingMethod || 'CASH'),
+      ]
+    }
+    case 'IRS1040ScheduleSE':
+      return [text('SSN', digitsOnly(form.forSpouse ? taxReturn.spouseSsn : taxReturn.ssn))]
+    case 'IRS1040ScheduleD':
+      return data.scheduleD.form8949
+        .filter((totals) => totals.transactionCount > 0)
+        .map((totals): XmlElement => ({
+          name: 'Form8949TotalsGrp',
+          children: [
+            text('Form8949BoxCd', totals.category),
+            text('TotalProceedsSalesPriceAmt', String(roundToDollars(totals.proceeds))),
+            text('TotalCostOrOtherBasisAmt', String(roundToDollars(totals.costBasis))),
+            amount('TotalAdjustmentsToGainOrLossAmt', totals.adjustments),
+            text('TotalGainOrLossAmt', String(roundToDollars(totals.gainOrLoss))),
+          ],
+        }))
+    default:
+      return []
+  }
+}
+
+// One Form W-2 document per W-2 entered, with the employee taken from the return's primary filer or spouse
+function buildW2Documents(taxReturn: any): XmlElement[] {
+  return (taxReturn.incomeEntries || [])
+    .filter((entry: any) => entry.incomeType === 'W2_WAGES')
+    .map((entry: any, index: number): XmlElement => {
+      const employee = entry.forSpouse
+        ? { ssn: taxReturn.spouseSsn, firstName: taxReturn.spouseFirstName, lastName: taxReturn.spouseLastName }
+        : { ssn: taxReturn.ssn, firstName: taxReturn.firstName, lastName: taxReturn.lastName }
+      const employerName = getBusinessName(entry.employerName || entry.payerName || entry.description)
+
+      return {
+        name: 'IRSW2',
+        attributes: { documentId: `IRSW2-${index + 1}` },
+        children: [
+          text('EmployeeSSN', digitsOnly(employee.ssn)),
+          text('EmployerEIN', digitsOnly(entry.employerEIN || entry.payerTIN)),
+          text('EmployerNameControlTxt', getBusinessNameControl(employerName)),
+          { name: 'EmployerName', children: [text('BusinessNameLine1Txt', employerName)] },
+          text('EmployeeNm', cleanName(`${employee.firstName || ''} ${employee.lastName || ''}`)),
+          text('WagesAmt', String(roundToDollars(Number(entry.amount) || 0))),
+          text('WithholdingAmt', String(roundToDollars(Number(entry.federalTaxWithheld) || 0))),
+          amount('SocialSecurityWagesAmt', optionalNumber(entry.socialSecurityWages)),
+          amount('SocialSecurityTaxAmt', optionalNumber(entry.socialSecurityTaxWithheld)),
+          amount('MedicareWagesAndTipsAmt', optionalNumber(entry.medicareWages)),
+          amount('MedicareTaxWithheldAmt', optionalNumber(entry.medicareTaxWithheld)),
+          amount('DependentCareBenefitsAmt', optionalNumber(entry.dependentCareBenefits)),
+          entry.retirementPlan ? text('RetirementPlanInd', 'X') : null,
+          ...(entry.stateLines || []).map((stateLine: any): XmlElement => ({
+            name: 'W2StateLocalTaxGrp',
+            children: [
+              text('StateAbbreviationCd', (stateLine.stateCode || '').trim().toUpperCase()),
+              amount('StateWagesAmt', Number(stateLine.stateWages)),
+              amount('StateIncomeTaxAmt', Number(stateLine.stateTaxWithheld)),
+            ],
+          })),
+        ],
+      }
+    })
+}
+
+function getPayerGroups(taxReturn: any, incomeType: string, groupName: string): XmlElement[] {
+  return (taxReturn.incomeEntries || [])
+    .filter((entry: any) => entry.incomeType === incomeType && roundToDollars(Number(entry.amount) || 0) !== 0)
+    .map((entry: any): XmlElement => ({
+      name: groupName,
+      children: [
+        text('PayerName', cleanText(entry.payerName || entry.description || 'Payer', /[\r\n]/g, DESCRIPTION_LENGTH)),
+        text('Amt', String(roundToDollars(Number(entry.amount)))),
+      ],
+    }))
+}
+
+// Primary filer as FIRST<LAST, with a joint filer's spouse added after an ampersand
+function getNameLine1(taxReturn: any, joint: boolean): string {
+  const primary = `${cleanName(taxReturn.firstName)}<${cleanName(taxReturn.lastName)}`
+  if (!joint) {
+    return primary.slice(0, NAME_LINE_LENGTH)
+  }
+  const spouseLastName = cleanName(taxReturn.spouseLastName)
+  const name = spouseLastName && spouseLastName !== cleanName(taxReturn.lastName)
+    ? `${primary}< & ${cleanName(taxReturn.spouseFirstName)} ${spouseLastName}`
+    : `${cleanName(taxReturn.firstName)} & ${cleanName(taxReturn.spouseFirstName)}<${cleanName(taxReturn.lastName)}`
+  return name.slice(0, NAME_LINE_LENGTH).trim()
+}
+
+// First four letters of the last name, which the IRS matches against its records for the SSN
+function getPersonNameControl(lastName: string | null | undefined): string {
+  return cleanName(lastName).replace(/[^A-Z-]/g, '').slice(0, 4)
+}
+
+// First four characters of the business name, leaving out a leading "The"
+function getBusinessNameControl(name: string): string {
+  return name.toUpperCase().replace(/^THE /, '').replace(/[^A-Z0-9&-]/g, '').slice(0, 4)
+}
+
+function getBusinessName(name: string | null | undefined): string {
+  return cleanText(name, /[^A-Za-z0-9#\-()&' ]/g, BUSINESS_NAME_LENGTH)
+}
+
+function cleanName(name: string | null | undefined): string {
+  return cleanText(name, /[^A-Za-z0-9\- ]/g, NAME_LINE_LENGTH).toUpperCase()
+}
+
+// Removes characters the schema type does not allow and collapses runs of spaces
+function cleanText(value: string | null | undefined, disallowed: RegExp, maxLength: number): string {
+  return (value || '').replace(disallowed, '').replace(/\s+/g, ' ').trim().slice(0, maxLength).trim()
+}
+
+function digitsOnly(value: string | null | undefined): string {
+  return (value || '').replace(/\D/g, '')
+}
+
+function optionalNumber(value: any): number | null {
+  return value === null || value === undefined ? null : Number(value)
+}
+
+function text(name: string, value: string): XmlElement {
+  return { name, text: value }
+}
+
+// Amount elements are left out when they round to zero
+function amount(name: string, value: number | null): XmlElement | null {
+  if (value === null || Number.isNaN(value)) {
+    return null
+  }
+  const dollars = roundToDollars(value)
+  return dollars === 0 ? null : { name, text: String(dollars) }
+}
+
+function serialize(root: XmlElement): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeElement(root, 0)}\n`
+}
+
+function serializeElement(element: XmlElement, depth: number): string {
+  const indent = '  '.repeat(depth)
+  const attributes = Object.entries(element.attributes || {})
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join('')
+  const children = (element.children || []).filter((child): child is XmlElement => child !== null)
+
+  if (children.length > 0) {
+    const content = children.map((child) => serializeElement(child, depth + 1)).join('\n')
+    return `${indent}<${element.name}${attributes}>\n${content}\n${indent}</${element.name}>`
+  }
+  return `${indent}<${element.name}${attributes}>${escapeXml(element.text || '')}</${element.name}>`
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// MeF amounts are whole dollars, with 50 cents or more rounded away from zero
+function roundToDollars(amount: number): number {
+  return Math.sign(amount) * Math.round(Math.abs(amount))
+}
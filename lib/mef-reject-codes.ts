@@ -0,0 +1,91 @@
+// IRS MeF reject codes for Form 1040 submissions, with the wizard step and field where each is fixed
+
+import { getTaxFilingStepTitle, TAX_FILING_STEP } from './tax-filing-steps'
+
+export interface RejectionFix {
+  step: number // Tax filing wizard step
+  stepTitle: string
+  field: string // Return field, or the list of entries, to correct
+  fieldLabel: string
+}
+
+export interface RejectCode {
+  ruleNumber: string
+  description: string
+  documentPath: string // XPath of the element the rule checks
+  fix: RejectionFix
+}
+
+export interface SubmissionRejectionError {
+  ruleNumber: string
+  errorMessage: string
+  documentPath: string | null
+}
+
+const PERSONAL_INFORMATION_STEP = wizardStep(TAX_FILING_STEP.PERSONAL_INFORMATION)
+const DEPENDENTS_STEP = wizardStep(TAX_FILING_STEP.DEPENDENTS)
+const INCOME_STEP = wizardStep(TAX_FILING_STEP.INCOME)
+const REVIEW_STEP = wizardStep(TAX_FILING_STEP.REVIEW)
+
+export const REJECT_CODES: Record<string, RejectCode> = {
+  'R0000-500-01': {
+    ruleNumber: 'R0000-500-01',
+    description: "The primary taxpayer's SSN and name control do not match IRS records.",
+    documentPath: '/Return/ReturnHeader/Filer/PrimaryNameControlTxt',
+    fix: { ...PERSONAL_INFORMATION_STEP, field: 'lastName', fieldLabel: 'Last name as shown on your Social Security card' },
+  },
+  'R0000-503-02': {
+    ruleNumber: 'R0000-503-02',
+    description: "The spouse's SSN and name control do not match IRS records.",
+    documentPath: '/Return/ReturnHeader/Filer/SpouseNameControlTxt',
+    fix: { ...PERSONAL_INFORMATION_STEP, field: 'spouseLastName', fieldLabel: "Spouse's last name as shown on their Social Security card" },
+  },
+  'R0000-504-02': {
+    ruleNumber: 'R0000-504-02',
+    description: "A dependent's SSN and name control do not match IRS records.",
+    documentPath: '/Return/ReturnData/IRS1040/DependentDetail/DependentSSN',
+    fix: { ...DEPENDENTS_STEP, field: 'dependents', fieldLabel: "Dependent's SSN and last name" },
+  },
+  'IND-181-01': {
+    ruleNumber: 'IND-181-01',
+    description: "The primary taxpayer's SSN was already used on another return for this tax year that the IRS accepted.",
+    documentPath: '/Return/ReturnHeader/Filer/PrimarySSN',
+    fix: { ...PERSONAL_INFORMATION_STEP, field: 'ssn', fieldLabel: 'Your social security number' },
+  },
+  'IND-182-01': {
+    ruleNumber: 'IND-182-01',
+    description: "The spouse's SSN was already used on another return for this tax year that the IRS accepted.",
+    documentPath: '/Return/ReturnHeader/Filer/SpouseSSN',
+    fix: { ...PERSONAL_INFORMATION_STEP, field: 'spouseSsn', fieldLabel: "Spouse's social security number" },
+  },
+  'IND-507-01': {
+    ruleNumber: 'IND-507-01',
+    description: "A dependent's SSN was already claimed on another return for this tax year that the IRS accepted.",
+    documentPath: '/Return/ReturnData/IRS1040/DependentDetail/DependentSSN',
+    fix: { ...DEPENDENTS_STEP, field: 'dependents', fieldLabel: 'Dependents claimed' },
+  },
+  'FW2-502': {
+    ruleNumber: 'FW2-502',
+    description: "A Form W-2 employer identification number does not match IRS records.",
+    documentPath: '/Return/ReturnData/IRSW2/EmployerEIN',
+    fix: { ...INCOME_STEP, field: 'employerEIN', fieldLabel: 'W-2 box b, employer identification number' },
+  },
+}
+
+// Codes without an entry above are reviewed as a whole before resubmitting
+export function getRejectionFix(ruleNumber: string): RejectionFix {
+  return REJECT_CODES[ruleNumber]?.fix || { ...REVIEW_STEP, field: '', fieldLabel: 'Entire return' }
+}
+
+export function buildRejectionError(ruleNumber: string): SubmissionRejectionError {
+  const rejectCode = REJECT_CODES[ruleNumber]
+  return {
+    ruleNumber,
+    errorMessage: rejectCode?.description || 'The return was rejected under an IRS business rule.',
+    documentPath: rejectCode?.documentPath || null,
+  }
+}
+
+function wizardStep(step: number): Pick<RejectionFix, 'step' | 'stepTitle'> {
+  return { step, stepTitle: getTaxFilingStepTitle(step) }
+}
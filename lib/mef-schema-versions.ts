@@ -0,0 +1,11 @@
+// MeF schema packages bundled under lib/mef-schemas/<tax year>, by the version attribute of their XSDs. Returns for
+// a tax year without a package cannot be e-filed until the IRS releases one and it is added here.
+
+const MEF_SCHEMA_VERSIONS: Record<number, string> = {
+  2024: '2024v5.0',
+}
+
+// Null when no schema package for the tax year is bundled
+export function getMefSchemaVersion(taxYear: number): string | null {
+  return MEF_SCHEMA_VERSIONS[taxYear] ?? null
+}
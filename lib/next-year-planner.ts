@@ -0,0 +1,197 @@
+// Next-year tax projection, Form 1040-ES payment schedule and Form W-4 Step 3 and Step 4 amounts
+
+import { calculateEnhancedTaxReturn, EnhancedTaxCalculationResult } from './enhanced-tax-calculations'
+import { TaxCalculationInput, TaxCalculationResult } from './tax-calculations'
+import { isSupportedTaxYear, getTaxYearRules, normalizeFilingStatus, SUPPORTED_TAX_YEARS } from './tax-year-rules'
+
+// Form 1040-ES safe harbor: 90% of next year's tax, or 100% of this year's (110% above $150,000 of AGI,
+// $75,000 married filing separately)
+const CURRENT_YEAR_SAFE_HARBOR_RATE = 0.9
+const PRIOR_YEAR_SAFE_HARBOR_RATE = 1
+const HIGH_INCOME_PRIOR_YEAR_SAFE_HARBOR_RATE = 1.1
+const HIGH_INCOME_AGI_THRESHOLD = 150000
+const HIGH_INCOME_AGI_THRESHOLD_MARRIED_SEPARATE = 75000
+
+const INSTALLMENT_COUNT = 4
+const DEFAULT_PAY_PERIODS = 26
+
+// Unadjusted 1040-ES due dates for years without published rules
+const DEFAULT_DUE_DATES = ['04-15', '06-15', '09-15', '01-15']
+
+export type PlanningGoal = 'SAFE_HARBOR' | 'FULL_TAX'
+
+export interface NextYearChanges {
+  wageChange: number // Change in W-2 wages from this year
+  selfEmploymentIncomeChange: number
+  otherIncomeChange: number // Interest, dividends, retirement and other income without withholding
+  additionalDeductions: number // Itemized deductions beyond this year's
+  expectedWithholding: number | null // Federal withholding under the current W-4; null keeps this year's
+  payPeriods: number // Paychecks left in the year, used for W-4 Step 4(c)
+  goal: PlanningGoal
+}
+
+export interface QuarterlyPayment {
+  dueDate: string
+  amount: number
+}
+
+export interface FormW4Amounts {
+  step3Credits: number // Claim dependent and other credits
+  step4aOtherIncome: number // Other income not from jobs
+  step4bDeductions: number // Deductions Worksheet line 5
+  step4cExtraWithholding: number // Extra withholding per pay period
+}
+
+export interface NextYearPlan {
+  taxYear: number
+  rulesYear: number // Tax year whose brackets and limits were used for the projection
+  projection: EnhancedTaxCalculationResult
+  projectedTax: number // Total tax less refundable credits, as on Form 1040-ES worksheet line 11c
+  currentYearTax: number
+  safeHarborAmount: number // Worksheet line 12c
+  safeHarborBasis: 'NEXT_YEAR' | 'CURRENT_YEAR'
+  targetPayments: number
+  expectedWithholding: number
+  estimatedPaymentsNeeded: number
+  quarterlyPayments: QuarterlyPayment[]
+  formW4: FormW4Amounts | null // Null without wages to withhold from
+}
+
+export const DEFAULT_NEXT_YEAR_CHANGES: NextYearChanges = {
+  wageChange: 0,
+  selfEmploymentIncomeChange: 0,
+  otherIncomeChange: 0,
+  additionalDeductions: 0,
+  expectedWithholding: null,
+  payPeriods: DEFAULT_PAY_PERIODS,
+  goal: 'SAFE_HARBOR',
+}
+
+// Projects next year from this year's calculation input and result, with the filers a year older and this year's
+// carryovers applied. Withholding, estimated payments and state figures are left out of the projection.
+export function calculateNextYearPlan(
+  currentInput: TaxCalculationInput,
+  currentResult: Pick<TaxCalculationResult, 'adjustedGrossIncome' | 'federalWithholding' | 'form2210' | 'scheduleA'
+    | 'netOperatingLossToNextYear' | 'minimumTaxCreditToNextYear'>,
+  changes: NextYearChanges = DEFAULT_NEXT_YEAR_CHANGES
+): NextYearPlan {
+  const currentYear = currentInput.taxYear || SUPPORTED_TAX_YEARS[SUPPORTED_TAX_YEARS.length - 1]
+  const taxYear = currentYear + 1
+  const rulesYear = isSupportedTaxYear(taxYear) ? taxYear : SUPPORTED_TAX_YEARS[SUPPORTED_TAX_YEARS.length - 1]
+
+  const wageChange = changes.wageChange || 0
+  const selfEmploymentIncomeChange = changes.selfEmploymentIncomeChange || 0
+  const otherIncomeChange = changes.otherIncomeChange || 0
+  const additionalDeductions = Math.max(0, changes.additionalDeductions || 0)
+
+  const projection = calculateEnhancedTaxReturn({
+    ...currentInput,
+    taxYear: rulesYear,
+    totalIncome: Math.max(0, currentInput.totalIncome + wageChange + selfEmploymentIncomeChange + otherIncomeChange),
+    earnedIncome: Math.max(0, (currentInput.earnedIncome ?? currentInput.totalIncome) + wageChange + selfEmploymentIncomeChange),
+    selfEmploymentIncome: Math.max(0, (currentInput.selfEmploymentIncome || 0) + selfEmploymentIncomeChange),
+    socialSecurityWages: Math.max(0, (currentInput.socialSecurityWages || 0) + wageChange),
+    medicareWages: Math.max(0, (currentInput.medicareWages || 0) + wageChange),
+    deductionEntries: additionalDeductions > 0
+      ? [...(currentInput.deductionEntries || []), { deductionType: 'OTHER_DEDUCTIONS', amount: additionalDeductions }]
+      : currentInput.deductionEntries,
+    itemizedDeductions: currentInput.itemizedDeductions + additionalDeductions,
+    charitableCarryforward: currentResult.scheduleA ? currentResult.scheduleA.charitableContributions.carryforwardToNextYear : 0,
+    netOperatingLossCarryforward: currentResult.netOperatingLossToNextYear,
+    minimumTaxCreditCarryforward: currentResult.minimumTaxCreditToNextYear,
+    taxpayerAge: currentInput.taxpayerAge != null ? currentInput.taxpayerAge + 1 : currentInput.taxpayerAge,
+    spouseAge: currentInput.spouseAge != null ? currentInput.spouseAge + 1 : currentInput.spouseAge,
+    federalWithholding: 0,
+    estimatedTaxPayments: 0,
+    estimatedPayments: [],
+    medicareTaxWithheld: 0,
+    excessSocialSecurityTax: 0,
+    priorYearTax: null,
+    priorYearAdjustedGrossIncome: null,
+    residencyPeriods: [],
+    stateIncomeLines: [],
+  })
+
+  const projectedTax = roundToCents(Math.max(0, projection.finalTax - projection.refundableCredits))
+  const currentYearTax = roundToCents(currentResult.form2210.currentYearTax)
+
+  const highIncomeThreshold = normalizeFilingStatus(currentInput.filingStatus) === 'marriedfilingseparately'
+    ? HIGH_INCOME_AGI_THRESHOLD_MARRIED_SEPARATE
+    : HIGH_INCOME_AGI_THRESHOLD
+  const priorYearRate = currentResult.adjustedGrossIncome > highIncomeThreshold
+    ? HIGH_INCOME_PRIOR_YEAR_SAFE_HARBOR_RATE
+    : PRIOR_YEAR_SAFE_HARBOR_RATE
+  const nextYearRequirement = roundToCents(projectedTax * CURRENT_YEAR_SAFE_HARBOR_RATE)
+  const currentYearRequirement = roundToCents(currentYearTax * priorYearRate)
+  const safeHarborBasis = currentYearRequirement < nextYearRequirement ? 'CURRENT_YEAR' : 'NEXT_YEAR'
+  const safeHarborAmount = Math.min(nextYearRequirement, currentYearRequirement)
+
+  const targetPayments = changes.goal === 'FULL_TAX' ? projectedTax : safeHarborAmount
+  const expectedWithholding = roundToCents(Math.max(0, changes.expectedWithholding ?? currentResult.federalWithholding))
+  const estimatedPaymentsNeeded = roundToCents(Math.max(0, targetPayments - expectedWithholding))
+
+  const installment = roundToCents(estimatedPaymentsNeeded / INSTALLMENT_COUNT)
+  const quarterlyPayments = estimatedPaymentsNeeded > 0
+    ? getDueDates(taxYear).map((dueDate) => ({ dueDate, amount: installment }))
+    : []
+
+  const projectedWages = Math.max(0, (currentInput.socialSecurityWages || 0) + wageChange)
+  const projectedSelfEmploymentIncome = Math.max(0, (currentInput.selfEmploymentIncome || 0) + selfEmploymentIncomeChange)
+
+  return {
+    taxYear,
+    rulesYear,
+    projection,
+    projectedTax,
+    currentYearTax,
+    safeHarborAmount,
+    safeHarborBasis,
+    targetPayments,
+    expectedWithholding,
+    estimatedPaymentsNeeded,
+    quarterlyPayments,
+    formW4: projectedWages > 0
+      ? calculateFormW4Amounts(projection, projectedWages + projectedSelfEmploymentIncome, targetPayments, changes.payPeriods)
+      : null,
+  }
+}
+
+// With Steps 3, 4(a) and 4(b) filled in, employer withholding approximates the regular income tax less credits.
+// Step 4(c) makes up what that leaves short of the target, such as self-employment and other Schedule 2 taxes.
+function calculateFormW4Amounts(
+  projection: EnhancedTaxCalculationResult,
+  earnedFromWork: number, // Wages and self-employment profit, which Step 4(a) leaves out
+  targetPayments: number,
+  payPeriods: number
+): FormW4Amounts {
+  const step3Credits = roundToDollars(projection.nonrefundableCredits)
+  const step4aOtherIncome = roundToDollars(Math.max(0, projection.grossIncome - earnedFromWork))
+
+  const itemized = projection.scheduleA ? projection.scheduleA.totalAllowed : projection.itemizedDeduction
+  const step4bDeductions = roundToDollars(
+    Math.max(0, itemized - projection.standardDeduction) + Math.max(0, projection.adjustmentsToIncome)
+  )
+
+  const withheldByFormula = Math.max(0, projection.taxLiability - projection.nonrefundableCredits)
+  const periods = Math.max(1, Math.round(payPeriods || DEFAULT_PAY_PERIODS))
+  const step4cExtraWithholding = roundToDollars(Math.max(0, targetPayments - withheldByFormula) / periods)
+
+  return { step3Credits, step4aOtherIncome, step4bDeductions, step4cExtraWithholding }
+}
+
+function getDueDates(taxYear: number): string[] {
+  if (isSupportedTaxYear(taxYear)) {
+    return getTaxYearRules(taxYear).estimatedTax.dueDates
+  }
+  return DEFAULT_DUE_DATES.map((monthDay, index) =>
+    `${index === DEFAULT_DUE_DATES.length - 1 ? taxYear + 1 : taxYear}-${monthDay}`
+  )
+}
+
+function roundToDollars(amount: number): number {
+  return Math.round(amount)
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
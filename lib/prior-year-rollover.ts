@@ -0,0 +1,153 @@
+// "Start from last year": carries a prior-year return's filer details, dependents, recurring employers and
+// payers, and carryforwards into a new return for the following year
+
+import { calculateCarryforwardsToNextYear, CarryforwardAmounts, getCarryforwardAmounts } from './carryforwards'
+import { determineDependentEligibility } from './dependent-eligibility'
+import { getPriorYearTaxSummary } from './estimated-tax-penalty'
+import { Business, CareProvider, Dependent, IncomeEntry, TaxReturn } from './types'
+
+// Filer details that usually don't change from one year to the next
+const PERSONAL_INFO_FIELDS = [
+  'filingStatus',
+  'firstName',
+  'lastName',
+  'ssn',
+  'dateOfBirth',
+  'isBlind',
+  'spouseFirstName',
+  'spouseLastName',
+  'spouseSsn',
+  'spouseDateOfBirth',
+  'spouseIsBlind',
+  'livedWithSpouse',
+  'address',
+  'city',
+  'state',
+  'zipCode',
+] as const
+
+type PersonalInfoField = typeof PERSONAL_INFO_FIELDS[number]
+
+// Each record keeps the prior-year id it was copied from so links between them can be rebuilt
+export interface PriorYearRollover {
+  taxReturn: Pick<TaxReturn, PersonalInfoField> & CarryforwardAmounts & {
+    priorYearReturnId: string
+    priorYearTax: number | null
+    priorYearAdjustedGrossIncome: number | null
+  }
+  dependents: {
+    sourceId: string
+    data: Pick<Dependent, 'firstName' | 'lastName' | 'ssn' | 'relationship' | 'birthDate' | 'monthsLivedWithTaxpayer'
+      | 'isFullTimeStudent' | 'isPermanentlyDisabled' | 'qualifiesForCTC' | 'qualifiesForEITC'>
+  }[]
+  businesses: {
+    sourceId: string
+    data: Pick<Business, 'name' | 'ein' | 'activityCode' | 'description' | 'accountingMethod' | 'forSpouse' | 'homeOfficeSquareFeet'>
+  }[]
+  incomeEntries: {
+    businessSourceId: string | null
+    data: Pick<IncomeEntry, 'incomeType' | 'description' | 'employerName' | 'employerEIN' | 'retirementPlan' | 'forSpouse'
+      | 'payerName' | 'payerTIN'> & { amount: number }
+    stateCodes: string[]
+  }[]
+  careProviders: {
+    dependentSourceId: string | null
+    data: Pick<CareProvider, 'name' | 'address' | 'identifyingNumber' | 'isHouseholdEmployee'> & { amountPaid: number }
+  }[]
+}
+
+// Carryovers to the next year, recalculated from the prior-year return's entries. Used when the prior-year
+// return hasn't been finalized and so hasn't written its carryforwards to the ledger.
+export function getPriorYearCarryforwards(priorYearReturn: any): CarryforwardAmounts {
+  return getCarryforwardAmounts(calculateCarryforwardsToNextYear(priorYearReturn))
+}
+
+// The prior-year return must include its dependents, businesses, income entries (with state lines) and care
+// providers. Amounts are left at zero for the new year's documents; dependents' credit eligibility is
+// re-derived for the new tax year.
+export function buildPriorYearRollover(priorYearReturn: any, taxYear: number): PriorYearRollover {
+  const personalInfo = Object.fromEntries(
+    PERSONAL_INFO_FIELDS.map((field) => [field, priorYearReturn[field]])
+  ) as Pick<TaxReturn, PersonalInfoField>
+  const priorYear = getPriorYearTaxSummary(priorYearReturn)
+
+  const dependents = (priorYearReturn.dependents || []).map((dependent: any) => {
+    const data = {
+      firstName: dependent.firstName,
+      lastName: dependent.lastName,
+      ssn: dependent.ssn,
+      relationship: dependent.relationship,
+      birthDate: dependent.birthDate,
+      monthsLivedWithTaxpayer: dependent.monthsLivedWithTaxpayer,
+      isFullTimeStudent: dependent.isFullTimeStudent,
+      isPermanentlyDisabled: dependent.isPermanentlyDisabled,
+    }
+    const eligibility = determineDependentEligibility(data, taxYear)
+    return {
+      sourceId: dependent.id,
+      data: {
+        ...data,
+        qualifiesForCTC: eligibility.qualifiesForCTC,
+        qualifiesForEITC: eligibility.qualifiesForEITC,
+      },
+    }
+  })
+
+  // Mileage and expenses change every year; the home office usually doesn't
+  const businesses = (priorYearReturn.businesses || []).map((business: any) => ({
+    sourceId: business.id,
+    data: {
+      name: business.name,
+      ein: business.ein,
+      activityCode: business.activityCode,
+      description: business.description,
+      accountingMethod: business.accountingMethod,
+      forSpouse: business.forSpouse,
+      homeOfficeSquareFeet: business.homeOfficeSquareFeet,
+    },
+  }))
+
+  // Only entries from a named employer or payer are expected again
+  const incomeEntries = (priorYearReturn.incomeEntries || [])
+    .filter((entry: any) => entry.employerName || entry.payerName)
+    .map((entry: any) => ({
+      businessSourceId: entry.businessId || null,
+      data: {
+        incomeType: entry.incomeType,
+        description: entry.description,
+        amount: 0,
+        employerName: entry.employerName,
+        employerEIN: entry.employerEIN,
+        retirementPlan: entry.retirementPlan,
+        forSpouse: entry.forSpouse,
+        payerName: entry.payerName,
+        payerTIN: entry.payerTIN,
+      },
+      stateCodes: (entry.stateLines || []).map((line: any) => line.stateCode),
+    }))
+
+  const careProviders = (priorYearReturn.careProviders || []).map((provider: any) => ({
+    dependentSourceId: provider.dependentId || null,
+    data: {
+      name: provider.name,
+      address: provider.address,
+      identifyingNumber: provider.identifyingNumber,
+      isHouseholdEmployee: provider.isHouseholdEmployee,
+      amountPaid: 0,
+    },
+  }))
+
+  return {
+    taxReturn: {
+      ...personalInfo,
+      ...getPriorYearCarryforwards(priorYearReturn),
+      priorYearReturnId: priorYearReturn.id,
+      priorYearTax: priorYear?.tax ?? null,
+      priorYearAdjustedGrossIncome: priorYear?.adjustedGrossIncome ?? null,
+    },
+    dependents,
+    businesses,
+    incomeEntries,
+    careProviders,
+  }
+}
@@ -0,0 +1,707 @@
+// Form 1040 and schedule line mapping for printed returns, filled from the calculated return
+
+import { buildTaxCalculationInput, calculateTaxReturn, PersonScheduleSE, TaxCalculationInput, TaxCalculationResult } from './tax-calculations'
+import { BUSINESS_EXPENSE_CATEGORIES, calculateScheduleCSummary, ScheduleCResult, ScheduleCSummary } from './schedule-c'
+import { Form8949Category, ScheduleDResult } from './schedule-d'
+
+// Schedule B is required when taxable interest or ordinary dividends are over this amount
+const SCHEDULE_B_THRESHOLD = 1500
+
+export type ReturnFormId =
+  | 'FORM_1040'
+  | 'SCHEDULE_1'
+  | 'SCHEDULE_2'
+  | 'SCHEDULE_3'
+  | 'SCHEDULE_A'
+  | 'SCHEDULE_B'
+  | 'SCHEDULE_C'
+  | 'SCHEDULE_D'
+  | 'SCHEDULE_SE'
+
+export interface ReturnFormData {
+  taxReturn: any // Including income entries, dependents, businesses (with expenses) and capital transactions
+  input: TaxCalculationInput
+  result: TaxCalculationResult
+  scheduleC: ScheduleCSummary
+  scheduleD: ScheduleDResult
+}
+
+// One copy of a form; Schedule C is filed once per business and Schedule SE once per self-employed spouse
+export interface ReturnFormInstance {
+  business?: any
+  scheduleC?: ScheduleCResult
+  scheduleSE?: PersonScheduleSE
+}
+
+export interface ReturnFormField {
+  label: string
+  value: (data: ReturnFormData, instance: ReturnFormInstance) => string | null
+}
+
+export interface ReturnFormLine {
+  line: string // IRS line number
+  label: string
+  mefElement: string // Element in the form's MeF XML document
+  amount: (data: ReturnFormData, instance: ReturnFormInstance) => number | null
+}
+
+export interface FilledFormLine {
+  line: string
+  label: string
+  mefElement?: string
+  amount: number | null // Null for lines that only list a name, such as dependents and payers
+}
+
+export interface ReturnFormSection {
+  title: string
+  rows?: (data: ReturnFormData, instance: ReturnFormInstance) => FilledFormLine[] // Lists of payers or dependents
+  lines: ReturnFormLine[]
+}
+
+export interface ReturnFormTemplate {
+  formId: ReturnFormId
+  title: string
+  description: string
+  mefDocumentName: string // Root element of the form in an MeF return
+  attachmentSequence: string | null
+  instances?: (data: ReturnFormData) => ReturnFormInstance[]
+  isRequired: (data: ReturnFormData) => boolean
+  fields: ReturnFormField[]
+  sections: ReturnFormSection[]
+}
+
+export interface FilledReturnForm {
+  formId: ReturnFormId
+  title: string
+  description: string
+  mefDocumentName: string
+  attachmentSequence: string | null
+  businessId: string | null // Business a Schedule C is for
+  forSpouse: boolean // Schedule SE filed for the spouse on a joint return
+  taxYear: number
+  fields: { label: string, value: string }[]
+  sections: { title: string, lines: FilledFormLine[] }[]
+}
+
+const FILING_STATUS_LABELS: Record<string, string> = {
+  SINGLE: 'Single',
+  MARRIED_FILING_JOINTLY: 'Married filing jointly',
+  MARRIED_FILING_SEPARATELY: 'Married filing separately',
+  HEAD_OF_HOUSEHOLD: 'Head of household',
+  QUALIFYING_SURVIVING_SPOUSE: 'Qualifying surviving spouse',
+}
+
+const FORM_8949_LINES: Record<Form8949Category, string> = {
+  A: '1b',
+  B: '2',
+  C: '3',
+  D: '8b',
+  E: '9',
+  F: '10',
+}
+
+// MeF elements for the Schedule C expense lines
+const SCHEDULE_C_EXPENSE_ELEMENTS: Record<string, string> = {
+  ADVERTISING: 'AdvertisingAmt',
+  CAR_AND_TRUCK: 'CarAndTruckExpensesAmt',
+  COMMISSIONS_AND_FEES: 'CommissionsAndFeesAmt',
+  CONTRACT_LABOR: 'ContractLaborAmt',
+  DEPRECIATION: 'DepreciationAndSec179DedAmt',
+  INSURANCE: 'InsuranceAmt',
+  INTEREST: 'OtherInterestAmt',
+  LEGAL_AND_PROFESSIONAL: 'LegalAndProfessionalServicesAmt',
+  OFFICE_EXPENSE: 'OfficeExpenseAmt',
+  RENT_OR_LEASE: 'RentOrLeaseOtherBusPropAmt',
+  REPAIRS_AND_MAINTENANCE: 'RepairsAndMaintenanceAmt',
+  SUPPLIES: 'SuppliesAmt',
+  TAXES_AND_LICENSES: 'TaxesAndLicensesAmt',
+  TRAVEL: 'TravelAmt',
+  MEALS: 'DeductibleMealsAmt',
+  UTILITIES: 'UtilitiesAmt',
+  WAGES: 'WagesAmt',
+  OTHER: 'OtherExpensesAmt',
+}
+
+const ACCOUNTING_METHOD_LABELS: Record<string, string> = {
+  CASH: 'Cash',
+  ACCRUAL: 'Accrual',
+  OTHER: 'Other',
+}
+
+// Name and SSN shown at the top of every schedule
+const FILER_FIELDS: ReturnFormField[] = [
+  { label: 'Name(s) shown on return', value: (data) => getFilerNames(data.taxReturn) },
+  { label: 'Your social security number', value: (data) => data.taxReturn.ssn || null },
+]
+
+export const FORM_1040_TEMPLATE: ReturnFormTemplate = {
+  formId: 'FORM_1040',
+  title: 'Form 1040',
+  description: 'U.S. Individual Income Tax Return',
+  mefDocumentName: 'IRS1040',
+  attachmentSequence: null,
+  isRequired: () => true,
+  fields: [
+    { label: 'Filing status', value: (data) => FILING_STATUS_LABELS[data.taxReturn.filingStatus] || null },
+    { label: 'Your first name and middle initial', value: (data) => data.taxReturn.firstName || null },
+    { label: 'Last name', value: (data) => data.taxReturn.lastName || null },
+    { label: 'Your social security number', value: (data) => data.taxReturn.ssn || null },
+    { label: "Spouse's first name and middle initial", value: (data) => hasSpouse(data) ? data.taxReturn.spouseFirstName || null : null },
+    { label: 'Last name', value: (data) => hasSpouse(data) ? data.taxReturn.spouseLastName || null : null },
+    { label: "Spouse's social security number", value: (data) => hasSpouse(data) ? data.taxReturn.spouseSsn || null : null },
+    { label: 'Home address', value: (data) => data.taxReturn.address || null },
+    {
+      label: 'City, state and ZIP code',
+      value: (data) => [data.taxReturn.city, [data.taxReturn.state, data.taxReturn.zipCode].filter(Boolean).join(' ')]
+        .filter(Boolean)
+        .join(', ') || null,
+    },
+  ],
+  sections: [
+    {
+      title: 'Dependents',
+      rows: (data) => (data.taxReturn.dependents || []).map((dependent: any) => ({
+        line: '',
+        label: [
+          `${dependent.firstName} ${dependent.lastName}`,
+          dependent.ssn,
+          dependent.relationship,
+          dependent.qualifiesForCTC ? 'Child tax credit' : 'Credit for other dependents',
+        ].filter(Boolean).join('   '),
+        amount: null,
+      })),
+      lines: [],
+    },
+    {
+      title: 'Income',
+      lines: [
+        { line: '1a', label: 'Total amount from Form(s) W-2, box 1', mefElement: 'WagesAmt', amount: (data) => sumIncome(data, 'W2_WAGES') },
+        { line: '1e', label: 'Taxable dependent care benefits from Form 2441, line 26', mefElement: 'TaxableDependentCareExpnsAmt', amount: (data) => data.result.taxableDependentCareBenefits },
+        { line: '1z', label: 'Add lines 1a through 1h', mefElement: 'WagesSalariesAndTipsAmt', amount: (data) => getWages(data) },
+        { line: '2a', label: 'Tax-exempt interest', mefElement: 'TaxExemptInterestAmt', amount: (data) => data.input.taxExemptInterest || 0 },
+        { line: '2b', label: 'Taxable interest', mefElement: 'TaxableInterestAmt', amount: (data) => sumIncome(data, 'INTEREST') },
+        { line: '3a', label: 'Qualified dividends', mefElement: 'QualifiedDividendsAmt', amount: (data) => data.input.qualifiedDividends || 0 },
+        { line: '3b', label: 'Ordinary dividends', mefElement: 'OrdinaryDividendsAmt', amount: (data) => sumIncome(data, 'DIVIDENDS') },
+        { line: '5b', label: 'Pensions, annuities and IRA distributions, taxable amount', mefElement: 'TotalTaxablePensionsAmt', amount: (data) => sumIncome(data, 'RETIREMENT_DISTRIBUTIONS') },
+        { line: '6a', label: 'Social security benefits', mefElement: 'SocSecBnftAmt', amount: (data) => data.result.socialSecurity.benefits },
+        { line: '6b', label: 'Taxable amount', mefElement: 'TaxableSocSecAmt', amount: (data) => data.result.socialSecurity.taxableBenefits },
+        { line: '7', label: 'Capital gain or (loss). Attach Schedule D if required', mefElement: 'CapitalGainLossAmt', amount: (data) => data.scheduleD.capitalGainOrLoss },
+        { line: '8', label: 'Additional income from Schedule 1, line 10', mefElement: 'TotalAdditionalIncomeAmt', amount: (data) => getAdditionalIncome(data) },
+        { line: '9', label: 'Total income', mefElement: 'TotalIncomeAmt', amount: (data) => data.result.grossIncome },
+        { line: '10', label: 'Adjustments to income from Schedule 1, line 26', mefElement: 'TotalAdjustmentsAmt', amount: (data) => data.result.adjustmentsToIncome },
+        { line: '11', label: 'Adjusted gross income', mefElement: 'AdjustedGrossIncomeAmt', amount: (data) => data.result.adjustedGrossIncome },
+        { line: '12', label: 'Standard deduction or itemized deductions (from Schedule A)', mefElement: 'TotalItemizedOrStandardDedAmt', amount: (data) => getDeduction(data) },
+        { line: '14', label: 'Add lines 12 and 13', mefElement: 'TotalDeductionsAmt', amount: (data) => getDeduction(data) },
+        { line: '15', label: 'Taxable income', mefElement: 'TaxableIncomeAmt', amount: (data) => data.result.taxableIncome },
+      ],
+    },
+    {
+      title: 'Tax and Credits',
+      lines: [
+        { line: '16', label: 'Tax', mefElement: 'TaxAmt', amount: (data) => data.result.taxLiability },
+        { line: '17', label: 'Amount from Schedule 2, line 3', mefElement: 'AdditionalTaxAmt', amount: (data) => data.result.alternativeMinimumTax },
+        { line: '18', label: 'Add lines 16 and 17', mefElement: 'TotalTaxBeforeCrAndOthTaxesAmt', amount: (data) => data.result.taxLiability + data.result.alternativeMinimumTax },
+        { line: '19', label: 'Child tax credit or credit for other dependents from Schedule 8812', mefElement: 'CTCODCAmt', amount: (data) => data.result.childTaxCredit },
+        { line: '20', label: 'Amount from Schedule 3, line 8', mefElement: 'TotalNonrefundableCreditsAmt', amount: (data) => getScheduleThreeCredits(data) },
+        { line: '21', label: 'Add lines 19 and 20', mefElement: 'TotalCreditsAmt', amount: (data) => data.result.nonrefundableCredits },
+        {
+          line: '22',
+          label: 'Subtract line 21 from line 18',
+          mefElement: 'TaxLessCreditsAmt',
+          amount: (data) => Math.max(0, data.result.taxLiability + data.result.alternativeMinimumTax - data.result.nonrefundableCredits),
+        },
+        { line: '23', label: 'Other taxes, including self-employment tax, from Schedule 2, line 21', mefElement: 'OtherTaxesAmt', amount: (data) => getOtherTaxes(data) },
+        { line: '24', label: 'Total tax', mefElement: 'TotalTaxAmt', amount: (data) => data.result.finalTax },
+      ],
+    },
+    {
+      title: 'Payments',
+      lines: [
+        { line: '25a', label: 'Federal income tax withheld from Form(s) W-2', mefElement: 'FormW2WithheldTaxAmt', amount: (data) => sumWithholding(data, true) },
+        { line: '25b', label: 'Federal income tax withheld from Form(s) 1099', mefElement: 'Form1099WithheldTaxAmt', amount: (data) => sumWithholding(data, false) },
+        { line: '25c', label: 'Other forms (Form 8959, line 24)', mefElement: 'TaxWithheldOtherAmt', amount: (data) => data.result.form8959.additionalMedicareTaxWithheld },
+        {
+          line: '25d',
+          label: 'Add lines 25a through 25c',
+          mefElement: 'WithholdingTaxAmt',
+          amount: (data) => data.result.federalWithholding + data.result.form8959.additionalMedicareTaxWithheld,
+        },
+        { line: '26', label: 'Estimated tax payments', mefElement: 'EstimatedTaxPaymentsAmt', amount: (data) => data.result.estimatedTaxPayments },
+        { line: '27', label: 'Earned income credit (EIC)', mefElement: 'EarnedIncomeCreditAmt', amount: (data) => data.result.earnedIncomeCredit },
+        { line: '28', label: 'Additional child tax credit from Schedule 8812', mefElement: 'AdditionalChildTaxCreditAmt', amount: (data) => data.result.additionalChildTaxCredit },
+        { line: '29', label: 'American opportunity credit from Form 8863, line 8', mefElement: 'AmericanOppCreditAmt', amount: (data) => data.result.refundableEducationCredit },
+        { line: '31', label: 'Amount from Schedule 3, line 15', mefElement: 'TotalOtherPaymentsAmt', amount: (data) => data.result.excessSocialSecurityTax },
+        { line: '32', label: 'Total other payments and refundable credits', mefElement: 'TotalOtherPaymentsRfdblCrAmt', amount: (data) => data.result.refundableCredits },
+        { line: '33', label: 'Total payments', mefElement: 'TotalPaymentsAmt', amount: (data) => data.result.totalPayments },
+      ],
+    },
+    {
+      title: 'Refund or Amount You Owe',
+      lines: [
+        { line: '34', label: 'Amount you overpaid', mefElement: 'OverpaidAmt', amount: (data) => Math.max(0, data.result.totalPayments - data.result.finalTax) },
+        { line: '35a', label: 'Amount you want refunded to you', mefElement: 'RefundAmt', amount: (data) => data.result.refundAmount },
+        { line: '37', label: 'Amount you owe', mefElement: 'OwedAmt', amount: (data) => data.result.amountOwed },
+        { line: '38', label: 'Estimated tax penalty', mefElement: 'EsPenaltyAmt', amount: (data) => data.result.estimatedTaxPenalty },
+      ],
+    },
+  ],
+}
+
+export const SCHEDULE_1_TEMPLATE: ReturnFormTemplate = {
+  formId: 'SCHEDULE_1',
+  title: 'Schedule 1 (Form 1040)',
+  description: 'Additional Income and Adjustments to Income',
+  mefDocumentName: 'IRS1040Schedule1',
+  attachmentSequence: '01',
+  isRequired: (data) => getAdditionalIncome(data) !== 0 || data.result.adjustmentsToIncome > 0,
+  fields: FILER_FIELDS,
+  sections: [
+    {
+      title: 'Part I Additional Income',
+      lines: [
+        { line: '1', label: 'Taxable refunds, credits, or offsets of state and local income taxes', mefElement: 'StateLocalTaxRefundAmt', amount: (data) => sumIncome(data, 'STATE_TAX_REFUNDS') },
+        { line: '3', label: 'Business income or (loss). Attach Schedule C', mefElement: 'BusinessIncomeLossAmt', amount: (data) => data.input.selfEmploymentIncome || 0 },
+        { line: '5', label: 'Rental real estate and royalties', mefElement: 'RentalRealEstateIncomeLossAmt', amount: (data) => sumIncome(data, 'RENTS') + sumIncome(data, 'ROYALTIES') },
+        { line: '7', label: 'Unemployment compensation', mefElement: 'UnemploymentCompAmt', amount: (data) => sumIncome(data, 'UNEMPLOYMENT') },
+        { line: '8a', label: 'Net operating loss', mefElement: 'NetOperatingLossDeductionAmt', amount: (data) => -data.result.netOperatingLossDeduction },
+        { line: '8b', label: 'Gambling', mefElement: 'GamblingIncomeAmt', amount: (data) => sumIncome(data, 'GAMBLING_WINNINGS') },
+        { line: '8c', label: 'Cancellation of debt', mefElement: 'CancellationOfDebtAmt', amount: (data) => sumIncome(data, 'CANCELLATION_OF_DEBT') },
+        { line: '8z', label: 'Other income', mefElement: 'OtherIncomeAmt', amount: (data) => getOtherIncome(data) },
+        { line: '10', label: 'Total additional income', mefElement: 'TotalAdditionalIncomeAmt', amount: (data) => getAdditionalIncome(data) },
+      ],
+    },
+    {
+      title: 'Part II Adjustments to Income',
+      lines: [
+        { line: '11', label: 'Educator expenses', mefElement: 'EducatorExpensesAmt', amount: (data) => data.result.adjustments.educatorExpenses.allowed },
+        { line: '13', label: 'Health savings account deduction', mefElement: 'HealthSavingsAccountDedAmt', amount: (data) => data.result.adjustments.hsaDeduction.allowed },
+        { line: '15', label: 'Deductible part of self-employment tax. Attach Schedule SE', mefElement: 'DeductibleSelfEmploymentTaxAmt', amount: (data) => data.result.adjustments.selfEmploymentTaxDeduction },
+        { line: '17', label: 'Self-employed health insurance deduction', mefElement: 'SelfEmpldHealthInsDedAmt', amount: (data) => data.result.adjustments.selfEmployedHealthInsurance.allowed },
+        { line: '20', label: 'IRA deduction', mefElement: 'IRADeductionAmt', amount: (data) => data.result.adjustments.iraDeduction.allowed },
+        { line: '21', label: 'Student loan interest deduction', mefElement: 'StudentLoanInterestDedAmt', amount: (data) => data.result.adjustments.studentLoanInterest.allowed },
+        { line: '26', label: 'Total adjustments to income', mefElement: 'TotalAdjustmentsAmt', amount: (data) => data.result.adjustmentsToIncome },
+      ],
+    },
+  ],
+}
+
+export const SCHEDULE_2_TEMPLATE: ReturnFormTemplate = {
+  formId: 'SCHEDULE_2',
+  title: 'Schedule 2 (Form 1040)',
+  description: 'Additional Taxes',
+  mefDocumentName: 'IRS1040Schedule2',
+  attachmentSequence: '02',
+  isRequired: (data) => data.result.alternativeMinimumTax > 0 || getOtherTaxes(data) > 0,
+  fields: FILER_FIELDS,
+  sections: [
+    {
+      title: 'Part I Tax',
+      lines: [
+        { line: '1', label: 'Alternative minimum tax. Attach Form 6251', mefElement: 'AlternativeMinimumTaxAmt', amount: (data) => data.result.alternativeMinimumTax },
+        { line: '3', label: 'Add lines 1 and 2', mefElement: 'TotalAdditionalTaxAmt', amount: (data) => data.result.alternativeMinimumTax },
+      ],
+    },
+    {
+      title: 'Part II Other Taxes',
+      lines: [
+        { line: '4', label: 'Self-employment tax. Attach Schedule SE', mefElement: 'SelfEmploymentTaxAmt', amount: (data) => data.result.selfEmploymentTax },
+        { line: '11', label: 'Additional Medicare Tax. Attach Form 8959', mefElement: 'AdditionalMedicareTaxAmt', amount: (data) => data.result.additionalMedicareTax },
+        { line: '12', label: 'Net investment income tax. Attach Form 8960', mefElement: 'NetInvestmentIncomeTaxAmt', amount: (data) => data.result.netInvestmentIncomeTax },
+        { line: '21', label: 'Total other taxes', mefElement: 'TotalOtherTaxesAmt', amount: (data) => getOtherTaxes(data) },
+      ],
+    },
+  ],
+}
+
+export const SCHEDULE_3_TEMPLATE: ReturnFormTemplate = {
+  formId: 'SCHEDULE_3',
+  title: 'Schedule 3 (Form 1040)',
+  description: 'Additional Credits and Payments',
+  mefDocumentName: 'IRS1040Schedule3',
+  attachmentSequence: '03',
+  isRequired: (data) => getScheduleThreeCredits(data) > 0 || data.result.excessSocialSecurityTax > 0,
+  fields: FILER_FIELDS,
+  sections: [
+    {
+      title: 'Part I Nonrefundable Credits',
+      lines: [
+        { line: '2', label: 'Credit for child and dependent care expenses. Attach Form 2441', mefElement: 'CreditForChildAndDepdCareAmt', amount: (data) => data.result.dependentCareCredit },
+        { line: '3', label: 'Education credits from Form 8863, line 19', mefElement: 'EducationCreditAmt', amount: (data) => data.result.educationCredit },
+        { line: '6b', label: 'Credit for prior year minimum tax. Attach Form 8801', mefElement: 'PriorYearMinimumTaxCreditAmt', amount: (data) => data.result.minimumTaxCredit },
+        { line: '8', label: 'Total nonrefundable credits', mefElement: 'TotalNonrefundableCreditsAmt', amount: (data) => getScheduleThreeCredits(data) },
+      ],
+    },
+    {
+      title: 'Part II Other Payments and Refundable Credits',
+      lines: [
+        { line: '11', label: 'Excess social security and tier 1 RRTA tax withheld', mefElement: 'ExcessSocSecAndTier1RRTATaxAmt', amount: (data) => data.result.excessSocialSecurityTax },
+        { line: '15', label: 'Total other payments and refundable credits', mefElement: 'TotalOtherPaymentsRfdblCrAmt', amount: (data) => data.result.excessSocialSecurityTax },
+      ],
+    },
+  ],
+}
+
+export const SCHEDULE_A_TEMPLATE: ReturnFormTemplate = {
+  formId: 'SCHEDULE_A',
+  title: 'Schedule A (Form 1040)',
+  description: 'Itemized Deductions',
+  mefDocumentName: 'IRS1040ScheduleA',
+  attachmentSequence: '07',
+  isRequired: (data) => data.result.scheduleA !== null && data.result.itemizedDeduction > data.result.standardDeduction,
+  fields: FILER_FIELDS,
+  sections: [
+    {
+      title: 'Medical and Dental Expenses',
+      lines: [
+        { line: '1', label: 'Medical and dental expenses', mefElement: 'MedicalAndDentalExpensesAmt', amount: (data) => data.result.scheduleA?.medicalExpenses.entered ?? null },
+        {
+          line: '3',
+          label: 'Multiply line 2 by 7.5%',
+          mefElement: 'CalculatedMedicalAllowableAmt',
+          amount: (data) => data.result.scheduleA?.medicalExpenses.entered ? data.result.scheduleA.medicalExpenses.floor : null,
+        },
+        { line: '4', label: 'Subtract line 3 from line 1', mefElement: 'NetMedicalAndDentalExpnssAmt', amount: (data) => data.result.scheduleA?.medicalExpenses.allowed ?? null },
+      ],
+    },
+    {
+      title: 'Taxes You Paid',
+      lines: [
+        { line: '5d', label: 'State and local taxes', mefElement: 'StateAndLocalTaxAmt', amount: (data) => data.result.scheduleA?.taxes.entered ?? null },
+        { line: '5e', label: 'Enter the smaller of line 5d or the limit', mefElement: 'SmallerStateAndLocalTaxAmt', amount: (data) => data.result.scheduleA?.taxes.allowed ?? null },
+        { line: '7', label: 'Add lines 5e and 6', mefElement: 'TotalTaxesPaidAmt', amount: (data) => data.result.scheduleA?.taxes.allowed ?? null },
+      ],
+    },
+    {
+      title: 'Interest You Paid',
+      lines: [
+        { line: '8a', label: 'Home mortgage interest and points reported on Form 1098', mefElement: 'HomeMortgageInterestAmt', amount: (data) => data.result.scheduleA?.interest.allowed ?? null },
+        { line: '10', label: 'Add lines 8e and 9', mefElement: 'TotalInterestPaidAmt', amount: (data) => data.result.scheduleA?.interest.allowed ?? null },
+      ],
+    },
+    {
+      title: 'Gifts to Charity',
+      lines: [
+        { line: '11', label: 'Gifts by cash or check, and other than by cash or check', mefElement: 'GiftsToCharityAmt', amount: (data) => data.result.scheduleA?.charitableContributions.entered ?? null },
+        { line: '13', label: 'Carryover from prior year', mefElement: 'CarryoverPriorYearAmt', amount: (data) => data.result.scheduleA?.charitableContributions.carryforwardUsed ?? null },
+        { line: '14', label: 'Add lines 11 through 13', mefElement: 'TotalGiftsToCharityAmt', amount: (data) => data.result.scheduleA?.charitableContributions.allowed ?? null },
+      ],
+    },
+    {
+      title: 'Other Itemized Deductions',
+      lines: [
+        { line: '16', label: 'Other itemized deductions', mefElement: 'OtherMiscellaneousDedAmt', amount: (data) => data.result.scheduleA?.otherDeductions.allowed ?? null },
+        { line: '17', label: 'Total itemized deductions', mefElement: 'TotalItemizedDeductionsAmt', amount: (data) => data.result.scheduleA?.totalAllowed ?? null },
+      ],
+    },
+  ],
+}
+
+export const SCHEDULE_B_TEMPLATE: ReturnFormTemplate = {
+  formId: 'SCHEDULE_B',
+  title: 'Schedule B (Form 1040)',
+  description: 'Interest and Ordinary Dividends',
+  mefDocumentName: 'IRS1040ScheduleB',
+  attachmentSequence: '08',
+  isRequired: (data) => sumIncome(data, 'INTEREST') > SCHEDULE_B_THRESHOLD || sumIncome(data, 'DIVIDENDS') > SCHEDULE_B_THRESHOLD,
+  fields: FILER_FIELDS,
+  sections: [
+    {
+      title: 'Part I Interest',
+      rows: (data) => getPayerRows(data, 'INTEREST', '1'),
+      lines: [
+        { line: '2', label: 'Add the amounts on line 1', mefElement: 'TotalInterestAmt', amount: (data) => sumIncome(data, 'INTEREST') },
+        { line: '4', label: 'Subtract line 3 from line 2. Enter on Form 1040, line 2b', mefElement: 'TaxableInterestAmt', amount: (data) => sumIncome(data, 'INTEREST') },
+      ],
+    },
+    {
+      title: 'Part II Ordinary Dividends',
+      rows: (data) => getPayerRows(data, 'DIVIDENDS', '5'),
+      lines: [
+        { line: '6', label: 'Add the amounts on line 5. Enter on Form 1040, line 3b', mefElement: 'TotalOrdinaryDividendsAmt', amount: (data) => sumIncome(data, 'DIVIDENDS') },
+      ],
+    },
+  ],
+}
+
+export const SCHEDULE_C_TEMPLATE: ReturnFormTemplate = {
+  formId: 'SCHEDULE_C',
+  title: 'Schedule C (Form 1040)',
+  description: 'Profit or Loss From Business',
+  mefDocumentName: 'IRS1040ScheduleC',
+  attachmentSequence: '09',
+  instances: (data) => data.scheduleC.businesses.map((scheduleC) => ({
+    scheduleC,
+    business: (data.taxReturn.businesses || []).find((business: any) => business.id === scheduleC.businessId),
+  })),
+  isRequired: (data) => data.scheduleC.businesses.length > 0,
+  fields: [
+    ...FILER_FIELDS,
+    { label: 'A  Principal business or profession', value: (data, { business }) => business?.description || null },
+    { label: 'B  Principal business code', value: (data, { business }) => business?.activityCode || null },
+    { label: 'C  Business name', value: (data, { business }) => business?.name || null },
+    { label: 'D  Employer ID number (EIN)', value: (data, { business }) => business?.ein || null },
+    { label: 'F  Accounting method', value: (data, { business }) => ACCOUNTING_METHOD_LABELS[business?.accountingMethod] || null },
+  ],
+  sections: [
+    {
+      title: 'Part I Income',
+      lines: [
+        { line: '1', label: 'Gross receipts or sales', mefElement: 'TotalGrossReceiptsAmt', amount: (data, { scheduleC }) => scheduleC?.grossReceipts ?? null },
+        { line: '7', label: 'Gross income', mefElement: 'GrossIncomeAmt', amount: (data, { scheduleC }) => scheduleC?.grossReceipts ?? null },
+      ],
+    },
+    {
+      title: 'Part II Expenses',
+      lines: [
+        ...BUSINESS_EXPENSE_CATEGORIES.map((category): ReturnFormLine => ({
+          line: category.line,
+          label: category.value === 'CAR_AND_TRUCK' ? 'Car and truck expenses' : category.label,
+          mefElement: SCHEDULE_C_EXPENSE_ELEMENTS[category.value],
+          amount: (data, { scheduleC }) => scheduleC
+            ? (scheduleC.expensesByCategory[category.value] || 0) + (category.value === 'CAR_AND_TRUCK' ? scheduleC.vehicleExpense : 0)
+            : null,
+        })),
+        { line: '28', label: 'Total expenses before expenses for business use of home', mefElement: 'TotalExpensesAmt', amount: (data, { scheduleC }) => scheduleC?.totalExpenses ?? null },
+        { line: '29', label: 'Tentative profit or (loss)', mefElement: 'TentativeProfitOrLossAmt', amount: (data, { scheduleC }) => scheduleC?.tentativeProfit ?? null },
+        { line: '30', label: 'Expenses for business use of your home (simplified method)', mefElement: 'ExpensesForBusinessUseOfHomeAmt', amount: (data, { scheduleC }) => scheduleC?.homeOfficeDeduction ?? null },
+        { line: '31', label: 'Net profit or (loss)', mefElement: 'NetProfitOrLossAmt', amount: (data, { scheduleC }) => scheduleC?.netProfit ?? null },
+      ],
+    },
+  ],
+}
+
+export const SCHEDULE_D_TEMPLATE: ReturnFormTemplate = {
+  formId: 'SCHEDULE_D',
+  title: 'Schedule D (Form 1040)',
+  description: 'Capital Gains and Losses',
+  mefDocumentName: 'IRS1040ScheduleD',
+  attachmentSequence: '12',
+  isRequired: (data) => data.scheduleD.form8949.some((totals) => totals.transactionCount > 0)
+    || data.scheduleD.capitalGainDistributions > 0
+    || data.scheduleD.shortTermCarryover > 0
+    || data.scheduleD.longTermCarryover > 0,
+  fields: FILER_FIELDS,
+  sections: [
+    {
+      title: 'Part I Short-Term Capital Gains and Losses',
+      rows: (data) => getForm8949Rows(data, ['A', 'B', 'C']),
+      lines: [
+        { line: '6', label: 'Short-term capital loss carryover', mefElement: 'ShortTermCapitalLossCarryoverAmt', amount: (data) => -data.scheduleD.shortTermCarryover },
+        { line: '7', label: 'Net short-term capital gain or (loss)', mefElement: 'NetSTCapitalGainOrLossAmt', amount: (data) => data.scheduleD.netShortTermGainOrLoss },
+      ],
+    },
+    {
+      title: 'Part II Long-Term Capital Gains and Losses',
+      rows: (data) => getForm8949Rows(data, ['D', 'E', 'F']),
+      lines: [
+        { line: '13', label: 'Capital gain distributions', mefElement: 'CapitalGainDistributionsAmt', amount: (data) => data.scheduleD.capitalGainDistributions },
+        { line: '14', label: 'Long-term capital loss carryover', mefElement: 'LongTermCapitalLossCarryoverAmt', amount: (data) => -data.scheduleD.longTermCarryover },
+        { line: '15', label: 'Net long-term capital gain or (loss)', mefElement: 'NetLTCapitalGainOrLossAmt', amount: (data) => data.scheduleD.netLongTermGainOrLoss },
+      ],
+    },
+    {
+      title: 'Part III Summary',
+      lines: [
+        { line: '16', label: 'Combine lines 7 and 15', mefElement: 'TotalCapitalGainOrLossAmt', amount: (data) => data.scheduleD.netGainOrLoss },
+        {
+          line: '21',
+          label: 'If line 16 is a loss, the smaller of the loss or the limit',
+          mefElement: 'AllowableCapitalLossAmt',
+          amount: (data) => data.scheduleD.netGainOrLoss < 0 ? data.scheduleD.capitalGainOrLoss : null,
+        },
+      ],
+    },
+  ],
+}
+
+export const SCHEDULE_SE_TEMPLATE: ReturnFormTemplate = {
+  formId: 'SCHEDULE_SE',
+  title: 'Schedule SE (Form 1040)',
+  description: 'Self-Employment Tax',
+  mefDocumentName: 'IRS1040ScheduleSE',
+  attachmentSequence: '17',
+  instances: (data) => data.result.scheduleSE.schedules.map((scheduleSE) => ({ scheduleSE })),
+  isRequired: (data) => data.result.scheduleSE.schedules.length > 0,
+  fields: [
+    { label: 'Name of person with self-employment income', value: (data, { scheduleSE }) => getPersonName(data.taxReturn, Boolean(scheduleSE?.forSpouse)) },
+    {
+      label: 'Social security number of person with self-employment income',
+      value: (data, { scheduleSE }) => (scheduleSE?.forSpouse ? data.taxReturn.spouseSsn : data.taxReturn.ssn) || null,
+    },
+  ],
+  sections: [
+    {
+      title: 'Part I Self-Employment Tax',
+      lines: [
+        { line: '2', label: 'Net profit or (loss) from Schedule C, line 31', mefElement: 'NetProfitOrLossAmt', amount: (data, { scheduleSE }) => scheduleSE?.selfEmploymentIncome ?? null },
+        { line: '6', label: 'Net earnings from self-employment', mefElement: 'NetEarningsFromSelfEmploymentAmt', amount: (data, { scheduleSE }) => scheduleSE?.netEarnings ?? null },
+        { line: '10', label: 'Social security portion', mefElement: 'SocialSecurityTaxAmt', amount: (data, { scheduleSE }) => scheduleSE?.socialSecurityTax ?? null },
+        { line: '11', label: 'Medicare portion', mefElement: 'MedicareTaxAmt', amount: (data, { scheduleSE }) => scheduleSE?.medicareTax ?? null },
+        { line: '12', label: 'Self-employment tax. Enter on Schedule 2, line 4', mefElement: 'SelfEmploymentTaxAmt', amount: (data, { scheduleSE }) => scheduleSE?.selfEmploymentTax ?? null },
+        { line: '13', label: 'Deduction for one-half of self-employment tax', mefElement: 'DeductibleSelfEmploymentTaxAmt', amount: (data, { scheduleSE }) => scheduleSE?.deductiblePart ?? null },
+      ],
+    },
+  ],
+}
+
+// In the order the forms are assembled: Form 1040 first, then schedules by attachment sequence number
+export const RETURN_FORM_TEMPLATES: ReturnFormTemplate[] = [
+  FORM_1040_TEMPLATE,
+  SCHEDULE_1_TEMPLATE,
+  SCHEDULE_2_TEMPLATE,
+  SCHEDULE_3_TEMPLATE,
+  SCHEDULE_A_TEMPLATE,
+  SCHEDULE_B_TEMPLATE,
+  SCHEDULE_C_TEMPLATE,
+  SCHEDULE_D_TEMPLATE,
+  SCHEDULE_SE_TEMPLATE,
+]
+
+// The return must include its income entries, dependents, businesses (with expenses) and capital transactions
+export function buildReturnFormData(taxReturn: any): ReturnFormData {
+  const { input, scheduleD } = buildTaxCalculationInput(taxReturn)
+  return {
+    taxReturn,
+    input,
+    result: calculateTaxReturn(input),
+    scheduleC: calculateScheduleCSummary(taxReturn.businesses || [], taxReturn.incomeEntries || [], input.taxYear),
+    scheduleD,
+  }
+}
+
+// Forms the return needs, with every line filled in; a line with nothing to report is null
+export function fillReturnForms(taxReturn: any, data: ReturnFormData = buildReturnFormData(taxReturn)): FilledReturnForm[] {
+  return RETURN_FORM_TEMPLATES
+    .filter((template) => template.isRequired(data))
+    .flatMap((template) => (template.instances ? template.instances(data) : [{}]).map((instance) => ({
+      formId: template.formId,
+      title: template.title,
+      description: template.description,
+      mefDocumentName: template.mefDocumentName,
+      attachmentSequence: template.attachmentSequence,
+      businessId: instance.business?.id ?? null,
+      forSpouse: Boolean(instance.scheduleSE?.forSpouse),
+      taxYear: taxReturn.taxYear,
+      fields: template.fields.map((field) => ({ label: field.label, value: field.value(data, instance) || '' })),
+      sections: template.sections
+        .map((section) => ({
+          title: section.title,
+          lines: [
+            ...(section.rows ? section.rows(data, instance) : []),
+            ...section.lines.map((line) => {
+              const amount = line.amount(data, instance)
+              return {
+                line: line.line,
+                label: line.label,
+                mefElement: line.mefElement,
+                amount: amount ? roundToCents(amount) : null,
+              }
+            }),
+          ],
+        }))
+        .filter((section) => section.lines.length > 0),
+    })))
+}
+
+function hasSpouse(data: ReturnFormData): boolean {
+  return data.taxReturn.filingStatus === 'MARRIED_FILING_JOINTLY' || data.taxReturn.filingStatus === 'MARRIED_FILING_SEPARATELY'
+}
+
+function getPersonName(taxReturn: any, forSpouse: boolean): string | null {
+  const name = forSpouse
+    ? `${taxReturn.spouseFirstName || ''} ${taxReturn.spouseLastName || ''}`
+    : `${taxReturn.firstName || ''} ${taxReturn.lastName || ''}`
+  return name.trim() || null
+}
+
+function getFilerNames(taxReturn: any): string | null {
+  const names = [getPersonName(taxReturn, false)]
+  if (taxReturn.filingStatus === 'MARRIED_FILING_JOINTLY') {
+    names.push(getPersonName(taxReturn, true))
+  }
+  return names.filter(Boolean).join(' & ') || null
+}
+
+function sumIncome(data: ReturnFormData, incomeType: string): number {
+  return roundToCents((data.taxReturn.incomeEntries || [])
+    .filter((entry: any) => entry.incomeType === incomeType)
+    .reduce((sum: number, entry: any) => sum + (Number(entry.amount) || 0), 0))
+}
+
+function sumWithholding(data: ReturnFormData, fromW2: boolean): number {
+  return roundToCents((data.taxReturn.incomeEntries || [])
+    .filter((entry: any) => (entry.incomeType === 'W2_WAGES') === fromW2)
+    .reduce((sum: number, entry: any) => sum + (Number(entry.federalTaxWithheld) || 0), 0))
+}
+
+function getWages(data: ReturnFormData): number {
+  return roundToCents(sumIncome(data, 'W2_WAGES') + data.result.taxableDependentCareBenefits)
+}
+
+// Form 1040 line 8: total income less the income reported on lines 1z through 7
+function getAdditionalIncome(data: ReturnFormData): number {
+  return roundToCents(
+    data.result.grossIncome
+    - getWages(data)
+    - sumIncome(data, 'INTEREST')
+    - sumIncome(data, 'DIVIDENDS')
+    - sumIncome(data, 'RETIREMENT_DISTRIBUTIONS')
+    - data.result.socialSecurity.taxableBenefits
+    - data.scheduleD.capitalGainOrLoss
+  )
+}
+
+// Schedule 1 line 8z: additional income without a line of its own
+function getOtherIncome(data: ReturnFormData): number {
+  return roundToCents(
+    getAdditionalIncome(data)
+    - sumIncome(data, 'STATE_TAX_REFUNDS')
+    - (data.input.selfEmploymentIncome || 0)
+    - sumIncome(data, 'RENTS')
+    - sumIncome(data, 'ROYALTIES')
+    - sumIncome(data, 'UNEMPLOYMENT')
+    + data.result.netOperatingLossDeduction
+    - sumIncome(data, 'GAMBLING_WINNINGS')
+    - sumIncome(data, 'CANCELLATION_OF_DEBT')
+  )
+}
+
+function getDeduction(data: ReturnFormData): number {
+  return Math.max(data.result.standardDeduction, data.result.itemizedDeduction)
+}
+
+function getScheduleThreeCredits(data: ReturnFormData): number {
+  return roundToCents(data.result.nonrefundableCredits - data.result.childTaxCredit)
+}
+
+function getOtherTaxes(data: ReturnFormData): number {
+  return roundToCents(data.result.selfEmploymentTax + data.result.additionalMedicareTax + data.result.netInvestmentIncomeTax)
+}
+
+function getPayerRows(data: ReturnFormData, incomeType: string, line: string): FilledFormLine[] {
+  return (data.taxReturn.incomeEntries || [])
+    .filter((entry: any) => entry.incomeType === incomeType && Number(entry.amount))
+    .map((entry: any) => ({
+      line,
+      label: entry.payerName || entry.description || 'Payer',
+      amount: roundToCents(Number(entry.amount)),
+    }))
+}
+
+function getForm8949Rows(data: ReturnFormData, categories: Form8949Category[]): FilledFormLine[] {
+  return data.scheduleD.form8949
+    .filter((totals) => categories.includes(totals.category) && totals.transactionCount > 0)
+    .map((totals) => ({
+      line: FORM_8949_LINES[totals.category],
+      label: `Form 8949 box ${totals.category}: proceeds ${formatAmount(totals.proceeds)}, cost ${formatAmount(totals.costBasis)}`,
+      amount: totals.gainOrLoss,
+    }))
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
@@ -0,0 +1,193 @@
+// Schedule A (Itemized Deductions) limits applied to the amounts entered on each deduction entry
+
+import { DEFAULT_TAX_YEAR, getTaxYearRules, normalizeFilingStatus } from './tax-year-rules'
+
+export const CHARITABLE_CONTRIBUTION_TYPES = [
+  { value: 'CASH', label: 'Cash or check (60% of AGI limit)' },
+  { value: 'NONCASH', label: 'Property other than cash (50% of AGI limit)' },
+  { value: 'CAPITAL_GAIN_PROPERTY', label: 'Appreciated long-term property (30% of AGI limit)' },
+]
+
+// Only medical expenses above this share of AGI are deductible
+const MEDICAL_EXPENSE_FLOOR_RATE = 0.075
+
+// Charitable contribution limits as a share of AGI
+const CASH_CONTRIBUTION_LIMIT_RATE = 0.6
+const NONCASH_CONTRIBUTION_LIMIT_RATE = 0.5
+const CAPITAL_GAIN_PROPERTY_LIMIT_RATE = 0.3
+
+// Home acquisition debt on which interest is deductible ($1M for loans taken out before December 16, 2017)
+const MORTGAGE_DEBT_LIMIT = 750000
+const MORTGAGE_DEBT_LIMIT_MARRIED_SEPARATE = 375000
+const GRANDFATHERED_MORTGAGE_DEBT_LIMIT = 1000000
+const GRANDFATHERED_MORTGAGE_DEBT_LIMIT_MARRIED_SEPARATE = 500000
+
+export interface ScheduleALine {
+  entered: number
+  allowed: number
+}
+
+export interface ScheduleAResult {
+  medicalExpenses: ScheduleALine & { floor: number } // Lines 1-4
+  taxes: ScheduleALine & { cap: number } // Lines 5a-7
+  interest: ScheduleALine & { qualifiedDebtRatio: number } // Lines 8-10
+  charitableContributions: ScheduleALine & {
+    carryforwardUsed: number // Line 13
+    carryforwardToNextYear: number
+  }
+  otherDeductions: ScheduleALine // Line 16
+  totalEntered: number
+  totalAllowed: number // Line 17
+}
+
+// Deduction types reported on each Schedule A section; adjustments to income and business expenses are not itemized
+const SCHEDULE_A_SECTIONS: Record<string, keyof Omit<ScheduleAResult, 'totalEntered' | 'totalAllowed'>> = {
+  MEDICAL_EXPENSES: 'medicalExpenses',
+  STATE_LOCAL_TAXES: 'taxes',
+  MORTGAGE_INTEREST: 'interest',
+  CHARITABLE_CONTRIBUTIONS: 'charitableContributions',
+  OTHER_DEDUCTIONS: 'otherDeductions',
+}
+
+// The state and local tax cap, reduced above the MAGI threshold in years with a phase-out
+export function getSaltCap(
+  filingStatus: string,
+  modifiedAGI: number,
+  taxYear: number = DEFAULT_TAX_YEAR
+): number {
+  const { saltCap } = getTaxYearRules(taxYear)
+  const marriedSeparate = normalizeFilingStatus(filingStatus) === 'marriedfilingseparately'
+  const limit = marriedSeparate ? saltCap.marriedFilingSeparatelyLimit : saltCap.limit
+
+  if (!saltCap.phaseOut) {
+    return limit
+  }
+
+  const threshold = marriedSeparate ? saltCap.phaseOut.marriedFilingSeparatelyThreshold : saltCap.phaseOut.threshold
+  const floor = marriedSeparate ? saltCap.phaseOut.marriedFilingSeparatelyFloor : saltCap.phaseOut.floor
+  const reduction = Math.max(0, modifiedAGI - threshold) * saltCap.phaseOut.rate
+
+  return roundToCents(Math.max(floor, limit - reduction))
+}
+
+// Share of mortgage interest that is deductible when the average balance exceeds the debt limits
+export function calculateQualifiedMortgageRatio(mortgageEntries: any[], filingStatus: string): number {
+  const marriedSeparate = normalizeFilingStatus(filingStatus) === 'marriedfilingseparately'
+  const withBalance = (mortgageEntries || []).filter((entry: any) => parseFloat(entry.mortgageBalance) > 0)
+
+  const grandfatheredBalance = withBalance
+    .filter((entry: any) => entry.isGrandfatheredMortgage)
+    .reduce((sum: number, entry: any) => sum + parseFloat(entry.mortgageBalance), 0)
+  const newBalance = withBalance
+    .filter((entry: any) => !entry.isGrandfatheredMortgage)
+    .reduce((sum: number, entry: any) => sum + parseFloat(entry.mortgageBalance), 0)
+  const totalBalance = grandfatheredBalance + newBalance
+
+  if (totalBalance === 0) {
+    return 1
+  }
+
+  // Grandfathered debt counts first and reduces the limit available to newer loans
+  const qualifiedGrandfathered = Math.min(
+    grandfatheredBalance,
+    marriedSeparate ? GRANDFATHERED_MORTGAGE_DEBT_LIMIT_MARRIED_SEPARATE : GRANDFATHERED_MORTGAGE_DEBT_LIMIT
+  )
+  const qualifiedNew = Math.min(
+    newBalance,
+    Math.max(0, (marriedSeparate ? MORTGAGE_DEBT_LIMIT_MARRIED_SEPARATE : MORTGAGE_DEBT_LIMIT) - qualifiedGrandfathered)
+  )
+
+  return Math.min(1, (qualifiedGrandfathered + qualifiedNew) / totalBalance)
+}
+
+export function calculateScheduleA(data: {
+  deductionEntries: any[]
+  adjustedGrossIncome: number
+  filingStatus: string
+  taxYear?: number
+  charitableCarryforward?: number
+}): ScheduleAResult {
+  const taxYear = data.taxYear || DEFAULT_TAX_YEAR
+  const agi = Math.max(0, data.adjustedGrossIncome)
+  const entries = data.deductionEntries || []
+
+  const sumEntries = (predicate: (entry: any) => boolean) => roundToCents(entries
+    .filter(predicate)
+    .reduce((sum: number, entry: any) => sum + (parseFloat(entry.amount) || 0), 0))
+  const ofType = (section: string) => (entry: any) => SCHEDULE_A_SECTIONS[entry.deductionType] === section
+
+  // Medical and dental expenses above 7.5% of AGI
+  const medicalEntered = sumEntries(ofType('medicalExpenses'))
+  const medicalFloor = roundToCents(agi * MEDICAL_EXPENSE_FLOOR_RATE)
+  const medicalAllowed = roundToCents(Math.max(0, medicalEntered - medicalFloor))
+
+  // State and local taxes up to the SALT cap
+  const taxesEntered = sumEntries(ofType('taxes'))
+  const saltCap = getSaltCap(data.filingStatus, agi, taxYear)
+  const taxesAllowed = roundToCents(Math.min(taxesEntered, saltCap))
+
+  // Mortgage interest on acquisition debt within the limits
+  const mortgageEntries = entries.filter(ofType('interest'))
+  const interestEntered = sumEntries(ofType('interest'))
+  const qualifiedDebtRatio = calculateQualifiedMortgageRatio(mortgageEntries, data.filingStatus)
+  const limitedInterest = sumEntries((entry: any) => ofType('interest')(entry) && parseFloat(entry.mortgageBalance) > 0)
+  const interestAllowed = roundToCents(interestEntered - limitedInterest + limitedInterest * qualifiedDebtRatio)
+
+  // Charitable contributions, applying each AGI limit in turn
+  const charitable = entries.filter(ofType('charitableContributions'))
+  const cashEntered = sumEntries((entry: any) => charitable.includes(entry) && (entry.charitableType || 'CASH') === 'CASH')
+  const noncashEntered = sumEntries((entry: any) => charitable.includes(entry) && entry.charitableType === 'NONCASH')
+  const capitalGainPropertyEntered = sumEntries((entry: any) => charitable.includes(entry) && entry.charitableType === 'CAPITAL_GAIN_PROPERTY')
+  const carryforward = Math.max(0, data.charitableCarryforward || 0)
+
+  // Pub. 526 order: gifts subject to the 50% limit come first and reduce the 60% limit on cash; capital gain
+  // property is then held to 30% of AGI within what is left of both limits
+  const noncashAllowed = Math.min(noncashEntered, agi * NONCASH_CONTRIBUTION_LIMIT_RATE)
+  const cashAllowed = Math.min(cashEntered, Math.max(0, agi * CASH_CONTRIBUTION_LIMIT_RATE - noncashAllowed))
+  const capitalGainPropertyAllowed = Math.min(
+    capitalGainPropertyEntered,
+    agi * CAPITAL_GAIN_PROPERTY_LIMIT_RATE,
+    Math.max(0, agi * NONCASH_CONTRIBUTION_LIMIT_RATE - noncashAllowed),
+    Math.max(0, agi * CASH_CONTRIBUTION_LIMIT_RATE - noncashAllowed - cashAllowed)
+  )
+  const currentYearAllowed = cashAllowed + noncashAllowed + capitalGainPropertyAllowed
+
+  // Prior-year carryovers are used after current-year gifts, within the overall 60% limit
+  const carryforwardUsed = roundToCents(Math.min(
+    carryforward,
+    Math.max(0, agi * CASH_CONTRIBUTION_LIMIT_RATE - currentYearAllowed)
+  ))
+  const charitableEntered = roundToCents(cashEntered + noncashEntered + capitalGainPropertyEntered)
+  const charitableAllowed = roundToCents(currentYearAllowed + carryforwardUsed)
+  const carryforwardToNextYear = roundToCents(charitableEntered + carryforward - charitableAllowed)
+
+  const otherEntered = sumEntries(ofType('otherDeductions'))
+
+  const totalEntered = roundToCents(medicalEntered + taxesEntered + interestEntered + charitableEntered + otherEntered)
+  const totalAllowed = roundToCents(medicalAllowed + taxesAllowed + interestAllowed + charitableAllowed + otherEntered)
+
+  return {
+    medicalExpenses: { entered: medicalEntered, allowed: medicalAllowed, floor: medicalFloor },
+    taxes: { entered: taxesEntered, allowed: taxesAllowed, cap: saltCap },
+    interest: { entered: interestEntered, allowed: interestAllowed, qualifiedDebtRatio },
+    charitableContributions: {
+      entered: charitableEntered,
+      allowed: charitableAllowed,
+      carryforwardUsed,
+      carryforwardToNextYear,
+    },
+    otherDeductions: { entered: otherEntered, allowed: otherEntered },
+    totalEntered,
+    totalAllowed,
+  }
+}
+
+// The Schedule A section a deduction entry is reported in, if any
+export function getScheduleASection(result: ScheduleAResult, deductionType: string): ScheduleALine | null {
+  const section = SCHEDULE_A_SECTIONS[deductionType]
+  return section ? result[section] : null
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
@@ -0,0 +1,143 @@
+// Schedule C (Profit or Loss From Business) for sole proprietors
+
+import { DEFAULT_TAX_YEAR, getTaxYearRules } from './tax-year-rules'
+import { IncomeType } from './types'
+
+export const BUSINESS_EXPENSE_CATEGORIES = [
+  { value: 'ADVERTISING', label: 'Advertising', line: '8' },
+  { value: 'CAR_AND_TRUCK', label: 'Car and truck expenses (actual, excluding mileage)', line: '9' },
+  { value: 'COMMISSIONS_AND_FEES', label: 'Commissions and fees', line: '10' },
+  { value: 'CONTRACT_LABOR', label: 'Contract labor', line: '11' },
+  { value: 'DEPRECIATION', label: 'Depreciation', line: '13' },
+  { value: 'INSURANCE', label: 'Insurance (other than health)', line: '15' },
+  { value: 'INTEREST', label: 'Interest', line: '16' },
+  { value: 'LEGAL_AND_PROFESSIONAL', label: 'Legal and professional services', line: '17' },
+  { value: 'OFFICE_EXPENSE', label: 'Office expense', line: '18' },
+  { value: 'RENT_OR_LEASE', label: 'Rent or lease', line: '20' },
+  { value: 'REPAIRS_AND_MAINTENANCE', label: 'Repairs and maintenance', line: '21' },
+  { value: 'SUPPLIES', label: 'Supplies', line: '22' },
+  { value: 'TAXES_AND_LICENSES', label: 'Taxes and licenses', line: '23' },
+  { value: 'TRAVEL', label: 'Travel', line: '24a' },
+  { value: 'MEALS', label: 'Deductible meals (50%)', line: '24b' },
+  { value: 'UTILITIES', label: 'Utilities', line: '25' },
+  { value: 'WAGES', label: 'Wages', line: '26' },
+  { value: 'OTHER', label: 'Other expenses', line: '27a' },
+]
+
+export const ACCOUNTING_METHODS = [
+  { value: 'CASH', label: 'Cash' },
+  { value: 'ACCRUAL', label: 'Accrual' },
+  { value: 'OTHER', label: 'Other' },
+]
+
+// Income types that can be reported as Schedule C gross receipts
+export const BUSINESS_RECEIPT_INCOME_TYPES: IncomeType[] = [
+  'NONEMPLOYEE_COMPENSATION',
+  'THIRD_PARTY_NETWORK_PAYMENTS',
+  'BUSINESS_INCOME',
+]
+
+// Simplified home office method: $5 per square foot, up to 300 square feet
+const HOME_OFFICE_RATE = 5
+const HOME_OFFICE_MAX_SQUARE_FEET = 300
+
+// Only half of business meal costs are deductible
+const MEALS_DEDUCTIBLE_PERCENTAGE = 0.5
+
+export interface ScheduleCResult {
+  businessId: string
+  name: string
+  grossReceipts: number
+  expensesByCategory: Record<string, number>
+  vehicleExpense: number
+  totalExpenses: number // Line 28, before home office
+  tentativeProfit: number
+  homeOfficeDeduction: number
+  netProfit: number
+}
+
+export interface ScheduleCSummary {
+  businesses: ScheduleCResult[]
+  grossReceipts: number
+  totalExpenses: number // All business expenses including home office
+  netProfit: number
+}
+
+// Returns a validation message for submitted expense rows, or null if they are all valid
+export function validateBusinessExpenses(expenses: any[]): string | null {
+  if (!Array.isArray(expenses)) {
+    return 'Expenses must be a list'
+  }
+
+  for (const expense of expenses) {
+    if (!BUSINESS_EXPENSE_CATEGORIES.some(category => category.value === expense?.category)) {
+      return `Invalid expense category: ${expense?.category}`
+    }
+    if (isNaN(parseFloat(expense.amount)) || parseFloat(expense.amount) < 0) {
+      return 'Expense amounts must be zero or more'
+    }
+  }
+
+  return null
+}
+
+export function calculateScheduleC(
+  business: any,
+  incomeEntries: any[],
+  taxYear: number = DEFAULT_TAX_YEAR
+): ScheduleCResult {
+  const grossReceipts = roundToCents((incomeEntries || [])
+    .filter((entry: any) => entry.businessId === business.id)
+    .reduce((sum: number, entry: any) => sum + (parseFloat(entry.amount) || 0), 0))
+
+  const expensesByCategory: Record<string, number> = {}
+  for (const expense of business.expenses || []) {
+    const amount = parseFloat(expense.amount) || 0
+    const deductible = expense.category === 'MEALS' ? amount * MEALS_DEDUCTIBLE_PERCENTAGE : amount
+    expensesByCategory[expense.category] = roundToCents((expensesByCategory[expense.category] || 0) + deductible)
+  }
+
+  const vehicleExpense = roundToCents((business.businessMiles || 0) * getTaxYearRules(taxYear).standardMileageRate)
+
+  const totalExpenses = roundToCents(
+    Object.values(expensesByCategory).reduce((sum, amount) => sum + amount, 0) + vehicleExpense
+  )
+  const tentativeProfit = roundToCents(grossReceipts - totalExpenses)
+
+  // The simplified home office deduction cannot create or increase a loss
+  const squareFeet = Math.min(business.homeOfficeSquareFeet || 0, HOME_OFFICE_MAX_SQUARE_FEET)
+  const homeOfficeDeduction = Math.min(squareFeet * HOME_OFFICE_RATE, Math.max(0, tentativeProfit))
+
+  return {
+    businessId: business.id,
+    name: business.name,
+    grossReceipts,
+    expensesByCategory,
+    vehicleExpense,
+    totalExpenses,
+    tentativeProfit,
+    homeOfficeDeduction,
+    netProfit: roundToCents(tentativeProfit - homeOfficeDeduction),
+  }
+}
+
+export function calculateScheduleCSummary(
+  businesses: any[],
+  incomeEntries: any[],
+  taxYear: number = DEFAULT_TAX_YEAR
+): ScheduleCSummary {
+  const results = (businesses || []).map(business => calculateScheduleC(business, incomeEntries, taxYear))
+
+  return {
+    businesses: results,
+    grossReceipts: roundToCents(results.reduce((sum, result) => sum + result.grossReceipts, 0)),
+    totalExpenses: roundToCents(results.reduce((sum, result) =>
+      sum + result.totalExpenses + result.homeOfficeDeduction, 0
+    )),
+    netProfit: roundToCents(results.reduce((sum, result) => sum + result.netProfit, 0)),
+  }
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
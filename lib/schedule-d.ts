@@ -0,0 +1,198 @@
+// Form 8949 (Sales and Other Dispositions of Capital Assets) and Schedule D (Capital Gains and Losses)
+
+import { normalizeFilingStatus } from './tax-year-rules'
+import { HoldingPeriod } from './types'
+
+export type Form8949Category = 'A' | 'B' | 'C' | 'D' | 'E' | 'F'
+
+export const FORM_8949_CATEGORIES: { value: Form8949Category, label: string, holdingPeriod: HoldingPeriod }[] = [
+  { value: 'A', label: 'Short-term, basis reported to the IRS', holdingPeriod: 'SHORT_TERM' },
+  { value: 'B', label: 'Short-term, basis not reported to the IRS', holdingPeriod: 'SHORT_TERM' },
+  { value: 'C', label: 'Short-term, not reported on Form 1099-B', holdingPeriod: 'SHORT_TERM' },
+  { value: 'D', label: 'Long-term, basis reported to the IRS', holdingPeriod: 'LONG_TERM' },
+  { value: 'E', label: 'Long-term, basis not reported to the IRS', holdingPeriod: 'LONG_TERM' },
+  { value: 'F', label: 'Long-term, not reported on Form 1099-B', holdingPeriod: 'LONG_TERM' },
+]
+
+// Net capital losses deductible against other income each year (Schedule D line 21)
+const CAPITAL_LOSS_LIMIT = 3000
+const CAPITAL_LOSS_LIMIT_MARRIED_SEPARATE = 1500
+
+export interface Form8949Totals {
+  category: Form8949Category
+  transactionCount: number
+  proceeds: number
+  costBasis: number
+  adjustments: number
+  gainOrLoss: number
+}
+
+export interface ScheduleDResult {
+  form8949: Form8949Totals[]
+  shortTermGainOrLoss: number // Lines 1b-3, before carryover
+  shortTermCarryover: number // Line 6
+  netShortTermGainOrLoss: number // Line 7
+  longTermGainOrLoss: number // Lines 8b-10, before distributions and carryover
+  capitalGainDistributions: number // Line 13
+  longTermCarryover: number // Line 14
+  netLongTermGainOrLoss: number // Line 15
+  netGainOrLoss: number // Line 16
+  capitalGainOrLoss: number // Line 21 when a loss, otherwise line 16; reported on Form 1040 line 7
+  netCapitalGain: number // Gain eligible for the preferential rates
+  shortTermCarryoverToNextYear: number
+  longTermCarryoverToNextYear: number
+}
+
+// Capital assets held more than one year produce long-term gain or loss
+export function determineHoldingPeriod(dateAcquired: Date | string | null | undefined, dateSold: Date | string): HoldingPeriod {
+  if (!dateAcquired) {
+    return 'SHORT_TERM'
+  }
+
+  const acquired = new Date(dateAcquired)
+  const sold = new Date(dateSold)
+  const oneYearLater = new Date(acquired)
+  oneYearLater.setUTCFullYear(oneYearLater.getUTCFullYear() + 1)
+
+  return sold.getTime() > oneYearLater.getTime() ? 'LONG_TERM' : 'SHORT_TERM'
+}
+
+export function getForm8949Category(transaction: any): Form8949Category {
+  const longTerm = transaction.holdingPeriod === 'LONG_TERM'
+  if (!transaction.reportedOn1099B) {
+    return longTerm ? 'F' : 'C'
+  }
+  if (transaction.isCovered) {
+    return longTerm ? 'D' : 'A'
+  }
+  return longTerm ? 'E' : 'B'
+}
+
+// Column (g): any wash sale loss disallowed (code W in column (f)), less accrued market discount (code D), which
+// is reported as interest instead
+export function calculateTransactionAdjustment(transaction: any): number {
+  const washSaleAdjustment = parseFloat(transaction.washSaleAdjustment) || 0
+  const accruedMarketDiscount = parseFloat(transaction.accruedMarketDiscount) || 0
+  return roundToCents(washSaleAdjustment - accruedMarketDiscount)
+}
+
+// Column (h): proceeds minus basis, plus the column (g) adjustment
+export function calculateTransactionGainOrLoss(transaction: any): number {
+  const proceeds = parseFloat(transaction.proceeds) || 0
+  const costBasis = parseFloat(transaction.costBasis) || 0
+  return roundToCents(proceeds - costBasis + calculateTransactionAdjustment(transaction))
+}
+
+// Returns a validation message for a submitted transaction, or null if it is valid
+export function validateCapitalTransaction(transaction: any): string | null {
+  if (!transaction?.description) {
+    return 'Description of property is required'
+  }
+  if (!transaction.dateSold || isNaN(new Date(transaction.dateSold).getTime())) {
+    return 'A valid date sold is required'
+  }
+  if (transaction.dateAcquired && isNaN(new Date(transaction.dateAcquired).getTime())) {
+    return 'Date acquired must be a valid date'
+  }
+  if (transaction.dateAcquired && new Date(transaction.dateAcquired) > new Date(transaction.dateSold)) {
+    return 'Date acquired cannot be after the date sold'
+  }
+  if (isNaN(parseFloat(transaction.proceeds)) || isNaN(parseFloat(transaction.costBasis))) {
+    return 'Proceeds and cost basis are required'
+  }
+  if (transaction.washSaleAdjustment && (isNaN(parseFloat(transaction.washSaleAdjustment)) || parseFloat(transaction.washSaleAdjustment) < 0)) {
+    return 'Wash sale adjustment must be zero or more'
+  }
+  if (transaction.accruedMarketDiscount && (isNaN(parseFloat(transaction.accruedMarketDiscount)) || parseFloat(transaction.accruedMarketDiscount) < 0)) {
+    return 'Accrued market discount must be zero or more'
+  }
+  if (transaction.holdingPeriod && !['SHORT_TERM', 'LONG_TERM'].includes(transaction.holdingPeriod)) {
+    return `Invalid holding period: ${transaction.holdingPeriod}`
+  }
+
+  return null
+}
+
+export function calculateForm8949(transactions: any[]): Form8949Totals[] {
+  return FORM_8949_CATEGORIES.map(({ value }) => {
+    const rows = (transactions || []).filter(transaction => getForm8949Category(transaction) === value)
+    return {
+      category: value,
+      transactionCount: rows.length,
+      proceeds: roundToCents(rows.reduce((sum, row) => sum + (parseFloat(row.proceeds) || 0), 0)),
+      costBasis: roundToCents(rows.reduce((sum, row) => sum + (parseFloat(row.costBasis) || 0), 0)),
+      adjustments: roundToCents(rows.reduce((sum, row) => sum + calculateTransactionAdjustment(row), 0)),
+      gainOrLoss: roundToCents(rows.reduce((sum, row) => sum + calculateTransactionGainOrLoss(row), 0)),
+    }
+  })
+}
+
+export function getCapitalLossLimit(filingStatus: string): number {
+  return normalizeFilingStatus(filingStatus) === 'marriedfilingseparately'
+    ? CAPITAL_LOSS_LIMIT_MARRIED_SEPARATE
+    : CAPITAL_LOSS_LIMIT
+}
+
+export function calculateScheduleD(data: {
+  transactions: any[]
+  filingStatus: string
+  capitalGainDistributions?: number
+  shortTermLossCarryover?: number
+  longTermLossCarryover?: number
+  taxableIncomeBeforeLoss?: number // Form 1040 line 15 without its floor at zero, plus the allowed loss; omitted, the whole loss counts as used
+}): ScheduleDResult {
+  const form8949 = calculateForm8949(data.transactions)
+  const sumCategories = (holdingPeriod: HoldingPeriod) => roundToCents(form8949
+    .filter(totals => FORM_8949_CATEGORIES.find(category => category.value === totals.category)?.holdingPeriod === holdingPeriod)
+    .reduce((sum, totals) => sum + totals.gainOrLoss, 0))
+
+  const shortTermGainOrLoss = sumCategories('SHORT_TERM')
+  const shortTermCarryover = Math.abs(data.shortTermLossCarryover || 0)
+  const netShortTermGainOrLoss = roundToCents(shortTermGainOrLoss - shortTermCarryover)
+
+  const longTermGainOrLoss = sumCategories('LONG_TERM')
+  const capitalGainDistributions = roundToCents(data.capitalGainDistributions || 0)
+  const longTermCarryover = Math.abs(data.longTermLossCarryover || 0)
+  const netLongTermGainOrLoss = roundToCents(longTermGainOrLoss + capitalGainDistributions - longTermCarryover)
+
+  const netGainOrLoss = roundToCents(netShortTermGainOrLoss + netLongTermGainOrLoss)
+  const allowedLoss = netGainOrLoss < 0 ? Math.min(-netGainOrLoss, getCapitalLossLimit(data.filingStatus)) : 0
+  const capitalGainOrLoss = netGainOrLoss < 0 ? -allowedLoss : netGainOrLoss
+
+  // Only the smaller of net long-term gain and total net gain qualifies for the 0/15/20% rates
+  const netCapitalGain = roundToCents(Math.max(0, Math.min(netLongTermGainOrLoss, netGainOrLoss)))
+
+  // Capital Loss Carryover Worksheet: the allowed loss is used only as far as it reduced taxable income (lines 1-4),
+  // and short-term losses are used first
+  const lossUsed = data.taxableIncomeBeforeLoss === undefined
+    ? allowedLoss
+    : Math.min(allowedLoss, Math.max(0, data.taxableIncomeBeforeLoss))
+  const shortTermLoss = Math.max(0, -netShortTermGainOrLoss)
+  const longTermLoss = Math.max(0, -netLongTermGainOrLoss)
+  const shortTermCarryoverToNextYear = roundToCents(Math.max(0,
+    shortTermLoss - (lossUsed + Math.max(0, netLongTermGainOrLoss))
+  ))
+  const longTermCarryoverToNextYear = roundToCents(Math.max(0,
+    longTermLoss - (Math.max(0, netShortTermGainOrLoss) + Math.max(0, lossUsed - shortTermLoss))
+  ))
+
+  return {
+    form8949,
+    shortTermGainOrLoss,
+    shortTermCarryover,
+    netShortTermGainOrLoss,
+    longTermGainOrLoss,
+    capitalGainDistributions,
+    longTermCarryover,
+    netLongTermGainOrLoss,
+    netGainOrLoss,
+    capitalGainOrLoss: roundToCents(capitalGainOrLoss),
+    netCapitalGain,
+    shortTermCarryoverToNextYear,
+    longTermCarryoverToNextYear,
+  }
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
@@ -0,0 +1,73 @@
+// Social Security Benefits Worksheet (Form 1040 instructions, lines 6a and 6b)
+
+import { normalizeFilingStatus } from './tax-year-rules'
+
+// Provisional income thresholds above which 50% and then 85% of benefits are taxable; not indexed for inflation
+const BASE_AMOUNT = 25000
+const BASE_AMOUNT_JOINT = 32000
+const ADDITIONAL_AMOUNT = 9000
+const ADDITIONAL_AMOUNT_JOINT = 12000
+
+const LOWER_INCLUSION_RATE = 0.5
+const UPPER_INCLUSION_RATE = 0.85
+
+export interface SocialSecurityWorksheetInput {
+  benefits: number // SSA-1099 / RRB-1099 box 5 net benefits
+  otherIncome: number // Form 1040 income other than benefits (lines 1z, 2b, 3b, 4b, 5b, 7 and 8)
+  taxExemptInterest: number // Form 1040 line 2a
+  adjustments: number // Schedule 1 adjustments other than student loan interest
+  filingStatus: string
+  livedWithSpouse?: boolean // Married filing separately filers who lived with their spouse at any time in the year
+}
+
+export interface SocialSecurityWorksheetResult {
+  benefits: number // Line 1, Form 1040 line 6a
+  provisionalIncome: number // Line 7
+  baseAmount: number // Line 8
+  additionalAmount: number // Line 10
+  taxableBenefits: number // Line 18, Form 1040 line 6b
+}
+
+export function calculateTaxableSocialSecurity(input: SocialSecurityWorksheetInput): SocialSecurityWorksheetResult {
+  const status = normalizeFilingStatus(input.filingStatus)
+  const joint = status === 'marriedfilingjointly'
+  const benefits = roundToCents(Math.max(0, input.benefits))
+
+  const provisionalIncome = roundToCents(Math.max(0,
+    benefits * LOWER_INCLUSION_RATE + input.otherIncome + input.taxExemptInterest - input.adjustments
+  ))
+  const maximumTaxable = benefits * UPPER_INCLUSION_RATE
+
+  // Married filing separately and living together: no base amount, so up to 85% is taxable from the first dollar
+  if (status === 'marriedfilingseparately' && input.livedWithSpouse) {
+    return {
+      benefits,
+      provisionalIncome,
+      baseAmount: 0,
+      additionalAmount: 0,
+      taxableBenefits: roundToCents(Math.min(provisionalIncome * UPPER_INCLUSION_RATE, maximumTaxable)),
+    }
+  }
+
+  const baseAmount = joint ? BASE_AMOUNT_JOINT : BASE_AMOUNT
+  const additionalAmount = joint ? ADDITIONAL_AMOUNT_JOINT : ADDITIONAL_AMOUNT
+
+  const overBase = Math.max(0, provisionalIncome - baseAmount)
+  const overAdditional = Math.max(0, overBase - additionalAmount)
+
+  // Half of the income between the two thresholds, up to half of benefits, plus 85% of the income above them
+  const lowerTier = Math.min(benefits * LOWER_INCLUSION_RATE, Math.min(overBase, additionalAmount) * LOWER_INCLUSION_RATE)
+  const upperTier = overAdditional * UPPER_INCLUSION_RATE
+
+  return {
+    benefits,
+    provisionalIncome,
+    baseAmount,
+    additionalAmount,
+    taxableBenefits: roundToCents(Math.min(lowerTier + upperTier, maximumTaxable)),
+  }
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
@@ -0,0 +1,575 @@
+// State income tax engines, selected by the state of residence and figured from federal AGI
+
+import { DEFAULT_TAX_YEAR, normalizeFilingStatus, TaxBracket } from './tax-year-rules'
+
+export interface StateTaxInput {
+  stateCode: string
+  taxYear?: number
+  filingStatus: string
+  federalAdjustedGrossIncome: number // Form 1040 line 11
+  taxableSocialSecurity: number // Form 1040 line 6b; most states exempt it
+  additions: number // State modifications that increase federal AGI
+  subtractions: number // State modifications that decrease federal AGI
+  dependents: number
+  stateWithholding: number // W-2 box 17 and 1099 state tax withheld
+}
+
+export interface StateTaxComputation {
+  stateAdjustedGrossIncome: number // Federal AGI after state modifications
+  deduction: number
+  exemptions: number // Exemption deductions
+  taxableIncome: number
+  tax: number
+  credits: number // Nonrefundable credits, such as exemption credits
+  taxAfterCredits: number
+}
+
+export interface StateTaxEngine {
+  stateCode: string
+  name: string
+  hasIncomeTax: boolean
+  taxYears?: number[] // Years with published rates; every year when omitted
+  compute(input: StateTaxInput & { taxYear: number }): StateTaxComputation
+}
+
+export interface StateTaxResult extends StateTaxComputation {
+  stateCode: string
+  stateName: string
+  hasIncomeTax: boolean
+  unsupportedReason: string | null // Set when the state or year has no engine; the tax is then left at zero
+  stateWithholding: number
+  refundAmount: number
+  amountOwed: number
+}
+
+export type StateResidency = 'RESIDENT' | 'PART_YEAR_RESIDENT' | 'NONRESIDENT'
+
+// W-2 box 15-17 amounts for one state, summed across income entries
+export interface StateIncomeLine {
+  stateCode: string
+  wages: number // Box 16
+  taxWithheld: number // Box 17
+}
+
+export interface MultiStateInput {
+  homeState: string | null // TaxReturn.state; the residence for days no residency period covers
+  residencyPeriods: any[]
+  stateIncomeLines: StateIncomeLine[]
+  taxYear?: number
+  filingStatus: string
+  federalAdjustedGrossIncome: number
+  taxableSocialSecurity: number
+  additions: number // Home state modifications
+  subtractions: number
+  dependents: number
+}
+
+// One state's return. taxAfterCredits is the allocated tax less the other-state credit, and the refund or
+// amount owed reconciles that against the state's withholding.
+export interface StateReturnResult extends StateTaxResult {
+  residency: StateResidency
+  residentDays: number
+  reportedWages: number // W-2 box 16 wages reported to the state
+  sourceIncome: number // Income the state taxes
+  allocationRatio: number // Source income over state AGI
+  fullYearTax: number // Tax after credits as if a full-year resident
+  allocatedTax: number // Full-year tax times the allocation ratio
+  otherStateCredit: number // Credit for taxes paid to other states, claimed by states of residence
+}
+
+// Per-year rate and per-person exemption for states that tax income at a single rate
+interface FlatTaxYear {
+  rate: number
+  exemption: number
+  // Federal AGI above which no exemption is allowed
+  exemptionIncomeLimit?: number
+  exemptionIncomeLimitJoint?: number
+}
+
+// Bracket thresholds for single filers; the joint brackets are the same amounts doubled
+interface CaliforniaTaxYear {
+  singleThresholds: number[]
+  headOfHouseholdThresholds: number[]
+  standardDeduction: number
+  standardDeductionJoint: number
+  personalExemptionCredit: number
+  dependentExemptionCredit: number
+  exemptionPhaseOutThreshold: number
+  exemptionPhaseOutThresholdHeadOfHousehold: number
+  exemptionPhaseOutThresholdJoint: number
+}
+
+// States without a broad-based income tax. Washington's capital gains tax and New Hampshire's
+// interest and dividends tax are not supported.
+const NO_INCOME_TAX_STATES: Record<string, string> = {
+  AK: 'Alaska',
+  FL: 'Florida',
+  NV: 'Nevada',
+  NH: 'New Hampshire',
+  SD: 'South Dakota',
+  TN: 'Tennessee',
+  TX: 'Texas',
+  WA: 'Washington',
+  WY: 'Wyoming',
+}
+
+// IL-1040: exemptions are not allowed above $250,000 of federal AGI ($500,000 joint)
+const ILLINOIS_TAX_YEARS: Record<number, FlatTaxYear> = {
+  2023: { rate: 0.0495, exemption: 2425, exemptionIncomeLimit: 250000, exemptionIncomeLimitJoint: 500000 },
+  2024: { rate: 0.0495, exemption: 2775, exemptionIncomeLimit: 250000, exemptionIncomeLimitJoint: 500000 },
+  2025: { rate: 0.0495, exemption: 2850, exemptionIncomeLimit: 250000, exemptionIncomeLimitJoint: 500000 },
+}
+
+// PA-40 has no personal exemptions; its income classes are approximated from federal AGI
+const PENNSYLVANIA_TAX_YEARS: Record<number, FlatTaxYear> = {
+  2023: { rate: 0.0307, exemption: 0 },
+  2024: { rate: 0.0307, exemption: 0 },
+  2025: { rate: 0.0307, exemption: 0 },
+}
+
+// MI-1040: the rate was temporarily reduced to 4.05% for 2023
+const MICHIGAN_TAX_YEARS: Record<number, FlatTaxYear> = {
+  2023: { rate: 0.0405, exemption: 5400 },
+  2024: { rate: 0.0425, exemption: 5600 },
+  2025: { rate: 0.0425, exemption: 5800 },
+}
+
+const CALIFORNIA_RATES = [0.01, 0.02, 0.04, 0.06, 0.08, 0.093, 0.103, 0.113, 0.123]
+
+// Mental Health Services Tax on taxable income over $1 million
+const CALIFORNIA_MENTAL_HEALTH_THRESHOLD = 1000000
+const CALIFORNIA_MENTAL_HEALTH_RATE = 0.01
+
+// Each exemption credit is reduced by $6 for every $2,500 ($1,250 married filing separately) of AGI over the threshold
+const CALIFORNIA_EXEMPTION_REDUCTION = 6
+const CALIFORNIA_EXEMPTION_REDUCTION_STEP = 2500
+const CALIFORNIA_EXEMPTION_REDUCTION_STEP_MARRIED_SEPARATE = 1250
+
+// Form 540; itemized deductions are not supported, so the standard deduction is always used
+const CALIFORNIA_TAX_YEARS: Record<number, CaliforniaTaxYear> = {
+  2023: {
+    singleThresholds: [10412, 24684, 38959, 54081, 68350, 349137, 418961, 698271],
+    headOfHouseholdThresholds: [20839, 49371, 63644, 78765, 93037, 474824, 569790, 949649],
+    standardDeduction: 5363,
+    standardDeductionJoint: 10726,
+    personalExemptionCredit: 144,
+    dependentExemptionCredit: 446,
+    exemptionPhaseOutThreshold: 237035,
+    exemptionPhaseOutThresholdHeadOfHousehold: 355558,
+    exemptionPhaseOutThresholdJoint: 474075,
+  },
+  2024: {
+    singleThresholds: [10756, 25499, 40245, 55866, 70606, 360659, 432787, 721314],
+    headOfHouseholdThresholds: [21527, 51000, 65744, 81364, 96107, 490493, 588593, 980987],
+    standardDeduction: 5540,
+    standardDeductionJoint: 11080,
+    personalExemptionCredit: 149,
+    dependentExemptionCredit: 461,
+    exemptionPhaseOutThreshold: 244857,
+    exemptionPhaseOutThresholdHeadOfHousehold: 367291,
+    exemptionPhaseOutThresholdJoint: 489719,
+  },
+  2025: {
+    singleThresholds: [11079, 26264, 41452, 57542, 72724, 371479, 445771, 742953],
+    headOfHouseholdThresholds: [22173, 52530, 67716, 83805, 98990, 505208, 606251, 1010417],
+    standardDeduction: 5706,
+    standardDeductionJoint: 11412,
+    personalExemptionCredit: 153,
+    dependentExemptionCredit: 475,
+    exemptionPhaseOutThreshold: 252203,
+    exemptionPhaseOutThresholdHeadOfHousehold: 378310,
+    exemptionPhaseOutThresholdJoint: 504411,
+  },
+}
+
+// Reciprocal agreements: wages that residents of the listed states earn in the working state are taxed only
+// by their home state
+const RECIPROCAL_AGREEMENTS: Record<string, string[]> = {
+  IL: ['IA', 'KY', 'MI', 'WI'],
+  MI: ['IL', 'IN', 'KY', 'MN', 'OH', 'WI'],
+  PA: ['IN', 'MD', 'NJ', 'OH', 'VA', 'WV'],
+}
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000
+
+function createNoIncomeTaxEngine(stateCode: string, name: string): StateTaxEngine {
+  return {
+    stateCode,
+    name,
+    hasIncomeTax: false,
+    compute: (input) => {
+      const stateAdjustedGrossIncome = getStateAdjustedGrossIncome(input, false)
+      return {
+        stateAdjustedGrossIncome,
+        deduction: 0,
+        exemptions: 0,
+        taxableIncome: 0,
+        tax: 0,
+        credits: 0,
+        taxAfterCredits: 0,
+      }
+    },
+  }
+}
+
+function createFlatTaxEngine(
+  stateCode: string,
+  name: string,
+  taxYears: Record<number, FlatTaxYear>
+): StateTaxEngine {
+  return {
+    stateCode,
+    name,
+    hasIncomeTax: true,
+    taxYears: Object.keys(taxYears).map(Number),
+    compute: (input) => {
+      const rules = taxYears[input.taxYear]
+      const joint = normalizeFilingStatus(input.filingStatus) === 'marriedfilingjointly'
+      const stateAdjustedGrossIncome = getStateAdjustedGrossIncome(input, true)
+
+      const incomeLimit = joint ? rules.exemptionIncomeLimitJoint : rules.exemptionIncomeLimit
+      const exemptionsAllowed = incomeLimit === undefined || input.federalAdjustedGrossIncome <= incomeLimit
+      const exemptions = exemptionsAllowed
+        ? roundToCents(rules.exemption * getExemptionCount(input))
+        : 0
+
+      const taxableIncome = roundToCents(Math.max(0, stateAdjustedGrossIncome - exemptions))
+      const tax = roundToCents(taxableIncome * rules.rate)
+
+      return {
+        stateAdjustedGrossIncome,
+        deduction: 0,
+        exemptions,
+        taxableIncome,
+        tax,
+        credits: 0,
+        taxAfterCredits: tax,
+      }
+    },
+  }
+}
+
+const CALIFORNIA_ENGINE: StateTaxEngine = {
+  stateCode: 'CA',
+  name: 'California',
+  hasIncomeTax: true,
+  taxYears: Object.keys(CALIFORNIA_TAX_YEARS).map(Number),
+  compute: (input) => {
+    const rules = CALIFORNIA_TAX_YEARS[input.taxYear]
+    const status = normalizeFilingStatus(input.filingStatus)
+    const joint = status === 'marriedfilingjointly' || status === 'qualifyingsurvivingspouse'
+    const headOfHousehold = status === 'headofhousehold'
+    const stateAdjustedGrossIncome = getStateAdjustedGrossIncome(input, true)
+
+    const deduction = joint || headOfHousehold ? rules.standardDeductionJoint : rules.standardDeduction
+    const taxableIncome = roundToCents(Math.max(0, stateAdjustedGrossIncome - deduction))
+
+    const thresholds = headOfHousehold
+      ? rules.headOfHouseholdThresholds
+      : rules.singleThresholds.map((threshold) => joint ? threshold * 2 : threshold)
+    const mentalHealthTax = Math.max(0, taxableIncome - CALIFORNIA_MENTAL_HEALTH_THRESHOLD) * CALIFORNIA_MENTAL_HEALTH_RATE
+    const tax = roundToCents(calculateBracketTax(taxableIncome, getBrackets(thresholds, CALIFORNIA_RATES)) + mentalHealthTax)
+
+    // Exemption credits phase out by a fixed amount per step of AGI over the threshold
+    const phaseOutThreshold = joint
+      ? rules.exemptionPhaseOutThresholdJoint
+      : headOfHousehold ? rules.exemptionPhaseOutThresholdHeadOfHousehold : rules.exemptionPhaseOutThreshold
+    const step = status === 'marriedfilingseparately'
+      ? CALIFORNIA_EXEMPTION_REDUCTION_STEP_MARRIED_SEPARATE
+      : CALIFORNIA_EXEMPTION_REDUCTION_STEP
+    const reduction = Math.ceil(Math.max(0, stateAdjustedGrossIncome - phaseOutThreshold) / step) * CALIFORNIA_EXEMPTION_REDUCTION
+    const personalCredits = (joint ? 2 : 1) * Math.max(0, rules.personalExemptionCredit - reduction)
+    const dependentCredits = input.dependents * Math.max(0, rules.dependentExemptionCredit - reduction)
+    const credits = roundToCents(Math.min(tax, personalCredits + dependentCredits))
+
+    return {
+      stateAdjustedGrossIncome,
+      deduction,
+      exemptions: 0,
+      taxableIncome,
+      tax,
+      credits,
+      taxAfterCredits: roundToCents(tax - credits),
+    }
+  },
+}
+
+// Engines by two-letter state code. Add a state by adding its engine here.
+export const STATE_TAX_ENGINES: Record<string, StateTaxEngine> = Object.fromEntries([
+  ...Object.entries(NO_INCOME_TAX_STATES).map(([code, name]) => createNoIncomeTaxEngine(code, name)),
+  createFlatTaxEngine('IL', 'Illinois', ILLINOIS_TAX_YEARS),
+  createFlatTaxEngine('PA', 'Pennsylvania', PENNSYLVANIA_TAX_YEARS),
+  createFlatTaxEngine('MI', 'Michigan', MICHIGAN_TAX_YEARS),
+  CALIFORNIA_ENGINE,
+].map((engine) => [engine.stateCode, engine]))
+
+// Two-letter code for a state entered as a code or a full name (e.g. "ca" or "California")
+export function normalizeStateCode(state: string | null | undefined): string {
+  const value = (state || '').trim()
+  const engine = Object.values(STATE_TAX_ENGINES)
+    .find((candidate) => candidate.name.toLowerCase() === value.toLowerCase())
+  return engine ? engine.stateCode : value.toUpperCase()
+}
+
+export function getStateTaxEngine(state: string | null | undefined): StateTaxEngine | null {
+  return STATE_TAX_ENGINES[normalizeStateCode(state)] || null
+}
+
+export function calculateStateTax(input: StateTaxInput): StateTaxResult {
+  const taxYear = input.taxYear || DEFAULT_TAX_YEAR
+  const stateCode = normalizeStateCode(input.stateCode)
+  const engine = getStateTaxEngine(stateCode)
+  const stateWithholding = roundToCents(Math.max(0, input.stateWithholding))
+
+  let unsupportedReason: string | null = null
+  if (!engine) {
+    unsupportedReason = `State income tax for ${stateCode || 'this state'} is not yet supported`
+  } else if (engine.taxYears && !engine.taxYears.includes(taxYear)) {
+    unsupportedReason = `${engine.name} income tax for ${taxYear} is not yet supported`
+  }
+
+  const computation = engine && !unsupportedReason
+    ? engine.compute({ ...input, taxYear })
+    : {
+        stateAdjustedGrossIncome: getStateAdjustedGrossIncome(input, false),
+        deduction: 0,
+        exemptions: 0,
+        taxableIncome: 0,
+        tax: 0,
+        credits: 0,
+        taxAfterCredits: 0,
+      }
+
+  // Withholding reconciliation; unsupported states and states without an income tax only report what was withheld
+  const balance = !engine || !engine.hasIncomeTax || unsupportedReason
+    ? 0
+    : roundToCents(computation.taxAfterCredits - stateWithholding)
+
+  return {
+    ...computation,
+    stateCode,
+    stateName: engine?.name || stateCode,
+    hasIncomeTax: engine ? engine.hasIncomeTax : true,
+    unsupportedReason,
+    stateWithholding,
+    refundAmount: balance < 0 ? Math.abs(balance) : 0,
+    amountOwed: balance > 0 ? balance : 0,
+  }
+}
+
+// Returns a validation message for a submitted residency period, or null if it is valid
+export function validateResidencyPeriod(period: any, otherPeriods: any[], taxYear: number): string | null {
+  const stateCode = normalizeStateCode(period?.stateCode)
+  if (!/^[A-Z]{2}$/.test(stateCode)) {
+    return 'State is required'
+  }
+  const start = toUtcDay(period.startDate)
+  const end = toUtcDay(period.endDate)
+  if (isNaN(start) || isNaN(end)) {
+    return 'Start and end dates are required'
+  }
+  if (end < start) {
+    return 'End date must be on or after the start date'
+  }
+  if (end < Date.UTC(taxYear, 0, 1) || start > Date.UTC(taxYear, 11, 31)) {
+    return `Residency period must fall within ${taxYear}`
+  }
+  const overlapping = (otherPeriods || []).find((other: any) =>
+    start <= toUtcDay(other.endDate) && end >= toUtcDay(other.startDate)
+  )
+  if (overlapping) {
+    return `Residency period overlaps the period in ${overlapping.stateCode}`
+  }
+  return null
+}
+
+// Days lived in each state during the tax year; days no period covers count as residence in the home state
+export function getResidencyDays(
+  residencyPeriods: any[],
+  homeState: string | null | undefined,
+  taxYear: number = DEFAULT_TAX_YEAR
+): Record<string, number> {
+  const yearStart = Date.UTC(taxYear, 0, 1)
+  const yearEnd = Date.UTC(taxYear, 11, 31)
+  const days: Record<string, number> = {}
+  let coveredDays = 0
+
+  for (const period of residencyPeriods || []) {
+    const start = Math.max(toUtcDay(period.startDate), yearStart)
+    const end = Math.min(toUtcDay(period.endDate), yearEnd)
+    if (isNaN(start) || isNaN(end) || end < start) {
+      continue
+    }
+    const stateCode = normalizeStateCode(period.stateCode)
+    const periodDays = (end - start) / MILLISECONDS_PER_DAY + 1
+    days[stateCode] = (days[stateCode] || 0) + periodDays
+    coveredDays += periodDays
+  }
+
+  const home = normalizeStateCode(homeState)
+  const remainingDays = getDaysInYear(taxYear) - coveredDays
+  if (home && remainingDays > 0) {
+    days[home] = (days[home] || 0) + remainingDays
+  }
+  return days
+}
+
+// W-2 box 16 wages and box 17 withholding summed by state across income entries' state lines
+export function calculateStateIncomeLines(incomeEntries: any[]): StateIncomeLine[] {
+  const lines: Record<string, StateIncomeLine> = {}
+  for (const entry of incomeEntries || []) {
+    for (const line of entry.stateLines || []) {
+      const stateCode = normalizeStateCode(line.stateCode)
+      if (!stateCode) {
+        continue
+      }
+      const total = lines[stateCode] || { stateCode, wages: 0, taxWithheld: 0 }
+      lines[stateCode] = {
+        stateCode,
+        wages: roundToCents(total.wages + (parseFloat(line.stateWages) || 0)),
+        taxWithheld: roundToCents(total.taxWithheld + (parseFloat(line.stateTaxWithheld) || 0)),
+      }
+    }
+  }
+  return Object.values(lines)
+}
+
+// Resident, part-year resident and nonresident returns for every state lived in or reported on a W-2.
+// Each state's full-year tax is prorated by the share of state AGI it can tax, and states of residence
+// credit the tax charged by nonresident states on the same income.
+export function calculateStateReturns(input: MultiStateInput): StateReturnResult[] {
+  const taxYear = input.taxYear || DEFAULT_TAX_YEAR
+  const homeState = normalizeStateCode(input.homeState)
+  const daysInYear = getDaysInYear(taxYear)
+  const residencyDays = getResidencyDays(input.residencyPeriods, homeState, taxYear)
+  const residentStates = Object.keys(residencyDays)
+  const incomeLines = (input.stateIncomeLines || []).filter((line) => line.wages > 0 || line.taxWithheld > 0)
+  const stateCodes = Array.from(new Set([
+    ...residentStates,
+    ...incomeLines.map((line) => normalizeStateCode(line.stateCode)),
+  ]))
+
+  const allocated = stateCodes.map((stateCode) => {
+    const incomeLine = incomeLines.find((line) => normalizeStateCode(line.stateCode) === stateCode)
+    const residentDays = residencyDays[stateCode] || 0
+    const residency: StateResidency = residentDays >= daysInYear
+      ? 'RESIDENT'
+      : residentDays > 0 ? 'PART_YEAR_RESIDENT' : 'NONRESIDENT'
+
+    const fullYear = calculateStateTax({
+      stateCode,
+      taxYear,
+      filingStatus: input.filingStatus,
+      federalAdjustedGrossIncome: input.federalAdjustedGrossIncome,
+      taxableSocialSecurity: input.taxableSocialSecurity,
+      additions: stateCode === homeState ? input.additions : 0,
+      subtractions: stateCode === homeState ? input.subtractions : 0,
+      dependents: input.dependents,
+      stateWithholding: incomeLine?.taxWithheld || 0,
+    })
+
+    // Wages earned in a state with a reciprocal agreement with a state of residence are taxed only at home
+    const reportedWages = incomeLine?.wages || 0
+    const reciprocal = residentStates.some((resident) =>
+      resident !== stateCode && (RECIPROCAL_AGREEMENTS[stateCode] || []).includes(resident)
+    )
+    const nonresidentWages = reciprocal ? 0 : reportedWages
+
+    // Wages reported to a state while living there are already part of the resident share, so the
+    // larger of the resident share of income and the reported wages is taxed
+    const stateAdjustedGrossIncome = Math.max(0, fullYear.stateAdjustedGrossIncome)
+    const residentIncome = stateAdjustedGrossIncome * residentDays / daysInYear
+    const sourceIncome = residency === 'RESIDENT'
+      ? stateAdjustedGrossIncome
+      : roundToCents(Math.min(stateAdjustedGrossIncome, Math.max(residentIncome, nonresidentWages)))
+    const allocationRatio = residency === 'RESIDENT'
+      ? 1
+      : stateAdjustedGrossIncome > 0 ? Math.round(sourceIncome / stateAdjustedGrossIncome * 10000) / 10000 : 0
+
+    return {
+      ...fullYear,
+      residency,
+      residentDays,
+      reportedWages,
+      sourceIncome,
+      allocationRatio,
+      fullYearTax: fullYear.taxAfterCredits,
+      allocatedTax: roundToCents(fullYear.taxAfterCredits * allocationRatio),
+      otherStateCredit: 0,
+    }
+  })
+
+  // Credit for taxes paid to other states: each state of residence takes its share (by days lived there) of
+  // the nonresident states' tax, limited to its own tax on the same income
+  const totalResidentDays = residentStates.reduce((sum, stateCode) => sum + residencyDays[stateCode], 0)
+  const nonresidentReturns = allocated.filter((result) => result.residency === 'NONRESIDENT' && result.allocatedTax > 0)
+
+  return allocated
+    .map((result) => {
+      const share = result.residency !== 'NONRESIDENT' && totalResidentDays > 0
+        ? result.residentDays / totalResidentDays
+        : 0
+      const credit = nonresidentReturns.reduce((sum, other) => {
+        const doubleTaxedIncome = Math.min(other.sourceIncome * share, result.sourceIncome)
+        const limit = result.sourceIncome > 0 ? result.allocatedTax * doubleTaxedIncome / result.sourceIncome : 0
+        return sum + Math.min(other.allocatedTax * share, limit)
+      }, 0)
+      const otherStateCredit = roundToCents(Math.min(credit, result.allocatedTax))
+      const taxAfterCredits = roundToCents(result.allocatedTax - otherStateCredit)
+
+      const balance = !result.hasIncomeTax || result.unsupportedReason
+        ? 0
+        : roundToCents(taxAfterCredits - result.stateWithholding)
+
+      return {
+        ...result,
+        otherStateCredit,
+        taxAfterCredits,
+        refundAmount: balance < 0 ? Math.abs(balance) : 0,
+        amountOwed: balance > 0 ? balance : 0,
+      }
+    })
+    .sort((a, b) => b.residentDays - a.residentDays)
+}
+
+// Federal AGI with the state modifications applied. The states with engines here all exempt
+// Social Security benefits, so the federally taxable part is subtracted.
+function getStateAdjustedGrossIncome(input: StateTaxInput, exemptsSocialSecurity: boolean): number {
+  const socialSecuritySubtraction = exemptsSocialSecurity ? Math.max(0, input.taxableSocialSecurity) : 0
+  return roundToCents(
+    input.federalAdjustedGrossIncome + input.additions - input.subtractions - socialSecuritySubtraction
+  )
+}
+
+// The taxpayer, a spouse on a joint return, and each dependent
+function getExemptionCount(input: StateTaxInput): number {
+  const joint = normalizeFilingStatus(input.filingStatus) === 'marriedfilingjointly'
+  return (joint ? 2 : 1) + Math.max(0, input.dependents)
+}
+
+function getBrackets(thresholds: number[], rates: number[]): TaxBracket[] {
+  return rates.map((rate, index) => ({
+    min: index === 0 ? 0 : thresholds[index - 1],
+    max: index < thresholds.length ? thresholds[index] : Infinity,
+    rate,
+  }))
+}
+
+function calculateBracketTax(taxableIncome: number, brackets: TaxBracket[]): number {
+  return brackets.reduce((tax, bracket) =>
+    tax + Math.max(0, Math.min(taxableIncome, bracket.max) - bracket.min) * bracket.rate, 0
+  )
+}
+
+function toUtcDay(date: Date | string): number {
+  const value = new Date(date)
+  return Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate())
+}
+
+function getDaysInYear(taxYear: number): number {
+  return (Date.UTC(taxYear + 1, 0, 1) - Date.UTC(taxYear, 0, 1)) / MILLISECONDS_PER_DAY
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
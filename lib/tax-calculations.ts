@@ -1,78 +1,53 @@
+import {
+  DEFAULT_TAX_YEAR,
+  getTaxYearRules,
+  normalizeFilingStatus,
+  TAX_YEAR_RULES,
+  TaxBracket,
+  StandardDeduction,
+  EITCParameters,
+} from './tax-year-rules'
+import { calculateScheduleCSummary } from './schedule-c'
+import { calculateScheduleA, ScheduleAResult } from './schedule-a'
+import { calculateScheduleD, ScheduleDResult } from './schedule-d'
+import { calculateAdjustmentsToIncome, AdjustmentsToIncomeResult } from './adjustments-to-income'
+import { calculateTaxableSocialSecurity, SocialSecurityWorksheetResult } from './social-security'
+import { calculateAlternativeMinimumTax, AlternativeMinimumTaxResult } from './alternative-minimum-tax'
+import { calculateEducationCredits, EducationCreditsResult } from './education-credits'
+import {
+  calculateDependentCareBenefits,
+  calculateDependentCareBenefitsInWages,
+  calculateDependentCareCredit,
+  DependentCareCreditResult,
+} from './dependent-care-credit'
+import { calculateStateIncomeLines, calculateStateReturns, StateIncomeLine, StateReturnResult } from './state-tax'
+import {
+  calculateEstimatedTaxPayments,
+  calculateEstimatedTaxPenalty,
+  EstimatedPaymentLine,
+  EstimatedTaxPenaltyResult,
+  getEstimatedTaxInstallments,
+} from './estimated-tax-penalty'
 
-export interface TaxBracket {
-  min: number
-  max: number
-  rate: number
-}
-
-export interface StandardDeduction {
-  single: number
-  marriedFilingJointly: number
-  marriedFilingSeparately: number
-  headOfHousehold: number
-  qualifyingSurvivingSpouse: number
-}
-
-// 2024 Tax Year Brackets
-export const TAX_BRACKETS_2024: Record<string, TaxBracket[]> = {
-  single: [
-    { min: 0, max: 11600, rate: 0.10 },
-    { min: 11601, max: 47150, rate: 0.12 },
-    { min: 47151, max: 100525, rate: 0.22 },
-    { min: 100526, max: 191950, rate: 0.24 },
-    { min: 191951, max: 243725, rate: 0.32 },
-    { min: 243726, max: 609350, rate: 0.35 },
-    { min: 609351, max: Infinity, rate: 0.37 },
-  ],
-  marriedfilingjointly: [
-    { min: 0, max: 23200, rate: 0.10 },
-    { min: 23201, max: 94300, rate: 0.12 },
-    { min: 94301, max: 201050, rate: 0.22 },
-    { min: 201051, max: 383900, rate: 0.24 },
-    { min: 383901, max: 487450, rate: 0.32 },
-    { min: 487451, max: 731200, rate: 0.35 },
-    { min: 731201, max: Infinity, rate: 0.37 },
-  ],
-  marriedfilingseparately: [
-    { min: 0, max: 11600, rate: 0.10 },
-    { min: 11601, max: 47150, rate: 0.12 },
-    { min: 47151, max: 100525, rate: 0.22 },
-    { min: 100526, max: 191950, rate: 0.24 },
-    { min: 191951, max: 243725, rate: 0.32 },
-    { min: 243726, max: 365600, rate: 0.35 },
-    { min: 365601, max: Infinity, rate: 0.37 },
-  ],
-  headofhousehold: [
-    { min: 0, max: 16550, rate: 0.10 },
-    { min: 16551, max: 63100, rate: 0.12 },
-    { min: 63101, max: 100500, rate: 0.22 },
-    { min: 100501, max: 191950, rate: 0.24 },
-    { min: 191951, max: 243700, rate: 0.32 },
-    { min: 243701, max: 609350, rate: 0.35 },
-    { min: 609351, max: Infinity, rate: 0.37 },
-  ],
-  qualifyingsurvivingspouse: [
-    { min: 0, max: 23200, rate: 0.10 },
-    { min: 23201, max: 94300, rate: 0.12 },
-    { min: 94301, max: 201050, rate: 0.22 },
-    { min: 201051, max: 383900, rate: 0.24 },
-    { min: 383901, max: 487450, rate: 0.32 },
-    { min: 487451, max: 731200, rate: 0.35 },
-    { min: 731201, max: Infinity, rate: 0.37 },
-  ],
-}
-
-// 2024 Standard Deduction Amounts
-export const STANDARD_DEDUCTION_2024: StandardDeduction = {
-  single: 14600,
-  marriedFilingJointly: 29200,
-  marriedFilingSeparately: 14600,
-  headOfHousehold: 21900,
-  qualifyingSurvivingSpouse: 29200,
-}
-
-export function calculateTaxLiability(taxableIncome: number, filingStatus: string): number {
-  const brackets = TAX_BRACKETS_2024[filingStatus.toLowerCase().replace(/_/g, '')]
+export type { TaxBracket, StandardDeduction } from './tax-year-rules'
+
+export const TAX_BRACKETS_2024: Record<string, TaxBracket[]> = TAX_YEAR_RULES[2024].brackets
+
+export const STANDARD_DEDUCTION_2024: StandardDeduction = TAX_YEAR_RULES[2024].standardDeduction
+
+export interface StandardDeductionOptions {
+  taxpayer65OrOlder?: boolean
+  taxpayerBlind?: boolean
+  spouse65OrOlder?: boolean
+  spouseBlind?: boolean
+}
+
+export function calculateTaxLiability(
+  taxableIncome: number,
+  filingStatus: string,
+  taxYear: number = DEFAULT_TAX_YEAR
+): number {
+  const brackets = getTaxYearRules(taxYear).brackets[normalizeFilingStatus(filingStatus)]
   
   if (!brackets) {
     throw new Error(`Invalid filing status: ${filingStatus}`)
@@ -92,129 +67,1128 @@ export function calculateTaxLiability(taxableIncome: number, filingStatus: strin
   return Math.round(tax * 100) / 100
 }
 
-export function getStandardDeduction(filingStatus: string): number {
-  const status = filingStatus.toLowerCase().replace(/_/g, '')
+export interface CapitalGainTaxInput {
+  taxableIncome: number
+  qualifiedDividends: number
+  netCapitalGain: number
+  filingStatus: string
+  taxYear?: number
+}
+
+export interface CapitalGainTaxResult {
+  preferentialIncome: number
+  taxedAtZero: number
+  taxedAtFifteen: number
+  taxedAtTwenty: number
+  ordinaryIncomeTax: number
+  tax: number
+}
+
+// Qualified Dividends and Capital Gain Tax Worksheet (Form 1040 instructions, line 16)
+export function calculateCapitalGainTax(input: CapitalGainTaxInput): CapitalGainTaxResult {
+  const taxYear = input.taxYear || DEFAULT_TAX_YEAR
+  const status = normalizeFilingStatus(input.filingStatus)
+  const { zeroRateMax, fifteenRateMax } = getTaxYearRules(taxYear).capitalGains
+  
+  if (zeroRateMax[status] === undefined) {
+    throw new Error(`Invalid filing status: ${input.filingStatus}`)
+  }
+  
+  const taxableIncome = Math.max(0, input.taxableIncome)
+  const preferential = Math.max(0, input.qualifiedDividends) + Math.max(0, input.netCapitalGain)
+  const ordinaryIncome = Math.max(0, taxableIncome - preferential)
+  const preferentialIncome = Math.min(taxableIncome, preferential)
   
+  const zeroBracketTop = Math.min(taxableIncome, zeroRateMax[status])
+  const taxedAtZero = zeroBracketTop - Math.min(ordinaryIncome, zeroBracketTop)
+  
+  const fifteenBracketTop = Math.min(taxableIncome, fifteenRateMax[status])
+  const taxedAtFifteen = Math.min(
+    preferentialIncome - taxedAtZero,
+    Math.max(0, fifteenBracketTop - (ordinaryIncome + taxedAtZero))
+  )
+  const taxedAtTwenty = preferentialIncome - taxedAtZero - taxedAtFifteen
+  
+  const ordinaryIncomeTax = calculateTaxLiability(ordinaryIncome, input.filingStatus, taxYear)
+  const worksheetTax = ordinaryIncomeTax + taxedAtFifteen * 0.15 + taxedAtTwenty * 0.20
+  
+  // The worksheet never produces more tax than the regular rate schedule
+  const tax = Math.min(worksheetTax, calculateTaxLiability(taxableIncome, input.filingStatus, taxYear))
+  
+  return {
+    preferentialIncome,
+    taxedAtZero,
+    taxedAtFifteen,
+    taxedAtTwenty,
+    ordinaryIncomeTax,
+    tax: roundToCents(tax),
+  }
+}
+
+// Net Investment Income Tax thresholds are set by statute and not indexed for inflation
+const NIIT_THRESHOLDS: Record<string, number> = {
+  marriedfilingjointly: 250000,
+  qualifyingsurvivingspouse: 250000,
+  marriedfilingseparately: 125000,
+}
+const NIIT_THRESHOLD_DEFAULT = 200000
+const NIIT_RATE = 0.038
+
+// Form 8960: 3.8% of the smaller of net investment income or MAGI over the threshold
+export function calculateNetInvestmentIncomeTax(
+  netInvestmentIncome: number,
+  modifiedAGI: number,
+  filingStatus: string
+): number {
+  const threshold = NIIT_THRESHOLDS[normalizeFilingStatus(filingStatus)] ?? NIIT_THRESHOLD_DEFAULT
+  const base = Math.min(Math.max(0, netInvestmentIncome), Math.max(0, modifiedAGI - threshold))
+  return roundToCents(base * NIIT_RATE)
+}
+
+export function getMarginalRate(
+  taxableIncome: number,
+  filingStatus: string,
+  taxYear: number = DEFAULT_TAX_YEAR
+): number {
+  const brackets = getTaxYearRules(taxYear).brackets[normalizeFilingStatus(filingStatus)]
+  let marginalRate = 0
+  if (brackets) {
+    for (const bracket of brackets) {
+      if (taxableIncome > bracket.min) {
+        marginalRate = bracket.rate * 100
+      }
+    }
+  }
+  return marginalRate
+}
+
+export function getStandardDeduction(
+  filingStatus: string,
+  taxYear: number = DEFAULT_TAX_YEAR,
+  options: StandardDeductionOptions = {}
+): number {
+  const rules = getTaxYearRules(taxYear)
+  const status = normalizeFilingStatus(filingStatus)
+  
+  let baseDeduction: number
   switch (status) {
     case 'single':
-      return STANDARD_DEDUCTION_2024.single
+      baseDeduction = rules.standardDeduction.single
+      break
     case 'marriedfilingjointly':
-      return STANDARD_DEDUCTION_2024.marriedFilingJointly
+      baseDeduction = rules.standardDeduction.marriedFilingJointly
+      break
     case 'marriedfilingseparately':
-      return STANDARD_DEDUCTION_2024.marriedFilingSeparately
+      baseDeduction = rules.standardDeduction.marriedFilingSeparately
+      break
     case 'headofhousehold':
-      return STANDARD_DEDUCTION_2024.headOfHousehold
+      baseDeduction = rules.standardDeduction.headOfHousehold
+      break
     case 'qualifyingsurvivingspouse':
-      return STANDARD_DEDUCTION_2024.qualifyingSurvivingSpouse
+      baseDeduction = rules.standardDeduction.qualifyingSurvivingSpouse
+      break
     default:
-      return STANDARD_DEDUCTION_2024.single
+      baseDeduction = rules.standardDeduction.single
+  }
+  
+  // Additional amount per box checked on Form 1040 (age 65 or older, blind)
+  const isUnmarried = status === 'single' || status === 'headofhousehold'
+  const additionalPerBox = isUnmarried
+    ? rules.additionalStandardDeduction.unmarried
+    : rules.additionalStandardDeduction.married
+  
+  let boxes = (options.taxpayer65OrOlder ? 1 : 0) + (options.taxpayerBlind ? 1 : 0)
+  if (status === 'marriedfilingjointly') {
+    boxes += (options.spouse65OrOlder ? 1 : 0) + (options.spouseBlind ? 1 : 0)
   }
+  
+  return baseDeduction + boxes * additionalPerBox
 }
 
-export function calculateChildTaxCredit(dependents: any[]): number {
-  const qualifyingChildren = dependents?.filter(dep => dep.qualifiesForCTC) || []
-  return qualifyingChildren.length * 2000
+// Age attained by the last day of the tax year. The IRS treats a person as turning
+// a given age on the day before their birthday, so a January 1 birthday counts for the prior year.
+export function getAgeAtEndOfYear(birthDate: Date | string | null | undefined, taxYear: number): number | null {
+  if (!birthDate) return null
+  const date = new Date(birthDate)
+  if (isNaN(date.getTime())) return null
+  
+  const dayBefore = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - 1))
+  return taxYear - dayBefore.getUTCFullYear()
 }
 
-export function calculateEITC(income: number, dependents: any[]): number {
-  const childCount = dependents?.filter(dep => dep.qualifiesForEITC)?.length || 0
+export function getStandardDeductionOptions(taxReturn: any): StandardDeductionOptions {
+  const taxYear = taxReturn?.taxYear || DEFAULT_TAX_YEAR
+  const taxpayerAge = getAgeAtEndOfYear(taxReturn?.dateOfBirth, taxYear)
+  const spouseAge = getAgeAtEndOfYear(taxReturn?.spouseDateOfBirth, taxYear)
   
-  // 2024 EITC maximum amounts (simplified)
-  const maxEITC = {
-    0: 632,
-    1: 4213,
-    2: 6960,
-    3: 7830,
+  return {
+    taxpayer65OrOlder: taxpayerAge !== null && taxpayerAge >= 65,
+    taxpayerBlind: !!taxReturn?.isBlind,
+    spouse65OrOlder: spouseAge !== null && spouseAge >= 65,
+    spouseBlind: !!taxReturn?.spouseIsBlind,
   }
+}
+
+// Ages used for the EITC childless-filer test and catch-up contribution limits
+export function getFilerAges(taxReturn: any): { taxpayerAge: number | null, spouseAge: number | null } {
+  const taxYear = taxReturn?.taxYear || DEFAULT_TAX_YEAR
+  return {
+    taxpayerAge: getAgeAtEndOfYear(taxReturn?.dateOfBirth, taxYear),
+    spouseAge: getAgeAtEndOfYear(taxReturn?.spouseDateOfBirth, taxYear),
+  }
+}
+
+export interface ChildTaxCreditInput {
+  dependents: any[]
+  filingStatus: string
+  modifiedAGI: number
+  taxLiability: number
+  earnedIncome: number
+  taxYear?: number
+}
+
+export interface Schedule8812Result {
+  qualifyingChildren: number
+  otherDependents: number
+  creditBeforePhaseOut: number
+  phaseOutReduction: number
+  totalCredit: number
+  nonrefundableCredit: number
+  additionalChildTaxCredit: number
+}
+
+// Schedule 8812: Child Tax Credit, Credit for Other Dependents and the refundable Additional Child Tax Credit
+export function calculateChildTaxCredit(input: ChildTaxCreditInput): Schedule8812Result {
+  const taxYear = input.taxYear || DEFAULT_TAX_YEAR
+  const rules = getTaxYearRules(taxYear).childTaxCredit
+  const dependents = input.dependents || []
   
-  const maxForChildren = maxEITC[Math.min(childCount, 3) as keyof typeof maxEITC]
+  const qualifyingChildren = dependents.filter(dep => dep.qualifiesForCTC).length
+  const otherDependents = dependents.length - qualifyingChildren
+  const creditBeforePhaseOut = qualifyingChildren * rules.amountPerChild + otherDependents * rules.otherDependentAmount
+  
+  // $50 for each $1,000 (or part of $1,000) of MAGI over the threshold
+  const threshold = normalizeFilingStatus(input.filingStatus) === 'marriedfilingjointly'
+    ? rules.phaseOutThresholdJoint
+    : rules.phaseOutThreshold
+  const excessIncome = Math.max(0, input.modifiedAGI - threshold)
+  const phaseOutReduction = Math.min(creditBeforePhaseOut, Math.ceil(excessIncome / 1000) * 50)
+  const totalCredit = creditBeforePhaseOut - phaseOutReduction
+  
+  const nonrefundableCredit = Math.min(totalCredit, Math.max(0, input.taxLiability))
+  
+  // Part II-A: the unused credit is refundable up to the per-child maximum and 15% of earned income over $2,500.
+  // The alternative computation for three or more children (Part II-B), based on Social Security and
+  // Medicare tax withheld, is not implemented, so the earned income method is always used.
+  let additionalChildTaxCredit = 0
+  if (qualifyingChildren > 0 && totalCredit > nonrefundableCredit) {
+    const unusedCredit = Math.min(totalCredit - nonrefundableCredit, qualifyingChildren * rules.refundableMaxPerChild)
+    const earnedIncomeLimit = Math.max(0, input.earnedIncome - 2500) * 0.15
+    additionalChildTaxCredit = roundToCents(Math.min(unusedCredit, earnedIncomeLimit))
+  }
+  
+  return {
+    qualifyingChildren,
+    otherDependents,
+    creditBeforePhaseOut,
+    phaseOutReduction,
+    totalCredit,
+    nonrefundableCredit: roundToCents(nonrefundableCredit),
+    additionalChildTaxCredit,
+  }
+}
+
+export interface EITCInput {
+  earnedIncome: number
+  adjustedGrossIncome: number
+  investmentIncome: number
+  filingStatus: string
+  dependents: any[]
+  taxYear?: number
+  taxpayerAge?: number | null
+  spouseAge?: number | null
+}
+
+// Returns why the filer cannot claim the EITC at all, or null if the worksheet applies
+export function getEITCDisqualification(input: EITCInput): string | null {
+  const taxYear = input.taxYear || DEFAULT_TAX_YEAR
+  const rules = getTaxYearRules(taxYear).eitc
+  const status = normalizeFilingStatus(input.filingStatus)
+  const childCount = input.dependents?.filter(dep => dep.qualifiesForEITC)?.length || 0
+  
+  if (status === 'marriedfilingseparately') {
+    return 'Married filing separately returns cannot claim the Earned Income Credit'
+  }
+  
+  if (input.investmentIncome > rules.investmentIncomeLimit) {
+    return `Investment income exceeds $${rules.investmentIncomeLimit.toLocaleString()}`
+  }
+  
+  if (input.earnedIncome <= 0) {
+    return 'No earned income'
+  }
   
-  // Income limits (simplified - single filer)
-  const incomeLimits = {
-    0: 18591,
-    1: 49084,
-    2: 55768,
-    3: 59899,
+  // Without a qualifying child, the filer (or either spouse on a joint return) must be 25-64
+  if (childCount === 0) {
+    const ages = status === 'marriedfilingjointly'
+      ? [input.taxpayerAge, input.spouseAge]
+      : [input.taxpayerAge]
+    const meetsAgeTest = ages.some(age => age !== null && age !== undefined && age >= 25 && age <= 64)
+    if (!meetsAgeTest) {
+      return 'Filers without a qualifying child must be at least 25 and under 65 at the end of the year'
+    }
   }
   
-  const limitForChildren = incomeLimits[Math.min(childCount, 3) as keyof typeof incomeLimits]
+  return null
+}
+
+// The IRS EIC Table computes the credit at the midpoint of each $50 income band
+function eitcForIncome(income: number, params: EITCParameters, phaseOutStart: number): number {
+  if (income <= 0) return 0
+  
+  const midpoint = Math.floor(income / 50) * 50 + 25
+  const phasedIn = Math.min(midpoint * params.phaseInRate, params.maxCredit)
+  const reduction = Math.max(0, midpoint - phaseOutStart) * params.phaseOutRate
   
-  if (income > limitForChildren) {
+  return Math.max(0, Math.round(phasedIn - reduction))
+}
+
+// Earned Income Credit Worksheet A (Form 1040 instructions)
+export function calculateEITC(input: EITCInput): number {
+  if (getEITCDisqualification(input)) {
     return 0
   }
   
-  // Simplified calculation - in reality, EITC has phase-in and phase-out ranges
-  const phaseInRate = childCount === 0 ? 0.0765 : childCount === 1 ? 0.34 : 0.40
-  const earnedCredit = Math.min(income * phaseInRate, maxForChildren)
+  const taxYear = input.taxYear || DEFAULT_TAX_YEAR
+  const childCount = input.dependents?.filter(dep => dep.qualifiesForEITC)?.length || 0
+  const params = getTaxYearRules(taxYear).eitc.byQualifyingChildren[Math.min(childCount, 3)]
+  const phaseOutStart = normalizeFilingStatus(input.filingStatus) === 'marriedfilingjointly'
+    ? params.phaseOutStartJoint
+    : params.phaseOutStart
+  
+  const earnedIncomeCredit = eitcForIncome(input.earnedIncome, params, phaseOutStart)
   
-  return Math.round(earnedCredit)
+  // Once AGI reaches the phase-out range, the credit is the smaller of the amounts for earned income and AGI
+  if (input.adjustedGrossIncome >= phaseOutStart && input.adjustedGrossIncome !== input.earnedIncome) {
+    return Math.min(earnedIncomeCredit, eitcForIncome(input.adjustedGrossIncome, params, phaseOutStart))
+  }
+  
+  return earnedIncomeCredit
+}
+
+// Additional Medicare Tax thresholds are set by statute and not indexed for inflation
+const ADDITIONAL_MEDICARE_THRESHOLDS: Record<string, number> = {
+  marriedfilingjointly: 250000,
+  marriedfilingseparately: 125000,
+}
+const ADDITIONAL_MEDICARE_THRESHOLD_DEFAULT = 200000
+
+export function getAdditionalMedicareThreshold(filingStatus: string): number {
+  return ADDITIONAL_MEDICARE_THRESHOLDS[normalizeFilingStatus(filingStatus)] ?? ADDITIONAL_MEDICARE_THRESHOLD_DEFAULT
+}
+
+export interface SelfEmploymentTaxInput {
+  selfEmploymentIncome: number
+  socialSecurityWages: number
+  medicareWages: number
+  filingStatus: string
+  taxYear?: number
+  spouseSelfEmploymentIncome?: number // Part of selfEmploymentIncome; only used on a joint return
+  spouseSocialSecurityWages?: number // Part of socialSecurityWages
+}
+
+// One person's Schedule SE
+export interface PersonScheduleSE {
+  forSpouse: boolean
+  selfEmploymentIncome: number // Line 2
+  netEarnings: number // Line 6
+  socialSecurityTax: number // Line 10
+  medicareTax: number // Line 11
+  selfEmploymentTax: number // Line 12
+  deductiblePart: number // Line 13
+}
+
+export interface ScheduleSEResult {
+  netEarnings: number
+  socialSecurityTax: number
+  medicareTax: number
+  selfEmploymentTax: number
+  deductiblePart: number
+  additionalMedicareTax: number
+  schedules: PersonScheduleSE[] // Filed for each person with $400 or more of net earnings
+}
+
+// Schedule SE is not filed, and no SE tax is due, when net earnings are less than $400
+const SCHEDULE_SE_MINIMUM_NET_EARNINGS = 400
+
+// Schedule SE, plus the self-employment portion of Form 8959 Additional Medicare Tax. On a joint return each
+// spouse files their own Schedule SE against their own W-2 social security wages; Form 8959 combines them.
+export function calculateSelfEmploymentTax(input: SelfEmploymentTaxInput): ScheduleSEResult {
+  const taxYear = input.taxYear || DEFAULT_TAX_YEAR
+  const wageBase = getTaxYearRules(taxYear).socialSecurityWageBase
+  const joint = normalizeFilingStatus(input.filingStatus) === 'marriedfilingjointly'
+  const spouseSelfEmploymentIncome = joint ? input.spouseSelfEmploymentIncome || 0 : 0
+  const spouseSocialSecurityWages = joint ? input.spouseSocialSecurityWages || 0 : 0
+
+  const calculateScheduleSE = (forSpouse: boolean, selfEmploymentIncome: number, socialSecurityWages: number): PersonScheduleSE => {
+    const netEarnings = roundToCents(Math.max(0, selfEmploymentIncome) * 0.9235)
+    if (netEarnings < SCHEDULE_SE_MINIMUM_NET_EARNINGS) {
+      return { forSpouse, selfEmploymentIncome, netEarnings, socialSecurityTax: 0, medicareTax: 0, selfEmploymentTax: 0, deductiblePart: 0 }
+    }
+
+    // W-2 social security wages use up the wage base first
+    const remainingWageBase = Math.max(0, wageBase - socialSecurityWages)
+    const socialSecurityTax = roundToCents(Math.min(netEarnings, remainingWageBase) * 0.124)
+    const medicareTax = roundToCents(netEarnings * 0.029)
+    const selfEmploymentTax = roundToCents(socialSecurityTax + medicareTax)
+    return {
+      forSpouse,
+      selfEmploymentIncome,
+      netEarnings,
+      socialSecurityTax,
+      medicareTax,
+      selfEmploymentTax,
+      deductiblePart: roundToCents(selfEmploymentTax / 2),
+    }
+  }
+
+  const schedules = [
+    calculateScheduleSE(
+      false,
+      roundToCents(input.selfEmploymentIncome - spouseSelfEmploymentIncome),
+      Math.max(0, input.socialSecurityWages - spouseSocialSecurityWages)
+    ),
+    calculateScheduleSE(true, spouseSelfEmploymentIncome, spouseSocialSecurityWages),
+  ].filter((schedule) => schedule.netEarnings >= SCHEDULE_SE_MINIMUM_NET_EARNINGS)
+  const sum = (field: 'netEarnings' | 'socialSecurityTax' | 'medicareTax' | 'selfEmploymentTax' | 'deductiblePart') =>
+    roundToCents(schedules.reduce((total, schedule) => total + schedule[field], 0))
+
+  // Medicare wages reduce the threshold available to self-employment income
+  const netEarnings = sum('netEarnings')
+  const threshold = Math.max(0, getAdditionalMedicareThreshold(input.filingStatus) - input.medicareWages)
+  const additionalMedicareTax = roundToCents(Math.max(0, netEarnings - threshold) * 0.009)
+
+  return {
+    netEarnings,
+    socialSecurityTax: sum('socialSecurityTax'),
+    medicareTax: sum('medicareTax'),
+    selfEmploymentTax: sum('selfEmploymentTax'),
+    deductiblePart: sum('deductiblePart'),
+    additionalMedicareTax,
+    schedules,
+  }
+}
+
+// Regular Medicare tax rate withheld on wages, and the Additional Medicare Tax rate above the threshold
+const MEDICARE_WITHHOLDING_RATE = 0.0145
+const ADDITIONAL_MEDICARE_RATE = 0.009
+
+export interface Form8959Input {
+  medicareWages: number // W-2 box 5
+  medicareTaxWithheld: number // W-2 box 6
+  selfEmploymentAdditionalMedicareTax: number // Part II, figured with Schedule SE
+  filingStatus: string
+}
+
+export interface Form8959Result {
+  additionalTaxOnWages: number // Line 7
+  additionalTaxOnSelfEmployment: number // Line 13
+  additionalMedicareTax: number // Line 18, Schedule 2 line 11
+  medicareTaxWithheld: number // Line 19
+  regularMedicareTaxWithholding: number // Line 21
+  additionalMedicareTaxWithheld: number // Line 24, included in Form 1040 line 25c
+}
+
+// Form 8959: 0.9% Additional Medicare Tax, reconciled against the Medicare tax employers withheld
+export function calculateAdditionalMedicareTax(input: Form8959Input): Form8959Result {
+  const medicareWages = Math.max(0, input.medicareWages)
+  const threshold = getAdditionalMedicareThreshold(input.filingStatus)
+  const additionalTaxOnWages = roundToCents(Math.max(0, medicareWages - threshold) * ADDITIONAL_MEDICARE_RATE)
+  const additionalTaxOnSelfEmployment = roundToCents(input.selfEmploymentAdditionalMedicareTax)
+  
+  // Employers withhold 0.9% on wages over $200,000 regardless of filing status; anything above 1.45% is a payment
+  const medicareTaxWithheld = roundToCents(Math.max(0, input.medicareTaxWithheld))
+  const regularMedicareTaxWithholding = roundToCents(medicareWages * MEDICARE_WITHHOLDING_RATE)
+  
+  return {
+    additionalTaxOnWages,
+    additionalTaxOnSelfEmployment,
+    additionalMedicareTax: roundToCents(additionalTaxOnWages + additionalTaxOnSelfEmployment),
+    medicareTaxWithheld,
+    regularMedicareTaxWithholding,
+    additionalMedicareTaxWithheld: roundToCents(Math.max(0, medicareTaxWithheld - regularMedicareTaxWithholding)),
+  }
+}
+
+const SOCIAL_SECURITY_TAX_RATE = 0.062
+
+// Social security tax withheld (W-2 box 4) above the annual maximum because more than one employer withheld it.
+// Figured separately for each spouse; tax over the maximum withheld by a single employer must be refunded by that employer.
+export function calculateExcessSocialSecurityTax(incomeEntries: any[], taxYear: number = DEFAULT_TAX_YEAR): number {
+  const maximumTax = roundToCents(getTaxYearRules(taxYear).socialSecurityWageBase * SOCIAL_SECURITY_TAX_RATE)
+  const w2Entries = (incomeEntries || []).filter((entry: any) => entry.incomeType === 'W2_WAGES')
+  
+  const excessFor = (forSpouse: boolean) => {
+    const entries = w2Entries.filter((entry: any) => Boolean(entry.forSpouse) === forSpouse)
+    if (entries.length < 2) {
+      return 0
+    }
+    const withheld = entries.reduce((sum: number, entry: any) =>
+      sum + Math.min(parseFloat(entry.socialSecurityTaxWithheld) || 0, maximumTax), 0
+    )
+    return Math.max(0, withheld - maximumTax)
+  }
+  
+  return roundToCents(excessFor(false) + excessFor(true))
 }
 
 export interface TaxCalculationResult {
   grossIncome: number
+  socialSecurity: SocialSecurityWorksheetResult
+  netOperatingLossDeduction: number // Schedule 1 line 8a, part of grossIncome
+  netOperatingLossToNextYear: number
+  adjustmentsToIncome: number
+  adjustments: AdjustmentsToIncomeResult
   adjustedGrossIncome: number
   standardDeduction: number
   itemizedDeduction: number
+  scheduleA: ScheduleAResult | null
   taxableIncome: number
   taxLiability: number
-  childTaxCredit: number
+  capitalGainTax: CapitalGainTaxResult | null
+  alternativeMinimumTax: number // Form 6251 line 11, Schedule 2 line 1
+  form6251: AlternativeMinimumTaxResult
+  netInvestmentIncomeTax: number
+  selfEmploymentTax: number
+  additionalMedicareTax: number
+  form8959: Form8959Result
+  excessSocialSecurityTax: number // Refundable, Schedule 3 line 11
+  scheduleSE: ScheduleSEResult
+  taxableDependentCareBenefits: number // Form 1040 line 1e, beyond what box 1 wages already include
+  dependentCareCredit: number // Schedule 3 line 2
+  form2441: DependentCareCreditResult
+  educationCredit: number // Nonrefundable education credits, Schedule 3 line 3
+  refundableEducationCredit: number // American opportunity credit, Form 1040 line 29
+  form8863: EducationCreditsResult
+  childTaxCredit: number // Child tax credit and credit for other dependents allowed against tax (Form 1040 line 19)
+  additionalChildTaxCredit: number
+  schedule8812: Schedule8812Result
   earnedIncomeCredit: number
+  minimumTaxCredit: number // Form 8801 line 25, Schedule 3 line 6b
+  minimumTaxCreditToNextYear: number // Form 8801 line 26
+  nonrefundableCredits: number
+  refundableCredits: number
   totalCredits: number
   finalTax: number
+  federalWithholding: number
+  estimatedTaxPayments: number
+  totalPayments: number
+  estimatedTaxPenalty: number // Form 1040 line 38, added to the amount owed or taken from the refund
+  form2210: EstimatedTaxPenaltyResult
+  refundAmount: number
+  amountOwed: number
   effectiveRate: number
   marginalRate: number
+  stateReturns: StateReturnResult[] // Not part of the federal refund or amount owed
 }
 
-export function calculateTaxReturn(data: {
+export interface TaxCalculationInput {
   totalIncome: number
   filingStatus: string
   dependents: any[]
   itemizedDeductions: number
-}): TaxCalculationResult {
+  taxYear?: number
+  standardDeductionOptions?: StandardDeductionOptions
+  federalWithholding?: number
+  estimatedTaxPayments?: number
+  estimatedPayments?: EstimatedPaymentLine[] // Dated payments; without them estimatedTaxPayments is treated as paid on each due date
+  priorYearTax?: number | null // Form 2210 line 8 before the 110% rule
+  priorYearAdjustedGrossIncome?: number | null
+  earnedIncome?: number
+  investmentIncome?: number
+  taxpayerAge?: number | null
+  spouseAge?: number | null
+  selfEmploymentIncome?: number
+  spouseSelfEmploymentIncome?: number // Part of selfEmploymentIncome, from the spouse's businesses on a joint return
+  socialSecurityWages?: number
+  spouseSocialSecurityWages?: number // Part of socialSecurityWages, from the spouse's W-2s
+  medicareWages?: number
+  businessExpenses?: number // Schedule C expenses; gross receipts are already part of totalIncome
+  qualifiedDividends?: number
+  netCapitalGain?: number
+  deductionEntries?: any[] // Adjustments and Schedule A-limited itemized deductions; replaces itemizedDeductions when provided
+  charitableCarryforward?: number
+  netOperatingLossCarryforward?: number
+  minimumTaxCreditCarryforward?: number
+  coveredByRetirementPlan?: boolean
+  socialSecurityBenefits?: number // Included in totalIncome; only the taxable part is kept in gross income
+  taxExemptInterest?: number
+  livedWithSpouse?: boolean
+  incentiveStockOptions?: number // Form 6251 line 2i
+  medicareTaxWithheld?: number // W-2 box 6
+  excessSocialSecurityTax?: number // Schedule 3 line 11
+  educationStudents?: any[] // Form 8863 Part III students
+  careProviders?: any[] // Form 2441 Part I providers, each linked to a qualifying person
+  dependentCareBenefits?: number // W-2 box 10
+  dependentCareBenefitsInWages?: number // Box 10 amounts over $5,000, which employers include in box 1
+  spouseEarnedIncome?: number // Part of earnedIncome; Form 2441 limits expenses to each spouse's earnings
+  stateCode?: string | null // State of residence
+  stateAdditions?: number // Modifications for the state of residence
+  stateSubtractions?: number
+  residencyPeriods?: any[]
+  stateIncomeLines?: StateIncomeLine[] // W-2 boxes 15-17 by state
+}
+
+// Net operating losses arising after 2017 carry forward indefinitely but offset at most 80% of taxable income
+const NET_OPERATING_LOSS_LIMIT_RATE = 0.8
+
+export function calculateTaxReturn(data: TaxCalculationInput): TaxCalculationResult {
   const { totalIncome, filingStatus, dependents, itemizedDeductions } = data
+  const taxYear = data.taxYear || DEFAULT_TAX_YEAR
+  
+  // Schedule C contributes net profit, not gross receipts, to total income
+  const socialSecurityBenefits = data.socialSecurityBenefits || 0
+  const reportedIncome = roundToCents(totalIncome - (data.businessExpenses || 0) - socialSecurityBenefits)
+  
+  const scheduleSE = calculateSelfEmploymentTax({
+    selfEmploymentIncome: data.selfEmploymentIncome || 0,
+    socialSecurityWages: data.socialSecurityWages || 0,
+    medicareWages: data.medicareWages || 0,
+    spouseSelfEmploymentIncome: data.spouseSelfEmploymentIncome || 0,
+    spouseSocialSecurityWages: data.spouseSocialSecurityWages || 0,
+    filingStatus,
+    taxYear,
+  })
+  const selfEmploymentTax = scheduleSE.selfEmploymentTax
+  const form8959 = calculateAdditionalMedicareTax({
+    medicareWages: data.medicareWages || 0,
+    medicareTaxWithheld: data.medicareTaxWithheld || 0,
+    selfEmploymentAdditionalMedicareTax: scheduleSE.additionalMedicareTax,
+    filingStatus,
+  })
+  const additionalMedicareTax = form8959.additionalMedicareTax
+  
+  // Earned income from self-employment is net of the deductible part of SE tax
+  const earnedIncome = Math.max(0, (data.earnedIncome ?? reportedIncome) - scheduleSE.deductiblePart)
+  
+  // Form 2441 Part III: dependent care benefits that cannot be excluded are taxable wages
+  const spouseEarnedIncome = normalizeFilingStatus(filingStatus) === 'marriedfilingjointly' ? data.spouseEarnedIncome || 0 : 0
+  const dependentCareInput = {
+    providers: data.careProviders || [],
+    dependents,
+    dependentCareBenefits: data.dependentCareBenefits || 0,
+    taxpayerEarnedIncome: Math.max(0, earnedIncome - spouseEarnedIncome),
+    spouseEarnedIncome,
+    filingStatus,
+    taxYear,
+  }
+  const taxableDependentCareBenefits = roundToCents(Math.max(0,
+    calculateDependentCareBenefits(dependentCareInput).taxableBenefits - (data.dependentCareBenefitsInWages || 0)
+  ))
+  const incomeBeforeBenefits = roundToCents(reportedIncome + taxableDependentCareBenefits)
+  
+  const adjustmentsInput = {
+    deductionEntries: data.deductionEntries || [],
+    filingStatus,
+    taxYear,
+    selfEmploymentTaxDeduction: scheduleSE.deductiblePart,
+    selfEmploymentIncome: data.selfEmploymentIncome || 0,
+    compensation: data.earnedIncome ?? incomeBeforeBenefits,
+    coveredByRetirementPlan: data.coveredByRetirementPlan || false,
+    taxpayerAge: data.taxpayerAge,
+    spouseAge: data.spouseAge,
+  }
+  
+  // Social Security Benefits Worksheet. Its adjustments are figured as if no benefits were taxable,
+  // so the IRA deduction of a filer covered by a workplace plan can differ slightly from Pub. 590-A.
+  const adjustmentsBeforeBenefits = calculateAdjustmentsToIncome({ ...adjustmentsInput, totalIncome: incomeBeforeBenefits })
+  const socialSecurity = calculateTaxableSocialSecurity({
+    benefits: socialSecurityBenefits,
+    otherIncome: incomeBeforeBenefits,
+    taxExemptInterest: data.taxExemptInterest || 0,
+    adjustments: adjustmentsBeforeBenefits.total - adjustmentsBeforeBenefits.studentLoanInterest.allowed,
+    filingStatus,
+    livedWithSpouse: data.livedWithSpouse,
+  })
+  const incomeBeforeLoss = roundToCents(incomeBeforeBenefits + socialSecurity.taxableBenefits)
   
-  const grossIncome = totalIncome
-  const adjustedGrossIncome = grossIncome // No adjustments for Stage 1
+  // Schedule 1 Part II adjustments
+  const adjustments = calculateAdjustmentsToIncome({ ...adjustmentsInput, totalIncome: incomeBeforeLoss })
+  const adjustmentsToIncome = adjustments.total
   
-  const standardDeduction = getStandardDeduction(filingStatus)
-  const itemizedDeduction = itemizedDeductions || 0
+  const standardDeduction = getStandardDeduction(filingStatus, taxYear, data.standardDeductionOptions)
+  const calculateItemizedDeductions = (agi: number) => data.deductionEntries
+    ? calculateScheduleA({
+        deductionEntries: data.deductionEntries,
+        adjustedGrossIncome: agi,
+        filingStatus,
+        taxYear,
+        charitableCarryforward: data.charitableCarryforward,
+      })
+    : null
+  
+  // Schedule 1 line 8a: a net operating loss carried forward offsets up to 80% of taxable income figured without it
+  const netOperatingLossCarryforward = Math.max(0, data.netOperatingLossCarryforward || 0)
+  let netOperatingLossDeduction = 0
+  if (netOperatingLossCarryforward > 0) {
+    const incomeBeforeDeduction = roundToCents(incomeBeforeLoss - adjustmentsToIncome)
+    const scheduleABeforeLoss = calculateItemizedDeductions(incomeBeforeDeduction)
+    const deductionBeforeLoss = Math.max(
+      standardDeduction,
+      scheduleABeforeLoss ? scheduleABeforeLoss.totalAllowed : itemizedDeductions || 0
+    )
+    netOperatingLossDeduction = roundToCents(Math.min(
+      netOperatingLossCarryforward,
+      Math.max(0, incomeBeforeDeduction - deductionBeforeLoss) * NET_OPERATING_LOSS_LIMIT_RATE
+    ))
+  }
+  const grossIncome = roundToCents(incomeBeforeLoss - netOperatingLossDeduction)
+  const adjustedGrossIncome = roundToCents(grossIncome - adjustmentsToIncome)
+  
+  // Form 172, simplified: only a loss from a business (Schedule C) becomes a net operating loss
+  const netOperatingLoss = roundToCents(Math.min(
+    Math.max(0, -(data.selfEmploymentIncome || 0)),
+    Math.max(0, -adjustedGrossIncome)
+  ))
+  const netOperatingLossToNextYear = roundToCents(netOperatingLossCarryforward - netOperatingLossDeduction + netOperatingLoss)
+  
+  const scheduleA = calculateItemizedDeductions(adjustedGrossIncome)
+  const itemizedDeduction = scheduleA ? scheduleA.totalAllowed : itemizedDeductions || 0
   
   const deduction = Math.max(standardDeduction, itemizedDeduction)
   const taxableIncome = Math.max(0, adjustedGrossIncome - deduction)
   
-  const taxLiability = calculateTaxLiability(taxableIncome, filingStatus)
+  // Qualified dividends and net capital gain are taxed at 0/15/20% through the worksheet
+  const qualifiedDividends = data.qualifiedDividends || 0
+  const netCapitalGain = data.netCapitalGain || 0
+  const capitalGainTax = qualifiedDividends > 0 || netCapitalGain > 0
+    ? calculateCapitalGainTax({ taxableIncome, qualifiedDividends, netCapitalGain, filingStatus, taxYear })
+    : null
+  const taxLiability = capitalGainTax
+    ? capitalGainTax.tax
+    : calculateTaxLiability(taxableIncome, filingStatus, taxYear)
+  
+  // Tentative minimum tax in excess of regular tax is added before credits
+  const form6251Input = {
+    taxableIncomeBeforeLimit: adjustedGrossIncome - deduction,
+    itemized: itemizedDeduction > standardDeduction,
+    standardDeduction,
+    stateAndLocalTaxes: scheduleA ? scheduleA.taxes.allowed : 0,
+    incentiveStockOptions: data.incentiveStockOptions || 0,
+    regularTax: taxLiability,
+    taxableIncome,
+    qualifiedDividends,
+    netCapitalGain,
+    filingStatus,
+    taxYear,
+  }
+  const form6251 = calculateAlternativeMinimumTax(form6251Input)
+  const alternativeMinimumTax = form6251.alternativeMinimumTax
+  
+  const netInvestmentIncomeTax = calculateNetInvestmentIncomeTax(
+    data.investmentIncome || 0,
+    adjustedGrossIncome,
+    filingStatus
+  )
+  
+  // Nonrefundable credits in Schedule 3 order: child care, then education, then the child tax credit,
+  // each limited to the tax the earlier ones leave
+  const form2441 = calculateDependentCareCredit({
+    ...dependentCareInput,
+    adjustedGrossIncome,
+    taxLiability: roundToCents(taxLiability + alternativeMinimumTax),
+  })
+  const dependentCareCredit = form2441.credit
+  
+  const form8863 = calculateEducationCredits({
+    students: data.educationStudents || [],
+    modifiedAGI: adjustedGrossIncome,
+    filingStatus,
+    taxLiability: roundToCents(taxLiability + alternativeMinimumTax - dependentCareCredit),
+  })
+  const educationCredit = form8863.nonrefundableCredit
+  const refundableEducationCredit = form8863.refundableAotc
+  
+  const schedule8812 = calculateChildTaxCredit({
+    dependents,
+    filingStatus,
+    modifiedAGI: adjustedGrossIncome,
+    taxLiability: roundToCents(taxLiability + alternativeMinimumTax - dependentCareCredit - educationCredit),
+    earnedIncome,
+    taxYear,
+  })
+  const childTaxCredit = schedule8812.nonrefundableCredit
+  const additionalChildTaxCredit = schedule8812.additionalChildTaxCredit
+  const earnedIncomeCredit = calculateEITC({
+    earnedIncome,
+    adjustedGrossIncome,
+    investmentIncome: data.investmentIncome || 0,
+    filingStatus,
+    dependents,
+    taxYear,
+    taxpayerAge: data.taxpayerAge,
+    spouseAge: data.spouseAge,
+  })
+  
+  // Form 8801: AMT paid in earlier years on deferral items is a credit against regular tax, after the other
+  // nonrefundable credits, to the extent it is more than the tentative minimum tax
+  const minimumTaxCreditCarryforward = Math.max(0, data.minimumTaxCreditCarryforward || 0)
+  const minimumTaxCredit = roundToCents(Math.min(
+    minimumTaxCreditCarryforward,
+    Math.max(0, taxLiability - dependentCareCredit - educationCredit - childTaxCredit - form6251.tentativeMinimumTax)
+  ))
+  
+  // This year's AMT on incentive stock options (a deferral item) adds to the credit; AMT on exclusion items
+  // such as state and local taxes does not
+  const exclusionItemsMinimumTax = (data.incentiveStockOptions || 0) > 0
+    ? calculateAlternativeMinimumTax({ ...form6251Input, incentiveStockOptions: 0 }).alternativeMinimumTax
+    : alternativeMinimumTax
+  const minimumTaxCreditToNextYear = roundToCents(
+    minimumTaxCreditCarryforward - minimumTaxCredit + alternativeMinimumTax - exclusionItemsMinimumTax
+  )
+  
+  // Nonrefundable credits can only reduce tax to zero; refundable credits are treated as payments
+  const nonrefundableCredits = roundToCents(dependentCareCredit + educationCredit + childTaxCredit + minimumTaxCredit)
+  const excessSocialSecurityTax = data.excessSocialSecurityTax || 0
+  const refundableCredits = roundToCents(
+    earnedIncomeCredit + additionalChildTaxCredit + refundableEducationCredit + excessSocialSecurityTax
+  )
+  const totalCredits = nonrefundableCredits + refundableCredits
   
-  const childTaxCredit = calculateChildTaxCredit(dependents)
-  const earnedIncomeCredit = calculateEITC(grossIncome, dependents)
-  const totalCredits = childTaxCredit + earnedIncomeCredit
+  // Schedule 2 other taxes are not reduced by nonrefundable credits
+  const finalTax = roundToCents(
+    taxLiability + alternativeMinimumTax - nonrefundableCredits + selfEmploymentTax + additionalMedicareTax + netInvestmentIncomeTax
+  )
   
-  const finalTax = Math.max(0, taxLiability - totalCredits)
+  const federalWithholding = data.federalWithholding || 0
+  const estimatedTaxPayments = data.estimatedTaxPayments || 0
+  const totalPayments = roundToCents(
+    federalWithholding + form8959.additionalMedicareTaxWithheld + estimatedTaxPayments + refundableCredits
+  )
+  
+  // Form 2210: refundable credits other than excess social security reduce the tax that had to be prepaid,
+  // and excess social security and Additional Medicare Tax withheld count as withholding
+  const estimatedPayments = data.estimatedPayments
+    || getEstimatedTaxInstallments(estimatedTaxPayments, taxYear).map((installment) => ({
+      paymentDate: installment.dueDate,
+      amount: installment.amount,
+    }))
+  const form2210 = calculateEstimatedTaxPenalty({
+    currentYearTax: finalTax - (refundableCredits - excessSocialSecurityTax),
+    withholding: federalWithholding + form8959.additionalMedicareTaxWithheld + excessSocialSecurityTax,
+    estimatedPayments,
+    priorYearTax: data.priorYearTax ?? null,
+    priorYearAdjustedGrossIncome: data.priorYearAdjustedGrossIncome ?? null,
+    filingStatus,
+    taxYear,
+  })
+  const estimatedTaxPenalty = form2210.penalty
+  
+  const balance = roundToCents(finalTax - totalPayments + estimatedTaxPenalty)
+  const refundAmount = balance < 0 ? Math.abs(balance) : 0
+  const amountOwed = balance > 0 ? balance : 0
   
   const effectiveRate = grossIncome > 0 ? (finalTax / grossIncome) * 100 : 0
   
-  // Calculate marginal rate
-  const brackets = TAX_BRACKETS_2024[filingStatus.toLowerCase().replace(/_/g, '')]
-  let marginalRate = 0
-  if (brackets) {
-    for (const bracket of brackets) {
-      if (taxableIncome > bracket.min) {
-        marginalRate = bracket.rate * 100
-      }
-    }
-  }
+  const marginalRate = getMarginalRate(taxableIncome, filingStatus, taxYear)
+  
+  const stateReturns = calculateStateReturns({
+    homeState: data.stateCode || null,
+    residencyPeriods: data.residencyPeriods || [],
+    stateIncomeLines: data.stateIncomeLines || [],
+    taxYear,
+    filingStatus,
+    federalAdjustedGrossIncome: adjustedGrossIncome,
+    taxableSocialSecurity: socialSecurity.taxableBenefits,
+    additions: data.stateAdditions || 0,
+    subtractions: data.stateSubtractions || 0,
+    dependents: (dependents || []).length,
+  })
   
   return {
     grossIncome,
+    socialSecurity,
+    netOperatingLossDeduction,
+    netOperatingLossToNextYear,
+    adjustmentsToIncome,
+    adjustments,
     adjustedGrossIncome,
     standardDeduction,
     itemizedDeduction,
+    scheduleA,
     taxableIncome,
     taxLiability,
+    capitalGainTax,
+    alternativeMinimumTax,
+    form6251,
+    netInvestmentIncomeTax,
+    selfEmploymentTax,
+    additionalMedicareTax,
+    form8959,
+    excessSocialSecurityTax,
+    scheduleSE,
+    taxableDependentCareBenefits,
+    dependentCareCredit,
+    form2441,
+    educationCredit,
+    refundableEducationCredit,
+    form8863,
     childTaxCredit,
+    additionalChildTaxCredit,
+    schedule8812,
     earnedIncomeCredit,
+    minimumTaxCredit,
+    minimumTaxCreditToNextYear,
+    nonrefundableCredits,
+    refundableCredits,
     totalCredits,
     finalTax,
+    federalWithholding,
+    estimatedTaxPayments,
+    totalPayments,
+    estimatedTaxPenalty,
+    form2210,
+    refundAmount,
+    amountOwed,
     effectiveRate,
     marginalRate,
+    stateReturns,
+  }
+}
+
+// Sum federal income tax withheld across W-2 and 1099 income entries
+export function calculateFederalWithholding(incomeEntries: any[]): number {
+  const total = (incomeEntries || []).reduce((sum: number, entry: any) =>
+    sum + (parseFloat(entry.federalTaxWithheld) || 0), 0
+  )
+  return roundToCents(total)
+}
+
+// Treated as self-employment income even when not linked to a Schedule C business
+const SELF_EMPLOYMENT_INCOME_TYPES = ['NONEMPLOYEE_COMPENSATION', 'BUSINESS_INCOME']
+
+const INVESTMENT_INCOME_TYPES = [
+  'INTEREST',
+  'DIVIDENDS',
+  'CAPITAL_GAINS',
+  'ROYALTIES',
+  'RENTS',
+  'ORIGINAL_ISSUE_DISCOUNT',
+]
+
+// Wages and self-employment income counted as earned income for the EITC
+export function calculateEarnedIncome(
+  incomeEntries: any[],
+  businesses: any[] = [],
+  taxYear: number = DEFAULT_TAX_YEAR
+): number {
+  const wages = (incomeEntries || [])
+    .filter((entry: any) => entry.incomeType === 'W2_WAGES')
+    .reduce((sum: number, entry: any) => sum + (parseFloat(entry.amount) || 0), 0)
+  const total = wages + calculateSelfEmploymentIncome(incomeEntries, businesses, taxYear)
+  return roundToCents(Math.max(0, total))
+}
+
+// Interest, dividends, net capital gains, rents and royalties for the EITC investment income limit.
+// When Schedule D has been calculated its capital gain (never less than zero) replaces capital gain entries.
+export function calculateInvestmentIncome(incomeEntries: any[], capitalGainOrLoss?: number): number {
+  const total = (incomeEntries || [])
+    .filter((entry: any) => INVESTMENT_INCOME_TYPES.includes(entry.incomeType))
+    .filter((entry: any) => capitalGainOrLoss === undefined || entry.incomeType !== 'CAPITAL_GAINS')
+    .reduce((sum: number, entry: any) => sum + (parseFloat(entry.amount) || 0), 0)
+  return roundToCents(Math.max(0, total + Math.max(0, capitalGainOrLoss || 0)))
+}
+
+// Social Security and railroad retirement benefits (SSA-1099 box 5), before the taxable part is figured
+export function calculateSocialSecurityBenefits(incomeEntries: any[]): number {
+  const total = (incomeEntries || [])
+    .filter((entry: any) => entry.incomeType === 'SOCIAL_SECURITY')
+    .reduce((sum: number, entry: any) => sum + (parseFloat(entry.amount) || 0), 0)
+  return roundToCents(total)
+}
+
+// Tax-exempt interest (1099-INT box 8), reported on Form 1040 line 2a and not part of total income
+export function calculateTaxExemptInterest(incomeEntries: any[]): number {
+  const total = (incomeEntries || []).reduce((sum: number, entry: any) =>
+    sum + (parseFloat(entry.taxExemptInterest) || 0), 0
+  )
+  return roundToCents(total)
+}
+
+// Qualified dividends (1099-DIV box 1b), never more than the ordinary dividends reported on the entry
+export function calculateQualifiedDividends(incomeEntries: any[]): number {
+  const total = (incomeEntries || [])
+    .filter((entry: any) => entry.incomeType === 'DIVIDENDS')
+    .reduce((sum: number, entry: any) =>
+      sum + Math.min(parseFloat(entry.qualifiedDividends) || 0, parseFloat(entry.amount) || 0), 0
+    )
+  return roundToCents(total)
+}
+
+// Total income from entries, with capital gain entries replaced by the Schedule D gain or allowed loss
+export function calculateTotalIncome(incomeEntries: any[], capitalGainOrLoss: number): number {
+  const total = (incomeEntries || [])
+    .filter((entry: any) => entry.incomeType !== 'CAPITAL_GAINS')
+    .reduce((sum: number, entry: any) => sum + (parseFloat(entry.amount) || 0), 0)
+  return roundToCents(total + capitalGainOrLoss)
+}
+
+// Capital gain entries (e.g. 1099-DIV box 2a distributions) are reported on Schedule D line 13 as long-term
+export function calculateCapitalGainDistributions(incomeEntries: any[]): number {
+  const total = (incomeEntries || [])
+    .filter((entry: any) => entry.incomeType === 'CAPITAL_GAINS')
+    .reduce((sum: number, entry: any) => sum + (parseFloat(entry.amount) || 0), 0)
+  return roundToCents(total)
+}
+
+// Schedule C net profit plus self-employment income not linked to a business. With forSpouse, only the
+// businesses and entries of that person on a joint return are counted.
+export function calculateSelfEmploymentIncome(
+  incomeEntries: any[],
+  businesses: any[] = [],
+  taxYear: number = DEFAULT_TAX_YEAR,
+  forSpouse?: boolean
+): number {
+  const isOwner = (item: any) => forSpouse === undefined || Boolean(item.forSpouse) === forSpouse
+  const unlinked = (incomeEntries || [])
+    .filter((entry: any) => !entry.businessId && SELF_EMPLOYMENT_INCOME_TYPES.includes(entry.incomeType) && isOwner(entry))
+    .reduce((sum: number, entry: any) => sum + (parseFloat(entry.amount) || 0), 0)
+  const netProfit = calculateScheduleCSummary((businesses || []).filter(isOwner), incomeEntries, taxYear).netProfit
+  return roundToCents(unlinked + netProfit)
+}
+
+// W-2 box 3 social security wages, falling back to box 1 wages when box 3 was not entered. With forSpouse,
+// only that person's W-2s are counted.
+export function calculateSocialSecurityWages(incomeEntries: any[], forSpouse?: boolean): number {
+  return sumW2Wages(
+    (incomeEntries || []).filter((entry: any) => forSpouse === undefined || Boolean(entry.forSpouse) === forSpouse),
+    'socialSecurityWages'
+  )
+}
+
+// W-2 box 5 Medicare wages, falling back to box 1 wages when box 5 was not entered
+export function calculateMedicareWages(incomeEntries: any[]): number {
+  return sumW2Wages(incomeEntries, 'medicareWages')
+}
+
+// W-2 box 6 Medicare tax withheld
+export function calculateMedicareTaxWithheld(incomeEntries: any[]): number {
+  const total = (incomeEntries || [])
+    .filter((entry: any) => entry.incomeType === 'W2_WAGES')
+    .reduce((sum: number, entry: any) => sum + (parseFloat(entry.medicareTaxWithheld) || 0), 0)
+  return roundToCents(total)
+}
+
+// W-2 box 10 dependent care benefits
+export function calculateDependentCareBenefitsReceived(incomeEntries: any[]): number {
+  const total = (incomeEntries || [])
+    .filter((entry: any) => entry.incomeType === 'W2_WAGES')
+    .reduce((sum: number, entry: any) => sum + (parseFloat(entry.dependentCareBenefits) || 0), 0)
+  return roundToCents(total)
+}
+
+// Box 1 wages from the spouse's W-2s on a joint return
+export function calculateSpouseWages(incomeEntries: any[]): number {
+  const total = (incomeEntries || [])
+    .filter((entry: any) => entry.incomeType === 'W2_WAGES' && entry.forSpouse)
+    .reduce((sum: number, entry: any) => sum + (parseFloat(entry.amount) || 0), 0)
+  return roundToCents(total)
+}
+
+function sumW2Wages(incomeEntries: any[], field: 'socialSecurityWages' | 'medicareWages'): number {
+  const total = (incomeEntries || [])
+    .filter((entry: any) => entry.incomeType === 'W2_WAGES')
+    .reduce((sum: number, entry: any) => {
+      const boxAmount = entry[field] !== null && entry[field] !== undefined && entry[field] !== ''
+        ? parseFloat(entry[field])
+        : parseFloat(entry.amount)
+      return sum + (boxAmount || 0)
+    }, 0)
+  return roundToCents(total)
+}
+
+// calculateTaxReturn input for a saved return, built from its entries, businesses, capital transactions,
+// students, care providers, state residency and estimated payments
+export function buildTaxCalculationInput(taxReturn: any): { input: TaxCalculationInput, scheduleD: ScheduleDResult } {
+  const incomeEntries = taxReturn.incomeEntries || []
+  const businesses = taxReturn.businesses || []
+  const capitalTransactions = taxReturn.capitalTransactions || []
+  const taxYear = taxReturn.taxYear || DEFAULT_TAX_YEAR
+
+  const scheduleDInput = {
+    transactions: capitalTransactions,
+    filingStatus: taxReturn.filingStatus,
+    capitalGainDistributions: calculateCapitalGainDistributions(incomeEntries),
+    shortTermLossCarryover: Number(taxReturn.shortTermLossCarryover) || 0,
+    longTermLossCarryover: Number(taxReturn.longTermLossCarryover) || 0,
   }
+  const scheduleD = calculateScheduleD(scheduleDInput)
+  const totalIncome = incomeEntries.length > 0 || capitalTransactions.length > 0
+    ? calculateTotalIncome(incomeEntries, scheduleD.capitalGainOrLoss)
+    : Number(taxReturn.totalIncome) || 0
+
+  const input: TaxCalculationInput = {
+    totalIncome,
+    filingStatus: taxReturn.filingStatus,
+    dependents: taxReturn.dependents || [],
+    itemizedDeductions: 0, // Schedule A limits are applied to the deduction entries
+    deductionEntries: taxReturn.deductionEntries || [],
+    charitableCarryforward: Number(taxReturn.charitableCarryforward) || 0,
+    netOperatingLossCarryforward: Number(taxReturn.netOperatingLossCarryforward) || 0,
+    minimumTaxCreditCarryforward: Number(taxReturn.minimumTaxCreditCarryforward) || 0,
+    taxYear,
+    standardDeductionOptions: getStandardDeductionOptions(taxReturn),
+    federalWithholding: calculateFederalWithholding(incomeEntries),
+    estimatedTaxPayments: calculateEstimatedTaxPayments(taxReturn.estimatedPayments || []),
+    estimatedPayments: (taxReturn.estimatedPayments || []).map((payment: any) => ({
+      paymentType: payment.paymentType,
+      paymentDate: payment.paymentDate,
+      amount: Number(payment.amount) || 0,
+    })),
+    priorYearTax: taxReturn.priorYearTax != null ? Number(taxReturn.priorYearTax) : null,
+    priorYearAdjustedGrossIncome: taxReturn.priorYearAdjustedGrossIncome != null ? Number(taxReturn.priorYearAdjustedGrossIncome) : null,
+    earnedIncome: calculateEarnedIncome(incomeEntries, businesses, taxYear),
+    investmentIncome: calculateInvestmentIncome(incomeEntries, scheduleD.capitalGainOrLoss),
+    ...getFilerAges(taxReturn),
+    selfEmploymentIncome: calculateSelfEmploymentIncome(incomeEntries, businesses, taxYear),
+    spouseSelfEmploymentIncome: calculateSelfEmploymentIncome(incomeEntries, businesses, taxYear, true),
+    businessExpenses: calculateScheduleCSummary(businesses, incomeEntries, taxYear).totalExpenses,
+    socialSecurityWages: calculateSocialSecurityWages(incomeEntries),
+    spouseSocialSecurityWages: calculateSocialSecurityWages(incomeEntries, true),
+    medicareWages: calculateMedicareWages(incomeEntries),
+    qualifiedDividends: calculateQualifiedDividends(incomeEntries),
+    netCapitalGain: scheduleD.netCapitalGain,
+    coveredByRetirementPlan: incomeEntries.some((entry: any) => entry.incomeType === 'W2_WAGES' && entry.retirementPlan),
+    socialSecurityBenefits: calculateSocialSecurityBenefits(incomeEntries),
+    taxExemptInterest: calculateTaxExemptInterest(incomeEntries),
+    livedWithSpouse: Boolean(taxReturn.livedWithSpouse),
+    incentiveStockOptions: Number(taxReturn.incentiveStockOptions) || 0,
+    medicareTaxWithheld: calculateMedicareTaxWithheld(incomeEntries),
+    excessSocialSecurityTax: calculateExcessSocialSecurityTax(incomeEntries, taxYear),
+    educationStudents: taxReturn.educationStudents || [],
+    careProviders: taxReturn.careProviders || [],
+    dependentCareBenefits: calculateDependentCareBenefitsReceived(incomeEntries),
+    dependentCareBenefitsInWages: calculateDependentCareBenefitsInWages(incomeEntries),
+    spouseEarnedIncome: calculateSpouseWages(incomeEntries),
+    stateCode: taxReturn.state || null,
+    stateAdditions: Number(taxReturn.stateAdditions) || 0,
+    stateSubtractions: Number(taxReturn.stateSubtractions) || 0,
+    residencyPeriods: taxReturn.residencyPeriods || [],
+    stateIncomeLines: calculateStateIncomeLines(incomeEntries),
+  }
+
+  if (scheduleD.netGainOrLoss >= 0) {
+    return { input, scheduleD }
+  }
+
+  // The carryover of a net loss depends on taxable income, so Schedule D is figured again once that is known
+  const result = calculateTaxReturn(input)
+  const taxableIncomeBeforeLoss = roundToCents(
+    result.adjustedGrossIncome - Math.max(result.standardDeduction, result.itemizedDeduction) - scheduleD.capitalGainOrLoss
+  )
+  return { input, scheduleD: calculateScheduleD({ ...scheduleDInput, taxableIncomeBeforeLoss }) }
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
 }
@@ -0,0 +1,57 @@
+// Tax filing wizard steps. Returns store the step they are on and the steps they have finished by id, so ids are
+// only ever looked up through TAX_FILING_STEP.
+
+export const TAX_FILING_STEP = {
+  GETTING_STARTED: 1,
+  PERSONAL_INFORMATION: 2,
+  DEPENDENTS: 3,
+  INCOME: 4,
+  DEDUCTIONS: 5,
+  CALCULATION: 6,
+  REVIEW: 7,
+  FILING: 8,
+} as const
+
+export interface TaxFilingStepDetails {
+  id: number
+  title: string
+  description: string
+}
+
+export const TAX_FILING_STEPS: TaxFilingStepDetails[] = [
+  { id: TAX_FILING_STEP.GETTING_STARTED, title: 'Getting Started', description: 'Basic information and filing status' },
+  { id: TAX_FILING_STEP.PERSONAL_INFORMATION, title: 'Personal Information', description: 'Your details and contact information' },
+  { id: TAX_FILING_STEP.DEPENDENTS, title: 'Dependents', description: 'Children and relatives you support' },
+  { id: TAX_FILING_STEP.INCOME, title: 'Income', description: 'W-2s, 1099s, and other income sources' },
+  { id: TAX_FILING_STEP.DEDUCTIONS, title: 'Deductions', description: 'Standard or itemized deductions' },
+  { id: TAX_FILING_STEP.CALCULATION, title: 'Tax Calculation', description: 'Calculate your tax liability and credits' },
+  { id: TAX_FILING_STEP.REVIEW, title: 'Review', description: 'Review your complete tax return' },
+  { id: TAX_FILING_STEP.FILING, title: 'Filing', description: 'Submit your tax return' },
+]
+
+export const TAX_FILING_STEP_COUNT = TAX_FILING_STEPS.length
+
+export function getTaxFilingStepTitle(stepId: number): string {
+  return TAX_FILING_STEPS.find((step) => step.id === stepId)?.title || ''
+}
+
+// Step layouts stored returns can be on. Layout 1 had no Dependents step, so Income was step 3 and every later
+// step was one lower than it is now.
+export const TAX_FILING_STEP_LAYOUT_VERSION = 2
+
+export interface StoredTaxFilingSteps {
+  currentStep: number
+  completedSteps: number[]
+}
+
+// Renumbers a return's steps from the layout it was saved under to the current one
+export function remapTaxFilingSteps(steps: StoredTaxFilingSteps, layoutVersion: number): StoredTaxFilingSteps {
+  if (layoutVersion >= TAX_FILING_STEP_LAYOUT_VERSION) {
+    return steps
+  }
+  const remap = (step: number) => (step >= TAX_FILING_STEP.DEPENDENTS ? step + 1 : step)
+  return {
+    currentStep: remap(steps.currentStep),
+    completedSteps: steps.completedSteps.map(remap),
+  }
+}
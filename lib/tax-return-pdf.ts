@@ -0,0 +1,194 @@
+// Printable Form 1040 and schedules, drawn from the filled return forms
+
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib'
+import { fillReturnForms, FilledReturnForm } from './return-form-templates'
+
+// US Letter, in points
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 48
+
+const LINE_HEIGHT = 16
+const FONT_SIZE = 9
+const LINE_NUMBER_WIDTH = 34
+const AMOUNT_COLUMN_WIDTH = 96
+
+const RULE_COLOR = rgb(0.75, 0.75, 0.75)
+const SECTION_FILL = rgb(0.92, 0.92, 0.92)
+
+interface PageState {
+  page: PDFPage
+  y: number
+  pageNumber: number
+}
+
+interface Fonts {
+  regular: PDFFont
+  bold: PDFFont
+}
+
+// One page or more per form, in attachment sequence order, with signature lines after Form 1040
+export async function generateTaxReturnPdf(taxReturn: any): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(`${taxReturn.taxYear} Form 1040`)
+  pdf.setCreationDate(new Date())
+
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  }
+
+  for (const form of fillReturnForms(taxReturn)) {
+    drawForm(pdf, fonts, form, taxReturn)
+  }
+
+  return pdf.save()
+}
+
+function drawForm(pdf: PDFDocument, fonts: Fonts, form: FilledReturnForm, taxReturn: any) {
+  let state = startPage(pdf, fonts, form, 1, false)
+
+  const fields = form.fields.filter((field) => field.value)
+  fields.forEach((field) => {
+    state = ensureSpace(pdf, fonts, form, state, LINE_HEIGHT)
+    drawText(state.page, fonts.regular, field.label, MARGIN, state.y, FONT_SIZE, 200)
+    drawText(state.page, fonts.bold, field.value, MARGIN + 210, state.y, FONT_SIZE, PAGE_WIDTH - 2 * MARGIN - 210)
+    state.y -= LINE_HEIGHT
+  })
+  if (fields.length > 0) {
+    state.y -= LINE_HEIGHT / 2
+  }
+
+  form.sections.forEach((section) => {
+    state = ensureSpace(pdf, fonts, form, state, LINE_HEIGHT * 3)
+    state.page.drawRectangle({
+      x: MARGIN,
+      y: state.y - 4,
+      width: PAGE_WIDTH - 2 * MARGIN,
+      height: LINE_HEIGHT,
+      color: SECTION_FILL,
+    })
+    drawText(state.page, fonts.bold, section.title, MARGIN + 4, state.y, FONT_SIZE + 1)
+    state.y -= LINE_HEIGHT + 2
+
+    section.lines.forEach((line) => {
+      state = ensureSpace(pdf, fonts, form, state, LINE_HEIGHT)
+      const amountX = PAGE_WIDTH - MARGIN - AMOUNT_COLUMN_WIDTH
+      drawText(state.page, fonts.bold, line.line, MARGIN + 4, state.y, FONT_SIZE, LINE_NUMBER_WIDTH - 6)
+      drawText(
+        state.page,
+        fonts.regular,
+        line.label,
+        MARGIN + LINE_NUMBER_WIDTH,
+        state.y,
+        FONT_SIZE,
+        amountX - MARGIN - LINE_NUMBER_WIDTH - 8
+      )
+      if (line.amount !== null) {
+        const amount = formatAmount(line.amount)
+        const width = fonts.regular.widthOfTextAtSize(amount, FONT_SIZE)
+        drawText(state.page, fonts.regular, amount, PAGE_WIDTH - MARGIN - 4 - width, state.y, FONT_SIZE)
+      }
+      state.page.drawLine({
+        start: { x: MARGIN, y: state.y - 5 },
+        end: { x: PAGE_WIDTH - MARGIN, y: state.y - 5 },
+        thickness: 0.5,
+        color: RULE_COLOR,
+      })
+      state.y -= LINE_HEIGHT
+    })
+    state.y -= LINE_HEIGHT / 2
+  })
+
+  if (form.formId === 'FORM_1040') {
+    drawSignatureLines(pdf, fonts, form, state, taxReturn.filingStatus === 'MARRIED_FILING_JOINTLY')
+  }
+}
+
+function drawSignatureLines(pdf: PDFDocument, fonts: Fonts, form: FilledReturnForm, state: PageState, joint: boolean) {
+  const signers = joint ? ['Your signature', "Spouse's signature"] : ['Your signature']
+  state = ensureSpace(pdf, fonts, form, state, LINE_HEIGHT * (3 + signers.length * 2))
+
+  drawText(state.page, fonts.bold, 'Sign Here', MARGIN, state.y, FONT_SIZE + 1)
+  state.y -= LINE_HEIGHT
+  drawText(
+    state.page,
+    fonts.regular,
+    'Under penalties of perjury, I declare that I have examined this return and accompanying schedules and statements,',
+    MARGIN,
+    state.y,
+    FONT_SIZE - 1
+  )
+  state.y -= LINE_HEIGHT - 4
+  drawText(
+    state.page,
+    fonts.regular,
+    'and to the best of my knowledge and belief, they are true, correct, and complete.',
+    MARGIN,
+    state.y,
+    FONT_SIZE - 1
+  )
+  state.y -= LINE_HEIGHT * 2
+
+  signers.forEach((signer) => {
+    const dateX = PAGE_WIDTH - MARGIN - 150
+    state.page.drawLine({ start: { x: MARGIN, y: state.y }, end: { x: dateX - 20, y: state.y }, thickness: 0.75 })
+    state.page.drawLine({ start: { x: dateX, y: state.y }, end: { x: PAGE_WIDTH - MARGIN, y: state.y }, thickness: 0.75 })
+    drawText(state.page, fonts.regular, signer, MARGIN, state.y - 10, FONT_SIZE - 1)
+    drawText(state.page, fonts.regular, 'Date', dateX, state.y - 10, FONT_SIZE - 1)
+    state.y -= LINE_HEIGHT * 2
+  })
+}
+
+// Moves to a new page when the next block would run into the footer
+function ensureSpace(pdf: PDFDocument, fonts: Fonts, form: FilledReturnForm, state: PageState, height: number): PageState {
+  if (state.y - height >= MARGIN + LINE_HEIGHT) {
+    return state
+  }
+  return startPage(pdf, fonts, form, state.pageNumber + 1, true)
+}
+
+function startPage(pdf: PDFDocument, fonts: Fonts, form: FilledReturnForm, pageNumber: number, continued: boolean): PageState {
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  drawText(page, fonts.bold, continued ? `${form.title} (continued)` : form.title, MARGIN, y - 4, 16)
+  const year = String(form.taxYear)
+  page.drawText(year, {
+    x: PAGE_WIDTH - MARGIN - fonts.bold.widthOfTextAtSize(year, 20),
+    y: y - 6,
+    size: 20,
+    font: fonts.bold,
+  })
+  y -= LINE_HEIGHT + 4
+  drawText(page, fonts.regular, form.description, MARGIN, y, FONT_SIZE + 1)
+  if (form.attachmentSequence) {
+    const sequence = `Attachment Sequence No. ${form.attachmentSequence}`
+    drawText(page, fonts.regular, sequence, PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(sequence, FONT_SIZE), y, FONT_SIZE)
+  }
+  y -= 8
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 1.5 })
+
+  const footer = `${form.title} (${form.taxYear})  Page ${pageNumber}`
+  drawText(page, fonts.regular, footer, PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(footer, FONT_SIZE - 1), MARGIN - 16, FONT_SIZE - 1)
+
+  return { page, y: y - LINE_HEIGHT - 4, pageNumber }
+}
+
+// Standard fonts only cover Latin-1, so other characters are replaced; text wider than maxWidth is cut short
+function drawText(page: PDFPage, font: PDFFont, text: string, x: number, y: number, size: number, maxWidth?: number) {
+  let safeText = text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+  if (maxWidth && font.widthOfTextAtSize(safeText, size) > maxWidth) {
+    while (safeText.length > 0 && font.widthOfTextAtSize(`${safeText}...`, size) > maxWidth) {
+      safeText = safeText.slice(0, -1)
+    }
+    safeText = `${safeText}...`
+  }
+  page.drawText(safeText, { x, y, size, font })
+}
+
+// Negative amounts in parentheses, as on the printed forms
+function formatAmount(amount: number): string {
+  const formatted = Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  return amount < 0 ? `(${formatted})` : formatted
+}
@@ -0,0 +1,559 @@
+// Per-year federal tax parameters, selected by TaxReturn.taxYear
+
+export interface TaxBracket {
+  min: number
+  max: number
+  rate: number
+}
+
+export interface StandardDeduction {
+  single: number
+  marriedFilingJointly: number
+  marriedFilingSeparately: number
+  headOfHousehold: number
+  qualifyingSurvivingSpouse: number
+}
+
+// Filing statuses normalized to lowercase without underscores (e.g. MARRIED_FILING_JOINTLY -> marriedfilingjointly)
+export type FilingStatusKey =
+  | 'single'
+  | 'marriedfilingjointly'
+  | 'marriedfilingseparately'
+  | 'headofhousehold'
+  | 'qualifyingsurvivingspouse'
+
+export interface EITCParameters {
+  maxCredit: number
+  earnedIncomeAmount: number // Earned income at which the maximum credit is reached
+  phaseInRate: number
+  phaseOutRate: number
+  phaseOutStart: number
+  phaseOutStartJoint: number
+}
+
+export interface TaxYearRules {
+  taxYear: number
+  brackets: Record<FilingStatusKey, TaxBracket[]>
+  standardDeduction: StandardDeduction
+  // Per box checked for age 65+ or blindness
+  additionalStandardDeduction: {
+    married: number
+    unmarried: number
+  }
+  childTaxCredit: {
+    amountPerChild: number
+    refundableMaxPerChild: number
+    otherDependentAmount: number
+    phaseOutThreshold: number
+    phaseOutThresholdJoint: number
+  }
+  eitc: {
+    investmentIncomeLimit: number
+    // Indexed by number of qualifying children (0, 1, 2, 3 or more)
+    byQualifyingChildren: EITCParameters[]
+  }
+  saltCap: {
+    limit: number
+    marriedFilingSeparatelyLimit: number
+    // Cap is reduced for high-MAGI filers, but never below the floor
+    phaseOut?: {
+      threshold: number
+      marriedFilingSeparatelyThreshold: number
+      rate: number
+      floor: number
+      marriedFilingSeparatelyFloor: number
+    }
+  }
+  // Taxable income at which qualified dividends and long-term gains stop being taxed at 0% and 15%
+  capitalGains: {
+    zeroRateMax: Record<FilingStatusKey, number>
+    fifteenRateMax: Record<FilingStatusKey, number>
+  }
+  // Form 6251 exemption, the AMTI at which it starts phasing out, and the AMTI above which the 28% rate applies
+  alternativeMinimumTax: {
+    exemption: Record<FilingStatusKey, number>
+    phaseOutThreshold: Record<FilingStatusKey, number>
+    higherRateThreshold: number
+    higherRateThresholdMarriedSeparate: number
+  }
+  // Maximum earnings subject to the 12.4% social security portion of FICA and SE tax
+  socialSecurityWageBase: number
+  // Business standard mileage rate, dollars per mile
+  standardMileageRate: number
+  // MAGI range over which the student loan interest deduction phases out
+  studentLoanInterestPhaseOut: {
+    start: number
+    end: number
+    jointStart: number
+    jointEnd: number
+  }
+  // MAGI range over which the traditional IRA deduction phases out when covered by a workplace plan
+  iraDeductionPhaseOut: {
+    start: number
+    end: number
+    jointStart: number
+    jointEnd: number
+  }
+  contributionLimits: {
+    ira: number
+    iraCatchUp: number
+    hsaSelfOnly: number
+    hsaFamily: number
+    hsaCatchUp: number
+    educatorExpenses: number
+    studentLoanInterest: number
+  }
+  // Form 1040-ES installment due dates (moved past weekends and holidays), the return due date, and the
+  // Form 2210 underpayment interest rates, each in effect from its date until the next one
+  estimatedTax: {
+    dueDates: string[]
+    filingDeadline: string
+    underpaymentRates: { from: string, rate: number }[]
+  }
+}
+
+export const DEFAULT_TAX_YEAR = 2024
+
+export const TAX_YEAR_RULES: Record<number, TaxYearRules> = {
+  2023: {
+    taxYear: 2023,
+    brackets: {
+      single: [
+        { min: 0, max: 11000, rate: 0.10 },
+        { min: 11000, max: 44725, rate: 0.12 },
+        { min: 44725, max: 95375, rate: 0.22 },
+        { min: 95375, max: 182100, rate: 0.24 },
+        { min: 182100, max: 231250, rate: 0.32 },
+        { min: 231250, max: 578125, rate: 0.35 },
+        { min: 578125, max: Infinity, rate: 0.37 },
+      ],
+      marriedfilingjointly: [
+        { min: 0, max: 22000, rate: 0.10 },
+        { min: 22000, max: 89450, rate: 0.12 },
+        { min: 89450, max: 190750, rate: 0.22 },
+        { min: 190750, max: 364200, rate: 0.24 },
+        { min: 364200, max: 462500, rate: 0.32 },
+        { min: 462500, max: 693750, rate: 0.35 },
+        { min: 693750, max: Infinity, rate: 0.37 },
+      ],
+      marriedfilingseparately: [
+        { min: 0, max: 11000, rate: 0.10 },
+        { min: 11000, max: 44725, rate: 0.12 },
+        { min: 44725, max: 95375, rate: 0.22 },
+        { min: 95375, max: 182100, rate: 0.24 },
+        { min: 182100, max: 231250, rate: 0.32 },
+        { min: 231250, max: 346875, rate: 0.35 },
+        { min: 346875, max: Infinity, rate: 0.37 },
+      ],
+      headofhousehold: [
+        { min: 0, max: 15700, rate: 0.10 },
+        { min: 15700, max: 59850, rate: 0.12 },
+        { min: 59850, max: 95350, rate: 0.22 },
+        { min: 95350, max: 182100, rate: 0.24 },
+        { min: 182100, max: 231250, rate: 0.32 },
+        { min: 231250, max: 578100, rate: 0.35 },
+        { min: 578100, max: Infinity, rate: 0.37 },
+      ],
+      qualifyingsurvivingspouse: [
+        { min: 0, max: 22000, rate: 0.10 },
+        { min: 22000, max: 89450, rate: 0.12 },
+        { min: 89450, max: 190750, rate: 0.22 },
+        { min: 190750, max: 364200, rate: 0.24 },
+        { min: 364200, max: 462500, rate: 0.32 },
+        { min: 462500, max: 693750, rate: 0.35 },
+        { min: 693750, max: Infinity, rate: 0.37 },
+      ],
+    },
+    standardDeduction: {
+      single: 13850,
+      marriedFilingJointly: 27700,
+      marriedFilingSeparately: 13850,
+      headOfHousehold: 20800,
+      qualifyingSurvivingSpouse: 27700,
+    },
+    additionalStandardDeduction: { married: 1500, unmarried: 1850 },
+    childTaxCredit: {
+      amountPerChild: 2000,
+      refundableMaxPerChild: 1600,
+      otherDependentAmount: 500,
+      phaseOutThreshold: 200000,
+      phaseOutThresholdJoint: 400000,
+    },
+    eitc: {
+      investmentIncomeLimit: 11000,
+      byQualifyingChildren: [
+        { maxCredit: 600, earnedIncomeAmount: 7840, phaseInRate: 0.0765, phaseOutRate: 0.0765, phaseOutStart: 9800, phaseOutStartJoint: 16370 },
+        { maxCredit: 3995, earnedIncomeAmount: 11750, phaseInRate: 0.34, phaseOutRate: 0.1598, phaseOutStart: 21560, phaseOutStartJoint: 28120 },
+        { maxCredit: 6604, earnedIncomeAmount: 16510, phaseInRate: 0.40, phaseOutRate: 0.2106, phaseOutStart: 21560, phaseOutStartJoint: 28120 },
+        { maxCredit: 7430, earnedIncomeAmount: 16510, phaseInRate: 0.45, phaseOutRate: 0.2106, phaseOutStart: 21560, phaseOutStartJoint: 28120 },
+      ],
+    },
+    saltCap: { limit: 10000, marriedFilingSeparatelyLimit: 5000 },
+    capitalGains: {
+      zeroRateMax: {
+        single: 44625,
+        marriedfilingjointly: 89250,
+        marriedfilingseparately: 44625,
+        headofhousehold: 59750,
+        qualifyingsurvivingspouse: 89250,
+      },
+      fifteenRateMax: {
+        single: 492300,
+        marriedfilingjointly: 553850,
+        marriedfilingseparately: 276900,
+        headofhousehold: 523050,
+        qualifyingsurvivingspouse: 553850,
+      },
+    },
+    alternativeMinimumTax: {
+      exemption: {
+        single: 81300,
+        marriedfilingjointly: 126500,
+        marriedfilingseparately: 63250,
+        headofhousehold: 81300,
+        qualifyingsurvivingspouse: 126500,
+      },
+      phaseOutThreshold: {
+        single: 578150,
+        marriedfilingjointly: 1156300,
+        marriedfilingseparately: 578150,
+        headofhousehold: 578150,
+        qualifyingsurvivingspouse: 1156300,
+      },
+      higherRateThreshold: 220700,
+      higherRateThresholdMarriedSeparate: 110350,
+    },
+    socialSecurityWageBase: 160200,
+    standardMileageRate: 0.655,
+    studentLoanInterestPhaseOut: { start: 75000, end: 90000, jointStart: 155000, jointEnd: 185000 },
+    iraDeductionPhaseOut: {
+      start: 73000,
+      end: 83000,
+      jointStart: 116000,
+      jointEnd: 136000,
+    },
+    contributionLimits: {
+      ira: 6500,
+      iraCatchUp: 1000,
+      hsaSelfOnly: 3850,
+      hsaFamily: 7750,
+      hsaCatchUp: 1000,
+      educatorExpenses: 300,
+      studentLoanInterest: 2500,
+    },
+    estimatedTax: {
+      dueDates: ['2023-04-18', '2023-06-15', '2023-09-15', '2024-01-16'],
+      filingDeadline: '2024-04-15',
+      underpaymentRates: [
+        { from: '2023-01-01', rate: 0.07 },
+        { from: '2023-10-01', rate: 0.08 },
+      ],
+    },
+  },
+  2024: {
+    taxYear: 2024,
+    brackets: {
+      single: [
+        { min: 0, max: 11600, rate: 0.10 },
+        { min: 11600, max: 47150, rate: 0.12 },
+        { min: 47150, max: 100525, rate: 0.22 },
+        { min: 100525, max: 191950, rate: 0.24 },
+        { min: 191950, max: 243725, rate: 0.32 },
+        { min: 243725, max: 609350, rate: 0.35 },
+        { min: 609350, max: Infinity, rate: 0.37 },
+      ],
+      marriedfilingjointly: [
+        { min: 0, max: 23200, rate: 0.10 },
+        { min: 23200, max: 94300, rate: 0.12 },
+        { min: 94300, max: 201050, rate: 0.22 },
+        { min: 201050, max: 383900, rate: 0.24 },
+        { min: 383900, max: 487450, rate: 0.32 },
+        { min: 487450, max: 731200, rate: 0.35 },
+        { min: 731200, max: Infinity, rate: 0.37 },
+      ],
+      marriedfilingseparately: [
+        { min: 0, max: 11600, rate: 0.10 },
+        { min: 11600, max: 47150, rate: 0.12 },
+        { min: 47150, max: 100525, rate: 0.22 },
+        { min: 100525, max: 191950, rate: 0.24 },
+        { min: 191950, max: 243725, rate: 0.32 },
+        { min: 243725, max: 365600, rate: 0.35 },
+        { min: 365600, max: Infinity, rate: 0.37 },
+      ],
+      headofhousehold: [
+        { min: 0, max: 16550, rate: 0.10 },
+        { min: 16550, max: 63100, rate: 0.12 },
+        { min: 63100, max: 100500, rate: 0.22 },
+        { min: 100500, max: 191950, rate: 0.24 },
+        { min: 191950, max: 243700, rate: 0.32 },
+        { min: 243700, max: 609350, rate: 0.35 },
+        { min: 609350, max: Infinity, rate: 0.37 },
+      ],
+      qualifyingsurvivingspouse: [
+        { min: 0, max: 23200, rate: 0.10 },
+        { min: 23200, max: 94300, rate: 0.12 },
+        { min: 94300, max: 201050, rate: 0.22 },
+        { min: 201050, max: 383900, rate: 0.24 },
+        { min: 383900, max: 487450, rate: 0.32 },
+        { min: 487450, max: 731200, rate: 0.35 },
+        { min: 731200, max: Infinity, rate: 0.37 },
+      ],
+    },
+    standardDeduction: {
+      single: 14600,
+      marriedFilingJointly: 29200,
+      marriedFilingSeparately: 14600,
+      headOfHousehold: 21900,
+      qualifyingSurvivingSpouse: 29200,
+    },
+    additionalStandardDeduction: { married: 1550, unmarried: 1950 },
+    childTaxCredit: {
+      amountPerChild: 2000,
+      refundableMaxPerChild: 1700,
+      otherDependentAmount: 500,
+      phaseOutThreshold: 200000,
+      phaseOutThresholdJoint: 400000,
+    },
+    eitc: {
+      investmentIncomeLimit: 11600,
+      byQualifyingChildren: [
+        { maxCredit: 632, earnedIncomeAmount: 8260, phaseInRate: 0.0765, phaseOutRate: 0.0765, phaseOutStart: 10330, phaseOutStartJoint: 17250 },
+        { maxCredit: 4213, earnedIncomeAmount: 12390, phaseInRate: 0.34, phaseOutRate: 0.1598, phaseOutStart: 22720, phaseOutStartJoint: 29640 },
+        { maxCredit: 6960, earnedIncomeAmount: 17400, phaseInRate: 0.40, phaseOutRate: 0.2106, phaseOutStart: 22720, phaseOutStartJoint: 29640 },
+        { maxCredit: 7830, earnedIncomeAmount: 17400, phaseInRate: 0.45, phaseOutRate: 0.2106, phaseOutStart: 22720, phaseOutStartJoint: 29640 },
+      ],
+    },
+    saltCap: { limit: 10000, marriedFilingSeparatelyLimit: 5000 },
+    capitalGains: {
+      zeroRateMax: {
+        single: 47025,
+        marriedfilingjointly: 94050,
+        marriedfilingseparately: 47025,
+        headofhousehold: 63000,
+        qualifyingsurvivingspouse: 94050,
+      },
+      fifteenRateMax: {
+        single: 518900,
+        marriedfilingjointly: 583750,
+        marriedfilingseparately: 291850,
+        headofhousehold: 551350,
+        qualifyingsurvivingspouse: 583750,
+      },
+    },
+    alternativeMinimumTax: {
+      exemption: {
+        single: 85700,
+        marriedfilingjointly: 133300,
+        marriedfilingseparately: 66650,
+        headofhousehold: 85700,
+        qualifyingsurvivingspouse: 133300,
+      },
+      phaseOutThreshold: {
+        single: 609350,
+        marriedfilingjointly: 1218700,
+        marriedfilingseparately: 609350,
+        headofhousehold: 609350,
+        qualifyingsurvivingspouse: 1218700,
+      },
+      higherRateThreshold: 232600,
+      higherRateThresholdMarriedSeparate: 116300,
+    },
+    socialSecurityWageBase: 168600,
+    standardMileageRate: 0.67,
+    studentLoanInterestPhaseOut: { start: 80000, end: 95000, jointStart: 165000, jointEnd: 195000 },
+    iraDeductionPhaseOut: {
+      start: 77000,
+      end: 87000,
+      jointStart: 123000,
+      jointEnd: 143000,
+    },
+    contributionLimits: {
+      ira: 7000,
+      iraCatchUp: 1000,
+      hsaSelfOnly: 4150,
+      hsaFamily: 8300,
+      hsaCatchUp: 1000,
+      educatorExpenses: 300,
+      studentLoanInterest: 2500,
+    },
+    estimatedTax: {
+      dueDates: ['2024-04-15', '2024-06-17', '2024-09-16', '2025-01-15'],
+      filingDeadline: '2025-04-15',
+      underpaymentRates: [
+        { from: '2024-01-01', rate: 0.08 },
+        { from: '2025-01-01', rate: 0.07 },
+      ],
+    },
+  },
+  2025: {
+    taxYear: 2025,
+    brackets: {
+      single: [
+        { min: 0, max: 11925, rate: 0.10 },
+        { min: 11925, max: 48475, rate: 0.12 },
+        { min: 48475, max: 103350, rate: 0.22 },
+        { min: 103350, max: 197300, rate: 0.24 },
+        { min: 197300, max: 250525, rate: 0.32 },
+        { min: 250525, max: 626350, rate: 0.35 },
+        { min: 626350, max: Infinity, rate: 0.37 },
+      ],
+      marriedfilingjointly: [
+        { min: 0, max: 23850, rate: 0.10 },
+        { min: 23850, max: 96950, rate: 0.12 },
+        { min: 96950, max: 206700, rate: 0.22 },
+        { min: 206700, max: 394600, rate: 0.24 },
+        { min: 394600, max: 501050, rate: 0.32 },
+        { min: 501050, max: 751600, rate: 0.35 },
+        { min: 751600, max: Infinity, rate: 0.37 },
+      ],
+      marriedfilingseparately: [
+        { min: 0, max: 11925, rate: 0.10 },
+        { min: 11925, max: 48475, rate: 0.12 },
+        { min: 48475, max: 103350, rate: 0.22 },
+        { min: 103350, max: 197300, rate: 0.24 },
+        { min: 197300, max: 250525, rate: 0.32 },
+        { min: 250525, max: 375800, rate: 0.35 },
+        { min: 375800, max: Infinity, rate: 0.37 },
+      ],
+      headofhousehold: [
+        { min: 0, max: 17000, rate: 0.10 },
+        { min: 17000, max: 64850, rate: 0.12 },
+        { min: 64850, max: 103350, rate: 0.22 },
+        { min: 103350, max: 197300, rate: 0.24 },
+        { min: 197300, max: 250500, rate: 0.32 },
+        { min: 250500, max: 626350, rate: 0.35 },
+        { min: 626350, max: Infinity, rate: 0.37 },
+      ],
+      qualifyingsurvivingspouse: [
+        { min: 0, max: 23850, rate: 0.10 },
+        { min: 23850, max: 96950, rate: 0.12 },
+        { min: 96950, max: 206700, rate: 0.22 },
+        { min: 206700, max: 394600, rate: 0.24 },
+        { min: 394600, max: 501050, rate: 0.32 },
+        { min: 501050, max: 751600, rate: 0.35 },
+        { min: 751600, max: Infinity, rate: 0.37 },
+      ],
+    },
+    // One Big Beautiful Bill Act amounts (supersede Rev. Proc. 2024-40)
+    standardDeduction: {
+      single: 15750,
+      marriedFilingJointly: 31500,
+      marriedFilingSeparately: 15750,
+      headOfHousehold: 23625,
+      qualifyingSurvivingSpouse: 31500,
+    },
+    additionalStandardDeduction: { married: 1600, unmarried: 2000 },
+    childTaxCredit: {
+      amountPerChild: 2200,
+      refundableMaxPerChild: 1700,
+      otherDependentAmount: 500,
+      phaseOutThreshold: 200000,
+      phaseOutThresholdJoint: 400000,
+    },
+    eitc: {
+      investmentIncomeLimit: 11950,
+      byQualifyingChildren: [
+        { maxCredit: 649, earnedIncomeAmount: 8490, phaseInRate: 0.0765, phaseOutRate: 0.0765, phaseOutStart: 10620, phaseOutStartJoint: 17730 },
+        { maxCredit: 4328, earnedIncomeAmount: 12730, phaseInRate: 0.34, phaseOutRate: 0.1598, phaseOutStart: 23350, phaseOutStartJoint: 30470 },
+        { maxCredit: 7152, earnedIncomeAmount: 17880, phaseInRate: 0.40, phaseOutRate: 0.2106, phaseOutStart: 23350, phaseOutStartJoint: 30470 },
+        { maxCredit: 8046, earnedIncomeAmount: 17880, phaseInRate: 0.45, phaseOutRate: 0.2106, phaseOutStart: 23350, phaseOutStartJoint: 30470 },
+      ],
+    },
+    saltCap: {
+      limit: 40000,
+      marriedFilingSeparatelyLimit: 20000,
+      phaseOut: {
+        threshold: 500000,
+        marriedFilingSeparatelyThreshold: 250000,
+        rate: 0.30,
+        floor: 10000,
+        marriedFilingSeparatelyFloor: 5000,
+      },
+    },
+    capitalGains: {
+      zeroRateMax: {
+        single: 48350,
+        marriedfilingjointly: 96700,
+        marriedfilingseparately: 48350,
+        headofhousehold: 64750,
+        qualifyingsurvivingspouse: 96700,
+      },
+      fifteenRateMax: {
+        single: 533400,
+        marriedfilingjointly: 600050,
+        marriedfilingseparately: 300000,
+        headofhousehold: 566700,
+        qualifyingsurvivingspouse: 600050,
+      },
+    },
+    alternativeMinimumTax: {
+      exemption: {
+        single: 88100,
+        marriedfilingjointly: 137000,
+        marriedfilingseparately: 68500,
+        headofhousehold: 88100,
+        qualifyingsurvivingspouse: 137000,
+      },
+      phaseOutThreshold: {
+        single: 626350,
+        marriedfilingjointly: 1252700,
+        marriedfilingseparately: 626350,
+        headofhousehold: 626350,
+        qualifyingsurvivingspouse: 1252700,
+      },
+      higherRateThreshold: 239100,
+      higherRateThresholdMarriedSeparate: 119550,
+    },
+    socialSecurityWageBase: 176100,
+    standardMileageRate: 0.70,
+    studentLoanInterestPhaseOut: { start: 85000, end: 100000, jointStart: 170000, jointEnd: 200000 },
+    iraDeductionPhaseOut: {
+      start: 79000,
+      end: 89000,
+      jointStart: 126000,
+      jointEnd: 146000,
+    },
+    contributionLimits: {
+      ira: 7000,
+      iraCatchUp: 1000,
+      hsaSelfOnly: 4300,
+      hsaFamily: 8550,
+      hsaCatchUp: 1000,
+      educatorExpenses: 300,
+      studentLoanInterest: 2500,
+    },
+    estimatedTax: {
+      dueDates: ['2025-04-15', '2025-06-16', '2025-09-15', '2026-01-15'],
+      filingDeadline: '2026-04-15',
+      underpaymentRates: [
+        { from: '2025-01-01', rate: 0.07 },
+      ],
+    },
+  },
+}
+
+export const SUPPORTED_TAX_YEARS = Object.keys(TAX_YEAR_RULES).map(Number).sort((a, b) => a - b)
+
+export function isSupportedTaxYear(taxYear: number): boolean {
+  return Number.isInteger(taxYear) && taxYear in TAX_YEAR_RULES
+}
+
+export function getTaxYearRules(taxYear: number = DEFAULT_TAX_YEAR): TaxYearRules {
+  const rules = TAX_YEAR_RULES[taxYear]
+
+  if (!rules) {
+    throw new Error(`Unsupported tax year: ${taxYear}. Supported years: ${SUPPORTED_TAX_YEARS.join(', ')}`)
+  }
+
+  return rules
+}
+
+// The year being filed this season (returns are filed the calendar year after), capped to the latest supported year
+export function getFilingSeasonTaxYear(date: Date = new Date()): number {
+  const latestSupported = SUPPORTED_TAX_YEARS[SUPPORTED_TAX_YEARS.length - 1]
+  return Math.min(date.getFullYear() - 1, latestSupported)
+}
+
+export function normalizeFilingStatus(filingStatus: string): FilingStatusKey {
+  return (filingStatus || 'SINGLE').toLowerCase().replace(/_/g, '') as FilingStatusKey
+}
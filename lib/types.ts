@@ -43,6 +43,44 @@ export type IncomeType =
   | 'TAXABLE_PATRONAGE_DIVIDENDS'
   | 'QUALIFIED_EDUCATION_EXPENSES'
   | 'ARCHER_MSA_DISTRIBUTIONS'
+  | 'THIRD_PARTY_NETWORK_PAYMENTS'
+
+export type AccountingMethod = 'CASH' | 'ACCRUAL' | 'OTHER'
+
+export type HoldingPeriod = 'SHORT_TERM' | 'LONG_TERM'
+
+export type EducationCreditType = 'AMERICAN_OPPORTUNITY' | 'LIFETIME_LEARNING'
+
+export type EstimatedPaymentType = 'ESTIMATED_PAYMENT' | 'PRIOR_YEAR_OVERPAYMENT'
+
+export type CarryforwardType =
+  | 'SHORT_TERM_CAPITAL_LOSS'
+  | 'LONG_TERM_CAPITAL_LOSS'
+  | 'CHARITABLE_CONTRIBUTION'
+  | 'NET_OPERATING_LOSS'
+  | 'MINIMUM_TAX_CREDIT'
+
+export type FilingSubmissionStatus = 'PREPARED' | 'TRANSMITTED' | 'ACCEPTED' | 'REJECTED' | 'SUPERSEDED'
+
+export type BusinessExpenseCategory = 
+  | 'ADVERTISING'
+  | 'CAR_AND_TRUCK'
+  | 'COMMISSIONS_AND_FEES'
+  | 'CONTRACT_LABOR'
+  | 'DEPRECIATION'
+  | 'INSURANCE'
+  | 'INTEREST'
+  | 'LEGAL_AND_PROFESSIONAL'
+  | 'OFFICE_EXPENSE'
+  | 'RENT_OR_LEASE'
+  | 'REPAIRS_AND_MAINTENANCE'
+  | 'SUPPLIES'
+  | 'TAXES_AND_LICENSES'
+  | 'TRAVEL'
+  | 'MEALS'
+  | 'UTILITIES'
+  | 'WAGES'
+  | 'OTHER'
 
 export type DeductionType = 
   | 'MORTGAGE_INTEREST'
@@ -53,6 +91,11 @@ export type DeductionType =
   | 'STUDENT_LOAN_INTEREST'
   | 'IRA_CONTRIBUTIONS'
   | 'OTHER_DEDUCTIONS'
+  | 'HSA_CONTRIBUTIONS'
+  | 'EDUCATOR_EXPENSES'
+  | 'SELF_EMPLOYED_HEALTH_INSURANCE'
+
+export type CharitableContributionType = 'CASH' | 'NONCASH' | 'CAPITAL_GAIN_PROPERTY'
 
 export type DocumentType = 
   | 'W2'
@@ -77,6 +120,7 @@ export type DocumentType =
   | 'FORM_1098_E'
   | 'FORM_1098_T'
   | 'FORM_5498'
+  | 'SSA_1099'
   | 'SCHEDULE_K1'
   | 'OTHER_TAX_DOCUMENT'
   | 'RECEIPT'
@@ -125,9 +169,14 @@ export type TaxReturn = {
   firstName?: string | null
   lastName?: string | null
   ssn?: string | null
+  dateOfBirth?: Date | null
+  isBlind: boolean
   spouseFirstName?: string | null
   spouseLastName?: string | null
   spouseSsn?: string | null
+  spouseDateOfBirth?: Date | null
+  spouseIsBlind: boolean
+  livedWithSpouse: boolean
   address?: string | null
   city?: string | null
   state?: string | null
@@ -139,10 +188,33 @@ export type TaxReturn = {
   taxableIncome: Decimal
   taxLiability: Decimal
   totalCredits: Decimal
+  refundableCredits: Decimal
+  selfEmploymentTax: Decimal
+  alternativeMinimumTax: Decimal
+  shortTermLossCarryover: Decimal
+  longTermLossCarryover: Decimal
+  charitableCarryforward: Decimal
+  netOperatingLossCarryforward: Decimal
+  minimumTaxCreditCarryforward: Decimal
+  incentiveStockOptions: Decimal
+  stateAdditions: Decimal
+  stateSubtractions: Decimal
+  stateTaxLiability: Decimal
+  stateWithholding: Decimal
+  stateRefundAmount: Decimal
+  stateAmountOwed: Decimal
+  federalWithholding: Decimal
+  estimatedTaxPayments: Decimal
+  totalPayments: Decimal
   refundAmount: Decimal
   amountOwed: Decimal
+  priorYearTax?: Decimal | null
+  priorYearAdjustedGrossIncome?: Decimal | null
+  estimatedTaxPenalty: Decimal
+  priorYearReturnId?: string | null
   currentStep: number
   completedSteps: number[]
+  stepLayoutVersion: number
   lastSavedAt?: Date | null
   isCompleted: boolean
   isFiled: boolean
@@ -174,10 +246,185 @@ export type IncomeEntry = {
   incomeType: IncomeType
   description?: string | null
   amount: Decimal
+  federalTaxWithheld: Decimal
   employerName?: string | null
   employerEIN?: string | null
+  socialSecurityWages?: Decimal | null
+  medicareWages?: Decimal | null
+  retirementPlan: boolean
+  socialSecurityTaxWithheld?: Decimal | null
+  medicareTaxWithheld?: Decimal | null
+  dependentCareBenefits?: Decimal | null
+  forSpouse: boolean
   payerName?: string | null
   payerTIN?: string | null
+  qualifiedDividends?: Decimal | null
+  taxExemptInterest?: Decimal | null
+  businessId?: string | null
+  stateLines?: IncomeStateLine[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type Business = {
+  id: string
+  taxReturnId: string
+  name: string
+  ein?: string | null
+  activityCode?: string | null
+  description?: string | null
+  accountingMethod: AccountingMethod
+  forSpouse: boolean
+  homeOfficeSquareFeet: number
+  businessMiles: number
+  expenses?: BusinessExpense[]
+  incomeEntries?: IncomeEntry[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type CapitalTransaction = {
+  id: string
+  taxReturnId: string
+  uploadId?: string | null
+  brokerName?: string | null
+  description: string
+  dateAcquired?: Date | null
+  dateSold: Date
+  proceeds: Decimal
+  costBasis: Decimal
+  washSaleAdjustment: Decimal
+  accruedMarketDiscount: Decimal
+  holdingPeriod: HoldingPeriod
+  isCovered: boolean
+  reportedOn1099B: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type BusinessExpense = {
+  id: string
+  businessId: string
+  category: BusinessExpenseCategory
+  description?: string | null
+  amount: Decimal
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type Dependent = {
+  id: string
+  taxReturnId: string
+  firstName: string
+  lastName: string
+  ssn?: string | null
+  relationship: string
+  birthDate: Date
+  monthsLivedWithTaxpayer: number
+  isFullTimeStudent: boolean
+  isPermanentlyDisabled: boolean
+  qualifiesForCTC: boolean
+  qualifiesForEITC: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type IncomeStateLine = {
+  id: string
+  incomeEntryId: string
+  stateCode: string
+  stateWages: Decimal
+  stateTaxWithheld: Decimal
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type ResidencyPeriod = {
+  id: string
+  taxReturnId: string
+  stateCode: string
+  startDate: Date
+  endDate: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type EstimatedTaxPayment = {
+  id: string
+  taxReturnId: string
+  paymentType: EstimatedPaymentType
+  paymentDate: Date
+  amount: Decimal
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type Carryforward = {
+  id: string
+  userId: string
+  sourceReturnId: string
+  carryforwardType: CarryforwardType
+  originTaxYear: number
+  availableTaxYear: number
+  amount: Decimal
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type FilingSubmission = {
+  id: string
+  taxReturnId: string
+  submissionId: string
+  status: FilingSubmissionStatus
+  schemaVersion: string
+  returnXml: string
+  manifestXml: string
+  acknowledgmentXml: string | null
+  transmittedAt: Date | null
+  acknowledgedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type SubmissionRejection = {
+  id: string
+  filingSubmissionId: string
+  ruleNumber: string
+  errorMessage: string
+  documentPath: string | null
+  createdAt: Date
+}
+
+export type CareProvider = {
+  id: string
+  taxReturnId: string
+  dependentId?: string | null
+  name: string
+  address?: string | null
+  identifyingNumber?: string | null
+  isHouseholdEmployee: boolean
+  amountPaid: Decimal
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type EducationStudent = {
+  id: string
+  taxReturnId: string
+  dependentId?: string | null
+  uploadId?: string | null
+  studentName: string
+  studentSsn?: string | null
+  institutionName: string
+  institutionEin?: string | null
+  qualifiedExpenses: Decimal
+  scholarships: Decimal
+  creditType: EducationCreditType
+  aotcYearsClaimed: number
+  completedFirstFourYears: boolean
+  isHalfTimeStudent: boolean
+  isGraduateStudent: boolean
+  hasFelonyDrugConviction: boolean
   createdAt: Date
   updatedAt: Date
 }
@@ -188,6 +435,11 @@ export type DeductionEntry = {
   deductionType: DeductionType
   description?: string | null
   amount: Decimal
+  charitableType?: CharitableContributionType | null
+  mortgageBalance?: Decimal | null
+  isGrandfatheredMortgage: boolean
+  forSpouse: boolean
+  hsaFamilyCoverage: boolean
   createdAt: Date
   updatedAt: Date
 }
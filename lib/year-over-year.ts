@@ -0,0 +1,146 @@
+// Year-over-year comparison of a return against the prior year's, line by line
+
+import { buildTaxCalculationInput, calculateTaxReturn } from './tax-calculations'
+
+export interface YearOverYearLine {
+  label: string
+  current: number
+  prior: number
+  change: number
+  isTotal: boolean
+}
+
+export interface YearOverYearSection {
+  title: string
+  lines: YearOverYearLine[]
+}
+
+export interface YearOverYearComparison {
+  taxYear: number
+  priorTaxYear: number
+  sections: YearOverYearSection[]
+}
+
+// Both returns are recalculated from their entries under their own year's rules. Lines that are zero in both
+// years are left out; totals are always shown.
+export function compareTaxReturns(taxReturn: any, priorYearReturn: any): YearOverYearComparison {
+  const current = summarizeReturn(taxReturn)
+  const prior = summarizeReturn(priorYearReturn)
+
+  const line = (label: string, field: keyof ReturnSummary, isTotal: boolean = false): YearOverYearLine => ({
+    label,
+    current: roundToCents(current[field]),
+    prior: roundToCents(prior[field]),
+    change: roundToCents(current[field] - prior[field]),
+    isTotal,
+  })
+
+  const sections: YearOverYearSection[] = [
+    {
+      title: 'Income',
+      lines: [
+        line('Wages', 'wages'),
+        line('Interest', 'interest'),
+        line('Dividends', 'dividends'),
+        line('Business Income', 'businessIncome'),
+        line('Capital Gain or Loss', 'capitalGainOrLoss'),
+        line('Taxable Social Security', 'taxableSocialSecurity'),
+        line('Total Income', 'grossIncome', true),
+        line('Adjustments to Income', 'adjustmentsToIncome'),
+        line('Adjusted Gross Income', 'adjustedGrossIncome', true),
+      ],
+    },
+    {
+      title: 'Deductions',
+      lines: [
+        line('Standard Deduction', 'standardDeduction'),
+        line('Itemized Deductions', 'itemizedDeduction'),
+        line('Taxable Income', 'taxableIncome', true),
+      ],
+    },
+    {
+      title: 'Credits',
+      lines: [
+        line('Child Tax Credit', 'childTaxCredit'),
+        line('Additional Child Tax Credit', 'additionalChildTaxCredit'),
+        line('Earned Income Credit', 'earnedIncomeCredit'),
+        line('Education Credits', 'educationCredits'),
+        line('Child and Dependent Care Credit', 'dependentCareCredit'),
+        line('Total Credits', 'totalCredits', true),
+      ],
+    },
+    {
+      title: 'Tax',
+      lines: [
+        line('Income Tax', 'taxLiability'),
+        line('Alternative Minimum Tax', 'alternativeMinimumTax'),
+        line('Self-Employment Tax', 'selfEmploymentTax'),
+        line('Additional Medicare Tax', 'additionalMedicareTax'),
+        line('Net Investment Income Tax', 'netInvestmentIncomeTax'),
+        line('Total Tax', 'finalTax', true),
+        line('Total Payments', 'totalPayments'),
+        line('Estimated Tax Penalty', 'estimatedTaxPenalty'),
+        line('Refund', 'refundAmount', true),
+        line('Amount Owed', 'amountOwed', true),
+      ],
+    },
+  ]
+
+  return {
+    taxYear: taxReturn.taxYear,
+    priorTaxYear: priorYearReturn.taxYear,
+    sections: sections.map((section) => ({
+      ...section,
+      lines: section.lines.filter((entry) => entry.isTotal || entry.current !== 0 || entry.prior !== 0),
+    })),
+  }
+}
+
+type ReturnSummary = ReturnType<typeof summarizeReturn>
+
+function summarizeReturn(taxReturn: any) {
+  const { input, scheduleD } = buildTaxCalculationInput(taxReturn)
+  const result = calculateTaxReturn(input)
+  const incomeEntries = taxReturn.incomeEntries || []
+
+  return {
+    wages: sumIncome(incomeEntries, 'W2_WAGES'),
+    interest: sumIncome(incomeEntries, 'INTEREST'),
+    dividends: sumIncome(incomeEntries, 'DIVIDENDS'),
+    businessIncome: roundToCents(input.selfEmploymentIncome || 0),
+    capitalGainOrLoss: scheduleD.capitalGainOrLoss,
+    taxableSocialSecurity: result.socialSecurity.taxableBenefits,
+    grossIncome: result.grossIncome,
+    adjustmentsToIncome: result.adjustmentsToIncome,
+    adjustedGrossIncome: result.adjustedGrossIncome,
+    standardDeduction: result.standardDeduction,
+    itemizedDeduction: result.itemizedDeduction,
+    taxableIncome: result.taxableIncome,
+    childTaxCredit: result.childTaxCredit,
+    additionalChildTaxCredit: result.additionalChildTaxCredit,
+    earnedIncomeCredit: result.earnedIncomeCredit,
+    educationCredits: roundToCents(result.educationCredit + result.refundableEducationCredit),
+    dependentCareCredit: result.dependentCareCredit,
+    totalCredits: result.totalCredits,
+    taxLiability: result.taxLiability,
+    alternativeMinimumTax: result.alternativeMinimumTax,
+    selfEmploymentTax: result.selfEmploymentTax,
+    additionalMedicareTax: result.additionalMedicareTax,
+    netInvestmentIncomeTax: result.netInvestmentIncomeTax,
+    finalTax: result.finalTax,
+    totalPayments: result.totalPayments,
+    estimatedTaxPenalty: result.estimatedTaxPenalty,
+    refundAmount: result.refundAmount,
+    amountOwed: result.amountOwed,
+  }
+}
+
+function sumIncome(incomeEntries: any[], incomeType: string): number {
+  return roundToCents(incomeEntries
+    .filter((entry: any) => entry.incomeType === incomeType)
+    .reduce((sum: number, entry: any) => sum + (Number(entry.amount) || 0), 0))
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
@@ -6,7 +6,11 @@ const nextConfig = {
   output: process.env.NEXT_OUTPUT_MODE,
   experimental: {
     outputFileTracingRoot: path.join(__dirname, '../'),
-    serverComponentsExternalPackages: ['@prisma/client', 'prisma'],
+    serverComponentsExternalPackages: ['@prisma/client', 'prisma', 'xmllint-wasm'],
+    // MeF schemas are read from disk when a return is validated
+    outputFileTracingIncludes: {
+      '/api/tax-returns/[id]/efile': ['./lib/mef-schemas/**'],
+    },
   },
   webpack: (config, { isServer }) => {
     if (isServer) {
@@ -0,0 +1,39 @@
+
+import { PrismaClient } from '@prisma/client'
+import { remapTaxFilingSteps, TAX_FILING_STEP_LAYOUT_VERSION } from '../lib/tax-filing-steps'
+
+const prisma = new PrismaClient()
+
+// Renumbers the wizard steps of returns saved under an older step layout; returns already on the current layout
+// are left alone, so this is safe to run on every deploy
+async function remapStoredTaxFilingSteps() {
+  console.log('Remapping tax filing steps...')
+
+  const taxReturns = await prisma.taxReturn.findMany({
+    where: { stepLayoutVersion: { lt: TAX_FILING_STEP_LAYOUT_VERSION } },
+    select: { id: true, currentStep: true, completedSteps: true, stepLayoutVersion: true }
+  })
+
+  for (const taxReturn of taxReturns) {
+    const steps = remapTaxFilingSteps(taxReturn, taxReturn.stepLayoutVersion)
+    await prisma.taxReturn.update({
+      where: { id: taxReturn.id },
+      data: {
+        currentStep: steps.currentStep,
+        completedSteps: steps.completedSteps,
+        stepLayoutVersion: TAX_FILING_STEP_LAYOUT_VERSION
+      }
+    })
+  }
+
+  console.log(`Remapped steps on ${taxReturns.length} tax returns`)
+}
+
+remapStoredTaxFilingSteps()
+  .catch((e) => {
+    console.error('Error remapping tax filing steps:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -1,6 +1,7 @@
 
 import { PrismaClient } from '@prisma/client'
 import bcrypt from 'bcryptjs'
+import { TAX_FILING_STEP_LAYOUT_VERSION } from '../lib/tax-filing-steps'
 
 const prisma = new PrismaClient()
 
@@ -52,6 +53,7 @@ async function main() {
       refundAmount: 0,
       amountOwed: 0,
       currentStep: 1,
+      stepLayoutVersion: TAX_FILING_STEP_LAYOUT_VERSION,
       isCompleted: false,
       isFiled: false,
     },
@@ -150,6 +152,7 @@ async function main() {
       refundAmount: 1690,
       amountOwed: 0,
       currentStep: 1,
+      stepLayoutVersion: TAX_FILING_STEP_LAYOUT_VERSION,
       isCompleted: false,
       isFiled: false,
     },
@@ -246,6 +249,7 @@ async function main() {
       refundAmount: 0,
       amountOwed: 0,
       currentStep: 1,
+      stepLayoutVersion: TAX_FILING_STEP_LAYOUT_VERSION,
       isCompleted: false,
       isFiled: false,
     },
@@ -305,6 +309,7 @@ async function main() {
       refundAmount: 0,
       amountOwed: 0,
       currentStep: 1,
+      stepLayoutVersion: TAX_FILING_STEP_LAYOUT_VERSION,
       isCompleted: false,
       isFiled: false,
     },
@@ -380,6 +385,7 @@ async function main() {
       refundAmount: 0,
       amountOwed: 0,
       currentStep: 1,
+      stepLayoutVersion: TAX_FILING_STEP_LAYOUT_VERSION,
       isCompleted: false,
       isFiled: false,
     },
@@ -459,6 +465,7 @@ async function main() {
       refundAmount: 0,
       amountOwed: 0,
       currentStep: 1,
+      stepLayoutVersion: TAX_FILING_STEP_LAYOUT_VERSION,
       isCompleted: false,
       isFiled: false,
     },
@@ -536,6 +543,7 @@ async function main() {
       refundAmount: 0,
       amountOwed: 0,
       currentStep: 1,
+      stepLayoutVersion: TAX_FILING_STEP_LAYOUT_VERSION,
       isCompleted: false,
       isFiled: false,
     },